@@ -1,3 +1,4 @@
+import { randomBytes } from 'crypto';
 import dotenv from 'dotenv';
 import { z } from 'zod';
 
@@ -32,17 +33,56 @@ const envSchema = z.object({
   WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
   WHATSAPP_ACCESS_TOKEN: z.string().optional(),
   WHATSAPP_WEBHOOK_TOKEN: z.string().optional(),
+  // App secret de Meta: firma X-Hub-Signature-256 de cada POST al webhook
+  WHATSAPP_APP_SECRET: z.string().optional(),
   FUYI_PHONE_NUMBER: z.string().default('573238020198'),
   STORE_OWNER_PHONE: z.string().optional(),
-
-  // Comisión de intermediario (porcentaje)
-  INTERMEDIARY_COMMISSION_PERCENTAGE: z.string().default('12'),
+  // 'cloud' envía por la Graph API de Meta; 'simulator' guarda los mensajes en
+  // memoria y habilita /api/whatsapp/simulator (solo desarrollo y pruebas)
+  WHATSAPP_TRANSPORT: z.enum(['cloud', 'simulator']).default('cloud'),
+  // Firma de los webhooks que genera el simulador; sin valor, uno aleatorio por proceso
+  WHATSAPP_SIMULATOR_APP_SECRET: z.string().min(16).default(() => randomBytes(32).toString('hex')),
+  // Envíos manuales desde el panel: máximo por admin y por destinatario en una hora
+  WHATSAPP_SEND_LIMIT_PER_ADMIN: z.string().default('30'),
+  WHATSAPP_SEND_LIMIT_PER_RECIPIENT: z.string().default('5'),
 
   // Categorías de productos para el bot
   WHATSAPP_BOT_CATEGORIES: z.string().optional(),
   // Enable to expose Wompi API error payloads in responses for debugging (set to 'true')
   DEBUG_WOMPI_ERRORS: z.string().optional(),
 
+  // Minutos que se aparta el stock de un checkout Wompi pendiente
+  STOCK_RESERVATION_MINUTES: z.string().default('30'),
+
+  // Comisión inicial de un vendedor referido al aprobarlo (porcentaje)
+  SELLER_COMMISSION_PERCENTAGE: z.string().default('10'),
+
+  // Correo transaccional: 'console' (log), 'file' (escribe .eml en MAIL_FILE_DIR)
+  // o 'smtp'. En producción solo se admite 'smtp' con STARTTLS
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).default('console'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().default('1025'),
+  // 'none' para capturadores locales (Mailpit/MailHog), 'starttls' para un proveedor real
+  SMTP_TLS: z.enum(['none', 'starttls']).default('none'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  MAIL_FROM: z.string().default('MELO SPORTT <no-reply@melosportt.com>'),
+
+  // Facturación electrónica DIAN: 'stub' valida y guarda el XML en DIAN_STUB_DIR
+  // (sin red); 'http' lo envía al proveedor tecnológico en DIAN_PROVIDER_URL
+  DIAN_PROVIDER: z.enum(['stub', 'http']).default('stub'),
+  DIAN_STUB_DIR: z.string().default('tmp/dian'),
+  DIAN_PROVIDER_URL: z.string().optional(),
+  DIAN_PROVIDER_TOKEN: z.string().optional(),
+  // Ambiente DIAN: '1' producción, '2' pruebas (habilitación)
+  DIAN_ENVIRONMENT: z.enum(['1', '2']).default('2'),
+  // PIN del software registrado en la DIAN (CUDE de notas crédito)
+  DIAN_SOFTWARE_PIN: z.string().default('12345'),
+
+  // PDFs de facturas ya generados (uno por versión de la factura)
+  PDF_CACHE_DIR: z.string().default('tmp/pdf'),
+
   // Webhook router: JSON map of project prefixes to webhook URLs
   // Example: {"PROJ1":"https://proj1.com/webhook","PROJ2":"https://proj2.com/webhook"}
   WOMPI_WEBHOOK_ROUTES: z.string().optional(),
@@ -55,4 +95,29 @@ if (!parsed.success) {
   process.exit(1);
 }
 
+if (parsed.data.NODE_ENV === 'production' && parsed.data.WHATSAPP_TRANSPORT === 'simulator') {
+  console.error('Invalid environment variables: WHATSAPP_TRANSPORT=simulator is not allowed in production');
+  process.exit(1);
+}
+
+if (parsed.data.NODE_ENV === 'production' && parsed.data.MAIL_TRANSPORT !== 'smtp') {
+  console.error(`Invalid environment variables: MAIL_TRANSPORT=${parsed.data.MAIL_TRANSPORT} is not allowed in production`);
+  process.exit(1);
+}
+
+if (parsed.data.NODE_ENV === 'production' && parsed.data.SMTP_TLS !== 'starttls') {
+  console.error('Invalid environment variables: SMTP_TLS=starttls is required in production');
+  process.exit(1);
+}
+
+if (parsed.data.NODE_ENV === 'production' && (!parsed.data.DIAN_SOFTWARE_PIN || parsed.data.DIAN_SOFTWARE_PIN === '12345')) {
+  console.error('Invalid environment variables: DIAN_SOFTWARE_PIN must be set to the PIN registered with DIAN in production');
+  process.exit(1);
+}
+
+if (parsed.data.DIAN_PROVIDER === 'http' && !parsed.data.DIAN_PROVIDER_URL) {
+  console.error('Invalid environment variables: DIAN_PROVIDER=http requires DIAN_PROVIDER_URL');
+  process.exit(1);
+}
+
 export const env = parsed.data;
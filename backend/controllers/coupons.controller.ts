@@ -1,5 +1,77 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { couponService } from '../services/coupon.service';
+import { pricingService } from '../services/pricing.service';
+import type { AuthRequest } from '../types';
+
+const DISCOUNT_TYPES = ['percentage', 'fixed', 'buy_x_get_y', 'free_shipping'];
+const APPLICABILITY = ['all', 'specific', 'categories'];
+
+const INTEGER_FIELDS = ['per_customer_limit', 'min_items', 'buy_quantity', 'get_quantity'];
+// Campos opcionales: '' en el formulario significa "sin valor"
+const NULLABLE_FIELDS = [
+  'min_purchase', 'max_discount', 'usage_limit', 'expires_at', 'starts_at',
+  'product_ids', 'category_ids', ...INTEGER_FIELDS,
+];
+// Columnas que se pueden editar con PUT; las NOT NULL ignoran un null explícito
+const UPDATABLE_FIELDS = ['code', 'discount_type', 'discount_value', 'applicable_to', 'first_order_only', 'active', ...NULLABLE_FIELDS];
+
+const isPositiveInt = (value: unknown) =>
+  (typeof value === 'number' || typeof value === 'string') && /^\d+$/.test(String(value).trim()) && Number(value) > 0;
+
+/**
+ * Convierte '' en null en los campos opcionales, para que la base de datos no
+ * reciba cadenas vacías en columnas numéricas o de fecha
+ */
+const normalizeCouponBody = (body: any) => {
+  const normalized = { ...body };
+  for (const field of NULLABLE_FIELDS) {
+    if (normalized[field] === '') normalized[field] = null;
+  }
+  return normalized;
+};
+
+/**
+ * Valida el tipo de descuento y las reglas opcionales. Devuelve el mensaje de error o null.
+ * En actualizaciones solo se revisan los campos enviados.
+ */
+const validateCouponRules = (body: any, partial = false): string | null => {
+  const { discount_type, discount_value, applicable_to, category_ids, product_ids } = body;
+
+  if (discount_type !== undefined && !DISCOUNT_TYPES.includes(discount_type)) {
+    return 'Tipo de descuento inválido';
+  }
+
+  if (applicable_to !== undefined && !APPLICABILITY.includes(applicable_to)) {
+    return 'Aplicabilidad inválida';
+  }
+
+  if (!partial && applicable_to === 'specific' && !(Array.isArray(product_ids) && product_ids.length > 0)) {
+    return 'Selecciona al menos un producto para el cupón';
+  }
+
+  if (!partial && applicable_to === 'categories' && !(Array.isArray(category_ids) && category_ids.length > 0)) {
+    return 'Selecciona al menos una categoría para el cupón';
+  }
+
+  if (discount_type === 'buy_x_get_y') {
+    if (!isPositiveInt(body.buy_quantity) || !isPositiveInt(body.get_quantity)) {
+      return 'Indica cuántas unidades se compran y cuántas se reciben con descuento';
+    }
+    if (discount_value !== undefined && (discount_value <= 0 || discount_value > 100)) {
+      return 'El descuento de las unidades de regalo debe estar entre 1 y 100%';
+    }
+  }
+
+  for (const field of INTEGER_FIELDS) {
+    if (body[field] !== undefined && body[field] !== null && !isPositiveInt(body[field])) {
+      return `El campo ${field} debe ser un número entero mayor a 0`;
+    }
+  }
+
+  return null;
+};
 
 /**
  * Get all coupons (admin only)
@@ -12,36 +84,40 @@ export const getAllCoupons = async (req: Request, res: Response) => {
     const limitNum = parseInt(limit as string);
     const offset = (pageNum - 1) * limitNum;
 
-    let whereClause = '';
-    const queryParams: any[] = [limitNum, offset];
+    // Los códigos de campañas se administran desde /coupon-campaigns
+    const conditions = ['campaign_id IS NULL'];
+    const filterParams: any[] = [];
 
     if (status && status !== 'all') {
       const now = new Date();
       if (status === 'active') {
-        whereClause = `WHERE active = true AND (expires_at IS NULL OR expires_at > $3) AND (starts_at IS NULL OR starts_at <= $3)`;
-        queryParams.push(now);
+        conditions.push(`active = true AND (expires_at IS NULL OR expires_at > $1) AND (starts_at IS NULL OR starts_at <= $1)`);
+        filterParams.push(now);
       } else if (status === 'expired') {
-        whereClause = `WHERE expires_at IS NOT NULL AND expires_at <= $3`;
-        queryParams.push(now);
+        conditions.push(`expires_at IS NOT NULL AND expires_at <= $1`);
+        filterParams.push(now);
       } else if (status === 'scheduled') {
-        whereClause = `WHERE starts_at IS NOT NULL AND starts_at > $3`;
-        queryParams.push(now);
+        conditions.push(`starts_at IS NOT NULL AND starts_at > $1`);
+        filterParams.push(now);
       } else if (status === 'inactive') {
-        whereClause = `WHERE active = false`;
+        conditions.push(`active = false`);
       }
     }
 
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const limitIndex = filterParams.length + 1;
+
     const result = await pool.query(
       `SELECT * FROM coupons
        ${whereClause}
        ORDER BY created_at DESC
-       LIMIT $1 OFFSET $2`,
-      queryParams
+       LIMIT $${limitIndex} OFFSET $${limitIndex + 1}`,
+      [...filterParams, limitNum, offset]
     );
 
     const countResult = await pool.query(
       `SELECT COUNT(*) FROM coupons ${whereClause}`,
-      whereClause ? queryParams.slice(2) : []
+      filterParams
     );
 
     const totalCount = parseInt(countResult.rows[0].count);
@@ -108,6 +184,7 @@ export const getCouponById = async (req: Request, res: Response) => {
  */
 export const createCoupon = async (req: Request, res: Response) => {
   try {
+    const body = normalizeCouponBody(req.body);
     const {
       code,
       discount_type,
@@ -119,17 +196,31 @@ export const createCoupon = async (req: Request, res: Response) => {
       starts_at,
       applicable_to,
       product_ids,
+      category_ids,
+      per_customer_limit,
+      first_order_only,
+      min_items,
+      buy_quantity,
+      get_quantity,
       active,
-    } = req.body;
+    } = body;
 
-    // Validate required fields
-    if (!code || !discount_type || !discount_value) {
+    // Validate required fields (free_shipping no lleva valor)
+    if (!code || !discount_type || (!discount_value && discount_type !== 'free_shipping')) {
       return res.status(400).json({
         success: false,
         message: 'El código, tipo y valor del descuento son requeridos',
       });
     }
 
+    const rulesError = validateCouponRules(body);
+    if (rulesError) {
+      return res.status(400).json({
+        success: false,
+        message: rulesError,
+      });
+    }
+
     // Check if code already exists
     const existingCoupon = await pool.query(
       `SELECT id FROM coupons WHERE UPPER(code) = UPPER($1)`,
@@ -170,15 +261,21 @@ export const createCoupon = async (req: Request, res: Response) => {
         starts_at,
         applicable_to,
         product_ids,
+        category_ids,
+        per_customer_limit,
+        first_order_only,
+        min_items,
+        buy_quantity,
+        get_quantity,
         active,
         created_at,
         updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
       RETURNING *`,
       [
         code.toUpperCase(),
         discount_type,
-        discount_value,
+        discount_type === 'free_shipping' ? 0 : discount_value,
         min_purchase || null,
         max_discount || null,
         usage_limit || null,
@@ -186,6 +283,12 @@ export const createCoupon = async (req: Request, res: Response) => {
         starts_at || null,
         applicable_to || 'all',
         product_ids ? JSON.stringify(product_ids) : null,
+        category_ids ? JSON.stringify(category_ids) : null,
+        per_customer_limit || null,
+        first_order_only === true,
+        min_items || null,
+        discount_type === 'buy_x_get_y' ? buy_quantity : null,
+        discount_type === 'buy_x_get_y' ? get_quantity : null,
         active !== false,
       ]
     );
@@ -211,19 +314,7 @@ export const createCoupon = async (req: Request, res: Response) => {
 export const updateCoupon = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const {
-      code,
-      discount_type,
-      discount_value,
-      min_purchase,
-      max_discount,
-      usage_limit,
-      expires_at,
-      starts_at,
-      applicable_to,
-      product_ids,
-      active,
-    } = req.body;
+    const body = normalizeCouponBody(req.body);
 
     // Check if coupon exists
     const existingCoupon = await pool.query(
@@ -238,11 +329,26 @@ export const updateCoupon = async (req: Request, res: Response) => {
       });
     }
 
+    const current = existingCoupon.rows[0];
+    const rulesError = validateCouponRules({
+      ...body,
+      // buy_x_get_y necesita las cantidades aunque solo se cambie una de ellas
+      discount_type: body.discount_type ?? current.discount_type,
+      buy_quantity: 'buy_quantity' in body ? body.buy_quantity : current.buy_quantity,
+      get_quantity: 'get_quantity' in body ? body.get_quantity : current.get_quantity,
+    }, true);
+    if (rulesError) {
+      return res.status(400).json({
+        success: false,
+        message: rulesError,
+      });
+    }
+
     // If code is being changed, check if new code already exists
-    if (code && code.toUpperCase() !== existingCoupon.rows[0].code) {
+    if (body.code && body.code.toUpperCase() !== current.code) {
       const codeCheck = await pool.query(
         `SELECT id FROM coupons WHERE UPPER(code) = UPPER($1) AND id != $2`,
-        [code, id]
+        [body.code, id]
       );
 
       if (codeCheck.rows.length > 0) {
@@ -253,36 +359,35 @@ export const updateCoupon = async (req: Request, res: Response) => {
       }
     }
 
+    // Solo se tocan los campos enviados; un null explícito limpia los opcionales
+    const updates: string[] = [];
+    const values: any[] = [];
+    for (const field of UPDATABLE_FIELDS) {
+      if (!(field in body) || body[field] === undefined) continue;
+
+      let value = body[field];
+      if (value === null && !NULLABLE_FIELDS.includes(field)) continue;
+      if (field === 'code') value = String(value).toUpperCase();
+      if ((field === 'product_ids' || field === 'category_ids') && value !== null) value = JSON.stringify(value);
+
+      values.push(value);
+      updates.push(`${field} = $${values.length}`);
+    }
+
+    if (updates.length === 0) {
+      return res.json({
+        success: true,
+        data: { coupon: current },
+        message: 'Cupón actualizado exitosamente',
+      });
+    }
+
+    values.push(id);
     const result = await pool.query(
-      `UPDATE coupons SET
-        code = COALESCE($1, code),
-        discount_type = COALESCE($2, discount_type),
-        discount_value = COALESCE($3, discount_value),
-        min_purchase = COALESCE($4, min_purchase),
-        max_discount = COALESCE($5, max_discount),
-        usage_limit = COALESCE($6, usage_limit),
-        expires_at = COALESCE($7, expires_at),
-        starts_at = COALESCE($8, starts_at),
-        applicable_to = COALESCE($9, applicable_to),
-        product_ids = COALESCE($10, product_ids),
-        active = COALESCE($11, active),
-        updated_at = NOW()
-      WHERE id = $12
+      `UPDATE coupons SET ${updates.join(', ')}, updated_at = NOW()
+      WHERE id = $${values.length}
       RETURNING *`,
-      [
-        code?.toUpperCase(),
-        discount_type,
-        discount_value,
-        min_purchase,
-        max_discount,
-        usage_limit,
-        expires_at,
-        starts_at,
-        applicable_to,
-        product_ids ? JSON.stringify(product_ids) : null,
-        active,
-        id,
-      ]
+      values
     );
 
     res.json({
@@ -334,149 +439,95 @@ export const deleteCoupon = async (req: Request, res: Response) => {
 };
 
 /**
- * Validate and apply coupon (public)
+ * Validate and apply coupon (public; con sesión se revisan los límites por cliente)
+ * Recalcula el carrito con precios del servidor y devuelve el descuento por línea.
  */
-export const validateCoupon = async (req: Request, res: Response) => {
+export const validateCoupon = async (req: AuthRequest, res: Response) => {
   try {
-    const { code, cartItems, subtotal } = req.body;
+    const { code, cartItems, shipping_method, destination } = req.body;
 
-    if (!code || !cartItems || subtotal === undefined) {
+    if (!code || !Array.isArray(cartItems) || cartItems.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'Código de cupón, items del carrito y subtotal son requeridos',
+        message: 'Código de cupón e items del carrito son requeridos',
       });
     }
 
-    // Get coupon
-    const result = await pool.query(
-      `SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) AND active = true`,
-      [code]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Cupón no válido o inactivo',
+    const items = cartItems.map((item: any) => ({
+      product_id: String(item.product_id),
+      variant_id: item.variant_id || undefined,
+      quantity: Math.max(1, parseInt(item.quantity, 10) || 1),
+      selected_accessories: Array.isArray(item.selected_accessories) ? item.selected_accessories : undefined,
+    }));
+
+    // Sin destino todavía no hay envío que cotizar: el cupón se revisa solo
+    // contra las líneas del carrito
+    if (!destination) {
+      const { lines, subtotal } = await pricingService.priceItems(items);
+      const coupon = await couponService.evaluate(code, lines, {
+        userId: req.user?.id,
+        subtotal,
+        shippingCost: 0,
       });
-    }
-
-    const coupon = result.rows[0];
-    const now = new Date();
-
-    // Check if coupon has started
-    if (coupon.starts_at && new Date(coupon.starts_at) > now) {
-      return res.status(400).json({
-        success: false,
-        message: 'Este cupón aún no está disponible',
-      });
-    }
 
-    // Check if coupon has expired
-    if (coupon.expires_at && new Date(coupon.expires_at) < now) {
-      return res.status(400).json({
-        success: false,
-        message: 'Este cupón ha expirado',
-      });
-    }
-
-    // Check usage limit
-    if (coupon.usage_limit && coupon.used_count >= coupon.usage_limit) {
-      return res.status(400).json({
-        success: false,
-        message: 'Este cupón ha alcanzado su límite de uso',
-      });
-    }
-
-    // Check minimum purchase
-    if (coupon.min_purchase && subtotal < coupon.min_purchase) {
-      return res.status(400).json({
-        success: false,
-        message: `El mínimo de compra para este cupón es de $${coupon.min_purchase}`,
+      return res.json({
+        success: true,
+        data: {
+          coupon: {
+            id: coupon.coupon_id,
+            code: coupon.code,
+            discount_type: coupon.discount_type,
+            discount_value: coupon.discount_value,
+          },
+          discount_amount: coupon.discount,
+          shipping_discount: coupon.shipping_discount,
+          lines: coupon.lines,
+          subtotal,
+          shipping_cost: null,
+          total: null,
+        },
+        message: 'Cupón aplicado exitosamente',
       });
     }
 
-    // Check if applicable to products
-    if (coupon.applicable_to === 'specific' && coupon.product_ids) {
-      const productIds = JSON.parse(coupon.product_ids);
-      const hasApplicableProducts = cartItems.some((item: any) =>
-        productIds.includes(item.product_id)
-      );
-
-      if (!hasApplicableProducts) {
-        return res.status(400).json({
-          success: false,
-          message: 'Este cupón no es aplicable a los productos en tu carrito',
-        });
-      }
-    }
-
-    // Calculate discount
-    let discountAmount = 0;
-    if (coupon.discount_type === 'percentage') {
-      discountAmount = (subtotal * coupon.discount_value) / 100;
-      if (coupon.max_discount && discountAmount > coupon.max_discount) {
-        discountAmount = coupon.max_discount;
-      }
-    } else if (coupon.discount_type === 'fixed') {
-      discountAmount = coupon.discount_value;
-    }
-
-    // Discount cannot exceed subtotal
-    if (discountAmount > subtotal) {
-      discountAmount = subtotal;
-    }
+    const quote = await pricingService.quote({
+      items,
+      coupon_code: code,
+      shipping_method,
+      destination: { department: destination.department, city: destination.city },
+      user_id: req.user?.id,
+    });
+    const coupon = quote.coupon!;
 
     res.json({
       success: true,
       data: {
         coupon: {
-          id: coupon.id,
+          id: coupon.coupon_id,
           code: coupon.code,
           discount_type: coupon.discount_type,
           discount_value: coupon.discount_value,
         },
-        discount_amount: Math.round(discountAmount * 100) / 100,
+        discount_amount: coupon.discount,
+        shipping_discount: coupon.shipping_discount,
+        lines: coupon.lines,
+        subtotal: quote.subtotal,
+        shipping_cost: quote.shipping_cost,
+        total: quote.total,
       },
       message: 'Cupón aplicado exitosamente',
     });
   } catch (error: any) {
-    console.error('Error validating coupon:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error al validar el cupón',
-      error: error.message,
-    });
-  }
-};
-
-/**
- * Increment coupon usage (called when order is confirmed)
- */
-export const incrementCouponUsage = async (req: Request, res: Response) => {
-  try {
-    const { couponId } = req.body;
-
-    if (!couponId) {
-      return res.status(400).json({
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
         success: false,
-        message: 'ID del cupón es requerido',
+        message: error.message,
       });
     }
-
-    await pool.query(
-      `UPDATE coupons SET used_count = used_count + 1 WHERE id = $1`,
-      [couponId]
-    );
-
-    res.json({
-      success: true,
-      message: 'Uso del cupón incrementado',
-    });
-  } catch (error: any) {
-    console.error('Error incrementing coupon usage:', error);
+    console.error('Error validating coupon:', error);
     res.status(500).json({
       success: false,
-      message: 'Error al incrementar uso del cupón',
+      message: 'Error al validar el cupón',
       error: error.message,
     });
   }
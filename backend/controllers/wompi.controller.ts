@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { AppError } from '../middleware/errorHandler.js';
 import { wompiSecurity } from '../services/wompiSecurity.service.js';
 import { wompiService } from '../services/wompi.service.js';
+import { pricingService } from '../services/pricing.service.js';
 import { z } from 'zod';
 import crypto from 'crypto';
 import { env } from '../config/env.js';  // Import env to ensure consistent loading
@@ -18,8 +19,9 @@ const prepareTransactionSchema = z.object({
     title: z.string(),
     quantity: z.number().int().positive(),
     unit_price: z.number().positive(),
-    product_id: z.string().optional(), // Para crear order_items
-    variant_id: z.string().optional(),
+    product_id: z.string().uuid(), // Para recalcular precios y crear order_items
+    variant_id: z.string().uuid().optional(),
+    selected_accessories: z.array(z.string().uuid()).optional(),
   })).min(1, 'El carrito debe contener al menos un producto'),
 
   customer: z.object({
@@ -51,6 +53,9 @@ const prepareTransactionSchema = z.object({
   subtotal: z.number().optional(),
   shipping_cost: z.number().optional(),
   tax: z.number().optional(),
+  shipping_method: z.string().optional(),
+  coupon_code: z.string().optional(),
+  referral_code: z.string().trim().max(30).optional(), // Código del vendedor que refirió la compra
 
   // redirectUrl is now automatically configured by the backend
   // but we accept it for backwards compatibility with frontend
@@ -113,20 +118,23 @@ export const wompiSecurityController = {
         customer,
         shippingAddress,
         paymentType,
-        subtotal,
-        shipping_cost,
-        tax,
+        shipping_method,
+        coupon_code,
+        referral_code,
       } = prepareTransactionSchema.parse(req.body);
 
       // Obtener user_id del request autenticado
       const userId = (req as any).user?.id;
 
-      // 2. Calcular monto total EN CENTAVOS (sin redondeo)
-      const totalInCents = items.reduce((sum, item) => {
-        // Multiplicar por 100 para convertir pesos a centavos
-        const itemTotal = item.unit_price * item.quantity * 100;
-        return sum + Math.round(itemTotal); // Evitar problemas de punto flotante
-      }, 0);
+      // 2. Recalcular el pedido con precios del servidor y obtener el total EN CENTAVOS
+      const quote = await pricingService.quote({
+        items,
+        coupon_code,
+        shipping_method,
+        destination: shippingAddress ? { department: shippingAddress.region, city: shippingAddress.city } : null,
+        user_id: userId,
+      });
+      const totalInCents = Math.round(quote.total * 100);
 
       if (totalInCents <= 0) {
         throw new AppError('El monto total debe ser mayor a 0 COP', 400);
@@ -146,24 +154,27 @@ export const wompiSecurityController = {
       try {
         const { orderService } = await import('../services/order.service.js');
 
-        // Preparar datos de la orden
-        const orderItems = items.map(item => ({
-          product_id: item.product_id,
-          variant_id: item.variant_id,
-          quantity: item.quantity,
-          price: item.unit_price,
-        })).filter(item => item.product_id); // Solo incluir items con product_id
+        // Preparar datos de la orden con los precios recalculados
+        const orderItems = quote.items.map(line => ({
+          product_id: line.product_id,
+          variant_id: line.variant_id,
+          quantity: line.quantity,
+          price: line.unit_price,
+        }));
 
-        // Solo crear orden si tenemos product_ids (el frontend debe enviarlos)
         if (orderItems.length > 0) {
           const orderData = {
             user_id: userId,
             order_number: reference, // Usar la referencia de Wompi como order_number
-            subtotal: subtotal || totalInPesos,
-            discount: 0,
-            shipping_cost: shipping_cost || 0,
-            tax: tax || 0,
-            total: totalInPesos,
+            subtotal: quote.subtotal,
+            discount: quote.discount,
+            shipping_cost: quote.shipping_cost,
+            tax: quote.tax,
+            total: quote.total,
+            shipping_service_id: quote.shipping_option.service_id,
+            shipping_weight_g: quote.shipping.weight_g,
+            coupon_code: quote.coupon_code || undefined,
+            referral_code,
             status: 'pending' as const,
             payment_status: 'pending' as const,
             payment_method: 'wompi',
@@ -181,8 +192,8 @@ export const wompiSecurityController = {
             items: orderItems,
           };
 
-          // Crear orden sin reducir stock (se reducirá cuando el pago sea confirmado)
-          const order = await orderService.create(orderData as any, false);
+          // Apartar stock hasta que Wompi confirme el pago (se libera si falla o vence)
+          const order = await orderService.create(orderData as any, 'reserve');
           orderId = order.id;
           console.log(`[WompiSecurity] Pre-created order ${reference} with ID ${orderId}`);
         } else {
@@ -323,6 +334,11 @@ export const wompiSecurityController = {
             message: e.message,
           })),
         });
+      } else if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
       } else {
         throw error;
       }
@@ -625,6 +641,12 @@ export const wompiSecurityController = {
       return;
     }
 
+    // VOIDED sobre un pago aprobado se concilia con el ledger de reembolsos
+    if (transaction.status === 'VOIDED') {
+      await wompiSecurityController.handlePaymentVoided(transaction);
+      return;
+    }
+
     try {
       const { orderService } = await import('../services/order.service.js');
 
@@ -640,7 +662,6 @@ export const wompiSecurityController = {
       const statusMap: Record<string, { orderStatus?: string; paymentStatus: string }> = {
         // 'APPROVED' is handled above
         'DECLINED': { paymentStatus: 'failed' },
-        'VOIDED': { orderStatus: 'cancelled', paymentStatus: 'refunded' },
         'ERROR': { paymentStatus: 'failed' },
         'PENDING': { paymentStatus: 'pending' },
       };
@@ -655,6 +676,12 @@ export const wompiSecurityController = {
           await orderService.updateStatus(order.id, mapping.orderStatus as any);
         }
 
+        // Pago rechazado o con error: devolver el stock apartado
+        if (transaction.status === 'DECLINED' || transaction.status === 'ERROR') {
+          const { stockReservationService } = await import('../services/stock-reservation.service.js');
+          await stockReservationService.release(order.id, transaction.status === 'DECLINED' ? 'declined' : 'error');
+        }
+
         console.log(`[WompiWebhook] Order ${order.order_number} updated: payment=${mapping.paymentStatus}, status=${mapping.orderStatus || 'unchanged'}`);
       }
     } catch (error) {
@@ -699,7 +726,6 @@ export const wompiSecurityController = {
 
     try {
       const { orderService } = await import('../services/order.service.js');
-      const { query } = await import('../config/database.js');
 
       // Buscar orden con reintentos
       const order = await findOrderWithRetry(transaction.reference, transaction.id);
@@ -720,66 +746,11 @@ export const wompiSecurityController = {
       await orderService.updatePaymentStatus(order.id, 'paid', transaction.id, paymentMethod);
       await orderService.updateStatus(order.id, 'confirmed');
 
-      // Reducir stock de productos (la orden se creo con reduceStock=false)
-      const orderItemsResult = await query(
-        'SELECT product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
-        [order.id]
-      );
+      // Confirmar el stock apartado al preparar la transacción
+      const { stockReservationService } = await import('../services/stock-reservation.service.js');
+      await stockReservationService.commit(order.id);
 
-      for (const item of orderItemsResult.rows) {
-        // Reducir stock del producto
-        await query(`
-          UPDATE products
-          SET quantity = quantity - $1,
-              total_sold = COALESCE(total_sold, 0) + $1,
-              updated_at = NOW()
-          WHERE id = $2 AND track_quantity = true
-        `, [item.quantity, item.product_id]);
-
-        // Reducir stock de variante si aplica
-        if (item.variant_id) {
-          await query(`
-            UPDATE product_variants
-            SET quantity = quantity - $1, updated_at = NOW()
-            WHERE id = $2
-          `, [item.quantity, item.variant_id]);
-        }
-      }
-
-      console.log(`[WompiWebhook] Stock reduced for order ${order.order_number}`);
-
-      // Crear comisiones para todos los miembros del equipo con porcentaje de comision
-      const teamMembersResult = await query(`
-        SELECT id, user_id, position, commission_percentage
-        FROM team_members
-        WHERE commission_percentage > 0
-      `);
-
-      for (const member of teamMembersResult.rows) {
-        const commissionAmount = parseFloat(order.total.toString()) * (parseFloat(member.commission_percentage) / 100);
-
-        // Verificar que no exista ya una comision para este pedido y miembro
-        const existingCommission = await query(
-          'SELECT id FROM commissions WHERE order_id = $1 AND team_member_id = $2',
-          [order.id, member.id]
-        );
-
-        if (existingCommission.rows.length === 0) {
-          await query(`
-            INSERT INTO commissions (
-              team_member_id, order_id, order_total, commission_percentage, commission_amount, status
-            ) VALUES ($1, $2, $3, $4, $5, 'pending')
-          `, [
-            member.id,
-            order.id,
-            order.total,
-            member.commission_percentage,
-            commissionAmount
-          ]);
-
-          console.log(`[WompiWebhook] Commission created for team member ${member.id}: $${commissionAmount.toFixed(2)}`);
-        }
-      }
+      console.log(`[WompiWebhook] Stock committed for order ${order.order_number}`);
 
       console.log(`[WompiWebhook] Order ${order.order_number} marked as paid and confirmed`);
     } catch (error) {
@@ -792,7 +763,6 @@ export const wompiSecurityController = {
 
     try {
       const { orderService } = await import('../services/order.service.js');
-      const { query } = await import('../config/database.js');
 
       // Buscar orden por referencia
       const order = await orderService.getByOrderNumber(transaction.reference).catch(() => null);
@@ -805,31 +775,9 @@ export const wompiSecurityController = {
       // Marcar pedido como fallido
       await orderService.updatePaymentStatus(order.id, 'failed', transaction.id);
 
-      // Restaurar inventario - obtener items de la orden
-      const orderItemsResult = await query(
-        'SELECT product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
-        [order.id]
-      );
-
-      for (const item of orderItemsResult.rows) {
-        // Restaurar stock del producto
-        await query(`
-          UPDATE products
-          SET quantity = quantity + $1,
-              total_sold = GREATEST(0, COALESCE(total_sold, 0) - $1),
-              updated_at = NOW()
-          WHERE id = $2 AND track_quantity = true
-        `, [item.quantity, item.product_id]);
-
-        // Restaurar stock de variante si aplica
-        if (item.variant_id) {
-          await query(`
-            UPDATE product_variants
-            SET quantity = quantity + $1, updated_at = NOW()
-            WHERE id = $2
-          `, [item.quantity, item.variant_id]);
-        }
-      }
+      // Devolver el stock apartado para el checkout
+      const { stockReservationService } = await import('../services/stock-reservation.service.js');
+      await stockReservationService.release(order.id, 'declined');
 
       console.log(`[WompiWebhook] Order ${order.order_number} marked as failed, inventory restored`);
     } catch (error) {
@@ -842,56 +790,23 @@ export const wompiSecurityController = {
 
     try {
       const { orderService } = await import('../services/order.service.js');
-      const { query } = await import('../config/database.js');
+      const { refundService } = await import('../services/refund.service.js');
+      const { stockReservationService } = await import('../services/stock-reservation.service.js');
 
-      // Buscar orden por referencia o por ID de pago como fallback
-      let order = await orderService.getByOrderNumber(transaction.reference).catch(() => null);
-      if (!order) {
-        console.log(`[WompiWebhook] Order not found by reference ${transaction.reference}, trying paymentId ${transaction.id}`);
-        order = await orderService.getByPaymentId(transaction.id).catch(() => null);
-      }
+      const order = await orderService.getByOrderNumber(transaction.reference)
+        .catch(() => orderService.getByPaymentId(transaction.id))
+        .catch(() => null);
 
-      if (!order) {
-        console.warn(`[WompiWebhook] Order not found for reference: ${transaction.reference} or paymentId: ${transaction.id}`);
+      // Checkout nunca pagado: solo se devuelve el stock apartado
+      if (order && !['paid', 'partially_refunded', 'refunded'].includes(order.payment_status)) {
+        await orderService.updatePaymentStatus(order.id, 'failed', transaction.id);
+        await stockReservationService.release(order.id, 'voided');
         return;
       }
 
-      // Anular pedido
-      await orderService.updatePaymentStatus(order.id, 'refunded', transaction.id);
-      await orderService.updateStatus(order.id, 'cancelled');
-
-      // Restaurar inventario
-      const orderItemsResult = await query(
-        'SELECT product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
-        [order.id]
-      );
-
-      for (const item of orderItemsResult.rows) {
-        await query(`
-          UPDATE products
-          SET quantity = quantity + $1,
-              total_sold = GREATEST(0, COALESCE(total_sold, 0) - $1),
-              updated_at = NOW()
-          WHERE id = $2 AND track_quantity = true
-        `, [item.quantity, item.product_id]);
-
-        if (item.variant_id) {
-          await query(`
-            UPDATE product_variants
-            SET quantity = quantity + $1, updated_at = NOW()
-            WHERE id = $2
-          `, [item.quantity, item.variant_id]);
-        }
-      }
-
-      // Cancelar comisiones pendientes asociadas a esta orden
-      await query(`
-        UPDATE commissions
-        SET status = 'cancelled', updated_at = NOW()
-        WHERE order_id = $1 AND status = 'pending'
-      `, [order.id]);
-
-      console.log(`[WompiWebhook] Order ${order.order_number} voided, inventory restored, commissions cancelled`);
+      // Aplica la anulación pendiente o la registra si se hizo desde el dashboard.
+      // El ledger evita reponer inventario dos veces si el evento llega repetido.
+      await refundService.reconcileTransaction(transaction);
     } catch (error) {
       console.error('[WompiWebhook] Error handling payment voided:', error);
     }
@@ -901,29 +816,9 @@ export const wompiSecurityController = {
     console.log('[WompiWebhook] Refund applied:', transaction.id);
 
     try {
-      const { orderService } = await import('../services/order.service.js');
-      const { query } = await import('../config/database.js');
-
-      // Buscar orden por referencia
-      const order = await orderService.getByOrderNumber(transaction.reference).catch(() => null);
-
-      if (!order) {
-        console.warn(`[WompiWebhook] Order not found for reference: ${transaction.reference}`);
-        return;
-      }
-
-      // Actualizar estado de reembolso
-      await orderService.updatePaymentStatus(order.id, 'refunded', transaction.id);
-      await orderService.updateStatus(order.id, 'refunded');
-
-      // Cancelar comisiones asociadas
-      await query(`
-        UPDATE commissions
-        SET status = 'cancelled', updated_at = NOW()
-        WHERE order_id = $1 AND status IN ('pending', 'approved')
-      `, [order.id]);
+      const { refundService } = await import('../services/refund.service.js');
 
-      console.log(`[WompiWebhook] Order ${order.order_number} refunded, commissions cancelled`);
+      await refundService.reconcileTransaction(transaction);
     } catch (error) {
       console.error('[WompiWebhook] Error handling refund:', error);
     }
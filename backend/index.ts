@@ -10,6 +10,12 @@ import { pool, query } from './config/database.js';
 import routes from './routes/index.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
 import { initializeWebSocket } from './services/websocket.service.js';
+import { stockReservationService } from './services/stock-reservation.service.js';
+import { stockAlertService } from './services/stock-alert.service.js';
+import { orderEmailService } from './services/order-email.service.js';
+import { whatsappBotService } from './services/whatsapp-bot.service.js';
+import { trafficService } from './services/traffic.service.js';
+import type { RawBodyRequest } from './types/index.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -57,7 +63,15 @@ const limiter = rateLimit({
 app.use('/api', limiter);
 
 // Body parsing
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // La firma de Meta se calcula sobre los bytes exactos del cuerpo
+  verify: (req, _res, buf) => {
+    if ((req as RawBodyRequest).originalUrl?.startsWith('/api/whatsapp/webhook')) {
+      (req as RawBodyRequest).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check
@@ -211,6 +225,21 @@ httpServer.listen(PORT, () => {
     await runAutoMigrations();
     await runAutoSeed();
   })();
+
+  // Libera el stock de checkouts Wompi que vencieron sin pago
+  stockReservationService.startExpiryJob();
+
+  // Avisa a los admins cuando un producto o talla cruza su umbral de stock bajo
+  stockAlertService.startMonitor();
+
+  // Envía los correos transaccionales en cola y reintenta los fallidos
+  orderEmailService.startWorker();
+
+  // Recordatorio a conversaciones del bot de WhatsApp sin actividad
+  whatsappBotService.startTimeoutJob();
+
+  // Resume los eventos de navegación en las tablas de tráfico y conversión
+  trafficService.startRollupJob();
 });
 
 // Graceful shutdown
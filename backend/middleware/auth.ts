@@ -2,7 +2,13 @@ import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env.js';
 import { query } from '../config/database.js';
-import type { AuthRequest, JwtPayload, User } from '../types/index.js';
+import type { AuthRequest, JwtPayload, TeamPermission, User } from '../types/index.js';
+
+// Tokens emitidos antes de users.sessions_revoked_at (p. ej. tras restablecer la contraseña)
+const isSessionRevoked = (decoded: JwtPayload, user: User): boolean => {
+  if (!user.sessions_revoked_at || !decoded.iat) return false;
+  return decoded.iat < Math.floor(new Date(user.sessions_revoked_at).getTime() / 1000);
+};
 
 export const authenticate = async (
   req: AuthRequest,
@@ -34,7 +40,17 @@ export const authenticate = async (
       return;
     }
 
-    req.user = result.rows[0] as User;
+    const user = result.rows[0] as User;
+
+    if (isSessionRevoked(decoded, user)) {
+      res.status(401).json({
+        success: false,
+        error: 'Session expired',
+      });
+      return;
+    }
+
+    req.user = user;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -68,7 +84,7 @@ export const optionalAuth = async (
     const decoded = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
     const result = await query('SELECT * FROM users WHERE id = $1', [decoded.userId]);
 
-    if (result.rows.length > 0) {
+    if (result.rows.length > 0 && !isSessionRevoked(decoded, result.rows[0] as User)) {
       req.user = result.rows[0] as User;
     }
 
@@ -129,3 +145,60 @@ export const requireSuperAdmin = (
 
   next();
 };
+
+/**
+ * Admin con un permiso concreto de team_members (p. ej. can_manage_orders).
+ * super_admin tiene todos los permisos; un admin sin fila en team_members, los de admin.
+ */
+export const requirePermission = (permission: TeamPermission) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  if (req.user.role === 'super_admin') {
+    next();
+    return;
+  }
+
+  if (req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Admin access required',
+    });
+    return;
+  }
+
+  try {
+    // permission es un nombre de columna de la lista cerrada TeamPermission
+    const result = await query(
+      `SELECT ${permission} AS allowed FROM team_members WHERE user_id = $1`,
+      [req.user.id]
+    );
+
+    // Un admin sin fila en team_members conserva el acceso de admin; solo una
+    // fila que niega el permiso lo restringe
+    const member = result.rows[0];
+    if (member && !member.allowed) {
+      res.status(403).json({
+        success: false,
+        error: `Permission required: ${permission}`,
+      });
+      return;
+    }
+
+    next();
+  } catch {
+    res.status(500).json({
+      success: false,
+      error: 'Authorization failed',
+    });
+  }
+};
@@ -0,0 +1,87 @@
+import { Response, NextFunction } from 'express';
+import { whatsappWebhookService, type WebhookRejectionReason } from '../services/whatsapp-webhook.service.js';
+import type { RawBodyRequest } from '../types/index.js';
+
+// Registro de rechazos por IP: como máximo REJECTION_LOG_LIMIT por ventana, para
+// que un emisor insistente no llene los logs ni la tabla de diagnóstico
+const REJECTION_LOG_WINDOW_MS = 60 * 1000;
+const REJECTION_LOG_LIMIT = 10;
+const MAX_TRACKED_IPS = 10000;
+const rejectionLog = new Map<string, { windowStart: number; count: number }>();
+
+/**
+ * true si este rechazo se registra. Al abrir una ventana nueva informa cuántos
+ * rechazos de esa IP se omitieron en la anterior.
+ */
+function shouldLogRejection(ip: string): boolean {
+  const now = Date.now();
+  const entry = rejectionLog.get(ip);
+
+  if (!entry || now - entry.windowStart >= REJECTION_LOG_WINDOW_MS) {
+    if (entry && entry.count > REJECTION_LOG_LIMIT) {
+      console.error(`🚨 [WhatsApp] ${entry.count - REJECTION_LOG_LIMIT} rechazo(s) más de ${ip} sin registrar`);
+    }
+    if (!entry && rejectionLog.size >= MAX_TRACKED_IPS) rejectionLog.clear();
+    rejectionLog.set(ip, { windowStart: now, count: 1 });
+    return true;
+  }
+
+  entry.count++;
+  return entry.count <= REJECTION_LOG_LIMIT;
+}
+
+/**
+ * Middleware para validar webhooks de WhatsApp Cloud API
+ * Protege contra mensajes falsos que avancen el bot o creen pedidos
+ *
+ * Meta envía:
+ * - Header: X-Hub-Signature-256 = "sha256=" + HMAC_SHA256(app secret, cuerpo crudo)
+ *
+ * La firma se calcula sobre los bytes recibidos, no sobre el JSON re-serializado,
+ * por eso index.ts guarda req.rawBody para esta ruta.
+ */
+export const validateWhatsAppWebhook = async (
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const signature = req.get('X-Hub-Signature-256') || '';
+  const secret = whatsappWebhookService.getAppSecret();
+
+  // El cuerpo de una entrega sin firma válida no se guarda: no viene de Meta
+  const reject = async (reason: WebhookRejectionReason, status: number, error: string) => {
+    if (shouldLogRejection(req.ip || 'unknown')) {
+      console.error(`🚨 [WhatsApp] Webhook rechazado: ${reason}`, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      await whatsappWebhookService.recordRejection({
+        reason,
+        signature: signature || undefined,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+    }
+
+    res.status(status).json({ success: false, error });
+  };
+
+  if (!secret) {
+    // Sin secreto no hay forma de distinguir a Meta de cualquier otro; 503 para que Meta reintente
+    await reject('secret_not_configured', 503, 'Webhook signature verification is not configured');
+    return;
+  }
+
+  if (!signature || !req.rawBody) {
+    await reject('missing_signature', 401, 'Missing webhook signature');
+    return;
+  }
+
+  if (!whatsappWebhookService.verifySignature(req.rawBody, signature, secret)) {
+    await reject('invalid_signature', 401, 'Invalid webhook signature');
+    return;
+  }
+
+  next();
+};
@@ -2,12 +2,53 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { analyticsService } from '../services/analytics.service.js';
 import { orderService } from '../services/order.service.js';
+import { trafficService } from '../services/traffic.service.js';
 import analyticsServiceReal from '../src/services/analyticsService.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, optionalAuth, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
 
 const router = Router();
 
-// All analytics routes require admin authentication
+const trackingId = z.string().trim().min(8).max(64).regex(/^[A-Za-z0-9_-]+$/);
+const utmValue = z.string().trim().max(100).nullable().optional();
+
+const eventsSchema = z.object({
+  session_id: trackingId,
+  visitor_id: trackingId,
+  attribution: z.object({
+    referrer: z.string().trim().max(500).nullable().optional(),
+    utm_source: utmValue,
+    utm_medium: utmValue,
+    utm_campaign: utmValue,
+    utm_term: utmValue,
+    utm_content: utmValue,
+  }).default({}),
+  events: z.array(z.object({
+    type: z.enum(['page_view', 'product_view', 'add_to_cart', 'begin_checkout', 'purchase']),
+    path: z.string().trim().max(500).nullable().optional(),
+    product_id: z.string().uuid().nullable().optional(),
+    order_id: z.string().uuid().nullable().optional(),
+    order_number: z.string().trim().max(50).nullable().optional(),
+    occurred_at: z.string().datetime().optional(),
+  })).min(1).max(20),
+});
+
+// Track storefront events (public; sessions come from the browser)
+router.post('/events', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = eventsSchema.parse(req.body);
+    const recorded = await trafficService.record({
+      ...data,
+      user_id: req.user?.id ?? null,
+      user_agent: req.get('user-agent') ?? null,
+    });
+    res.status(202).json({ success: true, data: { recorded } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The remaining analytics routes require admin authentication
 
 // Get dashboard metrics (using real data)
 router.get('/dashboard', authenticate, requireAdmin, async (_req: Request, res: Response, next: NextFunction) => {
@@ -66,6 +107,22 @@ router.get('/sales-overview', authenticate, requireAdmin, async (req: Request, r
   }
 });
 
+// Get inventory report ranked by days of cover
+router.get('/inventory', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { days, target_days, limit } = z.object({
+      days: z.coerce.number().int().min(1).max(365).optional(),
+      target_days: z.coerce.number().int().min(1).max(365).optional(),
+      limit: z.coerce.number().int().min(1).max(1000).optional(),
+    }).parse(req.query);
+
+    const data = await analyticsService.getInventoryReport({ days, targetDays: target_days, limit });
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get product stats for admin
 router.get('/products/:productId/stats', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
   try {
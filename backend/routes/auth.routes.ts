@@ -1,5 +1,6 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import rateLimit from 'express-rate-limit';
 import { authService } from '../services/auth.service.js';
 import { authenticate } from '../middleware/auth.js';
 import type { AuthRequest } from '../types/index.js';
@@ -12,6 +13,19 @@ const signUpSchema = z.object({
   fullName: z.string().min(2, 'Name must be at least 2 characters'),
 });
 
+const resetPasswordConfirmSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+// Máximo 3 solicitudes de restablecimiento por email por hora (misma respuesta exista o no la cuenta)
+const resetPasswordLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  keyGenerator: (req) => String(req.body?.email || '').trim().toLowerCase() || req.ip || 'unknown',
+  message: { success: false, error: 'Too many reset requests for this email, please try again later' },
+});
+
 const signInSchema = z.object({
   email: z.string().email('Invalid email'),
   password: z.string().min(1, 'Password is required'),
@@ -67,16 +81,27 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response, next: Ne
 });
 
 // Reset password request
-router.post('/reset-password', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/reset-password', resetPasswordLimiter, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { email } = z.object({ email: z.string().email() }).parse(req.body);
-    await authService.resetPassword(email);
+    await authService.resetPassword(email, req.ip);
     res.json({ success: true, message: 'If the email exists, a reset link has been sent' });
   } catch (error) {
     next(error);
   }
 });
 
+// Confirm password reset (single-use token from the email link)
+router.post('/reset-password/confirm', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = resetPasswordConfirmSchema.parse(req.body);
+    await authService.confirmPasswordReset(token, password);
+    res.json({ success: true, message: 'Password has been reset. Please sign in again' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update password
 router.put('/password', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
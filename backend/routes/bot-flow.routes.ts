@@ -0,0 +1,108 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { botFlowService } from '../services/bot-flow.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest, BotFlowDefinition } from '../types/index.js';
+
+const router = Router();
+
+// La forma detallada del JSON la revisa botFlowService.validate
+const createFlowSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  definition: z.record(z.unknown()),
+});
+
+const updateFlowSchema = createFlowSchema.partial().extend({
+  version: z.number().int().positive().optional(),
+});
+
+// List bot flows (Admin)
+router.get('/', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const flows = await botFlowService.getAll();
+    res.json({ success: true, data: flows, count: flows.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Built-in default flow, to restore or start a new one from it (Admin)
+router.get('/default', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: botFlowService.getDefault() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Validate a definition without saving it (Admin)
+router.post('/validate', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { definition } = z.object({ definition: z.unknown() }).parse(req.body ?? {});
+    res.json({ success: true, data: botFlowService.validate(definition) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a bot flow (Admin)
+router.get('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const flow = await botFlowService.getById(req.params.id as string);
+    res.json({ success: true, data: flow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a draft flow (Admin)
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = createFlowSchema.parse(req.body);
+    const flow = await botFlowService.create(
+      { ...data, definition: data.definition as unknown as BotFlowDefinition },
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: flow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Edit a flow; editing the active flow publishes the change (Admin)
+router.put('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = updateFlowSchema.parse(req.body);
+    const flow = await botFlowService.update(
+      req.params.id as string,
+      { ...data, definition: data.definition as unknown as BotFlowDefinition | undefined },
+      req.user!.id
+    );
+    res.json({ success: true, data: flow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Make a flow the one the bot uses (Admin)
+router.post('/:id/activate', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const flow = await botFlowService.activate(req.params.id as string, req.user!.id);
+    res.json({ success: true, data: flow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an inactive flow (Admin)
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await botFlowService.delete(req.params.id as string);
+    res.json({ success: true, message: 'Flujo eliminado' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,10 +1,23 @@
-import { Router, Response } from 'express';
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { commissionService } from '../services/commission.service.js';
 import { authenticate, requireAdmin, requireSuperAdmin } from '../middleware/auth.js';
 import type { AuthRequest } from '../types/index.js';
 
 const router = Router();
 
+const ruleSchema = z.object({
+  team_member_id: z.string().uuid().nullable().optional(),
+  earner_type: z.enum(['team', 'seller']).optional(),
+  rule_type: z.enum(['category', 'channel', 'tier']),
+  category_id: z.string().uuid().nullable().optional(),
+  channel: z.enum(['web', 'whatsapp']).nullable().optional(),
+  min_monthly_volume: z.number().min(0).nullable().optional(),
+  rate: z.number().min(0).max(100),
+  active: z.boolean().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
 /**
  * GET /api/commissions
  * Obtiene todas las comisiones con filtros (solo admin+)
@@ -257,4 +270,70 @@ router.get(
   }
 );
 
+/**
+ * GET /api/commissions/rules
+ * Reglas de comisión; con team_member_id, las del miembro y las globales (solo admin+)
+ */
+router.get('/rules', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { team_member_id } = z.object({ team_member_id: z.string().uuid().optional() }).parse(req.query);
+    const rules = await commissionService.getRules(team_member_id);
+    res.json({ success: true, data: rules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/commissions/rules
+ * Crea una regla por categoría, canal o tramo de volumen (solo super_admin)
+ */
+router.post('/rules', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rule = await commissionService.createRule(ruleSchema.parse(req.body));
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/commissions/rules/:id
+ * Actualiza una regla de comisión (solo super_admin)
+ */
+router.patch('/rules/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rule = await commissionService.updateRule(req.params.id as string, ruleSchema.partial().parse(req.body));
+    res.json({ success: true, data: rule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/commissions/rules/:id
+ * Elimina una regla de comisión (solo super_admin)
+ */
+router.delete('/rules/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await commissionService.deleteRule(req.params.id as string);
+    res.json({ success: true, message: 'Regla eliminada' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/commissions/orders/:id/accrue
+ * Causa de nuevo las comisiones de una orden entregada (solo admin+)
+ */
+router.post('/orders/:id/accrue', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const created = await commissionService.accrueForOrder(req.params.id as string);
+    res.json({ success: true, data: { created } });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
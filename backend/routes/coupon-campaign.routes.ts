@@ -0,0 +1,101 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { couponCampaignService, MAX_CODES_PER_BATCH } from '../services/coupon-campaign.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+const router = Router();
+
+const quantitySchema = z.number().int().positive().max(MAX_CODES_PER_BATCH);
+
+// Las reglas las revisa campaignRulesSchema en el servicio
+const createCampaignSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  code_prefix: z.string().trim().regex(/^[A-Za-z0-9]{2,12}$/, 'El prefijo debe tener entre 2 y 12 letras o números'),
+  quantity: quantitySchema,
+  rules: z.record(z.unknown()),
+});
+
+const updateCampaignSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// List campaigns with stats (Admin)
+router.get('/', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const campaigns = await couponCampaignService.getAll();
+    res.json({ success: true, data: campaigns, count: campaigns.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a campaign with stats (Admin)
+router.get('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const campaign = await couponCampaignService.getById(req.params.id as string);
+    res.json({ success: true, data: campaign });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export the campaign codes as CSV (Admin)
+router.get('/:id/export', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { filename, csv } = await couponCampaignService.exportCsv(req.params.id as string);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a campaign and generate its codes (Admin)
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = createCampaignSchema.parse(req.body);
+    const campaign = await couponCampaignService.create(data, req.user!.id);
+    res.status(201).json({ success: true, data: campaign });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate more codes with the campaign rules (Admin)
+router.post('/:id/codes', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { quantity } = z.object({ quantity: quantitySchema }).parse(req.body ?? {});
+    const campaign = await couponCampaignService.addCodes(req.params.id as string, quantity);
+    res.json({ success: true, data: campaign });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename, describe or pause a campaign (Admin)
+router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = updateCampaignSchema.parse(req.body);
+    const campaign = await couponCampaignService.update(req.params.id as string, data);
+    res.json({ success: true, data: campaign });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a campaign without redeemed codes (Admin)
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await couponCampaignService.delete(req.params.id as string);
+    res.json({ success: true, message: 'Campaña eliminada' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -6,17 +6,13 @@ import {
   updateCoupon,
   deleteCoupon,
   validateCoupon,
-  incrementCouponUsage,
 } from '../controllers/coupons.controller';
-import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { authenticate, optionalAuth, requireAdmin } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
 // Public routes
-router.post('/validate', validateCoupon);
-
-// Protected routes (require authentication)
-router.post('/increment-usage', authenticate, incrementCouponUsage);
+router.post('/validate', optionalAuth, validateCoupon);
 
 // Admin routes
 router.get('/', authenticate, requireAdmin, getAllCoupons);
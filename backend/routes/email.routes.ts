@@ -0,0 +1,75 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { orderEmailService } from '../services/order-email.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+const router = Router();
+
+const updateTemplateSchema = z.object({
+  subject: z.string().trim().min(1).max(255).optional(),
+  body_text: z.string().min(1).optional(),
+  body_html: z.string().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+const queueQuerySchema = z.object({
+  status: z.enum(['pending', 'sending', 'sent', 'failed']).optional(),
+  order_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// List email templates (Admin)
+router.get('/templates', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const templates = await orderEmailService.getTemplates();
+    res.json({ success: true, data: templates, count: templates.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Edit an email template (Admin)
+router.put('/templates/:key', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = updateTemplateSchema.parse(req.body);
+    const template = await orderEmailService.updateTemplate(req.params.key as string, data, req.user!.id);
+    res.json({ success: true, data: template });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Render a template with sample data or a real order (Admin)
+router.post('/templates/:key/preview', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { order_id } = z.object({ order_id: z.string().uuid().optional() }).parse(req.body ?? {});
+    const preview = await orderEmailService.preview(req.params.key as string, order_id);
+    res.json({ success: true, data: preview });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Outgoing email queue (Admin)
+router.get('/queue', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = queueQuerySchema.parse(req.query);
+    const emails = await orderEmailService.getQueue(filters);
+    res.json({ success: true, data: emails, count: emails.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Retry a failed email (Admin)
+router.post('/queue/:id/retry', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const email = await orderEmailService.retry(req.params.id as string);
+    res.json({ success: true, data: email });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
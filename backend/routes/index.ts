@@ -12,9 +12,15 @@ import messagesRoutes from './messages.routes.js';
 import couponsRoutes from './coupons.routes.js';
 import whatsappRoutes from './whatsapp.routes.js';
 import sellerRoutes from './seller.routes.js';
+import emailRoutes from './email.routes.js';
 import wishlistRoutes from './wishlist.routes.js';
 import invoiceRoutes from './invoice.routes.js';
 import wompiRoutes from './wompi.routes.js';
+import settingsRoutes from './settings.routes.js';
+import inventoryRoutes from './inventory.routes.js';
+import botFlowRoutes from './bot-flow.routes.js';
+import couponCampaignRoutes from './coupon-campaign.routes.js';
+import shippingRoutes from './shipping.routes.js';
 
 const router = Router();
 
@@ -37,7 +43,13 @@ router.use('/coupons', couponsRoutes);
 router.use('/wishlist', wishlistRoutes);
 router.use('/whatsapp', whatsappRoutes);
 router.use('/sellers', sellerRoutes);
+router.use('/emails', emailRoutes);
 router.use('/invoices', invoiceRoutes);
+router.use('/settings', settingsRoutes);
+router.use('/inventory', inventoryRoutes);
+router.use('/bot-flows', botFlowRoutes);
+router.use('/coupon-campaigns', couponCampaignRoutes);
+router.use('/shipping', shippingRoutes);
 
 export default router;
 
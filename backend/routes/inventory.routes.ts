@@ -0,0 +1,82 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { inventoryService } from '../services/inventory.service.js';
+import { stockAlertService } from '../services/stock-alert.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+const router = Router();
+
+const movementTypes = ['sale', 'return', 'adjustment', 'restock', 'damage', 'reservation', 'release'] as const;
+
+const adjustmentSchema = z.object({
+  product_id: z.string().uuid(),
+  variant_id: z.string().uuid().optional(),
+  type: z.enum(['adjustment', 'restock', 'damage']).default('adjustment'),
+  // Diferencia a aplicar (+/-) o conteo físico; se requiere exactamente uno
+  quantity_change: z.number().int().optional(),
+  counted_quantity: z.number().int().min(0).optional(),
+  reason: z.string().trim().min(3, 'Indica el motivo del ajuste').max(500),
+}).refine(
+  data => (data.quantity_change === undefined) !== (data.counted_quantity === undefined),
+  { message: 'Provide either quantity_change or counted_quantity', path: ['quantity_change'] }
+);
+
+const movementsQuerySchema = z.object({
+  product_id: z.string().uuid().optional(),
+  variant_id: z.string().uuid().optional(),
+  type: z.enum(movementTypes).optional(),
+  order_id: z.string().uuid().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const historyQuerySchema = movementsQuerySchema.pick({ limit: true, offset: true });
+
+// Post a stock adjustment: restock, damage or physical count (Admin)
+router.post('/adjustments', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = adjustmentSchema.parse(req.body);
+    const movement = await inventoryService.adjust(data, req.user!.id);
+    res.status(201).json({ success: true, data: movement, message: 'Inventario ajustado' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List movements (Admin)
+router.get('/movements', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = movementsQuerySchema.parse(req.query);
+    const { data, count } = await inventoryService.getMovements(filters);
+    res.json({ success: true, data, count });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Movement history of a product (Admin)
+router.get('/products/:productId/movements', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const productId = req.params.productId as string;
+    const options = historyQuerySchema.parse(req.query);
+    const history = await inventoryService.getProductHistory(productId, options);
+    res.json({ success: true, data: history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Open low-stock alerts (Admin)
+router.get('/alerts', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const alerts = await stockAlertService.getOpenAlerts();
+    res.json({ success: true, data: alerts, count: alerts.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,7 +1,9 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { invoiceService } from '../services/invoice.service.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { numberingService } from '../services/numbering.service.js';
+import { pdfService } from '../services/pdf.service.js';
+import { authenticate, requireAdmin, requireSuperAdmin } from '../middleware/auth.js';
 import type { AuthRequest } from '../types/index.js';
 
 const router = Router();
@@ -11,6 +13,95 @@ const getStringParam = (param: string | string[] | undefined): string | undefine
     return param as string | undefined;
 }
 
+const resolutionSchema = z.object({
+  document_type: z.enum(['invoice', 'credit_note']),
+  resolution_number: z.string().max(50).nullable().optional(),
+  prefix: z.string().regex(/^[A-Z0-9]{1,4}$/, 'Prefijo de hasta 4 caracteres alfanuméricos'),
+  range_from: z.number().int().positive(),
+  range_to: z.number().int().positive(),
+  next_number: z.number().int().positive().optional(),
+  valid_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  valid_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  technical_key: z.string().max(100).nullable().optional(),
+  active: z.boolean().optional(),
+}).refine(data => data.range_to >= data.range_from, {
+  message: 'El rango final debe ser mayor o igual al inicial',
+  path: ['range_to'],
+}).refine(data => data.document_type === 'credit_note' || (data.resolution_number && data.technical_key), {
+  message: 'La numeración de facturas requiere número de resolución y clave técnica',
+  path: ['resolution_number'],
+});
+
+// DIAN numbering resolutions (Admin only)
+router.get('/resolutions', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const resolutions = await numberingService.getResolutions();
+    res.json({ success: true, data: resolutions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/resolutions', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = resolutionSchema.parse(req.body);
+    const resolution = await numberingService.createResolution(data);
+    res.status(201).json({ success: true, data: resolution });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/resolutions/:id', authenticate, requireSuperAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    if (!id) return res.status(400).json({ success: false, error: 'Resolution ID is required' });
+
+    const data = z.object({
+      valid_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      technical_key: z.string().max(100).optional(),
+      active: z.boolean().optional(),
+    }).parse(req.body);
+
+    const resolution = await numberingService.updateResolution(id, data);
+    res.json({ success: true, data: resolution });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Numbering counters and gap reconciliation (Admin only)
+router.get('/numbering/sequences', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const sequences = await numberingService.getSequences();
+    res.json({ success: true, data: sequences });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/numbering/reconciliation', authenticate, requireAdmin, async (_req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const report = await numberingService.reconcile();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue the credit note of an applied refund (Admin only, idempotent)
+router.post('/credit-notes/refund/:refundId', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const refundId = getStringParam(req.params.refundId);
+    if (!refundId) return res.status(400).json({ success: false, error: 'Refund ID is required' });
+
+    const creditNote = await invoiceService.createCreditNote(refundId);
+    res.status(201).json({ success: true, data: creditNote });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get invoice by ID (authenticated users can only see their own invoices)
 router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -91,7 +182,9 @@ router.post('/create/:orderId', authenticate, async (req: AuthRequest, res: Resp
   try {
     const orderId = getStringParam(req.params.orderId);
     if (!orderId) return res.status(400).json({ success: false, error: 'Order ID is required' });
-    const invoice = await invoiceService.createFromOrder(orderId);
+    // Customers can only invoice their own orders; admins any order
+    const isAdmin = req.user!.role === 'admin' || req.user!.role === 'super_admin';
+    const invoice = await invoiceService.createFromOrder(orderId, isAdmin ? undefined : req.user!.id);
     res.status(201).json({ success: true, data: invoice });
   } catch (error) {
     next(error);
@@ -123,38 +216,115 @@ router.get('/:id/details', authenticate, async (req: AuthRequest, res: Response,
   }
 });
 
-// Get printable HTML invoice
-router.get('/:id/print', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+// Invoice / credit note PDF: /print opens it inline, /pdf downloads it
+const sendInvoicePdf = (disposition: 'inline' | 'attachment') =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = getStringParam(req.params.id);
+      if (!id) return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+
+      const invoice = await invoiceService.getById(id);
+
+      if (!invoice) {
+        res.status(404).json({ success: false, error: 'Factura no encontrada' });
+        return;
+      }
+
+      // Check if user owns this invoice or is admin
+      if (invoice.user_id !== req.user!.id && req.user!.role !== 'admin' && req.user!.role !== 'super_admin') {
+        res.status(403).json({ success: false, error: 'No autorizado' });
+        return;
+      }
+
+      // The browser keeps the last version; re-downloads are answered with 304
+      const etag = `"${await pdfService.getInvoiceVersion(id)}"`;
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      if (req.headers['if-none-match'] === etag) {
+        res.status(304).end();
+        return;
+      }
+
+      const pdf = await pdfService.renderInvoice(id);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${disposition}; filename="${pdf.filename}"`);
+      res.send(pdf.buffer);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+router.get('/:id/print', authenticate, sendInvoicePdf('inline'));
+router.get('/:id/pdf', authenticate, sendInvoicePdf('attachment'));
+
+// Download the UBL 2.1 XML of an electronic invoice or credit note
+router.get('/:id/xml', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const id = getStringParam(req.params.id);
-    if (!id) return res.status(400).send('<h1>Invoice ID is required</h1>');
+    if (!id) return res.status(400).json({ success: false, error: 'Invoice ID is required' });
 
     const invoice = await invoiceService.getById(id);
 
     if (!invoice) {
-      res.status(404).send('<h1>Factura no encontrada</h1>');
+      res.status(404).json({ success: false, error: 'Factura no encontrada' });
       return;
     }
 
     // Check if user owns this invoice or is admin
     if (invoice.user_id !== req.user!.id && req.user!.role !== 'admin' && req.user!.role !== 'super_admin') {
-      res.status(403).send('<h1>No autorizado</h1>');
+      res.status(403).json({ success: false, error: 'No autorizado' });
       return;
     }
 
-    const html = await invoiceService.getPrintableInvoice(id);
-    res.setHeader('Content-Type', 'text/html');
-    res.send(html);
+    if (!invoice.ubl_xml) {
+      res.status(404).json({ success: false, error: 'La factura no tiene XML electrónico' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.xml"`);
+    res.send(invoice.ubl_xml);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send (or resend) a document to the electronic invoicing provider (Admin only)
+router.post('/:id/submit', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    if (!id) return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+
+    const invoice = await invoiceService.submit(id);
+    res.json({ success: true, data: invoice });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Void an issued invoice with a linked credit note (Admin only)
+router.post('/:id/void', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    if (!id) return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+
+    const { reason } = z.object({
+      reason: z.string().trim().min(3).max(500),
+    }).parse(req.body);
+
+    const creditNote = await invoiceService.voidInvoice(id, reason);
+    res.status(201).json({ success: true, data: creditNote });
   } catch (error) {
     next(error);
   }
 });
 
 // Get all invoices (Admin only)
-router.get('/', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const filters = {
       status: req.query.status as string | undefined,
+      documentType: req.query.documentType as string | undefined,
       startDate: req.query.startDate as string | undefined,
       endDate: req.query.endDate as string | undefined,
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
@@ -169,7 +339,7 @@ router.get('/', requireAdmin, async (req: AuthRequest, res: Response, next: Next
 });
 
 // Update invoice status (Admin only)
-router.patch('/:id/status', requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.patch('/:id/status', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const id = getStringParam(req.params.id);
     if (!id) return res.status(400).json({ success: false, error: 'Invoice ID is required' });
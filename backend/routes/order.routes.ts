@@ -3,7 +3,12 @@ import { z } from 'zod';
 import { env } from '../config/env.js';
 import { orderService } from '../services/order.service.js';
 import { wompiService } from '../services/wompi.service.js';
+import { pricingService } from '../services/pricing.service.js';
+import { refundService } from '../services/refund.service.js';
+import { pdfService } from '../services/pdf.service.js';
+import { stockReservationService, type ReleaseReason } from '../services/stock-reservation.service.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
 import type { AuthRequest, OrderStatus } from '../types/index.js';
 
 const router = Router();
@@ -24,31 +29,46 @@ const addressSchema = z.object({
 });
 
 const orderItemSchema = z.object({
-  product_id: z.string(),
-  variant_id: z.string().optional(),
+  product_id: z.string().uuid(),
+  variant_id: z.string().uuid().optional(),
   quantity: z.number().int().positive(),
-  price: z.number().positive(),
+  price: z.number().positive().optional(),
+  selected_accessories: z.array(z.string().uuid()).optional(),
 });
 
 const createOrderSchema = z.object({
-  user_id: z.string().optional(),
+  user_id: z.string().uuid().optional(), // Solo admins: orden a nombre de otro cliente
   order_number: z.string().optional(),
   items: z.array(orderItemSchema).min(1),
   shipping_address: addressSchema,
   billing_address: addressSchema.optional(),
   payment_method: z.enum(['card', 'wompi', 'cash_on_delivery', 'prepaid']).default('wompi'),
   payment_id: z.string().optional(),
-  subtotal: z.number().positive(),
-  discount: z.number().min(0).default(0),
-  shipping_cost: z.number().min(0).default(0),
-  tax: z.number().min(0).default(0),
-  total: z.number().positive(),
-  status: z.enum(['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded']).optional(),
-  payment_status: z.enum(['pending', 'paid', 'failed', 'refunded', 'partially_refunded']).optional(),
+  shipping_method: z.string().optional(),
+  subtotal: z.number().positive().optional(),
+  discount: z.number().min(0).optional(),
+  shipping_cost: z.number().min(0).optional(),
+  tax: z.number().min(0).optional(),
+  total: z.number().positive().optional(),
   notes: z.string().optional(),
   coupon_code: z.string().optional(),
+  referral_code: z.string().trim().max(30).optional(),
 });
 
+// Un pago en línea solo cuenta si Wompi lo aprobó por el total de la orden y
+// la transacción no pagó ya otra orden; lo demás queda pendiente del webhook
+async function isPaymentApproved(paymentMethod: string, paymentId: string | undefined, total: number): Promise<boolean> {
+  if (!paymentId || !['wompi', 'card'].includes(paymentMethod)) return false;
+
+  const transaction = await wompiService.getTransaction(paymentId);
+  if (transaction?.status !== 'APPROVED' || Number(transaction.amount_in_cents) !== Math.round(total * 100)) {
+    return false;
+  }
+
+  const existing = await orderService.getByPaymentId(paymentId).catch(() => null);
+  return !existing;
+}
+
 // Get user's orders
 router.get('/my-orders', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -64,43 +84,83 @@ router.post('/', authenticate, async (req: AuthRequest, res: Response, next: Nex
   try {
     const data = createOrderSchema.parse(req.body);
 
+    // Las reglas de cupón por cliente y el auto-referido dependen de este ID:
+    // solo el staff puede crear órdenes a nombre de otro usuario
+    const isAdmin = req.user!.role === 'admin' || req.user!.role === 'super_admin';
+    if (data.user_id && data.user_id !== req.user!.id && !isAdmin) {
+      throw new AppError('Admin access required to create orders for another user', 403);
+    }
+    const customerId = isAdmin && data.user_id ? data.user_id : req.user!.id;
+
+    // Recalcular precios y totales en el servidor; el carrito del navegador no es confiable
+    const quote = await pricingService.quote({
+      items: data.items,
+      coupon_code: data.coupon_code,
+      shipping_method: data.shipping_method,
+      destination: { department: data.shipping_address.state, city: data.shipping_address.city },
+      user_id: customerId,
+    });
+    pricingService.assertMatches(quote, data);
+
+    if (data.payment_method === 'cash_on_delivery' && !quote.shipping_option.cash_on_delivery) {
+      throw new AppError(`${quote.shipping_option.name} no recibe pago contra entrega`, 400);
+    }
+
+    const items = quote.items.map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      quantity: line.quantity,
+      price: line.unit_price,
+    }));
+
     // Handle cash on delivery orders
     if (data.payment_method === 'cash_on_delivery') {
       const order = await orderService.createCashOnDelivery({
-        user_id: data.user_id || req.user!.id,
+        user_id: customerId,
         order_number: data.order_number,
-        subtotal: data.subtotal,
-        discount: data.discount,
-        shipping_cost: data.shipping_cost,
-        tax: data.tax,
-        total: data.total,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        shipping_cost: quote.shipping_cost,
+        tax: quote.tax,
+        total: quote.total,
+        shipping_service_id: quote.shipping_option.service_id,
+        shipping_weight_g: quote.shipping.weight_g,
         shipping_address: data.shipping_address as any,
         billing_address: data.billing_address as any,
         notes: data.notes,
-        coupon_code: data.coupon_code,
-        items: data.items as any,
+        coupon_code: quote.coupon_code || undefined,
+        referral_code: data.referral_code,
+        items: items as any,
       });
       res.status(201).json({ success: true, data: order });
     } else {
-      // Handle regular payment methods
+      // Handle regular payment methods. El estado del pago y el manejo del stock
+      // se deciden aquí: pagado descuenta, en línea pendiente aparta con
+      // vencimiento y prepago (fuera de línea) aparta sin vencer
+      const paid = await isPaymentApproved(data.payment_method, data.payment_id, quote.total);
+      const stockMode = paid ? 'reduce' : data.payment_method === 'prepaid' ? 'hold' : 'reserve';
+
       const order = await orderService.create({
-        user_id: data.user_id || req.user!.id,
+        user_id: customerId,
         order_number: data.order_number,
-        subtotal: data.subtotal,
-        discount: data.discount,
-        shipping_cost: data.shipping_cost,
-        tax: data.tax,
-        total: data.total,
-        status: data.status || 'pending',
-        payment_status: data.payment_status || 'pending',
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        shipping_cost: quote.shipping_cost,
+        tax: quote.tax,
+        total: quote.total,
+        shipping_service_id: quote.shipping_option.service_id,
+        shipping_weight_g: quote.shipping.weight_g,
+        status: paid ? 'confirmed' : 'pending',
+        payment_status: paid ? 'paid' : 'pending',
         payment_method: data.payment_method,
-        payment_id: data.payment_id,
+        payment_id: paid ? data.payment_id : undefined,
         shipping_address: data.shipping_address as any,
         billing_address: data.billing_address as any,
         notes: data.notes,
-        coupon_code: data.coupon_code,
-        items: data.items as any,
-      });
+        coupon_code: quote.coupon_code || undefined,
+        referral_code: data.referral_code,
+        items: items as any,
+      }, stockMode);
       res.status(201).json({ success: true, data: order });
     }
   } catch (error) {
@@ -125,17 +185,18 @@ router.post('/wompi/create-transaction', authenticate, async (req: AuthRequest,
       user_legal_id_type,
       user_legal_id,
       payment_description,
-      subtotal,
-      shipping_cost,
-      tax,
+      shipping_method,
+      coupon_code,
+      referral_code,
     } = z.object({
       items: z.array(z.object({
         title: z.string(),
         quantity: z.number().int().positive(),
         unit_price: z.number().positive(),
-        product_id: z.string().optional(), // Para crear orden
-        variant_id: z.string().optional(),
-      })),
+        product_id: z.string().uuid(), // Para recalcular precios y crear orden
+        variant_id: z.string().uuid().optional(),
+        selected_accessories: z.array(z.string().uuid()).optional(),
+      })).min(1),
       orderId: z.string().optional(),
       customerEmail: z.string().email(),
       shippingAddress: z.object({
@@ -168,15 +229,21 @@ router.post('/wompi/create-transaction', authenticate, async (req: AuthRequest,
       subtotal: z.number().optional(),
       shipping_cost: z.number().optional(),
       tax: z.number().optional(),
+      shipping_method: z.string().optional(),
+      coupon_code: z.string().optional(),
+      referral_code: z.string().trim().max(30).optional(),
     }).parse(req.body);
 
-    // Calculate total amount in cents (multiply by 100 to convert pesos to centavos)
-    // INCLUIR shipping_cost y tax en el cálculo
-    const subtotalInPesos = items.reduce((sum, item) => sum + (item.unit_price * item.quantity), 0);
-    const shippingCostInPesos = shipping_cost || 0;
-    const taxInPesos = tax || 0;
-    const totalInPesos = subtotalInPesos + shippingCostInPesos + taxInPesos;
-    const totalAmountInCents = totalInPesos * 100;
+    // El monto a cobrar se calcula en el servidor (los totales del cliente se ignoran)
+    const quote = await pricingService.quote({
+      items,
+      coupon_code,
+      shipping_method,
+      destination: { department: shippingAddress?.region, city: shippingAddress?.city },
+      user_id: req.user!.id,
+    });
+    const totalInPesos = quote.total;
+    const totalAmountInCents = Math.round(totalInPesos * 100);
 
     console.log(`[Wompi Create Transaction] Calculated amount_in_cents: ${totalAmountInCents}`); // Log for debugging
     console.log(`[Wompi Create Transaction] Items received: ${JSON.stringify(items)}`); // Log items for debugging
@@ -262,23 +329,27 @@ router.post('/wompi/create-transaction', authenticate, async (req: AuthRequest,
     let orderId_created: string | null = null;
     // totalInPesos ya está definido arriba e incluye shipping_cost y tax
     // totalInPesos ya está definido arriba e incluye shipping_cost y tax
-    const orderItems = items.map(item => ({
-      product_id: item.product_id,
-      variant_id: item.variant_id,
-      quantity: item.quantity,
-      price: item.unit_price,
-    })).filter(item => item.product_id);
+    const orderItems = quote.items.map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      quantity: line.quantity,
+      price: line.unit_price,
+    }));
 
     if (orderItems.length > 0) {
       try {
         const orderData = {
           user_id: req.user!.id,
           order_number: reference,
-          subtotal: subtotal || subtotalInPesos,
-          discount: 0,
-          shipping_cost: shipping_cost || 0,
-          tax: tax || 0,
-          total: totalInPesos,
+          subtotal: quote.subtotal,
+          discount: quote.discount,
+          shipping_cost: quote.shipping_cost,
+          tax: quote.tax,
+          total: quote.total,
+          shipping_service_id: quote.shipping_option.service_id,
+          shipping_weight_g: quote.shipping.weight_g,
+          coupon_code: quote.coupon_code || undefined,
+          referral_code,
           status: 'pending' as const,
           payment_status: 'pending' as const,
           payment_method: 'wompi',
@@ -296,8 +367,8 @@ router.post('/wompi/create-transaction', authenticate, async (req: AuthRequest,
           items: orderItems,
         };
 
-        // Create order WITHOUT reducing stock (stock will be reduced when payment is confirmed)
-        const order = await orderService.create(orderData as any, false);
+        // Reserve stock until the payment is confirmed (released if it fails or expires)
+        const order = await orderService.create(orderData as any, 'reserve');
         orderId_created = order.id;
         console.log(`[Order Routes] Pre-created order ${reference} with ID ${orderId_created}`);
       } catch (orderError: any) {
@@ -589,73 +660,10 @@ router.post('/wompi/webhook', async (req: Request, res: Response, next: NextFunc
         await orderService.updatePaymentStatus(order.id, 'paid', transactionId);
         await orderService.updateStatus(order.id, 'confirmed');
 
-        // Reduce stock for order items
-        const { query: dbQuery } = await import('../config/database.js');
-        const orderItemsResult = await dbQuery(
-          'SELECT product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
-          [order.id]
-        );
-
-        for (const item of orderItemsResult.rows) {
-          await dbQuery(`
-            UPDATE products
-            SET quantity = quantity - $1,
-                total_sold = COALESCE(total_sold, 0) + $1,
-                updated_at = NOW()
-            WHERE id = $2 AND track_quantity = true
-          `, [item.quantity, item.product_id]);
-
-          if (item.variant_id) {
-            await dbQuery(`
-              UPDATE product_variants
-              SET quantity = quantity - $1, updated_at = NOW()
-              WHERE id = $2
-            `, [item.quantity, item.variant_id]);
-          }
-        }
+        // Confirm the stock reserved when the checkout was prepared
+        await stockReservationService.commit(order.id);
 
-        console.log(`[WOMPI WEBHOOK] Stock reduced for order ${orderNumber}`);
-
-        // Register commission (10%)
-        const totalAmount = result.amount_in_cents / 100;
-        const commissionData = wompiService.calculateCommission(result.amount_in_cents);
-
-        await orderService.registerWompiCommission({
-          order_id: order.id,
-          transaction_id: transactionId,
-          total_amount: totalAmount,
-          commission_amount: commissionData.commission / 100,
-          merchant_amount: commissionData.merchantAmount / 100,
-          fuyi_phone: env.FUYI_PHONE_NUMBER || '573238020198'
-        });
-
-        // Create commissions for team members
-        const teamMembersResult = await dbQuery(`
-          SELECT id, user_id, position, commission_percentage
-          FROM team_members
-          WHERE commission_percentage > 0
-        `);
-
-        for (const member of teamMembersResult.rows) {
-          const commissionAmount = parseFloat(order.total.toString()) * (parseFloat(member.commission_percentage) / 100);
-
-          const existingCommission = await dbQuery(
-            'SELECT id FROM commissions WHERE order_id = $1 AND team_member_id = $2',
-            [order.id, member.id]
-          );
-
-          if (existingCommission.rows.length === 0) {
-            await dbQuery(`
-              INSERT INTO commissions (
-                team_member_id, order_id, order_total, commission_percentage, commission_amount, status
-              ) VALUES ($1, $2, $3, $4, $5, 'pending')
-            `, [member.id, order.id, order.total, member.commission_percentage, commissionAmount]);
-
-            console.log(`[WOMPI WEBHOOK] Team commission created for member ${member.id}: $${commissionAmount.toFixed(2)}`);
-          }
-        }
-
-        console.log(`[WOMPI WEBHOOK] Registered commissions for Order ${orderNumber}`);
+        console.log(`[WOMPI WEBHOOK] Stock committed for order ${orderNumber}`);
       }
     } else if (result && (result.status === 'DECLINED' || result.status === 'VOIDED' || result.status === 'ERROR')) {
       const transactionId = result.id;
@@ -666,11 +674,19 @@ router.post('/wompi/webhook', async (req: Request, res: Response, next: NextFunc
       // Find order and update status to failed if it's not already paid
       const order = await orderService.getByOrderNumber(orderNumber);
 
-      if (order && order.payment_status !== 'paid' && order.payment_status !== 'failed') {
+      if (order && result.status === 'VOIDED' && ['paid', 'partially_refunded'].includes(order.payment_status)) {
+        // Anulación de un pago ya aprobado: conciliar con el ledger de reembolsos
+        await refundService.reconcileTransaction(result);
+      } else if (order && order.payment_status !== 'paid' && order.payment_status !== 'failed') {
         await orderService.updatePaymentStatus(order.id, 'failed', transactionId);
         // We keep the order status as 'pending' or move to 'cancelled' depending on business logic
         // For now, marking payment as failed allows the user to try again or admin to see the failure
       }
+
+      // Give back the stock held for an unpaid checkout
+      if (order && !['paid', 'partially_refunded', 'refunded'].includes(order.payment_status)) {
+        await stockReservationService.release(order.id, result.status.toLowerCase() as ReleaseReason);
+      }
     }
 
     // Always respond 200 to acknowledge receipt
@@ -723,6 +739,23 @@ router.post('/wompi/simulate-payment', authenticate, async (req: AuthRequest, re
   }
 });
 
+// Shipping labels + packing slips of the day's confirmed orders in one PDF (Admin)
+router.get('/packing-slips/today', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { date } = z.object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    }).parse(req.query);
+
+    const pdf = await pdfService.renderPackingSlipsForDate(date);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${pdf.filename}"`);
+    res.setHeader('X-Order-Count', String(pdf.count));
+    res.send(pdf.buffer);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get order by ID
 router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -746,6 +779,23 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: N
 
 // ==================== ADMIN ROUTES ====================
 
+// Shipping label + packing slip of one order (Admin)
+router.get('/:id/packing-slip', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    if (!id) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+    }
+
+    const pdf = await pdfService.renderPackingSlip(id);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${pdf.filename}"`);
+    res.send(pdf.buffer);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get all orders (Admin)
 router.get('/', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -800,42 +850,48 @@ router.patch('/:id/tracking', authenticate, requireAdmin, async (req: Request, r
   }
 });
 
-// Refund order (Admin) - Manual refund process for Wompi payments
-router.post('/:id/refund', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+// Refund order (Admin) - Void/refund through Wompi, total or partial
+router.post('/:id/refund', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     if (!id) {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
     }
-    const { amount } = z.object({
+    const data = z.object({
       amount: z.number().positive().optional(),
+      reason: z.string().max(500).optional(),
+      items: z.array(z.object({
+        order_item_id: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      })).optional(),
     }).parse(req.body);
 
+    const refund = await refundService.create(id, data, req.user!.id);
     const order = await orderService.getById(id);
 
-    if (!order.payment_id) {
-      res.status(400).json({ success: false, error: 'No payment to refund' });
-      return;
-    }
-
-    // Update order status for manual refund process
-    // Note: Wompi refunds must be processed manually through the Wompi dashboard
-    await orderService.updatePaymentStatus(id, amount ? 'partially_refunded' : 'refunded');
-    await orderService.updateStatus(id, 'refunded');
-
     res.json({
       success: true,
-      data: {
-        message: 'Order marked as refunded. Please process the refund manually through Wompi dashboard.',
-        order_id: id,
-        payment_id: order.payment_id
-      }
+      data: { refund, order },
     });
   } catch (error) {
     next(error);
   }
 });
 
+// Get order refunds (Admin)
+router.get('/:id/refunds', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    if (!id) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+    }
+    const refunds = await refundService.getByOrder(id);
+    res.json({ success: true, data: refunds });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Confirm cash on delivery payment (Admin)
 router.post('/:id/confirm-cash-payment', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
   try {
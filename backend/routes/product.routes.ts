@@ -2,6 +2,8 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { productService, categoryService } from '../services/product.service.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+import reviewRoutes from './review.routes.js';
 
 const router = Router();
 
@@ -117,6 +119,9 @@ router.get('/:id/related', async (req: Request, res: Response, next: NextFunctio
   }
 });
 
+// Product reviews
+router.use('/:id/reviews', reviewRoutes);
+
 // Get product by ID
 router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -151,6 +156,7 @@ const productSchema = z.object({
   quantity: z.number().int().min(0).default(0),
   track_quantity: z.boolean().default(true),
   continue_selling_when_out_of_stock: z.boolean().default(false),
+  low_stock_threshold: z.number().int().min(0).optional().nullable(),
   category_id: z.string().uuid().optional().nullable().transform((val) => (val === '' ? null : val)),
   brand: z.string().optional().nullable(),
   tags: z.array(z.string()).default([]),
@@ -171,10 +177,10 @@ const productSchema = z.object({
 });
 
 // Create product (Admin)
-router.post('/', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const data = productSchema.parse(req.body);
-    const product = await productService.create(data);
+    const product = await productService.create(data, req.user!.id);
     res.status(201).json({ success: true, data: product });
   } catch (error) {
     next(error);
@@ -182,14 +188,14 @@ router.post('/', authenticate, requireAdmin, async (req: Request, res: Response,
 });
 
 // Update product (Admin)
-router.put('/:id', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
     if (!id) {
         return res.status(400).json({ success: false, error: 'Product ID is required' });
     }
     const data = productSchema.partial().parse(req.body);
-    const product = await productService.update(id, data);
+    const product = await productService.update(id, data, req.user!.id);
     res.json({ success: true, data: product });
   } catch (error) {
     next(error);
@@ -253,13 +259,13 @@ router.post('/:id/variants', authenticate, requireAdmin, async (req: Request, re
 });
 
 // Update product variant
-router.put('/variants/:variantId', authenticate, requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+router.put('/variants/:variantId', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const variantId = Array.isArray(req.params.variantId) ? req.params.variantId[0] : req.params.variantId;
     if (!variantId) {
         return res.status(400).json({ success: false, error: 'Variant ID is required' });
     }
-    const variant = await productService.updateVariant(variantId, req.body);
+    const variant = await productService.updateVariant(variantId, req.body, req.user!.id);
     res.json({ success: true, data: variant });
   } catch (error) {
     next(error);
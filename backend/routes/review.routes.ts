@@ -0,0 +1,135 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { reviewService } from '../services/review.service.js';
+import { authenticate, optionalAuth, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+// Montado en /api/products/:id/reviews
+const router = Router({ mergeParams: true });
+
+const isAdmin = (req: AuthRequest) => req.user?.role === 'admin' || req.user?.role === 'super_admin';
+
+const productParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const reviewParamsSchema = productParamsSchema.extend({
+  reviewId: z.string().uuid(),
+});
+
+const createReviewSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  title: z.string().max(255).optional(),
+  content: z.string().max(5000).optional(),
+  images: z.array(z.string().url()).max(5).optional(),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'all']).optional(),
+  sort_by: z.enum(['newest', 'helpful', 'rating_desc', 'rating_asc']).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// List reviews (only approved unless admin) with rating summary
+router.get('/', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id: productId } = productParamsSchema.parse(req.params);
+    const filters = listQuerySchema.parse(req.query);
+
+    if (filters.status && filters.status !== 'approved' && !isAdmin(req)) {
+      res.status(403).json({ success: false, error: 'Admin access required' });
+      return;
+    }
+
+    const [reviews, summary] = await Promise.all([
+      reviewService.getByProduct(productId, filters),
+      reviewService.getSummary(productId),
+    ]);
+
+    res.json({ success: true, data: reviews.data, count: reviews.count, summary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rating summary only
+router.get('/summary', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id: productId } = productParamsSchema.parse(req.params);
+    const summary = await reviewService.getSummary(productId);
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create review
+router.post('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id: productId } = productParamsSchema.parse(req.params);
+    const data = createReviewSchema.parse(req.body);
+    const review = await reviewService.create(productId, req.user!.id, data);
+    res.status(201).json({
+      success: true,
+      data: review,
+      message: review.status === 'approved'
+        ? 'Reseña publicada'
+        : 'Reseña enviada. Será publicada después de ser revisada',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Vote review as helpful
+router.post('/:reviewId/helpful', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { reviewId } = reviewParamsSchema.parse(req.params);
+    const result = await reviewService.markHelpful(reviewId, req.user!.id);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Moderate review (Admin)
+router.patch('/:reviewId/moderation', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, note } = z.object({
+      status: z.enum(['pending', 'approved', 'rejected']),
+      note: z.string().max(1000).optional(),
+    }).parse(req.body);
+
+    const { id: productId, reviewId } = reviewParamsSchema.parse(req.params);
+    const review = await reviewService.moderate(productId, reviewId, status, req.user!.id, note);
+    res.json({ success: true, data: review });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete review (author or Admin)
+router.delete('/:reviewId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id: productId, reviewId } = reviewParamsSchema.parse(req.params);
+    const review = await reviewService.getById(reviewId);
+
+    if (review.product_id !== productId) {
+      res.status(404).json({ success: false, error: 'Reseña no encontrada' });
+      return;
+    }
+
+    if (review.user_id !== req.user!.id && !isAdmin(req)) {
+      res.status(403).json({ success: false, error: 'Access denied' });
+      return;
+    }
+
+    await reviewService.delete(productId, reviewId);
+    res.json({ success: true, message: 'Review deleted' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,89 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { sellerService } from '../services/seller.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
 
 const router = Router();
 
+const sellerStatuses = ['pending', 'active', 'suspended', 'rejected'] as const;
+
+const registerSchema = z.object({
+  display_name: z.string().trim().min(2).max(255).optional(),
+  phone: z.string().trim().max(30).optional(),
+  document_number: z.string().trim().max(50).optional(),
+  payout_method: z.string().trim().max(50).optional(),
+  payout_details: z.string().trim().max(500).optional(),
+});
+
+const updateSchema = z.object({
+  status: z.enum(sellerStatuses).optional(),
+  commission_percentage: z.number().min(0).max(100).optional(),
+  referral_code: z.string().trim().regex(/^[A-Za-z0-9_-]{4,30}$/, 'El código solo admite letras, números, - y _').optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+// Join the reseller program (pending until an admin approves it)
+router.post('/register', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = registerSchema.parse(req.body);
+    const seller = await sellerService.register(req.user!.id, data);
+    res.status(201).json({ success: true, data: seller, message: 'Solicitud enviada' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get my seller profile (null if not registered)
+router.get('/me', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const seller = await sellerService.getByUserId(req.user!.id);
+    res.json({ success: true, data: seller });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Seller dashboard: referral link, attributed sales and commissions
+router.get('/me/dashboard', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const dashboard = await sellerService.getDashboard(req.user!.id);
+    res.json({ success: true, data: dashboard });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Validate a referral code (public)
+router.get('/referral/:code', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const seller = await sellerService.getPublicByCode(req.params.code as string);
+    res.json({ success: true, data: seller });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List sellers (Admin)
+router.get('/', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status } = z.object({ status: z.enum(sellerStatuses).optional() }).parse(req.query);
+    const sellers = await sellerService.getAll({ status });
+    res.json({ success: true, data: sellers, count: sellers.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve / suspend a seller, change its rate or code (Admin)
+router.patch('/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = updateSchema.parse(req.body);
+    const seller = await sellerService.update(req.params.id as string, data, req.user!.id);
+    res.json({ success: true, data: seller });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
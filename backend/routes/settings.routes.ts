@@ -0,0 +1,72 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { settingsService, isSettingsKey } from '../services/settings.service.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+const router = Router();
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(200).optional(),
+});
+
+// Get all settings (public: la tienda los necesita para checkout, footer, etc.)
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const settings = await settingsService.getAll();
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get settings by key
+router.get('/:key', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingsKey(key)) {
+      res.status(404).json({ success: false, error: 'Setting not found' });
+      return;
+    }
+
+    const value = await settingsService.get(key);
+    res.json({ success: true, data: value });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change history (Admin)
+router.get('/:key/history', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingsKey(key)) {
+      res.status(404).json({ success: false, error: 'Setting not found' });
+      return;
+    }
+
+    const { limit } = historyQuerySchema.parse(req.query);
+    const history = await settingsService.getHistory(key, limit);
+    res.json({ success: true, data: history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update settings (Admin)
+router.put('/:key', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const key = req.params.key as string;
+    if (!isSettingsKey(key)) {
+      res.status(404).json({ success: false, error: 'Setting not found' });
+      return;
+    }
+
+    const value = await settingsService.update(key, req.body, req.user!.id);
+    res.json({ success: true, data: value, message: 'Configuración guardada' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
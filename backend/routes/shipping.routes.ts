@@ -0,0 +1,134 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { pricingService } from '../services/pricing.service.js';
+import { shippingService } from '../services/shipping.service.js';
+import { authenticate, optionalAuth, requireAdmin } from '../middleware/auth.js';
+import type { AuthRequest } from '../types/index.js';
+
+const router = Router();
+
+const getStringParam = (param: string | string[] | undefined): string | undefined => {
+    if (Array.isArray(param)) return param[0];
+    return param as string | undefined;
+}
+
+const quoteSchema = z.object({
+  items: z.array(z.object({
+    product_id: z.string().uuid(),
+    variant_id: z.string().uuid().optional(),
+    quantity: z.number().int().positive(),
+    selected_accessories: z.array(z.string().uuid()).optional(),
+  })).min(1),
+  destination: z.object({
+    department: z.string().max(100).optional(),
+    city: z.string().max(100).optional(),
+  }).optional(),
+  shipping_method: z.string().max(50).optional(),
+  coupon_code: z.string().optional(),
+});
+
+const serviceUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  delivery_days_min: z.number().int().min(0).max(60).optional(),
+  delivery_days_max: z.number().int().min(0).max(60).optional(),
+  cash_on_delivery: z.boolean().optional(),
+  free_shipping_eligible: z.boolean().optional(),
+  active: z.boolean().optional(),
+  sort_order: z.number().int().optional(),
+});
+
+const ratesSchema = z.object({
+  rates: z.array(z.object({
+    min_weight_g: z.number().int().min(0),
+    max_weight_g: z.number().int().positive().nullable(),
+    price: z.number().min(0),
+    extra_kg_price: z.number().min(0).default(0),
+    declared_value_percent: z.number().min(0).max(100).default(0),
+  })),
+});
+
+const locationsSchema = z.object({
+  locations: z.array(z.object({
+    department: z.string().min(1).max(100),
+    city: z.string().max(100).nullable().optional(),
+  })),
+});
+
+// Shipping options and order totals for a cart and destination (public: checkout)
+router.post('/quote', optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = quoteSchema.parse(req.body);
+    const quote = await pricingService.quote({ ...data, user_id: req.user?.id });
+
+    res.json({
+      success: true,
+      data: {
+        ...quote.shipping,
+        selected: quote.shipping_method,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        shipping_cost: quote.shipping_cost,
+        tax: quote.tax,
+        total: quote.total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Carriers, services, zones and rates (Admin)
+router.get('/config', authenticate, requireAdmin, async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const config = await shippingService.getConfig();
+    res.json({ success: true, data: config });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/services/:id', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    if (!id) return res.status(400).json({ success: false, error: 'Service ID is required' });
+
+    const data = serviceUpdateSchema.parse(req.body);
+    const service = await shippingService.updateService(id, data);
+    res.json({ success: true, data: service });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the weight bands of a service in a zone
+router.put('/services/:id/zones/:zoneId/rates', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    const zoneId = getStringParam(req.params.zoneId);
+    if (!id || !zoneId) return res.status(400).json({ success: false, error: 'Service and zone IDs are required' });
+
+    const { rates } = ratesSchema.parse(req.body);
+    const updated = await shippingService.replaceRates(id, zoneId, rates);
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/zones/:id/locations', authenticate, requireAdmin, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const id = getStringParam(req.params.id);
+    if (!id) return res.status(400).json({ success: false, error: 'Zone ID is required' });
+
+    const { locations } = locationsSchema.parse(req.body);
+    const updated = await shippingService.setZoneLocations(
+      id,
+      locations.map(location => ({ department: location.department, city: location.city ?? null }))
+    );
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,8 +1,17 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import { z } from 'zod';
 import { env } from '../config/env.js';
 import { whatsappService, WhatsAppMessage } from '../services/whatsapp.service.js';
 import { whatsappBotService } from '../services/whatsapp-bot.service.js';
+import { whatsappOrderService, type WhatsAppOrderStatus } from '../services/whatsapp-order.service.js';
+import { whatsappSimulator } from '../services/whatsapp-simulator.service.js';
+import { whatsappAdminService, type WhatsAppAuditAction } from '../services/whatsapp-admin.service.js';
+import { whatsappWebhookService, type WebhookRejectionReason } from '../services/whatsapp-webhook.service.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { validateWhatsAppWebhook } from '../middleware/whatsappSecurity.js';
+import type { AuthRequest } from '../types/index.js';
 
 const router = Router();
 
@@ -25,8 +34,8 @@ router.get('/webhook', (req: Request, res: Response) => {
   }
 });
 
-// Recepción de mensajes (POST)
-router.post('/webhook', async (req: Request, res: Response) => {
+// Recepción de mensajes (POST), solo con firma válida de Meta
+router.post('/webhook', validateWhatsAppWebhook, async (req: Request, res: Response) => {
   try {
     const body = req.body;
 
@@ -45,9 +54,32 @@ router.post('/webhook', async (req: Request, res: Response) => {
                 const messageData = extractMessageData(message);
                 console.log(`[WhatsApp] Texto extraído: "${messageData.text}"`);
 
+                // Una firma válida no impide reenviar un cuerpo capturado: los mensajes
+                // fuera de la ventana de reintentos de Meta no se procesan
+                if (whatsappWebhookService.isStale(messageData.timestamp)) {
+                  console.warn(`[WhatsApp] Mensaje ${messageData.id} vencido, se descarta`);
+                  await whatsappWebhookService.recordRejection({
+                    reason: 'stale_message',
+                    messageId: messageData.id,
+                    phone: messageData.from,
+                    ip: req.ip,
+                    userAgent: req.get('User-Agent'),
+                  });
+                  continue;
+                }
+
                 // Verificar que no sea mensaje del bot y procesar
                 if (messageData.type === 'text' || messageData.type === 'button' || messageData.type === 'interactive') {
-                  await whatsappBotService.processMessage(messageData);
+                  const processed = await whatsappBotService.processMessage(messageData);
+                  if (!processed) {
+                    await whatsappWebhookService.recordRejection({
+                      reason: 'duplicate_message',
+                      messageId: messageData.id,
+                      phone: messageData.from,
+                      ip: req.ip,
+                      userAgent: req.get('User-Agent'),
+                    });
+                  }
                 }
               }
             }
@@ -115,10 +147,11 @@ function extractMessageData(message: any): WhatsAppMessage {
 
 // ============================================
 // ENDPOINTS ADMINISTRATIVOS
+// Requieren admin con el permiso de team_members correspondiente
 // ============================================
 
-// Enviar mensaje manual
-router.post('/send', async (req: Request, res: Response) => {
+// Enviar mensaje manual (limitado por hora y auditado)
+router.post('/send', authenticate, requirePermission('can_manage_customers'), async (req: AuthRequest, res: Response) => {
   try {
     const { to, text } = req.body;
 
@@ -126,20 +159,78 @@ router.post('/send', async (req: Request, res: Response) => {
       return res.status(400).json({ success: false, error: 'Missing to or text' });
     }
 
-    const success = await whatsappService.sendMessage({ to, text });
+    const result = await whatsappAdminService.sendMessage(req.user!.id, String(to), String(text), req.ip);
 
-    res.json({ success, to, text });
+    res.json({ success: result.sent, to: result.to, text });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
     console.error('[WhatsApp] Error enviando mensaje:', error);
     res.status(500).json({ success: false, error: 'Failed to send message' });
   }
 });
 
+// Historial de envíos manuales y cambios de pedidos
+router.get('/audit', authenticate, requirePermission('can_manage_team'), async (req: Request, res: Response) => {
+  try {
+    const action = req.query.action as WhatsAppAuditAction | undefined;
+
+    if (action && !['send_message', 'update_order_status'].includes(action)) {
+      return res.status(400).json({ success: false, error: 'Invalid action' });
+    }
+
+    const entries = await whatsappAdminService.getAuditLog({
+      action,
+      userId: req.query.user_id as string | undefined,
+      phone: req.query.phone as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined,
+    });
+
+    res.json({
+      success: true,
+      count: entries.length,
+      entries,
+    });
+  } catch (error) {
+    console.error('[WhatsApp] Error obteniendo auditoría:', error);
+    res.status(500).json({ success: false, error: 'Failed to get audit log' });
+  }
+});
+
+// Entregas del webhook que no se procesaron (firma, repetidos, vencidos)
+router.get('/webhook/rejections', authenticate, requirePermission('can_manage_settings'), async (req: Request, res: Response) => {
+  try {
+    const reason = req.query.reason as WebhookRejectionReason | undefined;
+    const reasons: WebhookRejectionReason[] = [
+      'missing_signature', 'invalid_signature', 'secret_not_configured', 'stale_message', 'duplicate_message',
+    ];
+
+    if (reason && !reasons.includes(reason)) {
+      return res.status(400).json({ success: false, error: 'Invalid reason' });
+    }
+
+    const rejections = await whatsappWebhookService.getRejections(
+      reason,
+      req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined
+    );
+
+    res.json({
+      success: true,
+      count: rejections.length,
+      rejections,
+    });
+  } catch (error) {
+    console.error('[WhatsApp] Error obteniendo rechazos del webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to get webhook rejections' });
+  }
+});
+
 // Ver métricas del bot
-router.get('/metrics', (req: Request, res: Response) => {
+router.get('/metrics', authenticate, requirePermission('can_view_analytics'), async (req: Request, res: Response) => {
   try {
-    const metrics = whatsappBotService.getMetrics();
-    const conversations = whatsappBotService.getAllActiveConversations();
+    const metrics = await whatsappBotService.getMetrics();
+    const conversations = await whatsappBotService.getAllActiveConversations();
 
     res.json({
       success: true,
@@ -159,9 +250,9 @@ router.get('/metrics', (req: Request, res: Response) => {
 });
 
 // Ver catálogo del bot
-router.get('/catalog', (req: Request, res: Response) => {
+router.get('/catalog', async (req: Request, res: Response) => {
   try {
-    const catalog = whatsappBotService.getCatalog();
+    const catalog = await whatsappBotService.getCatalog();
     res.json({
       success: true,
       count: catalog.length,
@@ -174,10 +265,10 @@ router.get('/catalog', (req: Request, res: Response) => {
 });
 
 // Ver estado de conversación
-router.get('/conversation/:phone', (req: Request, res: Response) => {
+router.get('/conversation/:phone', authenticate, requirePermission('can_manage_customers'), async (req: Request, res: Response) => {
   try {
     const phone = Array.isArray(req.params.phone) ? req.params.phone[0] : req.params.phone;
-    const conversation = whatsappBotService.getConversationState(phone);
+    const conversation = await whatsappBotService.getConversationState(phone);
 
     if (!conversation) {
       return res.status(404).json({ success: false, error: 'Conversation not found' });
@@ -188,7 +279,9 @@ router.get('/conversation/:phone', (req: Request, res: Response) => {
       conversation: {
         phone: conversation.phone,
         name: conversation.customerName,
+        status: conversation.status,
         state: conversation.state,
+        version: conversation.version,
         style: conversation.style,
         budget: conversation.budget,
         cart: conversation.cart,
@@ -207,19 +300,14 @@ router.get('/conversation/:phone', (req: Request, res: Response) => {
 // ============================================
 
 // Ver todos los pedidos del bot
-router.get('/orders', async (req: Request, res: Response) => {
+router.get('/orders', authenticate, requirePermission('can_manage_orders'), async (req: Request, res: Response) => {
   try {
-    const { query } = await import('../config/database.js');
-    const result = await query(`
-      SELECT * FROM whatsapp_orders
-      ORDER BY created_at DESC
-      LIMIT 50
-    `);
+    const orders = await whatsappOrderService.getAll();
 
     res.json({
       success: true,
-      count: result.rows.length,
-      orders: result.rows,
+      count: orders.length,
+      orders,
     });
   } catch (error) {
     console.error('[WhatsApp] Error obteniendo pedidos:', error);
@@ -228,32 +316,25 @@ router.get('/orders', async (req: Request, res: Response) => {
 });
 
 // Ver un pedido específico
-router.get('/orders/:orderNumber', async (req: Request, res: Response) => {
+router.get('/orders/:orderNumber', authenticate, requirePermission('can_manage_orders'), async (req: Request, res: Response) => {
   try {
-    const { orderNumber } = req.params;
-    const { query } = await import('../config/database.js');
-
-    const result = await query(
-      `SELECT * FROM whatsapp_orders WHERE order_number = $1`,
-      [orderNumber]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ success: false, error: 'Order not found' });
-    }
+    const order = await whatsappOrderService.getByOrderNumber(req.params.orderNumber as string);
 
     res.json({
       success: true,
-      order: result.rows[0],
+      order,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
     console.error('[WhatsApp] Error obteniendo pedido:', error);
     res.status(500).json({ success: false, error: 'Failed to get order' });
   }
 });
 
-// Actualizar estado de un pedido
-router.patch('/orders/:orderNumber/status', async (req: Request, res: Response) => {
+// Actualizar estado de un pedido (se sincroniza con la orden de la tienda)
+router.patch('/orders/:orderNumber/status', authenticate, requirePermission('can_manage_orders'), async (req: AuthRequest, res: Response) => {
   try {
     const { orderNumber } = req.params;
     const { status } = req.body;
@@ -262,26 +343,98 @@ router.patch('/orders/:orderNumber/status', async (req: Request, res: Response)
       return res.status(400).json({ success: false, error: 'Invalid status' });
     }
 
-    const { query } = await import('../config/database.js');
-    const result = await query(
-      `UPDATE whatsapp_orders SET status = $1, updated_at = NOW() WHERE order_number = $2 RETURNING *`,
-      [status, orderNumber]
+    const order = await whatsappAdminService.updateOrderStatus(
+      req.user!.id,
+      orderNumber as string,
+      status as WhatsAppOrderStatus,
+      req.ip
     );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ success: false, error: 'Order not found' });
-    }
-
     res.json({
       success: true,
-      order: result.rows[0],
+      order,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
     console.error('[WhatsApp] Error actualizando pedido:', error);
     res.status(500).json({ success: false, error: 'Failed to update order' });
   }
 });
 
+// ============================================
+// SIMULADOR LOCAL (WHATSAPP_TRANSPORT=simulator)
+// ============================================
+
+const simulatorInboundSchema = z.object({
+  from: z.string().regex(/^\+?\d{7,15}$/, 'Número inválido'),
+  message: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text'), text: z.string().min(1) }),
+    z.object({ type: z.literal('button_reply'), id: z.string().min(1), title: z.string().optional() }),
+    z.object({
+      type: z.literal('list_reply'),
+      id: z.string().min(1),
+      title: z.string().optional(),
+      description: z.string().optional(),
+    }),
+  ]),
+});
+
+// Sin el simulador activo estas rutas no existen
+function requireSimulator(_req: Request, res: Response, next: NextFunction) {
+  if (!whatsappSimulator.isEnabled()) {
+    return res.status(404).json({ success: false, error: 'WhatsApp simulator is disabled' });
+  }
+  next();
+}
+
+// Mensaje del cliente: se publica como webhook de Meta y devuelve las respuestas del bot
+router.post('/simulator/inbound', requireSimulator, async (req: Request, res: Response) => {
+  try {
+    const { from, message } = simulatorInboundSchema.parse(req.body);
+    const result = await whatsappSimulator.injectInbound(from, message);
+
+    res.status(result.status === 200 ? 200 : 502).json({
+      success: result.status === 200,
+      messageId: result.message_id,
+      webhookStatus: result.status,
+      replies: result.replies,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: 'Invalid message', details: error.errors });
+    }
+    console.error('[WhatsApp] Error en el simulador:', error);
+    res.status(500).json({ success: false, error: 'Failed to inject message' });
+  }
+});
+
+// Teléfonos con mensajes en el simulador
+router.get('/simulator/transcripts', requireSimulator, (_req: Request, res: Response) => {
+  const phones = whatsappSimulator.getPhones();
+  res.json({ success: true, count: phones.length, phones });
+});
+
+// Conversación completa (entrantes y salientes) de un número
+router.get('/simulator/transcripts/:phone', requireSimulator, (req: Request, res: Response) => {
+  const messages = whatsappSimulator.getTranscript(req.params.phone as string);
+  res.json({ success: true, count: messages.length, messages });
+});
+
+// Reinicia un número: borra el transcript y el estado del bot
+router.delete('/simulator/transcripts/:phone', requireSimulator, async (req: Request, res: Response) => {
+  try {
+    const phone = whatsappSimulator.normalizePhone(req.params.phone as string);
+    whatsappSimulator.clear(phone);
+    const conversationDeleted = await whatsappBotService.resetConversation(phone);
+    res.json({ success: true, conversationDeleted });
+  } catch (error) {
+    console.error('[WhatsApp] Error reiniciando conversación simulada:', error);
+    res.status(500).json({ success: false, error: 'Failed to reset conversation' });
+  }
+});
+
 // ============================================
 // ESTADO DEL SERVICIO
 // ============================================
@@ -290,6 +443,7 @@ router.get('/status', (req: Request, res: Response) => {
   res.json({
     success: true,
     configured: whatsappService.isConfigured(),
+    transport: whatsappSimulator.isEnabled() ? 'simulator' : 'cloud',
     service: 'WhatsApp Business API + Bot Inteligente',
     version: '2.0.0',
     features: [
@@ -297,6 +451,7 @@ router.get('/status', (req: Request, res: Response) => {
       'Búsqueda inteligente de productos',
       'Carrito de compras',
       'Cálculo automático de comisiones',
+      'Pedidos como órdenes de la tienda (contra entrega o link de Wompi)',
       'Notificaciones a intermediario y dueño',
     ],
   });
@@ -0,0 +1,94 @@
+/**
+ * Recorre el flujo por defecto del bot de WhatsApp contra el simulador local:
+ * saludo → estilo → catálogo → búsqueda → carrito → resumen → dirección → pago.
+ *
+ * Requiere el backend corriendo con WHATSAPP_TRANSPORT=simulator y productos activos.
+ *   API_URL=http://localhost:3000 npm run whatsapp:scenario
+ * Sale con código 1 en el primer paso cuya respuesta no es la esperada.
+ *
+ * Es una verificación manual, no una prueba automática: el repositorio no tiene
+ * runner de pruebas (no hay `npm test`) y el escenario necesita el backend y
+ * Postgres en marcha, así que ni CI ni el build lo ejecutan. Correrlo antes de
+ * publicar cambios al bot o a sus flujos.
+ */
+
+interface Reply {
+  type: string;
+  text: string;
+  buttons?: Array<{ id: string; title: string }>;
+  sections?: Array<{ rows: Array<{ id: string; title: string }> }>;
+}
+
+type Inbound =
+  | { type: 'text'; text: string }
+  | { type: 'button_reply'; id: string; title?: string };
+
+const API_URL = (process.env.API_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/$/, '');
+const PHONE = process.env.SCENARIO_PHONE || '573000000001';
+
+async function call<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}/api/whatsapp${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json() as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(`${method} ${path} → ${response.status}: ${data.error || 'error'}`);
+  }
+  return data;
+}
+
+async function step(name: string, message: Inbound, expect: (replies: Reply[]) => boolean): Promise<Reply[]> {
+  const { replies } = await call<{ replies: Reply[] }>('POST', '/simulator/inbound', { from: PHONE, message });
+  const label = message.type === 'text' ? message.text : `[${message.id}]`;
+
+  console.log(`\n👤 ${label}`);
+  for (const reply of replies) {
+    const options = reply.buttons?.map(b => b.id) ?? reply.sections?.flatMap(s => s.rows.map(r => r.id)) ?? [];
+    console.log(`🤖 ${reply.text.split('\n')[0]}${options.length ? `  ${JSON.stringify(options)}` : ''}`);
+  }
+
+  if (!expect(replies)) {
+    throw new Error(`Paso "${name}": respuesta inesperada`);
+  }
+  return replies;
+}
+
+const hasButton = (id: string) => (replies: Reply[]) => replies.some(r => r.buttons?.some(b => b.id === id));
+const hasText = (fragment: string) => (replies: Reply[]) => replies.some(r => r.text.includes(fragment));
+
+async function runScenario() {
+  console.log(`🧪 Escenario del bot en ${API_URL} con el número ${PHONE}`);
+
+  const status = await call<{ transport: string }>('GET', '/status');
+  if (status.transport !== 'simulator') {
+    throw new Error('El backend no está en modo simulador (WHATSAPP_TRANSPORT=simulator)');
+  }
+
+  const { products } = await call<{ products: Array<{ name: string }> }>('GET', '/catalog');
+  if (products.length === 0) {
+    throw new Error('El catálogo está vacío: crea al menos un producto activo');
+  }
+  const searchTerm = products[0].name.split(/\s+/).find(word => word.length >= 3) || products[0].name;
+
+  await call('DELETE', `/simulator/transcripts/${PHONE}`);
+
+  await step('saludo', { type: 'text', text: 'Hola' }, hasText('¿Cómo te llamas?'));
+  await step('nombre', { type: 'text', text: 'Cliente Simulado' }, hasButton('style_urbano'));
+  await step('estilo', { type: 'button_reply', id: 'style_urbano' }, hasButton('catalog_online'));
+  await step('catálogo', { type: 'button_reply', id: 'catalog_online' }, hasText('catálogo online'));
+  await step('búsqueda', { type: 'text', text: searchTerm }, hasText('Encontré esto'));
+  await step('cantidad', { type: 'text', text: 'Quiero el #1, 2 unidades' }, hasButton('cart_confirm'));
+  await step('resumen', { type: 'button_reply', id: 'cart_confirm' }, hasButton('order_confirm'));
+  await step('confirmar', { type: 'button_reply', id: 'order_confirm' }, hasText('dirección'));
+  await step('dirección', { type: 'text', text: 'Calle 30 #17-45, Barrio Manga, Cartagena' }, hasButton('pay_cod'));
+  await step('pago', { type: 'button_reply', id: 'pay_cod' }, hasText('Pedido confirmado'));
+
+  console.log('\n✅ Escenario completo');
+}
+
+runScenario().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
 import { query } from '../config/database.js';
-import type { DashboardMetrics } from '../types/index.js';
+import { settingsService } from './settings.service.js';
+import type { DashboardMetrics, InventoryReport, InventoryReportItem } from '../types/index.js';
 
 export const analyticsService = {
   async getDashboardMetrics(): Promise<DashboardMetrics> {
@@ -327,4 +328,80 @@ export const analyticsService = {
 
     return result.rows;
   },
+
+  // Reporte de reposición: días de cobertura según la velocidad de venta reciente
+  async getInventoryReport(options: { days?: number; targetDays?: number; limit?: number } = {}): Promise<InventoryReport> {
+    const settings = await settingsService.get('inventory');
+    const windowDays = options.days ?? settings.sales_window_days;
+    const targetDays = options.targetDays ?? settings.target_cover_days;
+
+    const result = await query(
+      `WITH sales AS (
+        SELECT oi.product_id, oi.variant_id,
+          SUM(oi.quantity - COALESCE(oi.refunded_quantity, 0)) as units
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE o.created_at >= NOW() - make_interval(days => $1::int)
+          AND o.status NOT IN ('cancelled', 'refunded')
+          AND (o.payment_status IN ('paid', 'partially_refunded') OR o.payment_method = 'cash_on_delivery')
+        GROUP BY oi.product_id, oi.variant_id
+      ),
+      items AS (
+        SELECT p.id as product_id, NULL::uuid as variant_id, p.name as product_name, NULL as variant_name,
+          p.sku, p.quantity, COALESCE(p.low_stock_threshold, $2::int) as threshold,
+          COALESCE((SELECT SUM(s.units) FROM sales s WHERE s.product_id = p.id), 0) as units_sold
+        FROM products p
+        WHERE p.track_quantity = true AND p.is_active = true
+          AND NOT EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND v.is_active = true)
+        UNION ALL
+        SELECT v.product_id, v.id, p.name, v.name, v.sku, v.quantity,
+          COALESCE(v.low_stock_threshold, p.low_stock_threshold, $2),
+          COALESCE((SELECT s.units FROM sales s WHERE s.variant_id = v.id), 0)
+        FROM product_variants v
+        JOIN products p ON p.id = v.product_id
+        WHERE p.track_quantity = true AND p.is_active = true AND v.is_active = true
+      )
+      SELECT *,
+        ROUND(units_sold::numeric / $1::int, 2) as daily_velocity,
+        CASE WHEN units_sold > 0
+          THEN ROUND(GREATEST(quantity, 0) / (units_sold::numeric / $1::int), 1)
+        END as days_of_cover
+      FROM items
+      ORDER BY days_of_cover ASC NULLS LAST, quantity ASC
+      LIMIT $3`,
+      [windowDays, settings.low_stock_threshold, options.limit ?? 200]
+    );
+
+    const items: InventoryReportItem[] = result.rows.map(row => {
+      const quantity = parseInt(row.quantity) || 0;
+      const threshold = parseInt(row.threshold) || 0;
+      const velocity = parseFloat(row.daily_velocity) || 0;
+
+      return {
+        product_id: row.product_id,
+        variant_id: row.variant_id,
+        product_name: row.product_name,
+        variant_name: row.variant_name,
+        sku: row.sku,
+        quantity,
+        threshold,
+        units_sold: parseInt(row.units_sold) || 0,
+        daily_velocity: velocity,
+        days_of_cover: row.days_of_cover === null ? null : parseFloat(row.days_of_cover),
+        suggested_reorder: Math.max(0, Math.ceil(velocity * targetDays - quantity)),
+        status: quantity <= 0 ? 'out_of_stock' : quantity <= threshold ? 'low' : 'ok',
+      };
+    });
+
+    return {
+      window_days: windowDays,
+      target_cover_days: targetDays,
+      items,
+      summary: {
+        out_of_stock: items.filter(item => item.status === 'out_of_stock').length,
+        low: items.filter(item => item.status === 'low').length,
+        below_target: items.filter(item => item.days_of_cover !== null && item.days_of_cover < targetDays).length,
+      },
+    };
+  },
 };
@@ -1,11 +1,20 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../config/database.js';
 import { env } from '../config/env.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { mailService } from './mail.service.js';
 import type { User, JwtPayload, PublicUser } from '../types/index.js';
 
+// Vigencia del enlace de restablecimiento de contraseña
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Solo se guarda el HMAC del token: una fuga de la tabla no permite usar los enlaces
+const hashResetToken = (token: string) =>
+  crypto.createHmac('sha256', env.JWT_SECRET).update(token).digest('hex');
+
 export const authService = {
   async signUp(email: string, password: string, fullName: string): Promise<{ user: PublicUser; token: string }> {
     // Check if user exists
@@ -83,15 +92,90 @@ export const authService = {
     return jwt.verify(token, env.JWT_SECRET) as JwtPayload;
   },
 
-  async resetPassword(email: string): Promise<void> {
-    const result = await query('SELECT id FROM users WHERE email = $1', [email]);
+  async resetPassword(email: string, requestedIp?: string): Promise<void> {
+    const result = await query('SELECT id, full_name FROM users WHERE LOWER(email) = LOWER($1)', [email]);
     if (result.rows.length === 0) {
       // Don't reveal if email exists
       return;
     }
 
-    // TODO: Implement email sending with reset token
-    console.log(`Password reset requested for ${email}`);
+    const user = result.rows[0];
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // Un nuevo enlace invalida los anteriores que no se usaron
+    await query('DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL', [user.id]);
+    await query(
+      `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+       VALUES ($1, $2, NOW() + ($3 || ' minutes')::interval, $4)`,
+      [user.id, hashResetToken(token), String(RESET_TOKEN_TTL_MINUTES), requestedIp || null]
+    );
+
+    const resetUrl = `${env.FRONTEND_URL}/reset-password?token=${token}`;
+
+    // Si el correo falla la respuesta es la misma: no revela si la cuenta existe
+    try {
+      await mailService.send({
+        to: email,
+        subject: 'Restablece tu contraseña - MELO SPORTT',
+        text: [
+          `Hola ${user.full_name || ''},`.trim(),
+          '',
+          'Recibimos una solicitud para restablecer la contraseña de tu cuenta.',
+          `Usa este enlace (válido por ${RESET_TOKEN_TTL_MINUTES} minutos):`,
+          '',
+          resetUrl,
+          '',
+          'Si no fuiste tú, ignora este correo. Tu contraseña no cambiará.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+    }
+  },
+
+  /**
+   * Consume el token de restablecimiento, cambia la contraseña y cierra
+   * todas las sesiones abiertas del usuario
+   */
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const tokenResult = await client.query(
+        `SELECT id, user_id FROM password_reset_tokens
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+         FOR UPDATE`,
+        [hashResetToken(token)]
+      );
+
+      if (tokenResult.rows.length === 0) {
+        throw new AppError('El enlace para restablecer la contraseña no es válido o ha expirado', 400);
+      }
+
+      const { id: tokenId, user_id: userId } = tokenResult.rows[0];
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+      await client.query(
+        `UPDATE users
+         SET password_hash = $1, sessions_revoked_at = NOW(), updated_at = NOW()
+         WHERE id = $2`,
+        [hashedPassword, userId]
+      );
+      await client.query('UPDATE password_reset_tokens SET used_at = NOW() WHERE id = $1', [tokenId]);
+      await client.query(
+        'DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL',
+        [userId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   },
 
   async updatePassword(userId: string, newPassword: string): Promise<void> {
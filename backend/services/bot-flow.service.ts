@@ -0,0 +1,655 @@
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type {
+  BotFlow,
+  BotFlowAction,
+  BotFlowDefinition,
+  BotFlowMessage,
+  BotFlowState,
+  BotFlowValidation,
+} from '../types/index.js';
+
+export interface BotFlowInput {
+  name: string;
+  description?: string | null;
+  definition: BotFlowDefinition;
+}
+
+/**
+ * Resultados que puede devolver cada acción; `outcomes` solo acepta estas claves.
+ */
+export const BOT_FLOW_ACTION_OUTCOMES: Record<BotFlowAction, string[]> = {
+  show_featured_products: ['listed', 'empty'],
+  browse_catalog: ['selected', 'searched'],
+  search_products: ['found', 'not_found'],
+  add_to_cart: ['added', 'not_understood'],
+  checkout: ['done'],
+};
+
+/**
+ * Variables disponibles en los textos como {{nombre}}.
+ */
+export const BOT_FLOW_TEMPLATE_VARIABLES = [
+  'customer_name',
+  'style_label',
+  'budget',
+  'shipping_address',
+  'cart',
+  'cart_total',
+  'commission_percentage',
+  'commission',
+  'owner_total',
+  'last_added',
+  'catalog_url',
+];
+
+/**
+ * El guion original del bot (saludo → estilo → catálogo → carrito → resumen →
+ * dirección → pago). Se crea como flujo activo si la tabla está vacía.
+ */
+export const DEFAULT_BOT_FLOW: BotFlowDefinition = {
+  initial_state: 'ask_name',
+  states: {
+    ask_name: {
+      description: 'Saludo y nombre del cliente',
+      message: {
+        type: 'text',
+        text: '🏃‍♂️💨 *¡Hola! Bienvenido a Melo Sportt* 🏃‍♂️\n\nSomos tu tienda de ropa urbana y clásica de la mejor calidad en Cartagena.\n\n🤖 *Soy tu asistente virtual inteligente* y te voy a ayudar a encontrar exactamente lo que buscas.\n\n*¿Cómo te llamas?* 😊',
+      },
+      capture: 'customer_name',
+      next: 'ask_style',
+    },
+    ask_style: {
+      message: {
+        type: 'buttons',
+        text: '¡Mucho gusto, *{{customer_name}}*! 👋\n\nAhora, cuéntanos, ¿qué tipo de estilo buscas?\n\n🏙️ *Urbano* - Para un look moderno y fresco\n👔 *Clásico* - Elegancia atemporal',
+        buttons: [
+          { id: 'style_urbano', title: '🏙️ Urbano' },
+          { id: 'style_clasico', title: '👔 Clásico' },
+        ],
+      },
+      transitions: [
+        { match: { ids: ['style_urbano'], keywords: ['urbano'], equals: ['1'] }, to: 'ask_catalog', set: { style: 'urbano' } },
+        { match: { ids: ['style_clasico'], keywords: ['clásico', 'clasico'], equals: ['2'] }, to: 'ask_catalog', set: { style: 'clasico' } },
+      ],
+      fallback: { type: 'text', text: 'Por favor selecciona una opción:\n1. Urbano\n2. Clásico' },
+    },
+    ask_catalog: {
+      message: {
+        type: 'buttons',
+        text: '¡Excelente! 🎯 Estilo *{{style_label}}* seleccionado.\n\n📱 *¿Cómo quieres ver nuestros productos?*\n\n🔗 *Ver catálogo completo online* - Navega en nuestra página web\n🛒 *Ver aquí mismo* - Te muestro algunos productos destacados',
+        buttons: [
+          { id: 'catalog_online', title: '🔗 Catálogo online' },
+          { id: 'catalog_here', title: '🛒 Ver aquí mismo' },
+        ],
+      },
+      transitions: [
+        { match: { ids: ['catalog_online'], keywords: ['online', 'web'], equals: ['1'] }, to: 'catalog_online' },
+        { match: { any: true }, to: 'browse_catalog' },
+      ],
+    },
+    catalog_online: {
+      message: {
+        type: 'text',
+        preview_url: true,
+        text: '📱 *Aquí está nuestro catálogo online:*\n\n🔗 {{catalog_url}}\n\nPuedes filtrar por:\n• Estilo: Urbano 🏙️ / Clásico 👔\n• Tipo: Camisetas, Buzos, Pantalonetas...\n• Género: Hombre / Mujer\n\nCuando encuentres algo que te guste, vuelve aquí y me dices qué quieres comprar. 💪',
+      },
+      next: 'ask_products',
+    },
+    browse_catalog: {
+      description: 'Lista interactiva con productos destacados del estilo elegido',
+      on_enter: 'show_featured_products',
+      on_input: 'browse_catalog',
+      outcomes: { empty: 'ask_products', selected: 'ask_quantities' },
+    },
+    ask_products: {
+      description: 'Búsqueda libre por nombre o categoría',
+      on_input: 'search_products',
+      outcomes: { found: 'ask_quantities' },
+    },
+    ask_quantities: {
+      on_input: 'add_to_cart',
+      outcomes: { added: 'confirm_order' },
+    },
+    confirm_order: {
+      message: {
+        type: 'buttons',
+        text: '✅ *¡Agregado al carrito!*\n\n🛒 *{{last_added}}*\n\n📦 *Tu carrito actual:*\n{{cart}}\n\n💵 *Subtotal:* ${{cart_total}}\n\n*¿Algo más?* Responde:\n• "Sí" o "agregar más" - para seguir comprando\n• "No" o "continuar" - para ver resumen y finalizar',
+        buttons: [
+          { id: 'cart_add_more', title: '✅ Sí, agregar más' },
+          { id: 'cart_confirm', title: '📋 No, ver resumen' },
+        ],
+      },
+      transitions: [
+        { match: { ids: ['cart_add_more'], keywords: ['sí', 'si', 'yes', 'agregar', 'más'], equals: ['1'] }, to: 'add_more' },
+        { match: { any: true }, to: 'order_summary' },
+      ],
+    },
+    add_more: {
+      message: {
+        type: 'text',
+        text: 'Perfecto, ¿qué más te interesa?\n\nPuedes:\n• Escribir el nombre de un producto\n• Decir "ver catálogo" para ver más opciones',
+      },
+      next: 'ask_products',
+    },
+    order_summary: {
+      message: {
+        type: 'buttons',
+        text: '📋 *RESUMEN DE TU PEDIDO*\n\n*Cliente:* {{customer_name}}\n*Estilo:* {{style_label}}\n*Presupuesto:* {{budget}}\n\n🛒 *Productos:*\n{{cart}}\n\n💰 *RESUMEN FINANCIERO:*\n─────────────────\nSubtotal: ${{cart_total}}\nComisión ({{commission_percentage}}%): -${{commission}}\n─────────────────\n💵 *Para la tienda:* ${{owner_total}}\n\n─────────────────\n\n*¿Confirmas este pedido?* ✅\n\nResponde "Sí" o "confirmar" para enviar a procesar.',
+        buttons: [
+          { id: 'order_confirm', title: '✅ Confirmar pedido' },
+          { id: 'order_edit', title: '✏️ Editar pedido' },
+        ],
+      },
+      transitions: [
+        { match: { ids: ['order_edit'], keywords: ['editar'] }, to: 'edit_order' },
+        { match: { ids: ['order_confirm'], keywords: ['confirm', 'sí', 'si'] }, to: 'ask_address' },
+      ],
+      fallback: { type: 'text', text: 'Responde "Sí" para confirmar tu pedido o "Editar" para cambiarlo.' },
+    },
+    edit_order: {
+      message: {
+        type: 'text',
+        text: 'Claro, ¿qué quieres agregar?\n\nEscribe el nombre de un producto o "ver catálogo".',
+      },
+      next: 'ask_products',
+    },
+    ask_address: {
+      message: {
+        type: 'text',
+        text: '📍 *¿A qué dirección te lo enviamos?*\n\nEscribe la dirección completa con barrio y ciudad.\nEjemplo: "Calle 30 #17-45, Barrio Manga, Cartagena"',
+      },
+      capture: 'shipping_address',
+      min_length: 8,
+      next: 'ask_payment',
+      fallback: {
+        type: 'text',
+        text: 'Necesitamos la dirección completa (calle, número, barrio y ciudad) para enviar tu pedido. 🙏',
+      },
+    },
+    ask_payment: {
+      message: {
+        type: 'buttons',
+        text: '✅ Dirección: *{{shipping_address}}*\n\n💳 *¿Cómo quieres pagar?*',
+        buttons: [
+          { id: 'pay_cod', title: '💵 Contra entrega' },
+          { id: 'pay_wompi', title: '💳 Pagar en línea' },
+        ],
+      },
+      transitions: [
+        { match: { ids: ['pay_cod'], keywords: ['contra', 'efectivo'], equals: ['1'] }, to: 'checkout', set: { payment_method: 'cash_on_delivery' } },
+        { match: { ids: ['pay_wompi'], keywords: ['línea', 'linea', 'tarjeta'], equals: ['2'] }, to: 'checkout', set: { payment_method: 'wompi' } },
+      ],
+      fallback: {
+        type: 'text',
+        text: 'Por favor elige una opción:\n1. Contra entrega (pagas en efectivo al recibir)\n2. Pagar en línea (tarjeta, PSE o Nequi)',
+      },
+    },
+    checkout: {
+      description: 'Crea el pedido; la confirmación al cliente la envía el sistema',
+      on_enter: 'checkout',
+      terminal: true,
+    },
+  },
+};
+
+// ============================================
+// VALIDACIÓN
+// ============================================
+
+const MAX_AUTO_HOPS = 10;
+
+// Límites de la API de WhatsApp Cloud para mensajes interactivos
+const LIMITS = {
+  text: 4096,
+  interactiveBody: 1024,
+  buttons: 3,
+  buttonTitle: 20,
+  listButton: 20,
+  listRows: 10,
+  rowTitle: 24,
+  rowDescription: 72,
+  sectionTitle: 24,
+};
+
+const idListSchema = z.array(z.string().trim().min(1)).optional();
+
+const messageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string().min(1), preview_url: z.boolean().optional() }),
+  z.object({
+    type: z.literal('buttons'),
+    text: z.string().min(1),
+    buttons: z.array(z.object({ id: z.string().trim().min(1), title: z.string().trim().min(1) })).min(1),
+  }),
+  z.object({
+    type: z.literal('list'),
+    text: z.string().min(1),
+    button_text: z.string().trim().min(1),
+    sections: z.array(z.object({
+      title: z.string().trim().min(1),
+      rows: z.array(z.object({
+        id: z.string().trim().min(1),
+        title: z.string().trim().min(1),
+        description: z.string().optional(),
+      })).min(1),
+    })).min(1),
+  }),
+]);
+
+const actionSchema = z.enum(['show_featured_products', 'browse_catalog', 'search_products', 'add_to_cart', 'checkout']);
+const captureSchema = z.enum(['customer_name', 'budget', 'shipping_address']);
+
+const stateSchema = z.object({
+  description: z.string().optional(),
+  message: messageSchema.optional(),
+  on_enter: actionSchema.optional(),
+  capture: captureSchema.optional(),
+  min_length: z.number().int().min(1).max(500).optional(),
+  transitions: z.array(z.object({
+    match: z.object({
+      any: z.boolean().optional(),
+      ids: idListSchema,
+      equals: idListSchema,
+      keywords: idListSchema,
+    }),
+    to: z.string().min(1),
+    set: z.object({
+      customer_name: z.string().optional(),
+      style: z.enum(['urbano', 'clasico']).optional(),
+      budget: z.string().optional(),
+      shipping_address: z.string().optional(),
+      payment_method: z.enum(['cash_on_delivery', 'wompi']).optional(),
+    }).strict().optional(),
+  })).optional(),
+  on_input: actionSchema.optional(),
+  outcomes: z.record(z.string().min(1)).optional(),
+  fallback: messageSchema.optional(),
+  next: z.string().min(1).optional(),
+  terminal: z.boolean().optional(),
+}).strict();
+
+const definitionSchema = z.object({
+  initial_state: z.string().min(1),
+  states: z.record(z.string().regex(/^[a-z0-9_]{1,50}$/, 'IDs de estado: minúsculas, números y _'), stateSchema),
+});
+
+// Longitud como la cuenta WhatsApp (un emoji = un carácter)
+const length = (text: string) => Array.from(text).length;
+
+export function waitsForInput(state: BotFlowState): boolean {
+  return Boolean(state.capture || state.on_input || state.transitions?.length);
+}
+
+function checkMessage(where: string, message: BotFlowMessage, errors: string[], warnings: string[]): void {
+  for (const variable of message.text.matchAll(/{{\s*(\w+)\s*}}/g)) {
+    if (!BOT_FLOW_TEMPLATE_VARIABLES.includes(variable[1])) {
+      warnings.push(`${where}: la variable {{${variable[1]}}} no existe y se mostrará vacía`);
+    }
+  }
+
+  if (message.type === 'text') {
+    if (length(message.text) > LIMITS.text) {
+      errors.push(`${where}: el texto supera ${LIMITS.text} caracteres`);
+    }
+    return;
+  }
+
+  if (length(message.text) > LIMITS.interactiveBody) {
+    errors.push(`${where}: el texto de un mensaje interactivo no puede superar ${LIMITS.interactiveBody} caracteres`);
+  }
+
+  if (message.type === 'buttons') {
+    if (message.buttons.length > LIMITS.buttons) {
+      errors.push(`${where}: WhatsApp permite máximo ${LIMITS.buttons} botones`);
+    }
+    message.buttons.forEach(button => {
+      if (length(button.title) > LIMITS.buttonTitle) {
+        errors.push(`${where}: el botón "${button.title}" supera ${LIMITS.buttonTitle} caracteres`);
+      }
+    });
+    const ids = message.buttons.map(button => button.id);
+    if (new Set(ids).size !== ids.length) {
+      errors.push(`${where}: hay botones con el mismo id`);
+    }
+    return;
+  }
+
+  if (length(message.button_text) > LIMITS.listButton) {
+    errors.push(`${where}: el texto del botón de la lista supera ${LIMITS.listButton} caracteres`);
+  }
+  const rows = message.sections.flatMap(section => section.rows);
+  if (rows.length > LIMITS.listRows) {
+    errors.push(`${where}: una lista admite máximo ${LIMITS.listRows} opciones en total`);
+  }
+  message.sections.forEach(section => {
+    if (length(section.title) > LIMITS.sectionTitle) {
+      errors.push(`${where}: el título de sección "${section.title}" supera ${LIMITS.sectionTitle} caracteres`);
+    }
+  });
+  rows.forEach(row => {
+    if (length(row.title) > LIMITS.rowTitle) {
+      errors.push(`${where}: la opción "${row.title}" supera ${LIMITS.rowTitle} caracteres`);
+    }
+    if (row.description && length(row.description) > LIMITS.rowDescription) {
+      errors.push(`${where}: la descripción de "${row.title}" supera ${LIMITS.rowDescription} caracteres`);
+    }
+  });
+  const ids = rows.map(row => row.id);
+  if (new Set(ids).size !== ids.length) {
+    errors.push(`${where}: hay opciones de la lista con el mismo id`);
+  }
+}
+
+/**
+ * Revisa la forma del JSON y el grafo: destinos existentes, límites de
+ * WhatsApp, pasos sin salida y saltos automáticos en ciclo. Los pasos
+ * inalcanzables son solo advertencias.
+ */
+function validateDefinition(raw: unknown): BotFlowValidation {
+  const parsed = definitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`),
+      warnings: [],
+    };
+  }
+
+  const definition = parsed.data as BotFlowDefinition;
+  const { states } = definition;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!states[definition.initial_state]) {
+    errors.push(`initial_state: el paso "${definition.initial_state}" no existe`);
+  }
+
+  // Destinos de cada paso: los saltos automáticos (sin esperar respuesta) aparte para detectar ciclos
+  const edges: Record<string, string[]> = {};
+  const autoEdges: Record<string, string[]> = {};
+
+  for (const [id, state] of Object.entries(states)) {
+    const where = `states.${id}`;
+    const targets: Array<[string, string]> = [];
+    const auto: string[] = [];
+    const waits = waitsForInput(state);
+
+    if (state.message) checkMessage(`${where}.message`, state.message, errors, warnings);
+    if (state.fallback) checkMessage(`${where}.fallback`, state.fallback, errors, warnings);
+
+    state.transitions?.forEach((transition, index) => {
+      const match = transition.match;
+      if (!match.any && !match.ids?.length && !match.equals?.length && !match.keywords?.length) {
+        errors.push(`${where}.transitions.${index}: la condición está vacía`);
+      }
+      targets.push([`transitions.${index}.to`, transition.to]);
+    });
+
+    const actions = [state.on_enter, state.on_input].filter(Boolean) as BotFlowAction[];
+    const allowedOutcomes = actions.flatMap(action => BOT_FLOW_ACTION_OUTCOMES[action]);
+    for (const [outcome, target] of Object.entries(state.outcomes ?? {})) {
+      if (actions.length === 0) {
+        errors.push(`${where}.outcomes: solo aplica a pasos con on_enter u on_input`);
+        break;
+      }
+      if (!allowedOutcomes.includes(outcome)) {
+        errors.push(`${where}.outcomes.${outcome}: resultado desconocido (válidos: ${allowedOutcomes.join(', ')})`);
+      }
+      targets.push([`outcomes.${outcome}`, target]);
+      if (state.on_enter && BOT_FLOW_ACTION_OUTCOMES[state.on_enter].includes(outcome)) {
+        auto.push(target);
+      }
+    }
+
+    if (state.next) {
+      targets.push(['next', state.next]);
+      if (!waits) auto.push(state.next);
+    }
+
+    for (const [field, target] of targets) {
+      if (!states[target]) {
+        errors.push(`${where}.${field}: el paso "${target}" no existe`);
+      }
+    }
+
+    if (state.on_input === 'checkout') {
+      errors.push(`${where}.on_input: checkout solo se permite en on_enter`);
+    }
+    if (state.on_enter === 'checkout' && !state.terminal) {
+      errors.push(`${where}: el paso con checkout debe ser terminal`);
+    }
+    if (state.terminal && (waits || state.next || state.outcomes)) {
+      errors.push(`${where}: un paso terminal no puede esperar respuesta ni tener next u outcomes`);
+    }
+    if (state.min_length && !state.capture) {
+      warnings.push(`${where}.min_length: no tiene efecto sin capture`);
+    }
+    if (!state.terminal && !waits && !state.next && !(state.on_enter && state.outcomes)) {
+      errors.push(`${where}: el paso no tiene salida (agrega transitions, capture, on_input, next o terminal)`);
+    }
+    if (state.transitions?.length && !state.transitions.some(t => t.match.any) && !state.fallback && !state.on_input && !state.capture) {
+      warnings.push(`${where}: sin fallback, las respuestas que no coinciden no tendrán contestación`);
+    }
+
+    edges[id] = targets.map(([, target]) => target);
+    autoEdges[id] = auto;
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  // Ciclos de saltos automáticos: el bot entraría en bucle sin esperar al cliente
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const findCycle = (id: string, path: string[]): string[] | null => {
+    if (visiting.has(id)) return [...path, id];
+    if (done.has(id)) return null;
+    visiting.add(id);
+    for (const target of autoEdges[id] ?? []) {
+      const cycle = findCycle(target, [...path, id]);
+      if (cycle) return cycle;
+    }
+    visiting.delete(id);
+    done.add(id);
+    return null;
+  };
+  for (const id of Object.keys(states)) {
+    const cycle = findCycle(id, []);
+    if (cycle) {
+      errors.push(`Ciclo sin esperar respuesta: ${cycle.join(' → ')}`);
+      break;
+    }
+  }
+
+  const reachable = new Set<string>([definition.initial_state]);
+  const pending = [definition.initial_state];
+  while (pending.length > 0) {
+    for (const target of edges[pending.pop()!] ?? []) {
+      if (!reachable.has(target)) {
+        reachable.add(target);
+        pending.push(target);
+      }
+    }
+  }
+  for (const id of Object.keys(states)) {
+    if (!reachable.has(id)) {
+      warnings.push(`states.${id}: no se puede llegar a este paso desde ${definition.initial_state}`);
+    }
+  }
+  if (![...reachable].some(id => states[id].on_enter === 'checkout')) {
+    warnings.push('Ningún paso alcanzable ejecuta checkout: el flujo nunca crea pedidos');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+// ============================================
+// SERVICIO
+// ============================================
+
+const ACTIVE_TTL = 60 * 1000; // Otras instancias ven el cambio en máx. 1 minuto
+let activeCache: { flow: BotFlowDefinition; loadedAt: number } | null = null;
+
+function mapFlow(row: Record<string, any>): BotFlow {
+  return row as BotFlow;
+}
+
+function assertValid(definition: unknown): BotFlowValidation {
+  const validation = validateDefinition(definition);
+  if (!validation.valid) {
+    throw new AppError(`Flujo inválido: ${validation.errors.join('; ')}`, 400);
+  }
+  return validation;
+}
+
+export const botFlowService = {
+  validate(definition: unknown): BotFlowValidation {
+    return validateDefinition(definition);
+  },
+
+  getDefault(): BotFlowDefinition {
+    return DEFAULT_BOT_FLOW;
+  },
+
+  /**
+   * Crea el flujo por defecto como activo cuando aún no hay ninguno guardado.
+   */
+  async ensureSeeded(): Promise<void> {
+    await query(
+      `INSERT INTO bot_flows (name, description, definition, is_active)
+       SELECT $1, $2, $3, true
+       WHERE NOT EXISTS (SELECT 1 FROM bot_flows)
+       ON CONFLICT DO NOTHING`,
+      ['Flujo por defecto', 'Guion original del bot de ventas', JSON.stringify(DEFAULT_BOT_FLOW)]
+    );
+  },
+
+  async getAll(): Promise<BotFlow[]> {
+    await this.ensureSeeded();
+    const result = await query('SELECT * FROM bot_flows ORDER BY is_active DESC, updated_at DESC');
+    return result.rows.map(mapFlow);
+  },
+
+  async getById(id: string): Promise<BotFlow> {
+    const result = await query('SELECT * FROM bot_flows WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      throw new AppError('Bot flow not found', 404);
+    }
+    return mapFlow(result.rows[0]);
+  },
+
+  /**
+   * Definición que usa el bot. Si la guardada dejó de ser válida (p. ej. por
+   * una edición directa en la BD) se usa la de por defecto.
+   */
+  async getActive(): Promise<BotFlowDefinition> {
+    if (activeCache && Date.now() - activeCache.loadedAt < ACTIVE_TTL) {
+      return activeCache.flow;
+    }
+
+    await this.ensureSeeded();
+    const result = await query('SELECT id, definition FROM bot_flows WHERE is_active LIMIT 1');
+    let flow = DEFAULT_BOT_FLOW;
+
+    if (result.rows.length > 0) {
+      const validation = validateDefinition(result.rows[0].definition);
+      if (validation.valid) {
+        flow = result.rows[0].definition;
+      } else {
+        console.error(`[BotFlows] El flujo activo ${result.rows[0].id} es inválido, se usa el de por defecto:`, validation.errors);
+      }
+    }
+
+    activeCache = { flow, loadedAt: Date.now() };
+    return flow;
+  },
+
+  async create(data: BotFlowInput, adminId: string): Promise<BotFlow & { validation: BotFlowValidation }> {
+    const validation = assertValid(data.definition);
+    const result = await query(
+      `INSERT INTO bot_flows (name, description, definition, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $4)
+       RETURNING *`,
+      [data.name, data.description ?? null, JSON.stringify(data.definition), adminId]
+    );
+    return { ...mapFlow(result.rows[0]), validation };
+  },
+
+  /**
+   * Guarda una edición. Con `version` se rechaza si otro admin guardó antes.
+   */
+  async update(
+    id: string,
+    data: Partial<BotFlowInput> & { version?: number },
+    adminId: string
+  ): Promise<BotFlow & { validation: BotFlowValidation }> {
+    const current = await this.getById(id);
+    if (data.version !== undefined && data.version !== current.version) {
+      throw new AppError('El flujo fue modificado por otra persona; recarga antes de guardar', 409);
+    }
+
+    const definition = data.definition ?? current.definition;
+    const validation = assertValid(definition);
+
+    const result = await query(
+      `UPDATE bot_flows
+       SET name = COALESCE($1, name),
+           description = CASE WHEN $2 THEN $3 ELSE description END,
+           definition = $4,
+           version = version + 1,
+           updated_by = $5
+       WHERE id = $6 AND version = $7
+       RETURNING *`,
+      [
+        data.name ?? null,
+        data.description !== undefined,
+        data.description ?? null,
+        JSON.stringify(definition),
+        adminId,
+        id,
+        current.version,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new AppError('El flujo fue modificado por otra persona; recarga antes de guardar', 409);
+    }
+
+    if (current.is_active) activeCache = null;
+    return { ...mapFlow(result.rows[0]), validation };
+  },
+
+  /**
+   * Publica un flujo: las conversaciones en curso siguen desde el paso con el
+   * mismo id; si no existe en el nuevo flujo, vuelven al inicial.
+   */
+  async activate(id: string, adminId: string): Promise<BotFlow> {
+    const flow = await this.getById(id);
+    assertValid(flow.definition);
+
+    const client = await (await import('../config/database.js')).pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('UPDATE bot_flows SET is_active = false WHERE is_active AND id != $1', [id]);
+      await client.query('UPDATE bot_flows SET is_active = true, updated_by = $1 WHERE id = $2', [adminId, id]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    activeCache = null;
+    return this.getById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    const flow = await this.getById(id);
+    if (flow.is_active) {
+      throw new AppError('No se puede eliminar el flujo activo; activa otro primero', 400);
+    }
+    await query('DELETE FROM bot_flows WHERE id = $1', [id]);
+  },
+};
@@ -1,11 +1,225 @@
-import { query } from '../config/database.js';
-import type { Commission, TeamMember, CommissionSummary, CommissionPayment, PublicUser } from '../types/index.js';
+import type { PoolClient } from 'pg';
+import { query, pool } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type {
+  Commission,
+  CommissionBase,
+  CommissionEarnerType,
+  CommissionLine,
+  CommissionRule,
+  CommissionRuleType,
+  TeamMember,
+  CommissionSummary,
+  CommissionPayment,
+  OrderChannel,
+  PublicUser,
+} from '../types/index.js';
 
 /**
  * Servicio de comisiones actualizado para trabajar con las tablas team_members y commissions
  * Sistema de comisiones: Miembros del equipo pueden tener porcentajes configurables (ej: 12% para desarrollador)
+ *
+ * Motor de reglas: la comisión se causa cuando la orden se entrega. La tasa de
+ * cada línea sale de la primera regla que aplique: categoría, canal, tramo de
+ * volumen mensual y por último commission_percentage del miembro. Las reglas
+ * del miembro prevalecen sobre las globales (team_member_id NULL), que solo
+ * aplican a los miembros de su earner_type.
  */
 
+type Queryable = Pick<PoolClient, 'query'>;
+
+// Orden reducida a lo que el motor necesita
+interface CommissionableOrder {
+  subtotal: number;
+  discount: number;
+  total: number;
+  channel: OrderChannel;
+  seller_id?: string | null;
+  lines: Array<{ product_id: string | null; category_id: string | null; total: number }>;
+}
+
+interface CommissionEarner {
+  id: string;
+  earner_type: CommissionEarnerType;
+  position: string;
+  commission_percentage: number;
+  commission_base: CommissionBase;
+}
+
+export interface CommissionCalculation {
+  team_member_id: string;
+  commission_base: CommissionBase;
+  base: number;
+  rate: number;             // Tasa efectiva sobre la base
+  amount: number;
+  breakdown: CommissionLine[];
+}
+
+export interface CommissionRuleData {
+  team_member_id?: string | null;
+  earner_type?: CommissionEarnerType;
+  rule_type: CommissionRuleType;
+  category_id?: string | null;
+  channel?: OrderChannel | null;
+  min_monthly_volume?: number | null;
+  rate: number;
+  active?: boolean;
+  notes?: string | null;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Zona horaria de la tienda para el corte del volumen mensual
+const MONTH_START_SQL = `date_trunc('month', NOW() AT TIME ZONE 'America/Bogota') AT TIME ZONE 'America/Bogota'`;
+
+const toRule = (row: any): CommissionRule => ({
+  ...row,
+  rate: parseFloat(row.rate),
+  min_monthly_volume: row.min_monthly_volume === null ? null : parseFloat(row.min_monthly_volume),
+});
+
+/**
+ * Miembros que cobran sobre la orden: el equipo interno sobre todas y el
+ * vendedor activo sobre las que tiene atribuidas.
+ */
+async function loadEarners(db: Queryable, sellerId?: string | null): Promise<CommissionEarner[]> {
+  const result = await db.query(
+    `SELECT tm.id, 'team' as earner_type, tm.position, tm.commission_percentage, tm.commission_base
+     FROM team_members tm
+     WHERE tm.position != 'seller'
+       AND (tm.commission_percentage > 0 OR EXISTS (
+         SELECT 1 FROM commission_rules r WHERE r.team_member_id = tm.id AND r.active AND r.rate > 0
+       ))
+     UNION ALL
+     SELECT tm.id, 'seller' as earner_type, tm.position, tm.commission_percentage, tm.commission_base
+     FROM sellers s
+     JOIN team_members tm ON tm.id = s.team_member_id
+     WHERE s.id = $1 AND s.status = 'active'`,
+    [sellerId ?? null]
+  );
+
+  return result.rows.map(row => ({
+    ...row,
+    commission_percentage: parseFloat(row.commission_percentage) || 0,
+  }));
+}
+
+async function loadActiveRules(db: Queryable): Promise<CommissionRule[]> {
+  const result = await db.query('SELECT * FROM commission_rules WHERE active = true');
+  return result.rows.map(toRule);
+}
+
+/**
+ * Base ya causada por el miembro en el mes (para los tramos)
+ */
+async function monthlyVolume(db: Queryable, teamMemberId: string): Promise<number> {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(order_total), 0) as volume
+     FROM commissions
+     WHERE team_member_id = $1 AND clawback_of IS NULL AND status != 'cancelled'
+       AND created_at >= ${MONTH_START_SQL}`,
+    [teamMemberId]
+  );
+  return parseFloat(result.rows[0].volume) || 0;
+}
+
+/**
+ * Calcula la comisión de un miembro sobre una orden. El envío, los impuestos y
+ * el descuento se reparten entre las líneas en proporción a su valor.
+ */
+function calculate(order: CommissionableOrder, earner: CommissionEarner, rules: CommissionRule[], volume: number): CommissionCalculation {
+  const itemsTotal = order.lines.reduce((sum, line) => sum + line.total, 0);
+  const baseTotal = earner.commission_base === 'net_sales'
+    ? Math.max(0, itemsTotal - order.discount)
+    : order.total;
+  const ratio = itemsTotal > 0 ? baseTotal / itemsTotal : 0;
+
+  const own = rules.filter(rule => rule.team_member_id === earner.id);
+  const global = rules.filter(rule => rule.team_member_id === null && rule.earner_type === earner.earner_type);
+  const find = (match: (rule: CommissionRule) => boolean) => own.find(match) ?? global.find(match);
+
+  // Tramo más alto alcanzado contando esta orden; los tramos propios reemplazan a los globales
+  const ownTiers = own.filter(rule => rule.rule_type === 'tier');
+  const tier = (ownTiers.length > 0 ? ownTiers : global.filter(rule => rule.rule_type === 'tier'))
+    .filter(rule => (rule.min_monthly_volume ?? 0) <= volume + baseTotal)
+    .sort((a, b) => (b.min_monthly_volume ?? 0) - (a.min_monthly_volume ?? 0))[0];
+
+  const channelRule = find(rule => rule.rule_type === 'channel' && rule.channel === order.channel);
+
+  const breakdown: CommissionLine[] = order.lines.map(line => {
+    const categoryRule = line.category_id
+      ? find(rule => rule.rule_type === 'category' && rule.category_id === line.category_id)
+      : undefined;
+
+    const [rate, source]: [number, CommissionLine['source']] = categoryRule
+      ? [categoryRule.rate, 'category']
+      : channelRule
+        ? [channelRule.rate, 'channel']
+        : tier
+          ? [tier.rate, 'tier']
+          : [earner.commission_percentage, 'member'];
+
+    const base = roundCurrency(line.total * ratio);
+    return {
+      product_id: line.product_id,
+      category_id: line.category_id,
+      base,
+      rate,
+      source,
+      amount: roundCurrency(base * rate / 100),
+    };
+  });
+
+  const base = roundCurrency(baseTotal);
+  const amount = roundCurrency(breakdown.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    team_member_id: earner.id,
+    commission_base: earner.commission_base,
+    base,
+    rate: base > 0 ? roundCurrency(amount / base * 100) : 0,
+    amount,
+    breakdown,
+  };
+}
+
+async function loadProductCategories(db: Queryable, productIds: string[]): Promise<Map<string, string | null>> {
+  if (productIds.length === 0) return new Map();
+  const result = await db.query(
+    'SELECT id, category_id FROM products WHERE id = ANY($1::uuid[])',
+    [productIds]
+  );
+  return new Map(result.rows.map(row => [row.id, row.category_id]));
+}
+
+// Cada tipo de regla necesita su destino (categoría, canal o volumen mínimo)
+function assertRuleTarget(rule: CommissionRuleData): void {
+  if (rule.rule_type === 'category' && !rule.category_id) {
+    throw new AppError('La regla por categoría necesita una categoría', 400);
+  }
+  if (rule.rule_type === 'channel' && !rule.channel) {
+    throw new AppError('La regla por canal necesita un canal', 400);
+  }
+  if (rule.rule_type === 'tier' && (rule.min_monthly_volume === null || rule.min_monthly_volume === undefined)) {
+    throw new AppError('El tramo necesita un volumen mensual mínimo', 400);
+  }
+}
+
+// Solo se guarda el destino del tipo de regla
+function ruleParams(rule: CommissionRuleData): unknown[] {
+  return [
+    rule.team_member_id ?? null,
+    rule.earner_type ?? 'team',
+    rule.rule_type,
+    rule.rule_type === 'category' ? rule.category_id : null,
+    rule.rule_type === 'channel' ? rule.channel : null,
+    rule.rule_type === 'tier' ? rule.min_monthly_volume : null,
+    rule.rate,
+    rule.active ?? true,
+    rule.notes ?? null,
+  ];
+}
+
 export const commissionService = {
   /**
    * Obtiene todos los miembros del equipo
@@ -41,6 +255,7 @@ export const commissionService = {
       } as PublicUser,
       position: row.position,
       commission_percentage: parseFloat(row.commission_percentage),
+      commission_base: row.commission_base,
       can_manage_products: row.can_manage_products,
       can_manage_orders: row.can_manage_orders,
       can_view_analytics: row.can_view_analytics,
@@ -91,6 +306,7 @@ export const commissionService = {
       } as PublicUser,
       position: row.position,
       commission_percentage: parseFloat(row.commission_percentage),
+      commission_base: row.commission_base,
       can_manage_products: row.can_manage_products,
       can_manage_orders: row.can_manage_orders,
       can_view_analytics: row.can_view_analytics,
@@ -110,11 +326,11 @@ export const commissionService = {
   async createTeamMember(data: Omit<TeamMember, 'id' | 'user' | 'joined_at' | 'created_at' | 'updated_at'>): Promise<TeamMember> {
     const result = await query(`
       INSERT INTO team_members (
-        user_id, position, commission_percentage,
+        user_id, position, commission_percentage, commission_base,
         can_manage_products, can_manage_orders, can_view_analytics,
         can_manage_customers, can_manage_settings, can_manage_team,
         notes, joined_at, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW(), NOW())
+      ) VALUES ($1, $2, $3, COALESCE($11, 'order_total'), $4, $5, $6, $7, $8, $9, $10, NOW(), NOW(), NOW())
       RETURNING *
     `, [
       data.user_id,
@@ -127,6 +343,7 @@ export const commissionService = {
       data.can_manage_settings,
       data.can_manage_team,
       data.notes,
+      data.commission_base ?? null,
     ]);
 
     return this.getTeamMemberById(result.rows[0].id) as Promise<TeamMember>;
@@ -263,6 +480,9 @@ export const commissionService = {
       order_total: parseFloat(row.order_total),
       commission_percentage: parseFloat(row.commission_percentage),
       commission_amount: parseFloat(row.commission_amount),
+      commission_base: row.commission_base,
+      breakdown: row.breakdown,
+      clawback_of: row.clawback_of,
       status: row.status,
       paid_at: row.paid_at,
       notes: row.notes,
@@ -303,7 +523,7 @@ export const commissionService = {
       SELECT
         COALESCE(SUM(commission_amount), 0) as total_earned,
         COALESCE(SUM(CASE WHEN status = 'paid' THEN commission_amount ELSE 0 END), 0) as total_paid,
-        COUNT(*) as orders_count
+        COUNT(*) FILTER (WHERE clawback_of IS NULL) as orders_count
       FROM commissions
       WHERE 1=1
     `;
@@ -450,4 +670,265 @@ export const commissionService = {
       monthly_revenue: monthlyRevenue,
     };
   },
-};
\ No newline at end of file
+
+  /**
+   * Causa las comisiones de una orden entregada. Idempotente: se omiten los
+   * miembros que ya tienen comisión sobre la orden.
+   */
+  async accrueForOrder(orderId: string): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const orderResult = await client.query(
+        `SELECT id, order_number, status, subtotal, discount, total, refunded_amount, channel, seller_id
+         FROM orders WHERE id = $1 FOR UPDATE`,
+        [orderId]
+      );
+      const order = orderResult.rows[0];
+
+      if (!order) {
+        throw new AppError('Order not found', 404);
+      }
+
+      if (order.status !== 'delivered') {
+        await client.query('ROLLBACK');
+        return 0;
+      }
+
+      const itemsResult = await client.query(
+        `SELECT oi.product_id, p.category_id, oi.total
+         FROM order_items oi
+         LEFT JOIN products p ON p.id = oi.product_id
+         WHERE oi.order_id = $1`,
+        [orderId]
+      );
+
+      // Lo reembolsado antes de la entrega no genera comisión: la orden se
+      // reduce en la misma proporción
+      const orderTotal = parseFloat(order.total) || 0;
+      const netTotal = Math.max(0, orderTotal - (parseFloat(order.refunded_amount) || 0));
+      const keep = orderTotal > 0 ? netTotal / orderTotal : 0;
+
+      const commissionable: CommissionableOrder = {
+        subtotal: (parseFloat(order.subtotal) || 0) * keep,
+        discount: (parseFloat(order.discount) || 0) * keep,
+        total: netTotal,
+        channel: order.channel,
+        seller_id: order.seller_id,
+        lines: itemsResult.rows.map(row => ({
+          product_id: row.product_id,
+          category_id: row.category_id,
+          total: (parseFloat(row.total) || 0) * keep,
+        })),
+      };
+
+      const earners = await loadEarners(client, order.seller_id);
+      const rules = await loadActiveRules(client);
+      const existing = await client.query(
+        'SELECT team_member_id FROM commissions WHERE order_id = $1 AND clawback_of IS NULL',
+        [orderId]
+      );
+      const alreadyAccrued = new Set(existing.rows.map(row => row.team_member_id));
+
+      let created = 0;
+      for (const earner of earners) {
+        if (alreadyAccrued.has(earner.id)) continue;
+
+        const calculation = calculate(commissionable, earner, rules, await monthlyVolume(client, earner.id));
+        if (calculation.amount <= 0) continue;
+
+        await client.query(
+          `INSERT INTO commissions (
+            team_member_id, order_id, order_total, commission_percentage, commission_amount,
+            commission_base, breakdown, status, notes
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8)`,
+          [
+            earner.id,
+            orderId,
+            calculation.base,
+            calculation.rate,
+            calculation.amount,
+            calculation.commission_base,
+            JSON.stringify(calculation.breakdown),
+            earner.earner_type === 'seller' ? 'Venta referida' : null,
+          ]
+        );
+        created++;
+      }
+
+      await client.query('COMMIT');
+
+      if (created > 0) {
+        console.log(`[Commissions] ${created} commission(s) accrued for order ${order.order_number}`);
+      }
+      return created;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Comisión que causaría un carrito del canal para el equipo interno.
+   * El bot la muestra en el resumen del pedido; los vendedores no participan.
+   */
+  async quote(channel: OrderChannel, lines: Array<{ product_id: string; total: number }>): Promise<{ base: number; rate: number; amount: number }> {
+    const categories = await loadProductCategories(pool, lines.map(line => line.product_id));
+    const itemsTotal = lines.reduce((sum, line) => sum + line.total, 0);
+
+    const order: CommissionableOrder = {
+      subtotal: itemsTotal,
+      discount: 0,
+      total: itemsTotal,
+      channel,
+      lines: lines.map(line => ({
+        product_id: line.product_id,
+        category_id: categories.get(line.product_id) ?? null,
+        total: line.total,
+      })),
+    };
+
+    const earners = await loadEarners(pool);
+    const rules = await loadActiveRules(pool);
+
+    let amount = 0;
+    for (const earner of earners) {
+      amount += calculate(order, earner, rules, await monthlyVolume(pool, earner.id)).amount;
+    }
+
+    const base = roundCurrency(itemsTotal);
+    amount = roundCurrency(amount);
+    return { base, rate: base > 0 ? roundCurrency(amount / base * 100) : 0, amount };
+  },
+
+  /**
+   * Revierte comisiones por un reembolso dentro de su transacción. Las no
+   * pagadas se reducen en la proporción reembolsada (o se cancelan si es
+   * total); de las pagadas se crea un registro negativo que se descuenta del
+   * siguiente pago.
+   */
+  async clawback(client: PoolClient, refund: {
+    orderId: string;
+    amount: number;
+    refundedBefore: number;
+    orderTotal: number;
+    fullyRefunded: boolean;
+  }): Promise<void> {
+    const { orderId, amount, refundedBefore, orderTotal, fullyRefunded } = refund;
+    const remaining = Math.max(0, orderTotal - refundedBefore);
+
+    if (fullyRefunded) {
+      await client.query(
+        `UPDATE commissions
+         SET status = 'cancelled', notes = COALESCE(notes || ' | ', '') || 'Orden reembolsada', updated_at = NOW()
+         WHERE order_id = $1 AND clawback_of IS NULL AND status IN ('pending', 'approved')`,
+        [orderId]
+      );
+    } else if (remaining > 0) {
+      const keep = Math.max(0, (remaining - amount) / remaining);
+      await client.query(
+        `UPDATE commissions
+         SET order_total = ROUND(order_total * $2, 2),
+             commission_amount = ROUND(commission_amount * $2, 2),
+             updated_at = NOW()
+         WHERE order_id = $1 AND clawback_of IS NULL AND status IN ('pending', 'approved')`,
+        [orderId, keep]
+      );
+    }
+
+    const paid = await client.query(
+      `SELECT c.id, c.team_member_id, c.order_total, c.commission_percentage, c.commission_amount, c.commission_base,
+        COALESCE((
+          SELECT SUM(cb.commission_amount) FROM commissions cb
+          WHERE cb.clawback_of = c.id AND cb.status != 'cancelled'
+        ), 0) as clawed_back
+       FROM commissions c
+       WHERE c.order_id = $1 AND c.clawback_of IS NULL AND c.status = 'paid'`,
+      [orderId]
+    );
+
+    const share = orderTotal > 0 ? Math.min(1, amount / orderTotal) : 1;
+
+    for (const row of paid.rows) {
+      const paidAmount = parseFloat(row.commission_amount) || 0;
+      // clawed_back es negativo
+      const outstanding = roundCurrency(paidAmount + (parseFloat(row.clawed_back) || 0));
+      const recover = fullyRefunded ? outstanding : Math.min(outstanding, roundCurrency(paidAmount * share));
+      if (recover <= 0) continue;
+
+      await client.query(
+        `INSERT INTO commissions (
+          team_member_id, order_id, order_total, commission_percentage, commission_amount,
+          commission_base, clawback_of, status, notes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', 'Recuperación por reembolso')`,
+        [
+          row.team_member_id,
+          orderId,
+          -roundCurrency((parseFloat(row.order_total) || 0) * recover / paidAmount),
+          row.commission_percentage,
+          -recover,
+          row.commission_base,
+          row.id,
+        ]
+      );
+
+      console.log(`[Commissions] Clawback of $${recover.toFixed(2)} for commission ${row.id} (order ${orderId})`);
+    }
+  },
+
+  /**
+   * Reglas de comisión; con teamMemberId, las del miembro y las globales
+   */
+  async getRules(teamMemberId?: string): Promise<CommissionRule[]> {
+    const result = await query(
+      `SELECT * FROM commission_rules
+       ${teamMemberId ? 'WHERE team_member_id = $1 OR team_member_id IS NULL' : ''}
+       ORDER BY team_member_id NULLS FIRST, rule_type, min_monthly_volume NULLS FIRST, created_at`,
+      teamMemberId ? [teamMemberId] : []
+    );
+    return result.rows.map(toRule);
+  },
+
+  async createRule(data: CommissionRuleData): Promise<CommissionRule> {
+    assertRuleTarget(data);
+
+    const result = await query(
+      `INSERT INTO commission_rules (team_member_id, earner_type, rule_type, category_id, channel, min_monthly_volume, rate, active, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      ruleParams(data)
+    );
+    return toRule(result.rows[0]);
+  },
+
+  async updateRule(id: string, data: Partial<CommissionRuleData>): Promise<CommissionRule> {
+    const current = await query('SELECT * FROM commission_rules WHERE id = $1', [id]);
+    if (current.rows.length === 0) {
+      throw new AppError('Regla de comisión no encontrada', 404);
+    }
+
+    const merged = { ...toRule(current.rows[0]), ...data };
+    assertRuleTarget(merged);
+
+    const result = await query(
+      `UPDATE commission_rules
+       SET team_member_id = $1, earner_type = $2, rule_type = $3, category_id = $4, channel = $5,
+           min_monthly_volume = $6, rate = $7, active = $8, notes = $9
+       WHERE id = $10
+       RETURNING *`,
+      [...ruleParams(merged), id]
+    );
+    return toRule(result.rows[0]);
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    const result = await query('DELETE FROM commission_rules WHERE id = $1 RETURNING id', [id]);
+    if (result.rows.length === 0) {
+      throw new AppError('Regla de comisión no encontrada', 404);
+    }
+  },
+};
@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import type { PoolClient } from 'pg';
+import { z } from 'zod';
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Campañas de códigos únicos de un solo uso. Cada código es una fila normal de
+// coupons (usage_limit = 1) con las reglas de la campaña copiadas, así el
+// checkout y la redención (coupon.service) no distinguen entre ambos.
+
+export const MAX_CODES_PER_BATCH = 10000;
+
+// Sin 0/O ni 1/I para que los códigos se puedan dictar o copiar a mano
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const INSERT_CHUNK = 1000;
+
+export const campaignRulesSchema = z.object({
+  discount_type: z.enum(['percentage', 'fixed', 'buy_x_get_y', 'free_shipping']),
+  discount_value: z.number().min(0).default(0),
+  min_purchase: z.number().positive().nullable().optional(),
+  max_discount: z.number().positive().nullable().optional(),
+  per_customer_limit: z.number().int().positive().nullable().optional(),
+  first_order_only: z.boolean().default(false),
+  min_items: z.number().int().positive().nullable().optional(),
+  buy_quantity: z.number().int().positive().nullable().optional(),
+  get_quantity: z.number().int().positive().nullable().optional(),
+  applicable_to: z.enum(['all', 'specific', 'categories']).default('all'),
+  product_ids: z.array(z.string().uuid()).nullable().optional(),
+  category_ids: z.array(z.string().uuid()).nullable().optional(),
+  starts_at: z.string().datetime({ offset: true }).nullable().optional(),
+  expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+}).superRefine((rules, ctx) => {
+  if (rules.discount_type !== 'free_shipping' && rules.discount_value <= 0) {
+    ctx.addIssue({ code: 'custom', path: ['discount_value'], message: 'El valor del descuento debe ser mayor a 0' });
+  }
+  if ((rules.discount_type === 'percentage' || rules.discount_type === 'buy_x_get_y') && rules.discount_value > 100) {
+    ctx.addIssue({ code: 'custom', path: ['discount_value'], message: 'El porcentaje no puede ser mayor a 100' });
+  }
+  if (rules.discount_type === 'buy_x_get_y' && (!rules.buy_quantity || !rules.get_quantity)) {
+    ctx.addIssue({ code: 'custom', path: ['buy_quantity'], message: 'Indica cuántas unidades se compran y cuántas se reciben' });
+  }
+  if (rules.applicable_to === 'specific' && !rules.product_ids?.length) {
+    ctx.addIssue({ code: 'custom', path: ['product_ids'], message: 'Selecciona al menos un producto' });
+  }
+  if (rules.applicable_to === 'categories' && !rules.category_ids?.length) {
+    ctx.addIssue({ code: 'custom', path: ['category_ids'], message: 'Selecciona al menos una categoría' });
+  }
+});
+
+export type CampaignRules = z.infer<typeof campaignRulesSchema>;
+
+export interface CreateCampaignData {
+  name: string;
+  description?: string | null;
+  code_prefix: string;
+  quantity: number;
+  rules: unknown;
+}
+
+export interface CouponCampaignStats {
+  issued: number;
+  redeemed: number;
+  available: number;
+  orders: number;
+  revenue: number;           // Total de órdenes vigentes (sin canceladas ni reembolsadas)
+  discount_given: number;
+}
+
+export interface CouponCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  code_prefix: string;
+  rules: CampaignRules;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  stats: CouponCampaignStats;
+}
+
+// Conteos y ventas por campaña; las órdenes se unen por coupon_code. Las órdenes
+// lo guardan en mayúsculas, pero las anteriores pueden no estarlo: el UPPER()
+// usa el índice de expresión idx_orders_coupon_code (migración 035)
+const CAMPAIGN_SELECT = `
+  SELECT cc.*,
+    json_build_object(
+      'issued', COALESCE(codes.issued, 0),
+      'redeemed', COALESCE(codes.redeemed, 0),
+      'available', COALESCE(codes.issued, 0) - COALESCE(codes.redeemed, 0),
+      'orders', COALESCE(sales.orders, 0),
+      'revenue', COALESCE(sales.revenue, 0),
+      'discount_given', COALESCE(sales.discount_given, 0)
+    ) as stats
+  FROM coupon_campaigns cc
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*)::int as issued, COUNT(*) FILTER (WHERE c.used_count > 0)::int as redeemed
+    FROM coupons c WHERE c.campaign_id = cc.id
+  ) codes ON true
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*)::int as orders,
+      COALESCE(SUM(o.total), 0)::float as revenue,
+      COALESCE(SUM(o.discount), 0)::float as discount_given
+    FROM orders o
+    JOIN coupons c ON c.code = UPPER(o.coupon_code)
+    WHERE c.campaign_id = cc.id AND o.status NOT IN ('cancelled', 'refunded')
+  ) sales ON true`;
+
+function randomCode(prefix: string): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  // 256 es múltiplo de 32: cada byte elige una letra sin sesgo
+  const suffix = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `${prefix}-${suffix}`;
+}
+
+/**
+ * Inserta `quantity` códigos nuevos. Los choques con códigos existentes se
+ * descartan (ON CONFLICT) y se reponen en la siguiente vuelta.
+ */
+async function insertCodes(client: PoolClient, campaignId: string, prefix: string, rules: CampaignRules, active: boolean, quantity: number): Promise<number> {
+  let remaining = quantity;
+  let attempts = 0;
+
+  while (remaining > 0) {
+    if (++attempts > Math.ceil(quantity / INSERT_CHUNK) + 10) {
+      throw new AppError('No se pudieron generar códigos únicos; usa otro prefijo', 409);
+    }
+
+    const codes = [...new Set(Array.from({ length: Math.min(remaining, INSERT_CHUNK) }, () => randomCode(prefix)))];
+    const result = await client.query(
+      `INSERT INTO coupons (
+        code, campaign_id, discount_type, discount_value, min_purchase, max_discount, usage_limit,
+        per_customer_limit, first_order_only, min_items, buy_quantity, get_quantity,
+        applicable_to, product_ids, category_ids, starts_at, expires_at, active
+      )
+      SELECT code, $2, $3, $4, $5, $6, 1, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
+      FROM unnest($1::text[]) AS code
+      ON CONFLICT (code) DO NOTHING
+      RETURNING id`,
+      [
+        codes,
+        campaignId,
+        rules.discount_type,
+        rules.discount_type === 'free_shipping' ? 0 : rules.discount_value,
+        rules.min_purchase ?? null,
+        rules.max_discount ?? null,
+        rules.per_customer_limit ?? null,
+        rules.first_order_only,
+        rules.min_items ?? null,
+        rules.discount_type === 'buy_x_get_y' ? rules.buy_quantity : null,
+        rules.discount_type === 'buy_x_get_y' ? rules.get_quantity : null,
+        rules.applicable_to,
+        rules.product_ids ? JSON.stringify(rules.product_ids) : null,
+        rules.category_ids ? JSON.stringify(rules.category_ids) : null,
+        rules.starts_at ?? null,
+        rules.expires_at ?? null,
+        active,
+      ]
+    );
+    remaining -= result.rows.length;
+  }
+
+  return quantity;
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const couponCampaignService = {
+  async getAll(): Promise<CouponCampaign[]> {
+    const result = await query(`${CAMPAIGN_SELECT} ORDER BY cc.created_at DESC`);
+    return result.rows as CouponCampaign[];
+  },
+
+  async getById(id: string): Promise<CouponCampaign> {
+    const result = await query(`${CAMPAIGN_SELECT} WHERE cc.id = $1`, [id]);
+    if (result.rows.length === 0) {
+      throw new AppError('Campaña no encontrada', 404);
+    }
+    return result.rows[0] as CouponCampaign;
+  },
+
+  async create(data: CreateCampaignData, userId: string): Promise<CouponCampaign> {
+    // ZodError -> 400 con detalles (errorHandler)
+    const rules = campaignRulesSchema.parse(data.rules);
+    const prefix = data.code_prefix.trim().toUpperCase();
+
+    const client = await (await import('../config/database.js')).pool.connect();
+    let campaignId: string;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO coupon_campaigns (name, description, code_prefix, rules, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [data.name, data.description ?? null, prefix, JSON.stringify(rules), userId]
+      );
+      campaignId = result.rows[0].id;
+
+      await insertCodes(client, campaignId, prefix, rules, true, data.quantity);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`[Coupons] Campaign "${data.name}" created with ${data.quantity} code(s)`);
+    return this.getById(campaignId);
+  },
+
+  /**
+   * Emite más códigos con las mismas reglas
+   */
+  async addCodes(id: string, quantity: number): Promise<CouponCampaign> {
+    const campaign = await this.getById(id);
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await insertCodes(client, id, campaign.code_prefix, campaignRulesSchema.parse(campaign.rules), campaign.active, quantity);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getById(id);
+  },
+
+  /**
+   * Nombre, descripción y estado. Activar o pausar la campaña aplica a todos sus códigos.
+   */
+  async update(id: string, data: { name?: string; description?: string | null; active?: boolean }): Promise<CouponCampaign> {
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE coupon_campaigns
+         SET name = COALESCE($1, name),
+             description = CASE WHEN $2::boolean THEN $3 ELSE description END,
+             active = COALESCE($4, active)
+         WHERE id = $5
+         RETURNING id`,
+        [data.name ?? null, data.description !== undefined, data.description ?? null, data.active ?? null, id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Campaña no encontrada', 404);
+      }
+
+      // La campaña y sus códigos cambian de estado juntos
+      if (data.active !== undefined) {
+        await client.query(
+          `UPDATE coupons SET active = $1, updated_at = NOW() WHERE campaign_id = $2`,
+          [data.active, id]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getById(id);
+  },
+
+  /**
+   * Solo se borran campañas sin códigos usados; las demás se pausan
+   */
+  async delete(id: string): Promise<void> {
+    const campaign = await this.getById(id);
+    if (campaign.stats.redeemed > 0) {
+      throw new AppError('La campaña tiene códigos usados; desactívala en lugar de eliminarla', 409);
+    }
+
+    await query('DELETE FROM coupon_campaigns WHERE id = $1', [id]);
+  },
+
+  /**
+   * CSV con cada código, si ya se usó y la orden en que se usó
+   */
+  async exportCsv(id: string): Promise<{ filename: string; csv: string }> {
+    const campaign = await this.getById(id);
+    const result = await query(
+      `SELECT c.code, c.used_count, c.active, c.expires_at,
+        r.created_at as redeemed_at, o.order_number, o.total as order_total
+       FROM coupons c
+       LEFT JOIN coupon_redemptions r ON r.coupon_id = c.id AND r.released_at IS NULL
+       LEFT JOIN orders o ON o.id = r.order_id
+       WHERE c.campaign_id = $1
+       ORDER BY c.code`,
+      [id]
+    );
+
+    const header = ['code', 'status', 'redeemed_at', 'order_number', 'order_total', 'expires_at'];
+    const rows = result.rows.map(row => [
+      row.code,
+      row.used_count > 0 ? 'redeemed' : row.active ? 'available' : 'inactive',
+      row.redeemed_at ? new Date(row.redeemed_at).toISOString() : '',
+      row.order_number,
+      row.order_total,
+      row.expires_at ? new Date(row.expires_at).toISOString() : '',
+    ]);
+
+    const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+    const slug = campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'campaign';
+    return { filename: `cupones-${slug}.csv`, csv };
+  },
+};
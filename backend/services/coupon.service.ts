@@ -0,0 +1,385 @@
+import type { PoolClient } from 'pg';
+import { pool, query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { PricedLine } from './pricing.service.js';
+
+// Reglas de cupones compartidas por /coupons/validate y el cálculo de pedidos
+// (pricing.service). El descuento se reparte por línea para que el cliente vea
+// dónde se aplicó.
+
+export type CouponDiscountType = 'percentage' | 'fixed' | 'buy_x_get_y' | 'free_shipping';
+export type CouponApplicability = 'all' | 'specific' | 'categories';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  min_purchase: number | null;
+  max_discount: number | null;
+  usage_limit: number | null;
+  used_count: number;
+  per_customer_limit: number | null;
+  first_order_only: boolean;
+  min_items: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  applicable_to: CouponApplicability;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  active: boolean;
+}
+
+export interface CouponLineDiscount {
+  product_id: string;
+  variant_id?: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  eligible: boolean;
+  discounted_units: number;       // Unidades con descuento (buy_x_get_y: las que salen gratis o rebajadas)
+  discount: number;
+}
+
+export interface CouponEvaluation {
+  coupon_id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  discount: number;               // Suma de los descuentos por línea
+  shipping_discount: number;      // Solo free_shipping
+  lines: CouponLineDiscount[];
+}
+
+export interface CouponContext {
+  userId?: string | null;
+  subtotal: number;
+  shippingCost: number;
+  excludeOrderId?: string;        // La orden que se está creando no cuenta como compra previa
+}
+
+export type CouponReleaseReason = 'cancelled' | 'refunded' | 'expired';
+
+// Lo mínimo de la orden recién insertada que hace falta para redimir el cupón
+export interface CouponRedemptionOrder {
+  id: string;
+  user_id?: string | null;
+  coupon_code: string;
+  subtotal: number;
+  discount: number;
+  items: Array<{ product_id?: string; variant_id?: string; quantity?: number; price?: number }>;
+}
+
+// Dentro de una transacción se usa el client; fuera, el pool
+type Queryable = Pick<PoolClient, 'query'>;
+
+// Diferencia máxima aceptada (en COP) entre el descuento cotizado y el revalidado
+const DISCOUNT_TOLERANCE = 1;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// JSONB puede llegar como texto en filas antiguas (migración 006)
+const parseIds = (value: unknown): string[] | null => {
+  if (value === null || value === undefined) return null;
+  const ids = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(ids) ? ids.map(String) : null;
+};
+
+const toCoupon = (row: any): Coupon => ({
+  ...row,
+  discount_value: Number(row.discount_value),
+  min_purchase: row.min_purchase === null ? null : Number(row.min_purchase),
+  max_discount: row.max_discount === null ? null : Number(row.max_discount),
+  used_count: Number(row.used_count || 0),
+  first_order_only: Boolean(row.first_order_only),
+  applicable_to: row.applicable_to || 'all',
+  product_ids: parseIds(row.product_ids),
+  category_ids: parseIds(row.category_ids),
+});
+
+/**
+ * Reparte un monto entre líneas en proporción a su peso; el redondeo
+ * sobrante va a la última para que la suma cuadre exactamente.
+ */
+function allocate(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  let remaining = roundCurrency(amount);
+  const lastIndex = weights.reduce((last, weight, index) => (weight > 0 ? index : last), -1);
+
+  return weights.map((weight, index) => {
+    if (weight <= 0) return 0;
+    if (index === lastIndex) return remaining;
+    const share = roundCurrency((amount * weight) / totalWeight);
+    remaining = roundCurrency(remaining - share);
+    return share;
+  });
+}
+
+export const couponService = {
+  async getByCode(code: string): Promise<Coupon> {
+    const result = await query(
+      `SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) AND active = true`,
+      [code]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Cupón no válido o inactivo', 400);
+    }
+    return toCoupon(result.rows[0]);
+  },
+
+  isEligibleLine(coupon: Coupon, line: Pick<PricedLine, 'product_id' | 'category_id'>): boolean {
+    if (coupon.applicable_to === 'specific') {
+      return (coupon.product_ids ?? []).includes(line.product_id);
+    }
+    if (coupon.applicable_to === 'categories') {
+      return !!line.category_id && (coupon.category_ids ?? []).includes(line.category_id);
+    }
+    return true;
+  },
+
+  /**
+   * Reglas que no dependen del monto del descuento: vigencia, límites y requisitos del carrito
+   */
+  async assertApplicable(coupon: Coupon, lines: PricedLine[], context: CouponContext, db: Queryable = pool): Promise<void> {
+    const now = new Date();
+
+    if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+      throw new AppError('Este cupón aún no está disponible', 400);
+    }
+
+    if (coupon.expires_at && new Date(coupon.expires_at) < now) {
+      throw new AppError('Este cupón ha expirado', 400);
+    }
+
+    if (coupon.usage_limit && coupon.used_count >= coupon.usage_limit) {
+      throw new AppError('Este cupón ha alcanzado su límite de uso', 400);
+    }
+
+    if (coupon.min_purchase && context.subtotal < coupon.min_purchase) {
+      throw new AppError(`El mínimo de compra para este cupón es de $${coupon.min_purchase}`, 400);
+    }
+
+    const eligibleUnits = lines
+      .filter(line => this.isEligibleLine(coupon, line))
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+    if (eligibleUnits === 0) {
+      throw new AppError('Este cupón no es aplicable a los productos en tu carrito', 400);
+    }
+
+    if (coupon.min_items && eligibleUnits < coupon.min_items) {
+      throw new AppError(`Este cupón requiere al menos ${coupon.min_items} productos aplicables en el carrito`, 400);
+    }
+
+    if (coupon.discount_type === 'buy_x_get_y' && eligibleUnits < (coupon.buy_quantity ?? 0) + (coupon.get_quantity ?? 0)) {
+      throw new AppError(
+        `Lleva ${(coupon.buy_quantity ?? 0) + (coupon.get_quantity ?? 0)} productos aplicables para usar este cupón`,
+        400
+      );
+    }
+
+    if (coupon.first_order_only || coupon.per_customer_limit) {
+      if (!context.userId) {
+        throw new AppError('Inicia sesión para usar este cupón', 401);
+      }
+
+      if (coupon.first_order_only) {
+        const orders = await db.query(
+          `SELECT 1 FROM orders
+           WHERE user_id = $1 AND status <> 'cancelled' AND id IS DISTINCT FROM $2::uuid
+           LIMIT 1`,
+          [context.userId, context.excludeOrderId ?? null]
+        );
+        if (orders.rows.length > 0) {
+          throw new AppError('Este cupón es solo para tu primera compra', 400);
+        }
+      }
+
+      if (coupon.per_customer_limit) {
+        const used = await this.countRedemptions(coupon.id, context.userId, db);
+        if (used >= coupon.per_customer_limit) {
+          throw new AppError(
+            coupon.per_customer_limit === 1
+              ? 'Ya usaste este cupón'
+              : `Ya usaste este cupón ${used} veces (máximo ${coupon.per_customer_limit})`,
+            400
+          );
+        }
+      }
+    }
+  },
+
+  /**
+   * Calcula el descuento línea por línea (sin consultar la base de datos)
+   */
+  calculate(coupon: Coupon, lines: PricedLine[], shippingCost: number): CouponEvaluation {
+    const eligible = lines.map(line => this.isEligibleLine(coupon, line));
+    const discountedUnits = lines.map(() => 0);
+    let discounts = lines.map(() => 0);
+    let shippingDiscount = 0;
+
+    if (coupon.discount_type === 'percentage') {
+      discounts = lines.map((line, i) => (eligible[i] ? roundCurrency((line.total * coupon.discount_value) / 100) : 0));
+      lines.forEach((line, i) => { if (eligible[i]) discountedUnits[i] = line.quantity; });
+    } else if (coupon.discount_type === 'fixed') {
+      const eligibleTotal = lines.reduce((sum, line, i) => sum + (eligible[i] ? line.total : 0), 0);
+      discounts = allocate(Math.min(coupon.discount_value, eligibleTotal), lines.map((line, i) => (eligible[i] ? line.total : 0)));
+      lines.forEach((line, i) => { if (eligible[i]) discountedUnits[i] = line.quantity; });
+    } else if (coupon.discount_type === 'buy_x_get_y') {
+      // Unidades de mayor a menor precio en grupos de (X + Y); las Y más baratas de cada grupo llevan el descuento
+      const groupSize = (coupon.buy_quantity ?? 0) + (coupon.get_quantity ?? 0);
+      const units = lines
+        .flatMap((line, i) => (eligible[i] ? Array.from({ length: line.quantity }, () => ({ index: i, price: line.unit_price })) : []))
+        .sort((a, b) => b.price - a.price);
+
+      units.forEach((unit, position) => {
+        if (groupSize > 0 && position % groupSize >= (coupon.buy_quantity ?? 0) && position < units.length - (units.length % groupSize)) {
+          discounts[unit.index] = roundCurrency(discounts[unit.index] + (unit.price * coupon.discount_value) / 100);
+          discountedUnits[unit.index] += 1;
+        }
+      });
+    } else if (coupon.discount_type === 'free_shipping') {
+      shippingDiscount = shippingCost;
+    }
+
+    // Tope del descuento: se recorta proporcionalmente en cada línea
+    const lineTotal = discounts.reduce((sum, value) => sum + value, 0);
+    if (coupon.max_discount && coupon.discount_type !== 'free_shipping' && lineTotal > coupon.max_discount) {
+      discounts = allocate(coupon.max_discount, discounts);
+    }
+
+    const breakdown: CouponLineDiscount[] = lines.map((line, i) => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      name: line.name,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      total: line.total,
+      eligible: eligible[i],
+      discounted_units: discountedUnits[i],
+      discount: Math.min(discounts[i], line.total),
+    }));
+
+    return {
+      coupon_id: coupon.id,
+      code: coupon.code,
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      discount: roundCurrency(breakdown.reduce((sum, line) => sum + line.discount, 0)),
+      shipping_discount: roundCurrency(shippingDiscount),
+      lines: breakdown,
+    };
+  },
+
+  async evaluate(code: string, lines: PricedLine[], context: CouponContext): Promise<CouponEvaluation> {
+    const coupon = await this.getByCode(code);
+    await this.assertApplicable(coupon, lines, context);
+    return this.calculate(coupon, lines, context.shippingCost);
+  },
+
+  async countRedemptions(couponId: string, userId: string, db: Queryable = pool): Promise<number> {
+    const result = await db.query(
+      `SELECT COUNT(*)::int AS total FROM coupon_redemptions
+       WHERE coupon_id = $1 AND user_id = $2 AND released_at IS NULL`,
+      [couponId, userId]
+    );
+    return result.rows[0].total;
+  },
+
+  /**
+   * Redime el cupón dentro de la transacción que crea la orden. El bloqueo de
+   * la fila serializa los checkouts concurrentes con el mismo cupón, así
+   * usage_limit y los límites por cliente no se pueden rebasar.
+   */
+  async redeem(client: PoolClient, order: CouponRedemptionOrder): Promise<CouponEvaluation> {
+    const couponResult = await client.query(
+      `SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) AND active = true FOR UPDATE`,
+      [order.coupon_code]
+    );
+    if (couponResult.rows.length === 0) {
+      throw new AppError('Cupón no válido o inactivo', 400);
+    }
+    const coupon = toCoupon(couponResult.rows[0]);
+
+    const productIds = [...new Set(order.items.map(item => item.product_id).filter(Boolean))] as string[];
+    const products = await client.query(
+      `SELECT id, name, category_id FROM products WHERE id = ANY($1::uuid[])`,
+      [productIds]
+    );
+    const byId = new Map(products.rows.map(row => [row.id as string, row]));
+
+    const lines = order.items.map(item => {
+      const product = byId.get(item.product_id!);
+      const unitPrice = Number(item.price || 0);
+      const quantity = item.quantity || 0;
+      return {
+        product_id: item.product_id!,
+        variant_id: item.variant_id,
+        category_id: product?.category_id ?? null,
+        name: product?.name ?? '',
+        quantity,
+        base_price: unitPrice,
+        accessories_price: 0,
+        selected_accessories: [],
+        unit_price: unitPrice,
+        total: roundCurrency(unitPrice * quantity),
+      } satisfies PricedLine;
+    });
+
+    await this.assertApplicable(coupon, lines, {
+      userId: order.user_id,
+      subtotal: Number(order.subtotal),
+      shippingCost: 0,
+      excludeOrderId: order.id,
+    }, client);
+
+    const evaluation = this.calculate(coupon, lines, 0);
+    if (Math.abs(evaluation.discount - Number(order.discount || 0)) > DISCOUNT_TOLERANCE) {
+      throw new AppError('El descuento del cupón cambió, vuelve a aplicarlo', 409);
+    }
+
+    await client.query(
+      `INSERT INTO coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+       VALUES ($1, $2, $3, $4)`,
+      [coupon.id, order.user_id ?? null, order.id, Number(order.discount || 0)]
+    );
+    await client.query(
+      `UPDATE coupons SET used_count = used_count + 1, updated_at = NOW() WHERE id = $1`,
+      [coupon.id]
+    );
+
+    return evaluation;
+  },
+
+  /**
+   * Devuelve el uso del cupón de una orden cancelada o reembolsada. Idempotente.
+   */
+  async release(orderId: string, reason: CouponReleaseReason, db: Queryable = pool): Promise<boolean> {
+    const released = await db.query(
+      `UPDATE coupon_redemptions
+       SET released_at = NOW(), release_reason = $2
+       WHERE order_id = $1 AND released_at IS NULL
+       RETURNING coupon_id`,
+      [orderId, reason]
+    );
+
+    for (const row of released.rows) {
+      await db.query(
+        `UPDATE coupons SET used_count = GREATEST(used_count - 1, 0), updated_at = NOW() WHERE id = $1`,
+        [row.coupon_id]
+      );
+    }
+
+    if (released.rows.length > 0) {
+      console.log(`[Coupons] Redemption released for order ${orderId} (${reason})`);
+    }
+    return released.rows.length > 0;
+  },
+};
@@ -0,0 +1,624 @@
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { DianStatus, DocumentType, ElectronicDocumentType } from '../types/index.js';
+import type { InvoicingSettings } from './settings.service.js';
+
+// Facturación electrónica DIAN (Anexo técnico 1.9, UBL 2.1): CUFE/CUDE, XML,
+// código QR y envío al proveedor tecnológico.
+
+// Clave técnica pública del set de pruebas de habilitación (prefijo SETP). Solo
+// vale en el ambiente de pruebas (DIAN_ENVIRONMENT=2).
+export const DIAN_TEST_SET_TECHNICAL_KEY = 'fc8eac422eba16e22ffd8c6f94b3f40a6e38162c';
+
+export interface DianParty {
+  name: string;
+  // Tabla 13.2.1 del anexo: 13 cédula, 22 extranjería, 31 NIT, 41 pasaporte
+  documentType: string;
+  document: string;
+  checkDigit?: string;
+  email?: string;
+}
+
+export interface DianLine {
+  description: string;
+  sku?: string | null;
+  quantity: number;
+  unitPrice: number;
+  lineExtension: number;
+  taxPercent: number;
+  taxAmount: number;
+}
+
+export interface DianAuthorization {
+  resolution_number?: string | null;
+  prefix: string;
+  range_from: number;
+  range_to: number;
+  valid_from: string;
+  valid_to: string;
+  technical_key?: string | null;
+}
+
+export interface DianDocument {
+  kind: ElectronicDocumentType;
+  prefix: string;
+  sequence: number;
+  issuedAt: Date;
+  authorization: DianAuthorization;
+  issuer: InvoicingSettings;
+  buyer: DianParty;
+  lines: DianLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  // Tabla 13.3.4.1: 10 efectivo, 48 tarjeta crédito, 49 tarjeta débito, 42 consignación
+  paymentMeansCode: string;
+  // Solo notas crédito
+  billingReference?: { number: string; cufe: string | null; issuedAt: Date };
+  discrepancy?: { code: CreditNoteReason; description: string };
+}
+
+// Tabla 13.2.4 (concepto de corrección de notas crédito)
+export type CreditNoteReason = '1' | '2' | '3' | '4';
+
+export interface DianSubmission {
+  kind: ElectronicDocumentType;
+  number: string;
+  cufe: string;
+  xml: string;
+}
+
+export interface DianSubmissionResult {
+  status: Extract<DianStatus, 'pending' | 'accepted' | 'rejected'>;
+  message?: string;
+  tracking_id?: string;
+  errors?: string[];
+}
+
+/**
+ * Proveedor tecnológico intercambiable. El stub permite generar y validar
+ * documentos sin conexión.
+ */
+export interface DianProvider {
+  name: string;
+  submit(document: DianSubmission): Promise<DianSubmissionResult>;
+}
+
+export const CONSUMIDOR_FINAL: DianParty = {
+  name: 'Consumidor final',
+  documentType: '13',
+  document: '222222222222',
+};
+
+const DOCUMENT_TYPE_CODES: Record<DocumentType, string> = {
+  cc: '13',
+  ce: '22',
+  nit: '31',
+  passport: '41',
+};
+
+const DIAN_AGENCY = 'schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)"';
+// NIT de la DIAN como proveedor de autorización
+const DIAN_NIT = '800197268';
+// Bogotá no tiene horario de verano: UTC-5 todo el año
+const STORE_UTC_OFFSET_MS = -5 * 60 * 60 * 1000;
+const AMOUNT_TOLERANCE = 0.01;
+
+const amount = (value: number) => value.toFixed(2);
+
+const sha384 = (value: string) => createHash('sha384').update(value, 'utf8').digest('hex');
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function documentNumber(prefix: string, sequence: number): string {
+  return `${prefix}${sequence}`;
+}
+
+/**
+ * Fecha y hora de emisión en hora de Colombia, como las exige el anexo
+ */
+export function issueDateParts(issuedAt: Date): { date: string; time: string } {
+  const local = new Date(issuedAt.getTime() + STORE_UTC_OFFSET_MS).toISOString();
+  return { date: local.slice(0, 10), time: `${local.slice(11, 19)}-05:00` };
+}
+
+/**
+ * Dígito de verificación de un NIT (módulo 11 de la DIAN)
+ */
+export function nitCheckDigit(nit: string): string {
+  const weights = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+  const digits = nit.replace(/\D/g, '').split('').reverse();
+  const sum = digits.reduce((acc, digit, i) => acc + Number(digit) * weights[i], 0);
+  const remainder = sum % 11;
+  return String(remainder > 1 ? 11 - remainder : remainder);
+}
+
+export function buyerFromUser(user: {
+  full_name?: string | null;
+  email?: string | null;
+  document_type?: DocumentType | null;
+  document_number?: string | null;
+}): DianParty {
+  const document = user.document_number?.replace(/[^0-9A-Za-z]/g, '');
+  if (!user.document_type || !document) {
+    return { ...CONSUMIDOR_FINAL, email: user.email ?? undefined };
+  }
+
+  const documentType = DOCUMENT_TYPE_CODES[user.document_type];
+  return {
+    name: user.full_name || CONSUMIDOR_FINAL.name,
+    documentType,
+    document,
+    checkDigit: documentType === '31' ? nitCheckDigit(document) : undefined,
+    email: user.email ?? undefined,
+  };
+}
+
+// IVA es el único impuesto que cobra la tienda; INC (04) e ICA (03) van en cero
+function taxTotals(document: DianDocument) {
+  return [
+    ['01', document.tax],
+    ['04', 0],
+    ['03', 0],
+  ] as const;
+}
+
+/**
+ * CUFE (facturas, con la clave técnica del rango) o CUDE (notas crédito, con
+ * el PIN del software): SHA-384 de los campos en el orden del anexo.
+ */
+export function computeDocumentKey(document: DianDocument): string {
+  const { date, time } = issueDateParts(document.issuedAt);
+  const secret = document.kind === 'invoice'
+    ? document.authorization.technical_key ?? ''
+    : env.DIAN_SOFTWARE_PIN;
+
+  return sha384([
+    documentNumber(document.prefix, document.sequence),
+    date,
+    time,
+    amount(document.subtotal),
+    ...taxTotals(document).flatMap(([code, value]) => [code, amount(value)]),
+    amount(document.total),
+    document.issuer.nit,
+    document.buyer.document,
+    secret,
+    env.DIAN_ENVIRONMENT,
+  ].join(''));
+}
+
+export function buildQrPayload(document: DianDocument, cufe: string): string {
+  const { date, time } = issueDateParts(document.issuedAt);
+  const host = env.DIAN_ENVIRONMENT === '1' ? 'catalogo-vpfe.dian.gov.co' : 'catalogo-vpfe-hab.dian.gov.co';
+  const isInvoice = document.kind === 'invoice';
+
+  return [
+    `${isInvoice ? 'NumFac' : 'NumNC'}: ${documentNumber(document.prefix, document.sequence)}`,
+    `${isInvoice ? 'FecFac' : 'FecNC'}: ${date}`,
+    `${isInvoice ? 'HorFac' : 'HorNC'}: ${time}`,
+    `NitFac: ${document.issuer.nit}`,
+    `DocAdq: ${document.buyer.document}`,
+    `ValFac: ${amount(document.subtotal)}`,
+    `ValIva: ${amount(document.tax)}`,
+    'ValOtroIm: 0.00',
+    `ValTolFac: ${amount(document.total)}`,
+    `${isInvoice ? 'CUFE' : 'CUDE'}: ${cufe}`,
+    `QRCode: https://${host}/document/searchqr?documentkey=${cufe}`,
+  ].join('\n');
+}
+
+/**
+ * Revisa numeración, vigencia y totales antes de firmar. Devuelve los errores
+ * encontrados (vacío si el documento es válido).
+ */
+export function validateDocument(document: DianDocument): string[] {
+  const errors: string[] = [];
+  const { authorization } = document;
+  const { date } = issueDateParts(document.issuedAt);
+
+  if (document.sequence < authorization.range_from || document.sequence > authorization.range_to) {
+    errors.push(`Consecutivo ${document.sequence} fuera del rango autorizado ${authorization.range_from}-${authorization.range_to}`);
+  }
+  if (date < String(authorization.valid_from).slice(0, 10) || date > String(authorization.valid_to).slice(0, 10)) {
+    errors.push(`Fecha ${date} fuera de la vigencia de la numeración ${authorization.prefix}`);
+  }
+  if (document.kind === 'invoice' && (!authorization.resolution_number || !authorization.technical_key)) {
+    errors.push('La numeración de facturas requiere número de resolución y clave técnica');
+  }
+  if (document.kind === 'credit_note' && !document.billingReference) {
+    errors.push('La nota crédito debe referenciar una factura');
+  }
+  if (!/^\d{5,15}$/.test(document.issuer.nit)) {
+    errors.push('NIT del emisor inválido');
+  }
+  if (document.issuer.check_digit !== nitCheckDigit(document.issuer.nit)) {
+    errors.push('Dígito de verificación del emisor inválido');
+  }
+  if (!document.buyer.document) {
+    errors.push('Documento del adquiriente requerido');
+  }
+  if (document.lines.length === 0) {
+    errors.push('El documento no tiene líneas');
+  }
+
+  const lineSum = document.lines.reduce((sum, line) => sum + line.lineExtension, 0);
+  const lineTax = document.lines.reduce((sum, line) => sum + line.taxAmount, 0);
+
+  for (const [i, line] of document.lines.entries()) {
+    if (line.quantity <= 0 || line.lineExtension < 0 || line.taxAmount < 0) {
+      errors.push(`Línea ${i + 1}: cantidad o valores inválidos`);
+    }
+  }
+  if (Math.abs(lineSum - document.subtotal) > AMOUNT_TOLERANCE) {
+    errors.push(`La suma de líneas (${amount(lineSum)}) no coincide con el subtotal (${amount(document.subtotal)})`);
+  }
+  if (Math.abs(lineTax - document.tax) > AMOUNT_TOLERANCE) {
+    errors.push(`El IVA de las líneas (${amount(lineTax)}) no coincide con el total de IVA (${amount(document.tax)})`);
+  }
+
+  const payable = document.subtotal + document.tax - document.discount + document.shipping;
+  if (Math.abs(payable - document.total) > AMOUNT_TOLERANCE) {
+    errors.push(`El total (${amount(document.total)}) no coincide con subtotal + IVA - descuento + envío (${amount(payable)})`);
+  }
+
+  return errors;
+}
+
+function partyXml(party: DianParty, accountId: string, issuer?: InvoicingSettings): string {
+  const schemeId = party.checkDigit !== undefined ? ` schemeID="${party.checkDigit}"` : '';
+  const companyId = `<cbc:CompanyID ${DIAN_AGENCY}${schemeId} schemeName="${party.documentType}">${escapeXml(party.document)}</cbc:CompanyID>`;
+  const address = issuer
+    ? `<cac:Address>
+            <cbc:ID>${issuer.city_code}</cbc:ID>
+            <cbc:CityName>${escapeXml(issuer.city)}</cbc:CityName>
+            <cbc:CountrySubentity>${escapeXml(issuer.department)}</cbc:CountrySubentity>
+            <cbc:CountrySubentityCode>${issuer.department_code}</cbc:CountrySubentityCode>
+            <cac:AddressLine><cbc:Line>${escapeXml(issuer.address)}</cbc:Line></cac:AddressLine>
+            <cac:Country><cbc:IdentificationCode>CO</cbc:IdentificationCode></cac:Country>
+          </cac:Address>`
+    : '';
+  // Responsabilidades del emisor; los consumidores no declaran IVA (ZZ)
+  const taxLevel = issuer ? issuer.tax_responsibilities.join(';') : 'R-99-PN';
+  const taxScheme = issuer
+    ? '<cac:TaxScheme><cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name></cac:TaxScheme>'
+    : '<cac:TaxScheme><cbc:ID>ZZ</cbc:ID><cbc:Name>No aplica</cbc:Name></cac:TaxScheme>';
+
+  return `<cbc:AdditionalAccountID>${accountId}</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyName><cbc:Name>${escapeXml(issuer?.trade_name ?? party.name)}</cbc:Name></cac:PartyName>
+      ${address ? `<cac:PhysicalLocation>${address}</cac:PhysicalLocation>` : ''}
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        ${companyId}
+        <cbc:TaxLevelCode listName="48">${escapeXml(taxLevel)}</cbc:TaxLevelCode>
+        ${address ? `<cac:RegistrationAddress>${address.replace(/^<cac:Address>|<\/cac:Address>$/g, '')}</cac:RegistrationAddress>` : ''}
+        ${taxScheme}
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        ${companyId}
+      </cac:PartyLegalEntity>
+      ${party.email ? `<cac:Contact><cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail></cac:Contact>` : ''}
+    </cac:Party>`;
+}
+
+function taxTotalXml(taxAmount: number, subtotals: Array<{ base: number; tax: number; percent: number }>): string {
+  return `<cac:TaxTotal>
+    <cbc:TaxAmount currencyID="COP">${amount(taxAmount)}</cbc:TaxAmount>
+    ${subtotals.map(subtotal => `<cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="COP">${amount(subtotal.base)}</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="COP">${amount(subtotal.tax)}</cbc:TaxAmount>
+      <cac:TaxCategory>
+        <cbc:Percent>${amount(subtotal.percent)}</cbc:Percent>
+        <cac:TaxScheme><cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name></cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>`).join('\n    ')}
+  </cac:TaxTotal>`;
+}
+
+function allowanceChargeXml(id: number, isCharge: boolean, reason: string, value: number, base: number): string {
+  const factor = base > 0 ? (value / base) * 100 : 0;
+  return `<cac:AllowanceCharge>
+    <cbc:ID>${id}</cbc:ID>
+    <cbc:ChargeIndicator>${isCharge}</cbc:ChargeIndicator>
+    ${isCharge ? '' : '<cbc:AllowanceChargeReasonCode>11</cbc:AllowanceChargeReasonCode>'}
+    <cbc:AllowanceChargeReason>${escapeXml(reason)}</cbc:AllowanceChargeReason>
+    <cbc:MultiplierFactorNumeric>${amount(factor)}</cbc:MultiplierFactorNumeric>
+    <cbc:Amount currencyID="COP">${amount(value)}</cbc:Amount>
+    <cbc:BaseAmount currencyID="COP">${amount(base)}</cbc:BaseAmount>
+  </cac:AllowanceCharge>`;
+}
+
+/**
+ * XML UBL 2.1 (Invoice o CreditNote) con las extensiones DIAN. La firma
+ * XAdES la agrega el proveedor tecnológico en la segunda UBLExtension.
+ */
+export function buildUblXml(document: DianDocument, cufe: string, qrPayload: string): string {
+  const isInvoice = document.kind === 'invoice';
+  const root = isInvoice ? 'Invoice' : 'CreditNote';
+  const lineTag = isInvoice ? 'InvoiceLine' : 'CreditNoteLine';
+  const quantityTag = isInvoice ? 'InvoicedQuantity' : 'CreditedQuantity';
+  const number = documentNumber(document.prefix, document.sequence);
+  const { date, time } = issueDateParts(document.issuedAt);
+  const { authorization, issuer } = document;
+  const softwareSecurityCode = sha384(`${issuer.software_id}${env.DIAN_SOFTWARE_PIN}${number}`);
+
+  const taxGroups = new Map<number, { base: number; tax: number; percent: number }>();
+  for (const line of document.lines) {
+    const group = taxGroups.get(line.taxPercent) ?? { base: 0, tax: 0, percent: line.taxPercent };
+    group.base += line.lineExtension;
+    group.tax += line.taxAmount;
+    taxGroups.set(line.taxPercent, group);
+  }
+
+  const allowanceCharges: string[] = [];
+  if (document.discount > 0) {
+    allowanceCharges.push(allowanceChargeXml(allowanceCharges.length + 1, false, 'Descuento', document.discount, document.subtotal));
+  }
+  if (document.shipping > 0) {
+    allowanceCharges.push(allowanceChargeXml(allowanceCharges.length + 1, true, 'Envío', document.shipping, document.subtotal));
+  }
+
+  const invoiceControl = isInvoice
+    ? `<sts:InvoiceControl>
+              <sts:InvoiceAuthorization>${escapeXml(authorization.resolution_number ?? '')}</sts:InvoiceAuthorization>
+              <sts:AuthorizationPeriod>
+                <cbc:StartDate>${String(authorization.valid_from).slice(0, 10)}</cbc:StartDate>
+                <cbc:EndDate>${String(authorization.valid_to).slice(0, 10)}</cbc:EndDate>
+              </sts:AuthorizationPeriod>
+              <sts:AuthorizedInvoices>
+                <sts:Prefix>${escapeXml(authorization.prefix)}</sts:Prefix>
+                <sts:From>${authorization.range_from}</sts:From>
+                <sts:To>${authorization.range_to}</sts:To>
+              </sts:AuthorizedInvoices>
+            </sts:InvoiceControl>`
+    : '';
+
+  const reference = document.billingReference
+    ? `<cac:DiscrepancyResponse>
+    <cbc:ReferenceID>${escapeXml(document.billingReference.number)}</cbc:ReferenceID>
+    <cbc:ResponseCode>${document.discrepancy?.code ?? '2'}</cbc:ResponseCode>
+    <cbc:Description>${escapeXml(document.discrepancy?.description ?? '')}</cbc:Description>
+  </cac:DiscrepancyResponse>
+  <cac:BillingReference>
+    <cac:InvoiceDocumentReference>
+      <cbc:ID>${escapeXml(document.billingReference.number)}</cbc:ID>
+      <cbc:UUID schemeName="CUFE-SHA384">${document.billingReference.cufe ?? ''}</cbc:UUID>
+      <cbc:IssueDate>${issueDateParts(document.billingReference.issuedAt).date}</cbc:IssueDate>
+    </cac:InvoiceDocumentReference>
+  </cac:BillingReference>`
+    : '';
+
+  const lines = document.lines.map((line, i) => `<cac:${lineTag}>
+    <cbc:ID>${i + 1}</cbc:ID>
+    <cbc:${quantityTag} unitCode="94">${line.quantity}</cbc:${quantityTag}>
+    <cbc:LineExtensionAmount currencyID="COP">${amount(line.lineExtension)}</cbc:LineExtensionAmount>
+    ${taxTotalXml(line.taxAmount, [{ base: line.lineExtension, tax: line.taxAmount, percent: line.taxPercent }])}
+    <cac:Item>
+      <cbc:Description>${escapeXml(line.description)}</cbc:Description>
+      ${line.sku ? `<cac:SellersItemIdentification><cbc:ID>${escapeXml(line.sku)}</cbc:ID></cac:SellersItemIdentification>` : ''}
+    </cac:Item>
+    <cac:Price>
+      <cbc:PriceAmount currencyID="COP">${amount(line.unitPrice)}</cbc:PriceAmount>
+      <cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:${lineTag}>`).join('\n  ');
+
+  const issuerParty: DianParty = {
+    name: issuer.legal_name,
+    documentType: '31',
+    document: issuer.nit,
+    checkDigit: issuer.check_digit,
+    email: issuer.email,
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+  xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"
+  xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+  <ext:UBLExtensions>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>
+        <sts:DianExtensions>
+            ${invoiceControl}
+            <sts:InvoiceSource>
+              <cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode>
+            </sts:InvoiceSource>
+            <sts:SoftwareProvider>
+              <sts:ProviderID ${DIAN_AGENCY} schemeID="${issuer.check_digit}" schemeName="31">${issuer.nit}</sts:ProviderID>
+              <sts:SoftwareID ${DIAN_AGENCY}>${escapeXml(issuer.software_id)}</sts:SoftwareID>
+            </sts:SoftwareProvider>
+            <sts:SoftwareSecurityCode ${DIAN_AGENCY}>${softwareSecurityCode}</sts:SoftwareSecurityCode>
+            <sts:AuthorizationProvider>
+              <sts:AuthorizationProviderID ${DIAN_AGENCY} schemeID="4" schemeName="31">${DIAN_NIT}</sts:AuthorizationProviderID>
+            </sts:AuthorizationProvider>
+            <sts:QRCode>${escapeXml(qrPayload)}</sts:QRCode>
+        </sts:DianExtensions>
+      </ext:ExtensionContent>
+    </ext:UBLExtension>
+    <ext:UBLExtension>
+      <ext:ExtensionContent/>
+    </ext:UBLExtension>
+  </ext:UBLExtensions>
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>${isInvoice ? '10' : '20'}</cbc:CustomizationID>
+  <cbc:ProfileID>${isInvoice ? 'DIAN 2.1: Factura Electrónica de Venta' : 'DIAN 2.1: Nota Crédito de Factura Electrónica de Venta'}</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${env.DIAN_ENVIRONMENT}</cbc:ProfileExecutionID>
+  <cbc:ID>${escapeXml(number)}</cbc:ID>
+  <cbc:UUID schemeID="${env.DIAN_ENVIRONMENT}" schemeName="${isInvoice ? 'CUFE-SHA384' : 'CUDE-SHA384'}">${cufe}</cbc:UUID>
+  <cbc:IssueDate>${date}</cbc:IssueDate>
+  <cbc:IssueTime>${time}</cbc:IssueTime>
+  ${isInvoice ? '<cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>' : '<cbc:CreditNoteTypeCode>91</cbc:CreditNoteTypeCode>'}
+  <cbc:DocumentCurrencyCode>COP</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${document.lines.length}</cbc:LineCountNumeric>
+  ${reference}
+  <cac:AccountingSupplierParty>
+    ${partyXml(issuerParty, '1', issuer)}
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    ${partyXml(document.buyer, document.buyer.documentType === '31' ? '1' : '2')}
+  </cac:AccountingCustomerParty>
+  <cac:PaymentMeans>
+    <cbc:ID>1</cbc:ID>
+    <cbc:PaymentMeansCode>${document.paymentMeansCode}</cbc:PaymentMeansCode>
+  </cac:PaymentMeans>
+  ${allowanceCharges.join('\n  ')}
+  ${taxTotalXml(document.tax, [...taxGroups.values()])}
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="COP">${amount(document.subtotal)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="COP">${amount(document.subtotal)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="COP">${amount(document.subtotal + document.tax)}</cbc:TaxInclusiveAmount>
+    <cbc:AllowanceTotalAmount currencyID="COP">${amount(document.discount)}</cbc:AllowanceTotalAmount>
+    <cbc:ChargeTotalAmount currencyID="COP">${amount(document.shipping)}</cbc:ChargeTotalAmount>
+    <cbc:PayableAmount currencyID="COP">${amount(document.total)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  ${lines}
+</${root}>
+`;
+}
+
+/**
+ * Sin red: revisa que el XML corresponda al documento y lo guarda en
+ * `directory` para inspeccionarlo. Rechaza como lo haría la DIAN.
+ */
+export function createStubProvider(directory: string): DianProvider {
+  return {
+    name: 'stub',
+    async submit(document) {
+      const errors: string[] = [];
+      const root = document.kind === 'invoice' ? 'Invoice' : 'CreditNote';
+
+      if (!document.xml.includes(`<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2"`)) {
+        errors.push(`El XML no es un ${root} UBL 2.1`);
+      }
+      if (!/^[0-9a-f]{96}$/.test(document.cufe)) {
+        errors.push('CUFE/CUDE inválido (se esperan 96 caracteres hexadecimales)');
+      }
+      if (!document.xml.includes(`>${document.cufe}</cbc:UUID>`)) {
+        errors.push('El CUFE/CUDE del XML no coincide con el documento');
+      }
+      if (!document.xml.includes(`<cbc:ID>${escapeXml(document.number)}</cbc:ID>`)) {
+        errors.push('El número del XML no coincide con el documento');
+      }
+      if (!document.xml.includes(`<cbc:ProfileExecutionID>${env.DIAN_ENVIRONMENT}</cbc:ProfileExecutionID>`)) {
+        errors.push('Ambiente del XML distinto al configurado');
+      }
+
+      await mkdir(directory, { recursive: true });
+      const filePath = join(directory, `${document.number}.xml`);
+      await writeFile(filePath, document.xml, 'utf8');
+      console.log(`🧾 [DIAN] ${document.kind} ${document.number} -> ${filePath}`);
+
+      return errors.length > 0
+        ? { status: 'rejected', message: 'Documento rechazado (stub)', errors }
+        : { status: 'accepted', message: 'Documento validado localmente (stub)', tracking_id: document.cufe };
+    },
+  };
+}
+
+/**
+ * Proveedor tecnológico por HTTP: recibe el XML sin firmar, lo firma y lo
+ * transmite a la DIAN. Responde { status, message, tracking_id, errors }.
+ */
+export function createHttpProvider(url: string, token?: string): DianProvider {
+  return {
+    name: 'http',
+    async submit(document) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          document_type: document.kind,
+          number: document.number,
+          cufe: document.cufe,
+          environment: env.DIAN_ENVIRONMENT,
+          xml: Buffer.from(document.xml, 'utf8').toString('base64'),
+        }),
+        signal: AbortSignal.timeout(30000),
+      });
+
+      const body = await response.json().catch(() => ({})) as Partial<DianSubmissionResult>;
+
+      if (!response.ok) {
+        // 4xx: el proveedor rechazó el documento; 5xx: se puede reintentar
+        return response.status < 500
+          ? { status: 'rejected', message: body.message || `HTTP ${response.status}`, errors: body.errors }
+          : { status: 'pending', message: body.message || `HTTP ${response.status}` };
+      }
+
+      return {
+        status: body.status === 'accepted' || body.status === 'rejected' ? body.status : 'pending',
+        message: body.message,
+        tracking_id: body.tracking_id,
+        errors: body.errors,
+      };
+    },
+  };
+}
+
+function createDefaultProvider(): DianProvider {
+  switch (env.DIAN_PROVIDER) {
+    case 'http':
+      return createHttpProvider(env.DIAN_PROVIDER_URL!, env.DIAN_PROVIDER_TOKEN);
+    case 'stub':
+    default:
+      return createStubProvider(env.DIAN_STUB_DIR);
+  }
+}
+
+let provider: DianProvider = createDefaultProvider();
+
+export const dianService = {
+  /**
+   * Reemplaza el proveedor activo (p. ej. para pruebas u otro operador)
+   */
+  setProvider(newProvider: DianProvider): void {
+    provider = newProvider;
+  },
+
+  getProviderName(): string {
+    return provider.name;
+  },
+
+  /**
+   * Genera CUFE/CUDE, QR y XML. Lanza los errores de validación sin generar nada.
+   */
+  generate(document: DianDocument): { number: string; cufe: string; qrPayload: string; xml: string } {
+    const errors = validateDocument(document);
+    if (errors.length > 0) {
+      throw new AppError(`Documento electrónico inválido: ${errors.join('; ')}`, 422);
+    }
+
+    const cufe = computeDocumentKey(document);
+    const qrPayload = buildQrPayload(document, cufe);
+
+    return {
+      number: documentNumber(document.prefix, document.sequence),
+      cufe,
+      qrPayload,
+      xml: buildUblXml(document, cufe, qrPayload),
+    };
+  },
+
+  async submit(document: DianSubmission): Promise<DianSubmissionResult> {
+    return provider.submit(document);
+  },
+};
@@ -0,0 +1,254 @@
+import type { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { InventoryMovement, InventoryMovementType } from '../types/index.js';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export interface MovementInput {
+  product_id: string;
+  variant_id?: string | null;
+  type: InventoryMovementType;
+  quantity_change: number;
+  reason?: string;
+  order_id?: string;
+  created_by?: string;
+}
+
+export interface RecordedMovement extends MovementInput {
+  quantity_before?: number | null;
+  quantity_after?: number | null;
+  variant_quantity_after?: number | null;
+}
+
+export interface AdjustmentInput {
+  product_id: string;
+  variant_id?: string;
+  type: 'adjustment' | 'restock' | 'damage';
+  quantity_change?: number;
+  counted_quantity?: number;
+  reason: string;
+}
+
+interface MovementFilters {
+  product_id?: string;
+  variant_id?: string;
+  type?: InventoryMovementType;
+  order_id?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const MOVEMENT_SELECT = `
+  SELECT m.*,
+    p.name as product_name,
+    v.name as variant_name,
+    o.order_number,
+    u.full_name as created_by_name
+  FROM inventory_movements m
+  JOIN products p ON p.id = m.product_id
+  LEFT JOIN product_variants v ON v.id = m.variant_id
+  LEFT JOIN orders o ON o.id = m.order_id
+  LEFT JOIN users u ON u.id = m.created_by`;
+
+export const inventoryService = {
+  /**
+   * Registra un movimiento cuyo efecto sobre el stock ya fue aplicado
+   * (p. ej. edición directa de la cantidad desde el admin)
+   */
+  async record(db: Queryable, movement: RecordedMovement): Promise<InventoryMovement> {
+    const result = await db.query(
+      `INSERT INTO inventory_movements (product_id, variant_id, type, quantity_change, quantity_before,
+        quantity_after, variant_quantity_after, reason, order_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        movement.product_id,
+        movement.variant_id || null,
+        movement.type,
+        movement.quantity_change,
+        movement.quantity_before ?? null,
+        movement.quantity_after ?? null,
+        movement.variant_quantity_after ?? null,
+        movement.reason || null,
+        movement.order_id || null,
+        movement.created_by || null,
+      ]
+    );
+    return result.rows[0] as InventoryMovement;
+  },
+
+  /**
+   * Cambia el stock del producto (y de la variante) y deja el movimiento en el ledger.
+   * Las ventas y devoluciones también ajustan total_sold.
+   * Devuelve null si el producto no lleva control de inventario.
+   */
+  async applyMovement(db: Queryable, movement: MovementInput): Promise<InventoryMovement | null> {
+    const soldChange = movement.type === 'sale' || movement.type === 'return' ? -movement.quantity_change : 0;
+
+    const productResult = await db.query(
+      `UPDATE products
+       SET quantity = quantity + $1,
+           total_sold = GREATEST(0, COALESCE(total_sold, 0) + $2),
+           updated_at = NOW()
+       WHERE id = $3 AND track_quantity = true
+       RETURNING quantity`,
+      [movement.quantity_change, soldChange, movement.product_id]
+    );
+
+    let variantQuantityAfter: number | null = null;
+    if (movement.variant_id) {
+      const variantResult = await db.query(
+        `UPDATE product_variants SET quantity = quantity + $1, updated_at = NOW()
+         WHERE id = $2 RETURNING quantity`,
+        [movement.quantity_change, movement.variant_id]
+      );
+      variantQuantityAfter = variantResult.rows[0]?.quantity ?? null;
+    }
+
+    if (productResult.rows.length === 0 && variantQuantityAfter === null) {
+      return null;
+    }
+
+    const quantityAfter: number | null = productResult.rows[0]?.quantity ?? null;
+
+    return this.record(db, {
+      ...movement,
+      quantity_before: quantityAfter === null ? null : quantityAfter - movement.quantity_change,
+      quantity_after: quantityAfter,
+      variant_quantity_after: variantQuantityAfter,
+    });
+  },
+
+  /**
+   * Ajuste manual desde el admin: por diferencia (quantity_change) o por conteo físico (counted_quantity)
+   */
+  async adjust(data: AdjustmentInput, userId: string): Promise<InventoryMovement> {
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const productResult = await client.query(
+        'SELECT id, quantity, track_quantity FROM products WHERE id = $1 FOR UPDATE',
+        [data.product_id]
+      );
+
+      if (productResult.rows.length === 0) {
+        throw new AppError('Product not found', 404);
+      }
+
+      const product = productResult.rows[0];
+      if (!product.track_quantity) {
+        throw new AppError('Product does not track inventory', 400);
+      }
+
+      let currentQuantity: number = product.quantity;
+      if (data.variant_id) {
+        const variantResult = await client.query(
+          'SELECT quantity FROM product_variants WHERE id = $1 AND product_id = $2 FOR UPDATE',
+          [data.variant_id, data.product_id]
+        );
+        if (variantResult.rows.length === 0) {
+          throw new AppError('Variant not found for this product', 404);
+        }
+        currentQuantity = variantResult.rows[0].quantity;
+      }
+
+      const quantityChange = data.counted_quantity !== undefined
+        ? data.counted_quantity - currentQuantity
+        : data.quantity_change ?? 0;
+
+      if (quantityChange === 0) {
+        throw new AppError('Stock already matches, nothing to adjust', 400);
+      }
+      if (data.type === 'restock' && quantityChange < 0) {
+        throw new AppError('A restock must add units', 400);
+      }
+      if (data.type === 'damage' && quantityChange > 0) {
+        throw new AppError('Damaged units must be subtracted', 400);
+      }
+      if (currentQuantity + quantityChange < 0) {
+        throw new AppError(`Cannot remove more units than in stock (${currentQuantity})`, 400);
+      }
+
+      const movement = await this.applyMovement(client, {
+        product_id: data.product_id,
+        variant_id: data.variant_id,
+        type: data.type,
+        quantity_change: quantityChange,
+        reason: data.reason,
+        created_by: userId,
+      });
+
+      await client.query('COMMIT');
+      return movement!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  async getMovements(filters: MovementFilters = {}): Promise<{ data: InventoryMovement[]; count: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filters.product_id) addCondition('m.product_id = ?', filters.product_id);
+    if (filters.variant_id) addCondition('m.variant_id = ?', filters.variant_id);
+    if (filters.type) addCondition('m.type = ?', filters.type);
+    if (filters.order_id) addCondition('m.order_id = ?', filters.order_id);
+    if (filters.startDate) addCondition('m.created_at >= ?', filters.startDate);
+    if (filters.endDate) addCondition('m.created_at <= ?', filters.endDate);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query(
+      `SELECT COUNT(*)::int as count FROM inventory_movements m ${where}`,
+      params
+    );
+
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+    const result = await query(
+      `${MOVEMENT_SELECT}
+       ${where}
+       ORDER BY m.created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return { data: result.rows as InventoryMovement[], count: countResult.rows[0].count };
+  },
+
+  /**
+   * Historial de un producto junto con su stock actual
+   */
+  async getProductHistory(productId: string, options: { limit?: number; offset?: number } = {}) {
+    const productResult = await query(
+      `SELECT p.id, p.name, p.sku, p.quantity, p.track_quantity,
+        COALESCE(
+          (SELECT json_agg(json_build_object('id', v.id, 'name', v.name, 'sku', v.sku, 'quantity', v.quantity))
+           FROM product_variants v WHERE v.product_id = p.id), '[]'
+        ) as variants
+       FROM products p WHERE p.id = $1`,
+      [productId]
+    );
+
+    if (productResult.rows.length === 0) {
+      throw new AppError('Product not found', 404);
+    }
+
+    const { data, count } = await this.getMovements({ product_id: productId, ...options });
+
+    return { product: productResult.rows[0], movements: data, count };
+  },
+};
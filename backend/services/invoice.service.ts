@@ -1,11 +1,28 @@
+import type { PoolClient } from 'pg';
 import { query } from '../config/database.js';
 import { AppError } from '../middleware/errorHandler.js';
-import type { Order } from '../types/index.js';
+import { TAX_RATE } from './pricing.service.js';
+import { settingsService } from './settings.service.js';
+import { numberingService } from './numbering.service.js';
+import {
+  buyerFromUser,
+  CONSUMIDOR_FINAL,
+  dianService,
+  nitCheckDigit,
+  type CreditNoteReason,
+  type DianDocument,
+  type DianLine,
+} from './dian.service.js';
+import type { DianStatus, ElectronicDocumentType, InvoiceLine, OrderRefund } from '../types/index.js';
 
 export interface Invoice {
   id: string;
   order_id: string;
   invoice_number: string;
+  document_type: ElectronicDocumentType;
+  resolution_id?: string | null;
+  prefix?: string | null;
+  sequence_number?: number | null;
   issue_date: Date;
   due_date?: Date;
   subtotal: number;
@@ -13,43 +30,310 @@ export interface Invoice {
   discount: number;
   shipping_cost: number;
   total: number;
-  status: 'draft' | 'sent' | 'paid' | 'cancelled';
+  status: 'draft' | 'sent' | 'paid' | 'cancelled' | 'voided';
   notes?: string;
+  cufe?: string | null;
+  qr_payload?: string | null;
+  ubl_xml?: string | null;
+  buyer_document?: string | null;
+  buyer_document_type?: string | null;
+  credited_invoice_id?: string | null;
+  refund_id?: string | null;
+  dian_status: DianStatus;
+  dian_response?: unknown;
+  submitted_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export const invoiceService = {
-  /**
-   * Generate a unique invoice number
-   */
-  generateInvoiceNumber(): string {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const random = Math.random().toString(36).substr(2, 6).toUpperCase();
-    return `INV-${year}${month}-${random}`;
-  },
+const AMOUNT_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Tabla 13.3.4.1 del anexo DIAN (medios de pago)
+const PAYMENT_MEANS: Record<string, string> = {
+  cash_on_delivery: '10',
+  card: '48',
+};
+
+/**
+ * Reparte el IVA de la orden entre las líneas en proporción a su base; la
+ * diferencia de redondeo queda en la última línea para que sumen exacto.
+ */
+function distributeTax(lines: Omit<DianLine, 'taxAmount' | 'taxPercent'>[], tax: number): DianLine[] {
+  const base = lines.reduce((sum, line) => sum + line.lineExtension, 0);
+  const taxPercent = tax > 0 ? roundCurrency(TAX_RATE * 100) : 0;
+  let assigned = 0;
+
+  return lines.map((line, i) => {
+    const taxAmount = i === lines.length - 1
+      ? roundCurrency(tax - assigned)
+      : roundCurrency(base > 0 ? (tax * line.lineExtension) / base : 0);
+    assigned = roundCurrency(assigned + taxAmount);
+    return { ...line, taxPercent, taxAmount };
+  });
+}
+
+/**
+ * Genera el documento electrónico y lo guarda con sus líneas (dentro de la transacción)
+ */
+async function insertDocument(
+  client: PoolClient,
+  document: DianDocument,
+  data: {
+    orderId: string;
+    resolutionId: string;
+    status: Invoice['status'];
+    lineSources: Array<{ order_item_id?: string | null; product_id?: string | null }>;
+    creditedInvoiceId?: string;
+    refundId?: string;
+    notes?: string;
+  }
+): Promise<Invoice> {
+  const generated = dianService.generate(document);
+
+  const result = await client.query(
+    `INSERT INTO invoices (
+       order_id, invoice_number, document_type, resolution_id, prefix, sequence_number, issue_date,
+       subtotal, tax, discount, shipping_cost, total, status, notes,
+       cufe, qr_payload, ubl_xml, buyer_document, buyer_document_type,
+       credited_invoice_id, refund_id, dian_status
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, 'pending')
+     RETURNING *`,
+    [
+      data.orderId,
+      generated.number,
+      document.kind,
+      data.resolutionId,
+      document.prefix,
+      document.sequence,
+      document.issuedAt,
+      document.subtotal,
+      document.tax,
+      document.discount,
+      document.shipping,
+      document.total,
+      data.status,
+      data.notes ?? null,
+      generated.cufe,
+      generated.qrPayload,
+      generated.xml,
+      document.buyer.document,
+      document.buyer.documentType,
+      data.creditedInvoiceId ?? null,
+      data.refundId ?? null,
+    ]
+  );
+  const invoice = result.rows[0] as Invoice;
+
+  for (const [i, line] of document.lines.entries()) {
+    await client.query(
+      `INSERT INTO invoice_lines (
+         invoice_id, line_number, order_item_id, product_id, sku, description,
+         quantity, unit_price, line_extension, tax_percent, tax_amount
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        invoice.id,
+        i + 1,
+        data.lineSources[i]?.order_item_id ?? null,
+        data.lineSources[i]?.product_id ?? null,
+        line.sku ?? null,
+        line.description,
+        line.quantity,
+        line.unitPrice,
+        line.lineExtension,
+        line.taxPercent,
+        line.taxAmount,
+      ]
+    );
+  }
+
+  return invoice;
+}
+
+/**
+ * Nota crédito sobre una factura bloqueada por el llamador (dentro de su
+ * transacción). Si con ella la factura queda acreditada por completo, es una
+ * anulación (concepto 2) y la factura pasa a 'voided'.
+ */
+async function issueCreditNote(
+  client: PoolClient,
+  invoice: Invoice & { full_name: string | null },
+  data: {
+    amount: number;
+    items?: OrderRefund['items'];
+    reason?: string | null;
+    refundId?: string;
+  }
+): Promise<Invoice> {
+  const creditedResult = await client.query(
+    `SELECT COALESCE(SUM(total), 0) as credited
+     FROM invoices WHERE credited_invoice_id = $1 AND document_type = 'credit_note'`,
+    [invoice.id]
+  );
+  const previouslyCredited = Number(creditedResult.rows[0].credited);
+  const invoiceTotal = Number(invoice.total);
+  const amount = roundCurrency(data.amount);
+
+  if (previouslyCredited + amount > invoiceTotal + AMOUNT_TOLERANCE) {
+    throw new AppError('Las notas crédito superan el total de la factura', 409);
+  }
+
+  const linesResult = await client.query(
+    'SELECT * FROM invoice_lines WHERE invoice_id = $1 ORDER BY line_number',
+    [invoice.id]
+  );
+  const invoiceLines = linesResult.rows as InvoiceLine[];
+
+  const fullyCredited = previouslyCredited + amount >= invoiceTotal - AMOUNT_TOLERANCE;
+  let lines: DianLine[];
+  let lineSources: Array<{ order_item_id?: string | null; product_id?: string | null }>;
+  let reason: CreditNoteReason;
+  let discount = 0;
+  let shipping = 0;
+
+  if (fullyCredited && previouslyCredited === 0) {
+    // Anulación: la nota crédito replica la factura completa
+    reason = '2';
+    lines = invoiceLines.map(line => ({
+      description: line.description,
+      sku: line.sku,
+      quantity: Number(line.quantity),
+      unitPrice: Number(line.unit_price),
+      lineExtension: Number(line.line_extension),
+      taxPercent: Number(line.tax_percent),
+      taxAmount: Number(line.tax_amount),
+    }));
+    lineSources = invoiceLines;
+    discount = Number(invoice.discount);
+    shipping = Number(invoice.shipping_cost);
+  } else if (data.items?.length) {
+    // Devolución de unidades; la diferencia con el monto reembolsado
+    // (descuento prorrateado o envío) va como descuento o cargo
+    reason = fullyCredited ? '2' : '1';
+    const returned = data.items
+      .map(item => ({ item, line: invoiceLines.find(line => line.order_item_id === item.order_item_id) }))
+      .filter((entry): entry is { item: typeof entry.item; line: InvoiceLine } => Boolean(entry.line));
+
+    lines = returned.map(({ item, line }) => {
+      const lineExtension = roundCurrency(Number(line.unit_price) * item.quantity);
+      return {
+        description: line.description,
+        sku: line.sku,
+        quantity: item.quantity,
+        unitPrice: Number(line.unit_price),
+        lineExtension,
+        taxPercent: Number(line.tax_percent),
+        taxAmount: roundCurrency((lineExtension * Number(line.tax_percent)) / 100),
+      };
+    });
+    lineSources = returned.map(({ line }) => line);
+
+    const gross = roundCurrency(lines.reduce((sum, line) => sum + line.lineExtension + line.taxAmount, 0));
+    if (gross > amount) discount = roundCurrency(gross - amount);
+    else shipping = roundCurrency(amount - gross);
+  } else {
+    // Reembolso por monto (o saldo anulado): una sola línea de rebaja con el IVA incluido
+    reason = fullyCredited ? '2' : '3';
+    const taxPercent = Number(invoice.tax) > 0 ? roundCurrency(TAX_RATE * 100) : 0;
+    const lineExtension = roundCurrency(amount / (1 + taxPercent / 100));
+    lines = [{
+      description: `Rebaja sobre factura ${invoice.invoice_number}`,
+      quantity: 1,
+      unitPrice: lineExtension,
+      lineExtension,
+      taxPercent,
+      taxAmount: roundCurrency(amount - lineExtension),
+    }];
+    lineSources = [];
+  }
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineExtension, 0));
+  const tax = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+  const issuedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const { resolution, sequence } = await numberingService.allocate(client, 'credit_note', issuedAt);
+  const issuer = await settingsService.get('invoicing');
+
+  const creditNote = await insertDocument(client, {
+    kind: 'credit_note',
+    prefix: resolution.prefix,
+    sequence,
+    issuedAt,
+    authorization: resolution,
+    issuer,
+    // Mismo adquiriente de la factura
+    buyer: invoice.buyer_document && invoice.buyer_document !== CONSUMIDOR_FINAL.document
+      ? {
+          name: invoice.full_name || CONSUMIDOR_FINAL.name,
+          documentType: invoice.buyer_document_type || CONSUMIDOR_FINAL.documentType,
+          document: invoice.buyer_document,
+          checkDigit: invoice.buyer_document_type === '31' ? nitCheckDigit(invoice.buyer_document) : undefined,
+        }
+      : CONSUMIDOR_FINAL,
+    lines,
+    subtotal,
+    discount,
+    shipping,
+    tax,
+    total: amount,
+    paymentMeansCode: '10',
+    billingReference: {
+      number: invoice.invoice_number,
+      cufe: invoice.cufe ?? null,
+      issuedAt: new Date(invoice.issue_date),
+    },
+    discrepancy: {
+      code: reason,
+      description: data.reason || (reason === '2' ? 'Anulación de la factura' : 'Devolución'),
+    },
+  }, {
+    orderId: invoice.order_id,
+    resolutionId: resolution.id,
+    status: 'sent',
+    lineSources,
+    creditedInvoiceId: invoice.id,
+    refundId: data.refundId,
+    notes: data.reason ?? undefined,
+  });
+
+  // Acreditada por completo: la factura queda anulada (conserva su número)
+  if (fullyCredited) {
+    await client.query(
+      `UPDATE invoices SET status = 'voided', updated_at = NOW() WHERE id = $1`,
+      [invoice.id]
+    );
+  }
+
+  return creditNote;
+}
 
+export const invoiceService = {
   /**
-   * Create invoice from order
+   * Create the electronic invoice of an order (idempotent: one invoice per order).
+   * With ownerId, only that customer's order can be invoiced (404 otherwise).
    */
-  async createFromOrder(orderId: string): Promise<Invoice> {
+  async createFromOrder(orderId: string, ownerId?: string): Promise<Invoice> {
+    const issuer = await settingsService.get('invoicing');
     const client = await (await import('../config/database.js')).pool.connect();
+    let created: Invoice | null = null;
 
     try {
       await client.query('BEGIN');
 
-      // Get order details
+      // Get order details (lock: two confirmations must not issue two invoices)
       const orderResult = await client.query(
-        `SELECT o.*, u.email, u.full_name
+        `SELECT o.*, u.email, u.full_name, u.document_type as user_document_type, u.document_number
          FROM orders o
          LEFT JOIN users u ON o.user_id = u.id
-         WHERE o.id = $1`,
+         WHERE o.id = $1
+         FOR UPDATE OF o`,
         [orderId]
       );
 
-      if (orderResult.rows.length === 0) {
+      if (orderResult.rows.length === 0 || (ownerId && orderResult.rows[0].user_id !== ownerId)) {
         throw new AppError('Orden no encontrada', 404);
       }
 
@@ -57,7 +341,7 @@ export const invoiceService = {
 
       // Check if invoice already exists
       const existingInvoice = await client.query(
-        'SELECT * FROM invoices WHERE order_id = $1',
+        `SELECT * FROM invoices WHERE order_id = $1 AND document_type = 'invoice'`,
         [orderId]
       );
 
@@ -66,32 +350,244 @@ export const invoiceService = {
         return existingInvoice.rows[0];
       }
 
-      // Create invoice
-      const invoiceNumber = this.generateInvoiceNumber();
+      // Un número fiscal solo se consume para órdenes pagadas
+      if (!['paid', 'partially_refunded', 'refunded'].includes(order.payment_status)) {
+        throw new AppError('La orden aún no está pagada', 409);
+      }
+
+      const itemsResult = await client.query(
+        `SELECT oi.id, oi.product_id, oi.quantity, oi.price, oi.total, p.name as product_name, p.sku
+         FROM order_items oi
+         LEFT JOIN products p ON oi.product_id = p.id
+         WHERE oi.order_id = $1
+         ORDER BY oi.id`,
+        [orderId]
+      );
+
+      const issuedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const { resolution, sequence } = await numberingService.allocate(client, 'invoice', issuedAt);
+
+      const lines = distributeTax(
+        itemsResult.rows.map(item => ({
+          description: item.product_name || 'Producto',
+          sku: item.sku,
+          quantity: Number(item.quantity),
+          unitPrice: Number(item.price),
+          lineExtension: Number(item.total),
+        })),
+        Number(order.tax)
+      );
+
+      created = await insertDocument(client, {
+        kind: 'invoice',
+        prefix: resolution.prefix,
+        sequence,
+        issuedAt,
+        authorization: resolution,
+        issuer,
+        buyer: buyerFromUser({
+          full_name: order.full_name,
+          email: order.email,
+          document_type: order.user_document_type,
+          document_number: order.document_number,
+        }),
+        lines,
+        subtotal: Number(order.subtotal),
+        discount: Number(order.discount || 0),
+        shipping: Number(order.shipping_cost || 0),
+        tax: Number(order.tax),
+        total: Number(order.total),
+        paymentMeansCode: PAYMENT_MEANS[order.payment_method] ?? 'ZZZ',
+      }, {
+        orderId,
+        resolutionId: resolution.id,
+        status: order.payment_status === 'paid' ? 'paid' : 'sent',
+        lineSources: itemsResult.rows.map(item => ({ order_item_id: item.id, product_id: item.product_id })),
+      });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // El envío al proveedor no revierte la factura: queda 'pending' para reintentar
+    return this.submit(created.id).catch(error => {
+      console.error(`⚠️  DIAN submission failed for invoice ${created!.invoice_number}:`, error);
+      return created!;
+    });
+  },
+
+  /**
+   * Nota crédito electrónica de un reembolso aplicado (idempotente por reembolso)
+   */
+  async createCreditNote(refundId: string): Promise<Invoice> {
+    const client = await (await import('../config/database.js')).pool.connect();
+    let created: Invoice | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const refundResult = await client.query(
+        'SELECT * FROM order_refunds WHERE id = $1',
+        [refundId]
+      );
+      const refund = refundResult.rows[0] as OrderRefund | undefined;
+
+      if (!refund) {
+        throw new AppError('Reembolso no encontrado', 404);
+      }
+      if (!refund.applied_at) {
+        throw new AppError('El reembolso aún no se ha aplicado', 409);
+      }
+
+      const existing = await client.query('SELECT * FROM invoices WHERE refund_id = $1', [refundId]);
+      if (existing.rows.length > 0) {
+        await client.query('COMMIT');
+        return existing.rows[0];
+      }
+
+      // Lock the invoice: credit notes of the same invoice are issued one at a time
       const invoiceResult = await client.query(
-        `INSERT INTO invoices (order_id, invoice_number, issue_date, subtotal, tax, discount, shipping_cost, total, status)
-         VALUES ($1, $2, NOW(), $3, $4, $5, $6, $7, $8)
-         RETURNING *`,
-        [
-          orderId,
-          invoiceNumber,
-          order.subtotal,
-          order.tax,
-          order.discount,
-          order.shipping_cost,
-          order.total,
-          order.payment_status === 'paid' ? 'paid' : 'sent'
-        ]
+        `SELECT i.*, u.full_name
+         FROM invoices i
+         JOIN orders o ON i.order_id = o.id
+         LEFT JOIN users u ON o.user_id = u.id
+         WHERE i.order_id = $1 AND i.document_type = 'invoice'
+         FOR UPDATE OF i`,
+        [refund.order_id]
       );
+      const invoice = invoiceResult.rows[0] as (Invoice & { full_name: string | null }) | undefined;
+
+      if (!invoice) {
+        throw new AppError('La orden no tiene factura electrónica', 409);
+      }
+
+      created = await issueCreditNote(client, invoice, {
+        amount: Number(refund.amount),
+        items: refund.items,
+        reason: refund.reason,
+        refundId,
+      });
 
       await client.query('COMMIT');
-      return invoiceResult.rows[0];
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
     } finally {
       client.release();
     }
+
+    return this.submit(created.id).catch(error => {
+      console.error(`⚠️  DIAN submission failed for credit note ${created!.invoice_number}:`, error);
+      return created!;
+    });
+  },
+
+  /**
+   * Anula una factura emitida con una nota crédito vinculada por el saldo que
+   * aún no se ha acreditado. El número de la factura no se libera.
+   */
+  async voidInvoice(invoiceId: string, reason: string): Promise<Invoice> {
+    const client = await (await import('../config/database.js')).pool.connect();
+    let created: Invoice | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const invoiceResult = await client.query(
+        `SELECT i.*, u.full_name
+         FROM invoices i
+         JOIN orders o ON i.order_id = o.id
+         LEFT JOIN users u ON o.user_id = u.id
+         WHERE i.id = $1
+         FOR UPDATE OF i`,
+        [invoiceId]
+      );
+      const invoice = invoiceResult.rows[0] as (Invoice & { full_name: string | null }) | undefined;
+
+      if (!invoice) {
+        throw new AppError('Factura no encontrada', 404);
+      }
+      if (invoice.document_type !== 'invoice') {
+        throw new AppError('Solo se pueden anular facturas', 400);
+      }
+      if (invoice.sequence_number == null) {
+        throw new AppError('La factura no tiene numeración DIAN: cambie su estado a cancelada', 409);
+      }
+      if (invoice.status === 'voided') {
+        throw new AppError('La factura ya está anulada', 409);
+      }
+
+      const creditedResult = await client.query(
+        `SELECT COALESCE(SUM(total), 0) as credited
+         FROM invoices WHERE credited_invoice_id = $1 AND document_type = 'credit_note'`,
+        [invoiceId]
+      );
+
+      const balance = roundCurrency(Number(invoice.total) - Number(creditedResult.rows[0].credited));
+      if (balance <= AMOUNT_TOLERANCE) {
+        throw new AppError('La factura ya está acreditada por completo', 409);
+      }
+
+      created = await issueCreditNote(client, invoice, { amount: balance, reason });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.submit(created.id).catch(error => {
+      console.error(`⚠️  DIAN submission failed for credit note ${created!.invoice_number}:`, error);
+      return created!;
+    });
+  },
+
+  /**
+   * Envía (o reenvía) el XML al proveedor tecnológico y guarda su respuesta
+   */
+  async submit(invoiceId: string): Promise<Invoice> {
+    const result = await query(
+      'SELECT id, invoice_number, document_type, cufe, ubl_xml, dian_status FROM invoices WHERE id = $1',
+      [invoiceId]
+    );
+    const invoice = result.rows[0];
+
+    if (!invoice) {
+      throw new AppError('Factura no encontrada', 404);
+    }
+    if (!invoice.ubl_xml || !invoice.cufe) {
+      throw new AppError('La factura no es un documento electrónico', 400);
+    }
+    if (invoice.dian_status === 'accepted') {
+      throw new AppError('El documento ya fue aceptado por la DIAN', 409);
+    }
+
+    const response = await dianService.submit({
+      kind: invoice.document_type,
+      number: invoice.invoice_number,
+      cufe: invoice.cufe,
+      xml: invoice.ubl_xml,
+    });
+
+    if (response.status === 'rejected') {
+      console.warn(`[DIAN] ${invoice.invoice_number} rechazado:`, response.errors ?? response.message);
+    }
+
+    const updated = await query(
+      `UPDATE invoices
+       SET dian_status = $1, dian_response = $2, submitted_at = NOW(), updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [response.status, JSON.stringify({ ...response, provider: dianService.getProviderName() }), invoiceId]
+    );
+
+    return updated.rows[0];
   },
 
   /**
@@ -100,10 +596,13 @@ export const invoiceService = {
   async getById(invoiceId: string): Promise<any | null> {
     const result = await query(
       `SELECT i.*, o.order_number, o.payment_method, o.shipping_address, o.billing_address, o.user_id,
-        u.email, u.full_name, u.phone
+        u.email, u.full_name, u.phone,
+        r.resolution_number, r.range_from as resolution_range_from, r.range_to as resolution_range_to,
+        r.valid_from::text as resolution_valid_from, r.valid_to::text as resolution_valid_to
        FROM invoices i
        LEFT JOIN orders o ON i.order_id = o.id
        LEFT JOIN users u ON o.user_id = u.id
+       LEFT JOIN dian_resolutions r ON i.resolution_id = r.id
        WHERE i.id = $1`,
       [invoiceId]
     );
@@ -121,7 +620,7 @@ export const invoiceService = {
        FROM invoices i
        LEFT JOIN orders o ON i.order_id = o.id
        LEFT JOIN users u ON o.user_id = u.id
-       WHERE i.order_id = $1`,
+       WHERE i.order_id = $1 AND i.document_type = 'invoice'`,
       [orderId]
     );
 
@@ -146,9 +645,25 @@ export const invoiceService = {
   },
 
   /**
-   * Update invoice status
+   * Update invoice status. A numbered invoice cannot be cancelled here: it is
+   * voided with a credit note (voidInvoice) so its number stays accounted for.
    */
-  async updateStatus(invoiceId: string, status: Invoice['status']): Promise<Invoice> {
+  async updateStatus(invoiceId: string, status: Exclude<Invoice['status'], 'voided'>): Promise<Invoice> {
+    const current = await query(
+      'SELECT status, sequence_number FROM invoices WHERE id = $1',
+      [invoiceId]
+    );
+
+    if (current.rows.length === 0) {
+      throw new AppError('Factura no encontrada', 404);
+    }
+    if (current.rows[0].status === 'voided') {
+      throw new AppError('La factura está anulada', 409);
+    }
+    if (status === 'cancelled' && current.rows[0].sequence_number != null) {
+      throw new AppError('Una factura emitida no se cancela: anúlela con una nota crédito', 409);
+    }
+
     const result = await query(
       `UPDATE invoices
        SET status = $1, updated_at = NOW()
@@ -157,10 +672,6 @@ export const invoiceService = {
       [status, invoiceId]
     );
 
-    if (result.rows.length === 0) {
-      throw new AppError('Factura no encontrada', 404);
-    }
-
     return result.rows[0];
   },
 
@@ -169,6 +680,7 @@ export const invoiceService = {
    */
   async getAll(filters: {
     status?: string;
+    documentType?: string;
     startDate?: string;
     endDate?: string;
     limit?: number;
@@ -191,6 +703,12 @@ export const invoiceService = {
       paramIndex++;
     }
 
+    if (filters.documentType) {
+      queryText += ` AND i.document_type = $${paramIndex}`;
+      queryParams.push(filters.documentType);
+      paramIndex++;
+    }
+
     if (filters.startDate) {
       queryText += ` AND i.issue_date >= $${paramIndex}`;
       queryParams.push(filters.startDate);
@@ -238,9 +756,26 @@ export const invoiceService = {
       [invoice.order_id]
     );
 
+    const linesResult = await query(
+      'SELECT * FROM invoice_lines WHERE invoice_id = $1 ORDER BY line_number',
+      [invoiceId]
+    );
+
+    // Factura -> sus notas crédito; nota crédito -> la factura que corrige
+    const relatedResult = await query(
+      `SELECT id, invoice_number, document_type, issue_date, total, cufe, dian_status
+       FROM invoices
+       WHERE ($1::uuid IS NOT NULL AND id = $1) OR credited_invoice_id = $2
+       ORDER BY issue_date`,
+      [invoice.credited_invoice_id ?? null, invoiceId]
+    );
+
     return {
       ...invoice,
       items: itemsResult.rows,
+      lines: linesResult.rows,
+      credited_invoice: relatedResult.rows.find(row => row.id === invoice.credited_invoice_id) ?? null,
+      credit_notes: relatedResult.rows.filter(row => row.document_type === 'credit_note'),
       shipping_address: typeof invoice.shipping_address === 'string'
         ? JSON.parse(invoice.shipping_address)
         : invoice.shipping_address,
@@ -249,102 +784,4 @@ export const invoiceService = {
         : invoice.billing_address,
     };
   },
-
-  /**
-   * Get printable invoice data (HTML format)
-   */
-  async getPrintableInvoice(invoiceId: string): Promise<string> {
-    const invoiceDetails = await this.getInvoiceDetails(invoiceId);
-
-    // Return HTML string that can be rendered in the frontend
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="UTF-8">
-        <title>Factura ${invoiceDetails.invoice_number}</title>
-        <style>
-          body { font-family: Arial, sans-serif; padding: 40px; }
-          .header { display: flex; justify-content: space-between; margin-bottom: 40px; }
-          .company-info h1 { margin: 0; font-size: 24px; }
-          .invoice-info { text-align: right; }
-          .customer-info { margin-bottom: 30px; }
-          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-          th, td { padding: 12px; text-align: left; border-bottom: 1px solid #ddd; }
-          th { background-color: #f5f5f5; }
-          .totals { text-align: right; margin-top: 20px; }
-          .totals div { margin: 5px 0; }
-          .total-final { font-size: 18px; font-weight: bold; margin-top: 10px; }
-          @media print { button { display: none; } }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <div class="company-info">
-            <h1>MELO SPORTT</h1>
-            <p>Cartagena de Indias, Colombia<br>
-            741 Cra. 17, Barrio San Francisco<br>
-            Email: info@melosportt.com</p>
-          </div>
-          <div class="invoice-info">
-            <h2>FACTURA</h2>
-            <p>Nº ${invoiceDetails.invoice_number}<br>
-            Fecha: ${new Date(invoiceDetails.issue_date).toLocaleDateString('es-CO')}<br>
-            Estado: ${invoiceDetails.status.toUpperCase()}</p>
-          </div>
-        </div>
-
-        <div class="customer-info">
-          <h3>CLIENTE</h3>
-          <p>${invoiceDetails.full_name || 'N/A'}<br>
-          ${invoiceDetails.email || 'N/A'}<br>
-          ${invoiceDetails.phone || 'N/A'}<br>
-          ${invoiceDetails.shipping_address?.address || ''}, ${invoiceDetails.shipping_address?.city || ''}</p>
-        </div>
-
-        <table>
-          <thead>
-            <tr>
-              <th>Producto</th>
-              <th>Cantidad</th>
-              <th>Precio Unitario</th>
-              <th>Total</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${invoiceDetails.items.map((item: any) => `
-              <tr>
-                <td>${item.product_name || 'Producto'}</td>
-                <td>${item.quantity}</td>
-                <td>$${item.price.toLocaleString('es-CO')}</td>
-                <td>$${item.total.toLocaleString('es-CO')}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-
-        <div class="totals">
-          <div>Subtotal: $${invoiceDetails.subtotal.toLocaleString('es-CO')}</div>
-          ${invoiceDetails.discount > 0 ? `<div>Descuento: -$${invoiceDetails.discount.toLocaleString('es-CO')}</div>` : ''}
-          <div>Envío: $${invoiceDetails.shipping_cost.toLocaleString('es-CO')}</div>
-          ${invoiceDetails.tax > 0 ? `<div>IVA: $${invoiceDetails.tax.toLocaleString('es-CO')}</div>` : ''}
-          <div class="total-final">TOTAL: $${invoiceDetails.total.toLocaleString('es-CO')}</div>
-        </div>
-
-        <div style="margin-top: 40px;">
-          <p>Método de pago: ${invoiceDetails.payment_method}<br>
-          Orden Nº: ${invoiceDetails.order_number}</p>
-        </div>
-
-        <div style="text-align: center; margin-top: 60px; color: #666;">
-          <p>Gracias por tu compra en Melo Sportt</p>
-        </div>
-
-        <button onclick="window.print()" style="margin-top: 20px; padding: 10px 20px; background: #000; color: #fff; border: none; cursor: pointer; border-radius: 5px;">
-          Imprimir Factura
-        </button>
-      </body>
-      </html>
-    `;
-  },
 };
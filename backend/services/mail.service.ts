@@ -0,0 +1,267 @@
+import { once } from 'events';
+import { mkdir, writeFile } from 'fs/promises';
+import { connect, type Socket } from 'net';
+import { join } from 'path';
+import { connect as tlsConnect } from 'tls';
+import { env } from '../config/env.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transporte de correo intercambiable. En desarrollo se usa consola o archivo
+ * para poder probar los flujos sin un servidor de correo.
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log('📧 [Mail] ─────────────────────────────');
+    console.log(`📧 From: ${message.from}`);
+    console.log(`📧 To: ${message.to}`);
+    console.log(`📧 Subject: ${message.subject}`);
+    console.log(message.text);
+    console.log('📧 ───────────────────────────────────');
+  },
+};
+
+// Escribe cada correo como .eml (se puede abrir con cualquier cliente de correo)
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      const slug = message.to.replace(/[^a-zA-Z0-9]+/g, '_');
+      const filePath = join(directory, `${Date.now()}-${slug}.eml`);
+      const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        `Content-Type: ${message.html ? 'text/html' : 'text/plain'}; charset=utf-8`,
+      ];
+
+      await writeFile(filePath, `${headers.join('\r\n')}\r\n\r\n${message.html || message.text}\r\n`, 'utf8');
+      console.log(`📧 [Mail] ${message.subject} -> ${message.to} (${filePath})`);
+    },
+  };
+}
+
+function buildMime(message: MailMessage & { from: string }): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: =?utf-8?B?${Buffer.from(message.subject, 'utf8').toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    headers.push('Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit');
+    return `${headers.join('\r\n')}\r\n\r\n${message.text}`;
+  }
+
+  const boundary = `melo-${Date.now().toString(36)}`;
+  headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+  return [
+    headers.join('\r\n'),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+// "Tienda <no-reply@tienda.com>" -> "no-reply@tienda.com"
+const extractAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Cifra la sesión con STARTTLS antes de autenticarse y enviar */
+  starttls?: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReader {
+  next(): Promise<string[]>;
+  detach(): void;
+}
+
+// Agrupa las líneas de respuesta: "250-..." continúa, "250 ..." termina
+function readSmtpReplies(socket: Socket): SmtpReader {
+  const replies: string[][] = [];
+  let current: string[] = [];
+  let buffer = '';
+  let failure: Error | null = null;
+  let waiter: { resolve: (reply: string[]) => void; reject: (error: Error) => void } | null = null;
+
+  const settle = () => {
+    if (!waiter) return;
+    const { resolve, reject } = waiter;
+    if (replies.length > 0) {
+      waiter = null;
+      resolve(replies.shift()!);
+    } else if (failure) {
+      waiter = null;
+      reject(failure);
+    }
+  };
+
+  const onData = (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\r\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      current.push(line);
+      if (line.length >= 4 && line[3] === '-') continue;
+      replies.push(current);
+      current = [];
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    settle();
+  };
+  const onClose = () => onError(new Error('SMTP connection closed unexpectedly'));
+
+  socket.setEncoding('utf8');
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next: () => new Promise<string[]>((resolve, reject) => {
+      waiter = { resolve, reject };
+      settle();
+    }),
+    // Antes de STARTTLS: el socket TLS toma el control de la conexión
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+/**
+ * Cliente SMTP mínimo: STARTTLS y AUTH PLAIN opcionales. Sin ellos sirve para
+ * capturadores locales (Mailpit, MailHog); en producción el entorno exige
+ * STARTTLS (ver config/env.ts).
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const { host, port } = options;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      let socket: Socket = connect(port, host);
+      socket.setTimeout(15000, () => socket.destroy(new Error('SMTP timeout')));
+      let reader = readSmtpReplies(socket);
+
+      const command = async (line: string | null, expected: number[]): Promise<string[]> => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await reader.next();
+        const code = parseInt(reply[reply.length - 1].slice(0, 3));
+        if (!expected.includes(code)) {
+          throw new Error(`SMTP error: ${reply.join(' ')}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        const ehlo = await command('EHLO melo-sportt', [250]);
+
+        if (options.starttls) {
+          if (!ehlo.some(line => line.slice(4).toUpperCase().startsWith('STARTTLS'))) {
+            throw new Error(`SMTP server ${host}:${port} does not offer STARTTLS`);
+          }
+          await command('STARTTLS', [220]);
+          reader.detach();
+
+          const secure = tlsConnect({ socket, servername: host });
+          await once(secure, 'secureConnect');
+          socket = secure;
+          socket.setTimeout(15000, () => socket.destroy(new Error('SMTP timeout')));
+          reader = readSmtpReplies(socket);
+          await command('EHLO melo-sportt', [250]);
+        }
+
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        const body = buildMime(message)
+          .replace(/\r?\n/g, '\r\n')
+          .replace(/^\./gm, '..'); // dot-stuffing
+
+        await command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+        await command(`${body}\r\n.`, [250]);
+        await command('QUIT', [221]);
+        console.log(`📧 [Mail] ${message.subject} -> ${message.to} (smtp ${host}:${port})`);
+      } finally {
+        reader.detach();
+        socket.destroy();
+      }
+    },
+  };
+}
+
+function createDefaultTransport(): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR);
+    case 'smtp':
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT) || 1025,
+        starttls: env.SMTP_TLS === 'starttls',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'console':
+    default:
+      return consoleTransport;
+  }
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+export const mailService = {
+  /**
+   * Reemplaza el transporte activo (p. ej. para pruebas o proveedores externos)
+   */
+  setTransport(newTransport: MailTransport): void {
+    transport = newTransport;
+  },
+
+  getTransportName(): string {
+    return transport.name;
+  },
+
+  async send(message: MailMessage): Promise<void> {
+    await transport.send({ ...message, from: env.MAIL_FROM });
+  },
+};
@@ -0,0 +1,325 @@
+import type { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { DIAN_TEST_SET_TECHNICAL_KEY, issueDateParts } from './dian.service.js';
+import type {
+  DianResolution,
+  ElectronicDocumentType,
+  NumberingReconciliation,
+  NumberingSequence,
+  NumberingSequenceReport,
+} from '../types/index.js';
+
+export interface ResolutionInput {
+  document_type: ElectronicDocumentType;
+  resolution_number?: string | null;
+  prefix: string;
+  range_from: number;
+  range_to: number;
+  // Solo para un prefijo nuevo: números anteriores se emitieron fuera de la tienda
+  next_number?: number;
+  valid_from: string;
+  valid_to: string;
+  technical_key?: string | null;
+  active?: boolean;
+}
+
+// DATE -> texto para no depender de la zona horaria del servidor. next_number
+// es el que tomaría la resolución según el contador de su prefijo.
+const RESOLUTION_COLUMNS = `r.id, r.document_type, r.resolution_number, r.prefix, r.range_from, r.range_to,
+  GREATEST(s.last_number + 1, r.range_from) as next_number,
+  r.valid_from::text as valid_from, r.valid_to::text as valid_to, r.technical_key, r.active, r.created_at, r.updated_at`;
+
+// En producción la resolución del set de pruebas no numera documentos
+const excludedTechnicalKey = () => (env.DIAN_ENVIRONMENT === '1' ? DIAN_TEST_SET_TECHNICAL_KEY : null);
+
+// Faltantes que se listan por prefijo en la conciliación (el conteo es completo)
+const MISSING_SAMPLE_SIZE = 100;
+
+function toResolution(row: any): DianResolution {
+  return {
+    ...row,
+    range_from: Number(row.range_from),
+    range_to: Number(row.range_to),
+    next_number: Number(row.next_number),
+  };
+}
+
+function toSequence(row: any): NumberingSequence {
+  return {
+    ...row,
+    first_number: Number(row.first_number),
+    last_number: Number(row.last_number),
+  };
+}
+
+async function getResolution(id: string): Promise<DianResolution> {
+  const result = await query(
+    `SELECT ${RESOLUTION_COLUMNS}
+     FROM dian_resolutions r
+     JOIN numbering_sequences s ON s.prefix = r.prefix
+     WHERE r.id = $1`,
+    [id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError('Resolución no encontrada', 404);
+  }
+
+  return toResolution(result.rows[0]);
+}
+
+export const numberingService = {
+  /**
+   * Toma el siguiente consecutivo de la numeración vigente. Se llama dentro de
+   * la transacción del documento: el contador del prefijo queda bloqueado
+   * hasta el COMMIT y, si la transacción falla, el número no se consume.
+   */
+  async allocate(
+    client: PoolClient,
+    documentType: ElectronicDocumentType,
+    issuedAt: Date
+  ): Promise<{ resolution: DianResolution; sequence: number }> {
+    const result = await client.query(
+      `SELECT ${RESOLUTION_COLUMNS}
+       FROM dian_resolutions r
+       JOIN numbering_sequences s ON s.prefix = r.prefix
+       WHERE r.document_type = $1 AND r.active
+         AND $2::date BETWEEN r.valid_from AND r.valid_to
+         AND GREATEST(s.last_number + 1, r.range_from) <= r.range_to
+         AND r.technical_key IS DISTINCT FROM $3
+       ORDER BY r.valid_from, r.range_from
+       LIMIT 1
+       FOR UPDATE OF s`,
+      [documentType, issueDateParts(issuedAt).date, excludedTechnicalKey()]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(
+        documentType === 'invoice'
+          ? 'No hay una resolución de facturación DIAN vigente con números disponibles: regístrela en Ajustes antes de facturar'
+          : 'No hay numeración vigente para notas crédito',
+        409
+      );
+    }
+
+    const resolution = toResolution(result.rows[0]);
+
+    // Un rango nuevo del mismo prefijo continúa desde su inicio
+    const updated = await client.query(
+      `UPDATE numbering_sequences
+       SET last_number = GREATEST(last_number + 1, $2)
+       WHERE prefix = $1
+       RETURNING last_number`,
+      [resolution.prefix, resolution.range_from]
+    );
+    const sequence = Number(updated.rows[0].last_number);
+
+    if (sequence > resolution.range_to) {
+      throw new AppError(`La numeración ${resolution.prefix} se agotó`, 409);
+    }
+
+    return { resolution: { ...resolution, next_number: sequence + 1 }, sequence };
+  },
+
+  async getSequences(): Promise<NumberingSequence[]> {
+    const result = await query('SELECT * FROM numbering_sequences ORDER BY document_type, prefix');
+    return result.rows.map(toSequence);
+  },
+
+  async getResolutions(): Promise<DianResolution[]> {
+    const result = await query(
+      `SELECT ${RESOLUTION_COLUMNS}
+       FROM dian_resolutions r
+       JOIN numbering_sequences s ON s.prefix = r.prefix
+       ORDER BY r.document_type, r.active DESC, r.valid_from DESC`
+    );
+    return result.rows.map(toResolution);
+  },
+
+  /**
+   * Registra una resolución. Un prefijo nuevo crea su contador; uno existente
+   * sigue con el consecutivo que ya lleva (renovación del rango).
+   */
+  async createResolution(data: ResolutionInput): Promise<DianResolution> {
+    const client = await (await import('../config/database.js')).pool.connect();
+    let id: string;
+
+    try {
+      await client.query('BEGIN');
+
+      if (data.technical_key && data.technical_key === excludedTechnicalKey()) {
+        throw new AppError('La clave técnica del set de pruebas no es válida en producción', 400);
+      }
+
+      const firstNumber = data.next_number ?? data.range_from;
+      if (firstNumber < data.range_from || firstNumber > data.range_to) {
+        throw new AppError('El siguiente número debe estar dentro del rango', 400);
+      }
+
+      await client.query(
+        `INSERT INTO numbering_sequences (prefix, document_type, first_number, last_number)
+         VALUES ($1, $2, $3::bigint, $3::bigint - 1)
+         ON CONFLICT (prefix) DO NOTHING`,
+        [data.prefix, data.document_type, firstNumber]
+      );
+
+      const sequenceResult = await client.query(
+        'SELECT * FROM numbering_sequences WHERE prefix = $1 FOR UPDATE',
+        [data.prefix]
+      );
+      const sequence = toSequence(sequenceResult.rows[0]);
+
+      if (sequence.document_type !== data.document_type) {
+        throw new AppError(`El prefijo ${data.prefix} ya se usa para otro tipo de documento`, 409);
+      }
+
+      // Saltar números dejaría un hueco en el consecutivo
+      const nextNumber = Math.max(sequence.last_number + 1, data.range_from);
+      if (data.next_number !== undefined && data.next_number !== nextNumber) {
+        throw new AppError(`El prefijo ${data.prefix} ya lleva consecutivo: el siguiente número es ${nextNumber}`, 409);
+      }
+
+      const result = await client.query(
+        `INSERT INTO dian_resolutions (
+           document_type, resolution_number, prefix, range_from, range_to,
+           valid_from, valid_to, technical_key, active
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [
+          data.document_type,
+          data.resolution_number ?? null,
+          data.prefix,
+          data.range_from,
+          data.range_to,
+          data.valid_from,
+          data.valid_to,
+          data.technical_key ?? null,
+          data.active ?? true,
+        ]
+      );
+      id = result.rows[0].id;
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return getResolution(id);
+  },
+
+  /**
+   * Solo se pueden cambiar vigencia, clave técnica y estado: el rango y el
+   * consecutivo ya usados no se reescriben.
+   */
+  async updateResolution(
+    id: string,
+    data: Partial<Pick<ResolutionInput, 'valid_to' | 'technical_key' | 'active'>>
+  ): Promise<DianResolution> {
+    const result = await query(
+      `UPDATE dian_resolutions
+       SET valid_to = COALESCE($1, valid_to),
+           technical_key = COALESCE($2, technical_key),
+           active = COALESCE($3, active)
+       WHERE id = $4
+       RETURNING id`,
+      [data.valid_to ?? null, data.technical_key ?? null, data.active ?? null, id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Resolución no encontrada', 404);
+    }
+
+    return getResolution(id);
+  },
+
+  /**
+   * Conciliación de cada prefijo: todo número entre el primero emitido por la
+   * tienda y el contador, dentro de un rango autorizado, debe tener documento.
+   */
+  async reconcile(): Promise<NumberingReconciliation> {
+    const sequencesResult = await query(
+      `SELECT s.*,
+         COUNT(i.id) as issued,
+         COUNT(i.id) FILTER (WHERE i.status = 'voided') as voided
+       FROM numbering_sequences s
+       LEFT JOIN invoices i ON i.prefix = s.prefix AND i.sequence_number IS NOT NULL
+       GROUP BY s.prefix
+       ORDER BY s.document_type, s.prefix`
+    );
+
+    // Números que el contador ya entregó dentro de los rangos del prefijo
+    const coverageResult = await query(
+      `WITH covered AS (
+         SELECT DISTINCT r.prefix, n.number
+         FROM dian_resolutions r
+         JOIN numbering_sequences s ON s.prefix = r.prefix
+         CROSS JOIN LATERAL generate_series(
+           GREATEST(r.range_from, s.first_number),
+           LEAST(r.range_to, s.last_number)
+         ) AS n(number)
+       )
+       SELECT c.prefix,
+         COUNT(*) as expected,
+         COUNT(*) FILTER (WHERE i.id IS NULL) as missing_count,
+         (array_agg(c.number ORDER BY c.number) FILTER (WHERE i.id IS NULL))[1:${MISSING_SAMPLE_SIZE}] as missing
+       FROM covered c
+       LEFT JOIN invoices i ON i.prefix = c.prefix AND i.sequence_number = c.number
+       GROUP BY c.prefix`
+    );
+
+    // Documentos que el contador no explica: fuera de first..last o de todo rango autorizado
+    const anomaliesResult = await query(
+      `SELECT * FROM (
+         SELECT i.prefix, i.sequence_number, i.invoice_number,
+           (i.sequence_number < s.first_number OR i.sequence_number > s.last_number) as outside_counter,
+           NOT EXISTS (
+             SELECT 1 FROM dian_resolutions r
+             WHERE r.prefix = i.prefix AND i.sequence_number BETWEEN r.range_from AND r.range_to
+           ) as out_of_range
+         FROM invoices i
+         JOIN numbering_sequences s ON s.prefix = i.prefix
+         WHERE i.sequence_number IS NOT NULL
+       ) documents
+       WHERE outside_counter OR out_of_range
+       ORDER BY prefix, sequence_number`
+    );
+
+    // Documentos anteriores a la numeración DIAN (sin prefijo ni consecutivo)
+    const unnumberedResult = await query(
+      'SELECT COUNT(*) as count FROM invoices WHERE sequence_number IS NULL'
+    );
+
+    const sequences: NumberingSequenceReport[] = sequencesResult.rows.map(row => {
+      const coverage = coverageResult.rows.find(c => c.prefix === row.prefix);
+      const anomalies = anomaliesResult.rows.filter(a => a.prefix === row.prefix);
+      const missingCount = Number(coverage?.missing_count ?? 0);
+      const outsideCounter = anomalies.filter(a => a.outside_counter).map(a => a.invoice_number as string);
+      const outOfRange = anomalies.filter(a => a.out_of_range).map(a => a.invoice_number as string);
+
+      return {
+        ...toSequence(row),
+        issued: Number(row.issued),
+        voided: Number(row.voided),
+        expected: Number(coverage?.expected ?? 0),
+        missing_count: missingCount,
+        missing: (coverage?.missing ?? []).map(Number),
+        outside_counter: outsideCounter,
+        out_of_range: outOfRange,
+        ok: missingCount === 0 && outsideCounter.length === 0 && outOfRange.length === 0,
+      };
+    });
+
+    return {
+      generated_at: new Date().toISOString(),
+      ok: sequences.every(sequence => sequence.ok),
+      unnumbered: Number(unnumberedResult.rows[0].count),
+      sequences,
+    };
+  },
+};
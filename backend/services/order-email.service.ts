@@ -0,0 +1,375 @@
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { mailService } from './mail.service.js';
+import { settingsService } from './settings.service.js';
+import type { EmailQueueItem, EmailQueueStatus, EmailTemplate, OrderEmailEvent } from '../types/index.js';
+
+export interface EmailTemplateUpdate {
+  subject?: string;
+  body_text?: string;
+  body_html?: string | null;
+  is_active?: boolean;
+}
+
+type TemplateContext = Record<string, string | number | boolean | null | undefined>;
+
+interface OrderEmailExtra {
+  refund_id?: string;
+  refund_amount?: number;
+  reason?: string | null;
+}
+
+const WORKER_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+// Un envío que quedó en 'sending' más de esto se considera caído y se reintenta
+const STALE_SENDING_MINUTES = 10;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+const formatMoney = (value: number | string) =>
+  `$${Math.round(Number(value) || 0).toLocaleString('es-CO')}`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Motor de plantillas mínimo: {{var}} reemplaza y {{#var}}...{{/var}} solo se
+ * muestra si la variable tiene valor. En HTML los valores se escapan.
+ */
+function render(template: string, context: TemplateContext, html = false): string {
+  const withSections = template.replace(
+    /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (_, key: string, content: string) => (context[key] ? content : '')
+  );
+
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = context[key];
+    if (value === null || value === undefined || value === false) return '';
+    const text = String(value);
+    return html ? escapeHtml(text) : text;
+  });
+}
+
+// Datos de ejemplo para la vista previa del editor de plantillas
+const SAMPLE_CONTEXT: TemplateContext = {
+  customer_name: 'Laura Gómez',
+  order_number: 'ORD-1700000000000-EJEMPLO',
+  total: formatMoney(189900),
+  items: '- Camiseta Dri-Fit (M) x2 - $119.800\n- Short Running x1 - $70.100',
+  cash_on_delivery: true,
+  tracking_number: '700123456789',
+  tracking_url: 'https://www.servientrega.com/rastreo',
+  refund_amount: formatMoney(70100),
+  reason: 'Talla equivocada',
+};
+
+async function buildOrderContext(orderId: string): Promise<{ to: string | null; context: TemplateContext }> {
+  const orderResult = await query(
+    `SELECT o.*, u.email as user_email, u.full_name as user_name
+     FROM orders o
+     LEFT JOIN users u ON u.id = o.user_id
+     WHERE o.id = $1`,
+    [orderId]
+  );
+
+  if (orderResult.rows.length === 0) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const order = orderResult.rows[0];
+  const address = order.shipping_address || {};
+
+  const itemsResult = await query(
+    `SELECT oi.quantity, oi.total, p.name as product_name, v.name as variant_name
+     FROM order_items oi
+     LEFT JOIN products p ON p.id = oi.product_id
+     LEFT JOIN product_variants v ON v.id = oi.variant_id
+     WHERE oi.order_id = $1
+     ORDER BY oi.created_at`,
+    [orderId]
+  );
+
+  const items = itemsResult.rows
+    .map(item => {
+      const name = item.variant_name ? `${item.product_name} (${item.variant_name})` : item.product_name;
+      return `- ${name || 'Producto'} x${item.quantity} - ${formatMoney(item.total)}`;
+    })
+    .join('\n');
+
+  const general = await settingsService.get('general');
+  const addressName = [address.firstName, address.lastName].filter(Boolean).join(' ');
+
+  // Los clientes creados desde WhatsApp tienen un correo .invalid de relleno
+  const email = [order.user_email, address.email].find(
+    (value): value is string => typeof value === 'string' && !!value && !value.endsWith('.invalid')
+  );
+
+  return {
+    to: email || null,
+    context: {
+      customer_name: order.user_name || addressName || 'cliente',
+      store_name: general.store_name,
+      store_url: env.FRONTEND_URL,
+      order_number: order.order_number,
+      order_url: `${env.FRONTEND_URL}/account/orders/${order.id}`,
+      total: formatMoney(order.total),
+      items,
+      cash_on_delivery: order.payment_method === 'cash_on_delivery',
+      tracking_number: order.tracking_number,
+      tracking_url: order.tracking_url,
+    },
+  };
+}
+
+// Clave de idempotencia: un webhook repetido no debe duplicar el correo
+function dedupeKeyFor(event: OrderEmailEvent, orderId: string, context: TemplateContext, extra: OrderEmailExtra): string {
+  switch (event) {
+    case 'order_shipped':
+      return `${event}:${orderId}:${context.tracking_number || ''}`;
+    case 'order_refunded':
+      return `${event}:${orderId}:${extra.refund_id || Date.now()}`;
+    default:
+      return `${event}:${orderId}`;
+  }
+}
+
+export const orderEmailService = {
+  async getTemplates(): Promise<EmailTemplate[]> {
+    const result = await query('SELECT * FROM email_templates ORDER BY key');
+    return result.rows as EmailTemplate[];
+  },
+
+  async getTemplate(key: string): Promise<EmailTemplate> {
+    const result = await query('SELECT * FROM email_templates WHERE key = $1', [key]);
+    if (result.rows.length === 0) {
+      throw new AppError('Email template not found', 404);
+    }
+    return result.rows[0] as EmailTemplate;
+  },
+
+  async updateTemplate(key: string, data: EmailTemplateUpdate, userId: string): Promise<EmailTemplate> {
+    await this.getTemplate(key);
+
+    const result = await query(
+      `UPDATE email_templates
+       SET subject = COALESCE($1, subject),
+           body_text = COALESCE($2, body_text),
+           body_html = CASE WHEN $3 THEN $4 ELSE body_html END,
+           is_active = COALESCE($5, is_active),
+           updated_by = $6
+       WHERE key = $7
+       RETURNING *`,
+      [
+        data.subject ?? null,
+        data.body_text ?? null,
+        data.body_html !== undefined,
+        data.body_html ?? null,
+        data.is_active ?? null,
+        userId,
+        key,
+      ]
+    );
+
+    return result.rows[0] as EmailTemplate;
+  },
+
+  /**
+   * Renderiza una plantilla con datos de una orden real o de ejemplo
+   */
+  async preview(key: string, orderId?: string): Promise<{ subject: string; text: string; html: string | null }> {
+    const template = await this.getTemplate(key);
+    const context = orderId
+      ? { ...SAMPLE_CONTEXT, ...(await buildOrderContext(orderId)).context }
+      : { ...SAMPLE_CONTEXT, store_name: (await settingsService.get('general')).store_name, store_url: env.FRONTEND_URL, order_url: `${env.FRONTEND_URL}/account/orders` };
+
+    return {
+      subject: render(template.subject, context),
+      text: render(template.body_text, context),
+      html: template.body_html ? render(template.body_html, context, true) : null,
+    };
+  },
+
+  /**
+   * Encola el correo de un evento de la orden. Nunca lanza: un fallo de correo
+   * no debe afectar el flujo del pedido o del pago.
+   */
+  async notify(event: OrderEmailEvent, orderId: string, extra: OrderEmailExtra = {}): Promise<void> {
+    try {
+      const templateResult = await query(
+        'SELECT * FROM email_templates WHERE key = $1 AND is_active = true',
+        [event]
+      );
+      const template = templateResult.rows[0] as EmailTemplate | undefined;
+      if (!template) return;
+
+      const { to, context } = await buildOrderContext(orderId);
+      if (!to) {
+        console.warn(`[Email] Order ${orderId} has no email address, skipping ${event}`);
+        return;
+      }
+
+      if (extra.refund_amount !== undefined) {
+        context.refund_amount = formatMoney(extra.refund_amount);
+      }
+      context.reason = extra.reason || null;
+
+      const result = await query(
+        `INSERT INTO email_queue (template_key, to_email, subject, body_text, body_html, order_id, dedupe_key)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (dedupe_key) DO NOTHING
+         RETURNING id`,
+        [
+          template.key,
+          to,
+          render(template.subject, context),
+          render(template.body_text, context),
+          template.body_html ? render(template.body_html, context, true) : null,
+          orderId,
+          dedupeKeyFor(event, orderId, context, extra),
+        ]
+      );
+
+      if (result.rows.length > 0) {
+        // Intento inmediato; si falla, el worker lo reintenta con backoff
+        this.processQueue().catch(error => console.error('[Email] Queue processing failed:', error));
+      }
+    } catch (error) {
+      console.error(`[Email] Failed to enqueue ${event} for order ${orderId}:`, error);
+    }
+  },
+
+  /**
+   * Envía los correos pendientes. Cada fallo suma un intento y reprograma el
+   * envío con backoff exponencial (2, 4, 8... minutos) hasta max_attempts.
+   */
+  async processQueue(): Promise<{ sent: number; failed: number }> {
+    if (processing) return { sent: 0, failed: 0 };
+    processing = true;
+
+    let sent = 0;
+    let failed = 0;
+
+    try {
+      await query(
+        `UPDATE email_queue SET status = 'pending'
+         WHERE status = 'sending' AND updated_at < NOW() - make_interval(mins => $1::int)`,
+        [STALE_SENDING_MINUTES]
+      );
+
+      const claimed = await query(
+        `UPDATE email_queue SET status = 'sending'
+         WHERE id IN (
+           SELECT id FROM email_queue
+           WHERE status = 'pending' AND next_attempt_at <= NOW()
+           ORDER BY created_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [BATCH_SIZE]
+      );
+
+      for (const item of claimed.rows as EmailQueueItem[]) {
+        try {
+          await mailService.send({
+            to: item.to_email,
+            subject: item.subject,
+            text: item.body_text,
+            html: item.body_html || undefined,
+          });
+
+          await query(
+            `UPDATE email_queue SET status = 'sent', attempts = attempts + 1, sent_at = NOW(), last_error = NULL
+             WHERE id = $1`,
+            [item.id]
+          );
+          sent++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await query(
+            `UPDATE email_queue
+             SET attempts = attempts + 1,
+                 last_error = $2,
+                 status = CASE WHEN attempts + 1 >= max_attempts THEN 'failed' ELSE 'pending' END,
+                 next_attempt_at = NOW() + make_interval(mins => power(2, attempts + 1)::int)
+             WHERE id = $1`,
+            [item.id, message]
+          );
+          failed++;
+          console.error(`[Email] Failed to send ${item.template_key} to ${item.to_email}: ${message}`);
+        }
+      }
+    } finally {
+      processing = false;
+    }
+
+    return { sent, failed };
+  },
+
+  async getQueue(filters: { status?: EmailQueueStatus; order_id?: string; limit?: number } = {}): Promise<EmailQueueItem[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (filters.order_id) {
+      params.push(filters.order_id);
+      conditions.push(`order_id = $${params.length}`);
+    }
+
+    params.push(filters.limit || 100);
+
+    const result = await query(
+      `SELECT * FROM email_queue
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows as EmailQueueItem[];
+  },
+
+  /**
+   * Reprograma un correo fallido con intentos nuevos
+   */
+  async retry(id: string): Promise<EmailQueueItem> {
+    const result = await query(
+      `UPDATE email_queue
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+       WHERE id = $1 AND status IN ('failed', 'pending')
+       RETURNING *`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Email not found or already sent', 404);
+    }
+
+    this.processQueue().catch(error => console.error('[Email] Queue processing failed:', error));
+    return result.rows[0] as EmailQueueItem;
+  },
+
+  startWorker(): void {
+    if (workerTimer) return;
+
+    workerTimer = setInterval(() => {
+      this.processQueue()
+        .then(({ sent, failed }) => {
+          if (sent > 0 || failed > 0) {
+            console.log(`[Email] ${sent} email(s) sent, ${failed} failed`);
+          }
+        })
+        .catch(error => console.error('[Email] Queue processing failed:', error));
+    }, WORKER_INTERVAL_MS);
+  },
+};
@@ -1,7 +1,21 @@
 import { query } from '../config/database.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { inventoryService } from './inventory.service.js';
+import { stockReservationService } from './stock-reservation.service.js';
+import { sellerService } from './seller.service.js';
+import { orderEmailService } from './order-email.service.js';
+import { couponService } from './coupon.service.js';
+import { commissionService } from './commission.service.js';
 import type { Order, OrderItem, OrderStatus } from '../types/index.js';
 
+/**
+ * reduce: descuenta stock al crear (venta ya pagada)
+ * reserve: aparta stock con vencimiento hasta que Wompi confirme el pago
+ * hold: aparta stock sin vencimiento (pago fuera de línea, p. ej. prepago)
+ * none: no toca inventario
+ */
+export type StockMode = 'reduce' | 'reserve' | 'hold' | 'none';
+
 interface OrderFilters {
   status?: string;
   startDate?: string;
@@ -10,15 +24,43 @@ interface OrderFilters {
   offset?: number;
 }
 
+// Estado equivalente del pedido del bot (whatsapp_orders) para cada estado de la orden
+const WHATSAPP_STATUS: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'confirmed',
+  processing: 'confirmed',
+  shipped: 'confirmed',
+  delivered: 'completed',
+  cancelled: 'cancelled',
+};
+
+async function syncWhatsAppOrder(orderId: string, status: OrderStatus): Promise<void> {
+  const whatsappStatus = WHATSAPP_STATUS[status];
+  if (!whatsappStatus) return;
+
+  await query(
+    `UPDATE whatsapp_orders SET status = $1 WHERE order_id = $2 AND status != $1`,
+    [whatsappStatus, orderId]
+  );
+}
+
+// La orden ya quedó entregada: si falla se reintenta desde /commissions/orders/:id/accrue
+async function accrueCommissions(orderId: string): Promise<void> {
+  try {
+    await commissionService.accrueForOrder(orderId);
+  } catch (error) {
+    console.error(`⚠️  Failed to accrue commissions for order ${orderId}:`, error);
+  }
+}
+
 export const orderService = {
-  async create(orderData: Partial<Order> & { items: Partial<OrderItem>[] }, reduceStock = true): Promise<Order> {
+  async create(orderData: Partial<Order> & { items: Partial<OrderItem>[] }, stockMode: StockMode = 'reduce'): Promise<Order> {
     const client = await (await import('../config/database.js')).pool.connect();
 
     try {
       await client.query('BEGIN');
 
       // Validate stock availability before creating order
-      if (reduceStock) {
+      if (stockMode !== 'none') {
         for (const item of orderData.items || []) {
           const productResult = await client.query(
             `SELECT id, name, quantity, track_quantity, continue_selling_when_out_of_stock
@@ -40,11 +82,15 @@ export const orderService = {
         }
       }
 
+      // Atribución a un vendedor por código de referido
+      const sellerId = await sellerService.resolveReferral(client, orderData.referral_code, orderData.user_id);
+
       // Create order with order_number
       const orderResult = await client.query(
         `INSERT INTO orders (user_id, order_number, subtotal, discount, shipping_cost, tax, total, status,
-          payment_status, payment_method, payment_id, shipping_address, billing_address, notes, coupon_code)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+          payment_status, payment_method, payment_id, shipping_address, billing_address, notes, coupon_code,
+          seller_id, referral_code, channel, shipping_service_id, shipping_weight_g)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
          RETURNING *`,
         [
           orderData.user_id,
@@ -61,7 +107,12 @@ export const orderService = {
           orderData.shipping_address ? JSON.stringify(orderData.shipping_address) : null,
           orderData.billing_address ? JSON.stringify(orderData.billing_address) : null,
           orderData.notes || null,
-          orderData.coupon_code || null,
+          orderData.coupon_code?.trim().toUpperCase() || null,
+          sellerId,
+          sellerId ? orderData.referral_code : null,
+          orderData.channel || 'web',
+          orderData.shipping_service_id || null,
+          orderData.shipping_weight_g || null,
         ]
       );
 
@@ -84,30 +135,37 @@ export const orderService = {
         );
 
         // Reduce product stock
-        if (reduceStock) {
-          await client.query(
-            `UPDATE products
-             SET quantity = quantity - $1,
-                 total_sold = COALESCE(total_sold, 0) + $1,
-                 updated_at = NOW()
-             WHERE id = $2 AND track_quantity = true`,
-            [item.quantity, item.product_id]
-          );
-
-          // Update variant stock if applicable
-          if (item.variant_id) {
-            await client.query(
-              `UPDATE product_variants
-               SET quantity = quantity - $1,
-                   updated_at = NOW()
-               WHERE id = $2`,
-              [item.quantity, item.variant_id]
-            );
-          }
+        if (stockMode === 'reduce') {
+          await inventoryService.applyMovement(client, {
+            product_id: item.product_id!,
+            variant_id: item.variant_id,
+            type: 'sale',
+            quantity_change: -(item.quantity || 0),
+            order_id: order.id,
+          });
         }
       }
 
+      if (stockMode === 'reserve' || stockMode === 'hold') {
+        await stockReservationService.reserve(
+          client,
+          order.id,
+          stockMode === 'reserve' ? stockReservationService.defaultExpiry() : null
+        );
+      }
+
+      // El cupón se revalida y consume en la misma transacción que crea la orden
+      if (order.coupon_code) {
+        await couponService.redeem(client, { ...order, coupon_code: order.coupon_code, items: orderData.items || [] });
+      }
+
       await client.query('COMMIT');
+
+      // Los checkouts Wompi pendientes reciben el correo cuando se aprueba el pago
+      if (stockMode !== 'reserve') {
+        void orderEmailService.notify('order_placed', order.id);
+      }
+
       return order;
     } catch (error) {
       await client.query('ROLLBACK');
@@ -284,13 +342,46 @@ export const orderService = {
   },
 
   async updateStatus(id: string, status: OrderStatus): Promise<Order> {
+    // Una orden pagada ya descontó su stock: cancelarla exige devolver el dinero
+    // y reponer inventario, y eso lo hace el flujo de reembolsos
     const result = await query(
-      `UPDATE orders SET status = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+      `UPDATE orders SET status = $1, updated_at = NOW()
+       WHERE id = $2
+         AND NOT ($1 = 'cancelled' AND payment_status IN ('paid', 'partially_refunded'))
+       RETURNING *`,
       [status, id]
     );
 
     if (result.rows.length === 0) {
-      throw new AppError('Order not found', 404);
+      const exists = await query('SELECT 1 FROM orders WHERE id = $1', [id]);
+      if (exists.rows.length === 0) {
+        throw new AppError('Order not found', 404);
+      }
+      throw new AppError('La orden ya está pagada: cancélala con un reembolso', 409);
+    }
+
+    // Las órdenes canceladas sin pago devuelven el stock que tenían apartado
+    if (status === 'cancelled') {
+      await stockReservationService.release(id, 'cancelled');
+    }
+
+    // El uso del cupón vuelve a estar disponible
+    if (status === 'cancelled' || status === 'refunded') {
+      await couponService.release(id, status);
+    }
+
+    await syncWhatsAppOrder(id, status);
+
+    // Entregada: lo apartado pasa a vendido, igual que en confirmCashOnDelivery
+    if (status === 'delivered') {
+      await stockReservationService.commit(id);
+      await accrueCommissions(id);
+    }
+
+    if (status === 'shipped') {
+      void orderEmailService.notify('order_shipped', id);
+    } else if (status === 'delivered') {
+      void orderEmailService.notify('order_delivered', id);
     }
 
     return result.rows[0] as Order;
@@ -307,6 +398,10 @@ export const orderService = {
       throw new AppError('Order not found', 404);
     }
 
+    await syncWhatsAppOrder(id, 'shipped');
+
+    void orderEmailService.notify('order_shipped', id);
+
     return result.rows[0] as Order;
   },
 
@@ -332,6 +427,12 @@ export const orderService = {
       }
     }
 
+    if (paymentStatus === 'paid') {
+      void orderEmailService.notify('payment_approved', id);
+    } else if (paymentStatus === 'failed') {
+      void orderEmailService.notify('payment_declined', id);
+    }
+
     return result.rows[0] as Order;
   },
 
@@ -365,11 +466,14 @@ export const orderService = {
         }
       }
 
+      const sellerId = await sellerService.resolveReferral(client, orderData.referral_code, orderData.user_id);
+
       // Create order with cash on delivery details
       const orderResult = await client.query(
         `INSERT INTO orders (user_id, order_number, subtotal, discount, shipping_cost, tax, total, status,
-          payment_status, payment_method, shipping_address, billing_address, notes, coupon_code)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          payment_status, payment_method, shipping_address, billing_address, notes, coupon_code, seller_id, referral_code, channel,
+          shipping_service_id, shipping_weight_g)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
          RETURNING *`,
         [
           orderData.user_id,
@@ -385,15 +489,19 @@ export const orderService = {
           orderData.shipping_address ? JSON.stringify(orderData.shipping_address) : null,
           orderData.billing_address ? JSON.stringify(orderData.billing_address) : null,
           orderData.notes || 'Pago contra entrega - Pago en efectivo al recibir el pedido',
-          orderData.coupon_code || null,
+          orderData.coupon_code?.trim().toUpperCase() || null,
+          sellerId,
+          sellerId ? orderData.referral_code : null,
+          orderData.channel || 'web',
+          orderData.shipping_service_id || null,
+          orderData.shipping_weight_g || null,
         ]
       );
 
       const order = orderResult.rows[0] as Order;
 
-      // Create order items and reduce stock
+      // Create order items
       for (const item of orderData.items || []) {
-        // Create order item
         await client.query(
           `INSERT INTO order_items (order_id, product_id, variant_id, quantity, price, total)
            VALUES ($1, $2, $3, $4, $5, $6)`,
@@ -406,30 +514,19 @@ export const orderService = {
             (item.price || 0) * (item.quantity || 0),
           ]
         );
+      }
 
-        // Reduce product stock
-        await client.query(
-          `UPDATE products
-           SET quantity = quantity - $1,
-               total_sold = COALESCE(total_sold, 0) + $1,
-               updated_at = NOW()
-           WHERE id = $2 AND track_quantity = true`,
-          [item.quantity, item.product_id]
-        );
+      // Apartar stock sin vencimiento: se confirma al entregar y se devuelve si se cancela
+      await stockReservationService.reserve(client, order.id, null);
 
-        // Update variant stock if applicable
-        if (item.variant_id) {
-          await client.query(
-            `UPDATE product_variants
-             SET quantity = quantity - $1,
-                 updated_at = NOW()
-             WHERE id = $2`,
-            [item.quantity, item.variant_id]
-          );
-        }
+      if (order.coupon_code) {
+        await couponService.redeem(client, { ...order, coupon_code: order.coupon_code, items: orderData.items || [] });
       }
 
       await client.query('COMMIT');
+
+      void orderEmailService.notify('order_placed', order.id);
+
       return order;
     } catch (error) {
       await client.query('ROLLBACK');
@@ -446,9 +543,10 @@ export const orderService = {
     const result = await query(
       `UPDATE orders SET
          payment_status = 'paid',
-         status = 'completed',
+         status = 'delivered',
          updated_at = NOW()
-       WHERE id = $1 AND payment_method = 'cash_on_delivery' AND status = 'pending'
+       WHERE id = $1 AND payment_method = 'cash_on_delivery'
+         AND status IN ('pending', 'confirmed', 'processing', 'shipped')
        RETURNING *`,
       [id]
     );
@@ -459,6 +557,10 @@ export const orderService = {
 
     const order = result.rows[0] as Order;
 
+    await stockReservationService.commit(id);
+    await syncWhatsAppOrder(id, 'delivered');
+    await accrueCommissions(id);
+
     // Auto-create invoice when payment is confirmed
     try {
       const { invoiceService } = await import('./invoice.service.js');
@@ -469,6 +571,8 @@ export const orderService = {
       // Don't throw - invoice creation failure shouldn't block payment confirmation
     }
 
+    void orderEmailService.notify('order_delivered', id);
+
     return result.rows[0] as Order;
   },
 
@@ -508,21 +612,4 @@ export const orderService = {
 
     return result.rows[0] as Order;
   },
-
-  async registerWompiCommission(data: {
-    order_id: string;
-    transaction_id: string;
-    total_amount: number;
-    commission_amount: number;
-    merchant_amount: number;
-    fuyi_phone: string;
-  }) {
-    const result = await query(
-      `INSERT INTO wompi_commissions (order_id, transaction_id, total_amount, commission_amount, merchant_amount, fuyi_phone)
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
-      [data.order_id, data.transaction_id, data.total_amount, data.commission_amount, data.merchant_amount, data.fuyi_phone]
-    );
-    return result.rows[0];
-  },
-
 };
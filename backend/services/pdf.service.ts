@@ -0,0 +1,480 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { invoiceService } from './invoice.service.js';
+import { settingsService } from './settings.service.js';
+
+type Pdf = PDFKit.PDFDocument;
+
+export interface RenderedPdf {
+  buffer: Buffer;
+  version: string;
+  filename: string;
+}
+
+interface StoreIdentity {
+  name: string;
+  legalName: string;
+  nit: string;
+  address: string;
+  city: string;
+  email: string;
+  phone: string;
+}
+
+interface PackingSlipOrder {
+  id: string;
+  order_number: string;
+  created_at: Date;
+  payment_method: string | null;
+  payment_status: string;
+  total: string;
+  tracking_number: string | null;
+  notes: string | null;
+  shipping_address: Record<string, string | undefined> | null;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  items: Array<{
+    quantity: number;
+    product_name: string | null;
+    product_sku: string | null;
+    variant_name: string | null;
+    variant_sku: string | null;
+  }>;
+}
+
+// Cambia si se modifica el diseño, para no servir PDFs cacheados con el anterior
+const TEMPLATE_VERSION = '1';
+
+const PAGE_MARGIN = 40;
+const PAYMENT_LABELS: Record<string, string> = {
+  wompi: 'Wompi',
+  card: 'Tarjeta',
+  cash_on_delivery: 'Contra entrega',
+  prepaid: 'Prepagado',
+};
+
+// Fecha de hoy en Colombia (UTC-5, sin horario de verano)
+const storeToday = () => new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const money = (value: unknown) => `$${Number(value || 0).toLocaleString('es-CO', { maximumFractionDigits: 2 })}`;
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString('es-CO', { timeZone: 'America/Bogota', dateStyle: 'medium', timeStyle: 'short' });
+
+async function getStoreIdentity(): Promise<StoreIdentity> {
+  const [general, contact, invoicing] = await Promise.all([
+    settingsService.get('general'),
+    settingsService.get('contact'),
+    settingsService.get('invoicing'),
+  ]);
+
+  return {
+    name: general.store_name,
+    legalName: invoicing.legal_name,
+    nit: `${invoicing.nit}-${invoicing.check_digit}`,
+    address: contact.address || invoicing.address,
+    city: `${invoicing.city}, ${invoicing.department}`,
+    email: contact.email,
+    phone: contact.phone || contact.whatsapp,
+  };
+}
+
+function renderToBuffer(title: string, build: (doc: Pdf) => Promise<void>): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, info: { Title: title } });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    build(doc).then(() => doc.end(), reject);
+  });
+}
+
+function contentWidth(doc: Pdf): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function storeHeader(doc: Pdf, store: StoreIdentity, x: number, y: number, width: number): number {
+  doc.font('Helvetica-Bold').fontSize(18).text(store.name, x, y, { width });
+  doc.font('Helvetica').fontSize(9).fillColor('#444444');
+  doc.text(store.legalName, { width });
+  doc.text(`NIT ${store.nit}`, { width });
+  if (store.address) doc.text(store.address, { width });
+  doc.text(store.city, { width });
+  doc.text([store.email, store.phone].filter(Boolean).join(' · '), { width });
+  doc.fillColor('#000000');
+  return doc.y;
+}
+
+/**
+ * Tabla simple con salto de página; repite el encabezado en cada página
+ */
+function table(
+  doc: Pdf,
+  columns: Array<{ label: string; width: number; align?: 'left' | 'right' | 'center' }>,
+  rows: string[][]
+): void {
+  const x = PAGE_MARGIN;
+  const bottom = doc.page.height - PAGE_MARGIN - 40;
+
+  const drawHeader = () => {
+    const y = doc.y;
+    doc.rect(x, y, contentWidth(doc), 18).fill('#f2f2f2').fillColor('#000000');
+    doc.font('Helvetica-Bold').fontSize(8);
+    let cx = x;
+    for (const column of columns) {
+      doc.text(column.label, cx + 4, y + 5, { width: column.width - 8, align: column.align ?? 'left' });
+      cx += column.width;
+    }
+    doc.y = y + 22;
+  };
+
+  drawHeader();
+  doc.font('Helvetica').fontSize(8);
+
+  for (const row of rows) {
+    const height = Math.max(...row.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 8 }))) + 6;
+    if (doc.y + height > bottom) {
+      doc.addPage();
+      drawHeader();
+      doc.font('Helvetica').fontSize(8);
+    }
+
+    const y = doc.y;
+    let cx = x;
+    row.forEach((cell, i) => {
+      doc.text(cell, cx + 4, y + 3, { width: columns[i].width - 8, align: columns[i].align ?? 'left' });
+      cx += columns[i].width;
+    });
+    doc.moveTo(x, y + height).lineTo(x + contentWidth(doc), y + height).strokeColor('#dddddd').stroke();
+    doc.y = y + height;
+  }
+}
+
+async function invoiceDocument(doc: Pdf, invoice: any, store: StoreIdentity): Promise<void> {
+  const width = contentWidth(doc);
+  const isCreditNote = invoice.document_type === 'credit_note';
+  const title = !invoice.cufe ? 'FACTURA' : isCreditNote ? 'NOTA CRÉDITO ELECTRÓNICA' : 'FACTURA ELECTRÓNICA DE VENTA';
+  const address = invoice.shipping_address || {};
+
+  const headerBottom = storeHeader(doc, store, PAGE_MARGIN, PAGE_MARGIN, width / 2);
+
+  doc.font('Helvetica-Bold').fontSize(12).text(title, PAGE_MARGIN + width / 2, PAGE_MARGIN, { width: width / 2, align: 'right' });
+  doc.font('Helvetica').fontSize(9);
+  const meta = [
+    `Nº ${invoice.invoice_number}`,
+    `Emisión: ${formatDateTime(invoice.issue_date)}`,
+    `Orden: ${invoice.order_number}`,
+    `Pago: ${PAYMENT_LABELS[invoice.payment_method] ?? invoice.payment_method ?? '-'}`,
+  ];
+  if (invoice.credited_invoice) meta.push(`Corrige factura: ${invoice.credited_invoice.invoice_number}`);
+  if (invoice.status === 'cancelled' || invoice.status === 'voided') meta.push('ANULADA');
+  for (const line of meta) doc.text(line, { width: width / 2, align: 'right' });
+
+  doc.y = Math.max(headerBottom, doc.y) + 16;
+
+  // Adquiriente
+  doc.font('Helvetica-Bold').fontSize(10).text('ADQUIRIENTE', PAGE_MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(9);
+  doc.text(invoice.full_name || address.name || 'Consumidor final');
+  if (invoice.buyer_document) doc.text(`Documento: ${invoice.buyer_document}`);
+  if (invoice.email) doc.text(invoice.email);
+  const street = [address.address, address.apartment].filter(Boolean).join(', ');
+  if (street || address.city) doc.text([street, address.city].filter(Boolean).join(' - '));
+  if (isCreditNote && invoice.notes) doc.text(`Motivo: ${invoice.notes}`);
+  doc.moveDown();
+
+  const lines: any[] = invoice.lines.length > 0
+    ? invoice.lines
+    : invoice.items.map((item: any) => ({
+        description: item.product_name || 'Producto',
+        quantity: item.quantity,
+        unit_price: item.price,
+        tax_percent: null,
+        tax_amount: null,
+        line_extension: item.total,
+      }));
+
+  table(doc, [
+    { label: '#', width: 24 },
+    { label: 'Descripción', width: width - 24 - 50 - 80 - 90 - 88 },
+    { label: 'Cant.', width: 50, align: 'right' },
+    { label: 'V. unitario', width: 80, align: 'right' },
+    { label: 'IVA', width: 90, align: 'right' },
+    { label: 'Total', width: 88, align: 'right' },
+  ], lines.map((line, i) => [
+    String(i + 1),
+    line.description,
+    String(Number(line.quantity)),
+    money(line.unit_price),
+    line.tax_percent === null ? '-' : `${Number(line.tax_percent)}% ${money(line.tax_amount)}`,
+    money(line.line_extension),
+  ]));
+
+  // Totales
+  doc.moveDown();
+  const totals: Array<[string, string]> = [['Subtotal', money(invoice.subtotal)]];
+  if (Number(invoice.discount) > 0) totals.push(['Descuento', `-${money(invoice.discount)}`]);
+  if (Number(invoice.shipping_cost) > 0) totals.push(['Envío', money(invoice.shipping_cost)]);
+  totals.push(['IVA', money(invoice.tax)]);
+
+  const labelX = PAGE_MARGIN + width - 220;
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    doc.font('Helvetica').fontSize(9).text(label, labelX, y, { width: 110 });
+    doc.text(value, labelX + 110, y, { width: 110, align: 'right' });
+  }
+  const totalY = doc.y + 4;
+  doc.font('Helvetica-Bold').fontSize(11).text('TOTAL', labelX, totalY, { width: 110 });
+  doc.text(money(invoice.total), labelX + 110, totalY, { width: 110, align: 'right' });
+
+  // Representación gráfica: resolución, CUFE/CUDE y QR
+  if (invoice.cufe) {
+    const qrSize = 110;
+    let y = Math.max(doc.y + 24, doc.page.height - PAGE_MARGIN - qrSize - 20);
+    if (y + qrSize > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    const qr = await QRCode.toBuffer(invoice.qr_payload || invoice.cufe, { margin: 1, width: qrSize * 3 });
+    doc.image(qr, PAGE_MARGIN, y, { width: qrSize, height: qrSize });
+
+    const textX = PAGE_MARGIN + qrSize + 14;
+    const textWidth = width - qrSize - 14;
+    doc.font('Helvetica').fontSize(7.5).fillColor('#444444');
+    if (invoice.resolution_number) {
+      doc.text(
+        `Resolución DIAN Nº ${invoice.resolution_number} del ${invoice.resolution_valid_from}, vigente hasta ${invoice.resolution_valid_to}. ` +
+        `Numeración autorizada ${invoice.prefix}${invoice.resolution_range_from} a ${invoice.prefix}${invoice.resolution_range_to}.`,
+        textX, y, { width: textWidth }
+      );
+      doc.moveDown(0.5);
+    } else {
+      doc.y = y;
+    }
+    doc.font('Helvetica-Bold').text(isCreditNote ? 'CUDE' : 'CUFE', textX, doc.y, { width: textWidth });
+    doc.font('Helvetica').text(invoice.cufe, { width: textWidth });
+    doc.moveDown(0.5);
+    doc.text(`Estado DIAN: ${invoice.dian_status}`, { width: textWidth });
+    doc.fillColor('#000000');
+  }
+}
+
+async function packingSlipPage(doc: Pdf, order: PackingSlipOrder, store: StoreIdentity): Promise<void> {
+  const width = contentWidth(doc);
+  const address = order.shipping_address || {};
+  const recipient = address.name || [address.firstName, address.lastName].filter(Boolean).join(' ') || order.full_name || 'Cliente';
+  const phone = address.phone || order.phone;
+  const isCashOnDelivery = order.payment_method === 'cash_on_delivery' && order.payment_status !== 'paid';
+
+  // Rótulo de envío (mitad superior, se recorta por la línea punteada)
+  const labelTop = PAGE_MARGIN;
+  const labelHeight = 300;
+  doc.rect(PAGE_MARGIN, labelTop, width, labelHeight).lineWidth(1.5).strokeColor('#000000').stroke();
+
+  doc.font('Helvetica-Bold').fontSize(8).text('REMITE', PAGE_MARGIN + 12, labelTop + 12);
+  doc.font('Helvetica').fontSize(9);
+  doc.text(store.name, { width: width / 2 - 24 });
+  if (store.address) doc.text(store.address, { width: width / 2 - 24 });
+  doc.text(store.city, { width: width / 2 - 24 });
+  if (store.phone) doc.text(`Tel. ${store.phone}`, { width: width / 2 - 24 });
+
+  const qr = await QRCode.toBuffer(order.order_number, { margin: 1, width: 300 });
+  doc.image(qr, PAGE_MARGIN + width - 112, labelTop + 12, { width: 100, height: 100 });
+  doc.font('Helvetica-Bold').fontSize(14).text(order.order_number, PAGE_MARGIN + width - 262, labelTop + 118, { width: 250, align: 'right' });
+
+  doc.font('Helvetica-Bold').fontSize(8).text('DESTINATARIO', PAGE_MARGIN + 12, labelTop + 140);
+  doc.moveDown(0.3);
+  doc.font('Helvetica-Bold').fontSize(16).text(recipient, { width: width - 24 });
+  doc.font('Helvetica').fontSize(12);
+  const street = [address.address || address.street, address.apartment].filter(Boolean).join(', ');
+  if (street) doc.text(street, { width: width - 24 });
+  doc.text([address.city, address.state].filter(Boolean).join(', ') || '-', { width: width - 24 });
+  if (phone) doc.text(`Tel. ${phone}`, { width: width - 24 });
+
+  doc.fontSize(10);
+  if (order.tracking_number) doc.text(`Guía: ${order.tracking_number}`, PAGE_MARGIN + 12, labelTop + labelHeight - 40);
+  if (isCashOnDelivery) {
+    doc.font('Helvetica-Bold').fontSize(14)
+      .text(`COBRAR AL ENTREGAR: ${money(order.total)}`, PAGE_MARGIN + 12, labelTop + labelHeight - 24, { width: width - 24, align: 'right' });
+  }
+
+  // Línea de corte
+  const cutY = labelTop + labelHeight + 16;
+  doc.moveTo(PAGE_MARGIN, cutY).lineTo(PAGE_MARGIN + width, cutY).dash(4, { space: 4 }).lineWidth(0.5).stroke().undash();
+
+  // Lista de empaque
+  doc.y = cutY + 16;
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#000000').text('LISTA DE EMPAQUE', PAGE_MARGIN, doc.y);
+  doc.font('Helvetica').fontSize(9);
+  doc.text(`Orden ${order.order_number} · ${formatDateTime(order.created_at)} · ${PAYMENT_LABELS[order.payment_method ?? ''] ?? order.payment_method ?? '-'}`);
+  doc.moveDown(0.5);
+
+  table(doc, [
+    { label: 'OK', width: 30, align: 'center' },
+    { label: 'SKU', width: 100 },
+    { label: 'Producto', width: width - 30 - 100 - 120 - 50 },
+    { label: 'Variante', width: 120 },
+    { label: 'Cant.', width: 50, align: 'right' },
+  ], order.items.map(item => [
+    '[   ]',
+    item.variant_sku || item.product_sku || '-',
+    item.product_name || 'Producto',
+    item.variant_name || '-',
+    String(item.quantity),
+  ]));
+
+  const units = order.items.reduce((sum, item) => sum + Number(item.quantity), 0);
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(9).text(`Total unidades: ${units}`, PAGE_MARGIN, doc.y, { width, align: 'right' });
+  if (order.notes) {
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(8).fillColor('#444444').text(`Notas: ${order.notes}`, PAGE_MARGIN, doc.y, { width });
+    doc.fillColor('#000000');
+  }
+}
+
+async function getPackingSlipOrders(where: string, params: unknown[]): Promise<PackingSlipOrder[]> {
+  const result = await query(
+    `SELECT o.id, o.order_number, o.created_at, o.payment_method, o.payment_status, o.total,
+       o.tracking_number, o.notes, o.shipping_address, u.full_name, u.email, u.phone,
+       COALESCE(
+         (SELECT json_agg(json_build_object(
+            'quantity', oi.quantity,
+            'product_name', p.name,
+            'product_sku', p.sku,
+            'variant_name', pv.name,
+            'variant_sku', pv.sku
+          ) ORDER BY p.name)
+          FROM order_items oi
+          LEFT JOIN products p ON oi.product_id = p.id
+          LEFT JOIN product_variants pv ON oi.variant_id = pv.id
+          WHERE oi.order_id = o.id), '[]'
+       ) as items
+     FROM orders o
+     LEFT JOIN users u ON o.user_id = u.id
+     WHERE ${where}
+     ORDER BY o.created_at`,
+    params
+  );
+
+  return result.rows.map(row => ({
+    ...row,
+    shipping_address: typeof row.shipping_address === 'string' ? JSON.parse(row.shipping_address) : row.shipping_address,
+  }));
+}
+
+// ===========================================
+// CACHÉ EN DISCO (una versión por factura)
+// ===========================================
+const cacheFile = (invoiceId: string, version: string) => join(env.PDF_CACHE_DIR, `${invoiceId}-${version}.pdf`);
+
+async function readCached(invoiceId: string, version: string): Promise<Buffer | null> {
+  try {
+    return await readFile(cacheFile(invoiceId, version));
+  } catch {
+    return null;
+  }
+}
+
+// Guarda la versión nueva y borra las anteriores de la misma factura
+async function writeCached(invoiceId: string, version: string, buffer: Buffer): Promise<void> {
+  try {
+    await mkdir(env.PDF_CACHE_DIR, { recursive: true });
+    const stale = (await readdir(env.PDF_CACHE_DIR))
+      .filter(name => name.startsWith(`${invoiceId}-`) && name !== `${invoiceId}-${version}.pdf`);
+    await Promise.all(stale.map(name => unlink(join(env.PDF_CACHE_DIR, name)).catch(() => undefined)));
+    await writeFile(cacheFile(invoiceId, version), buffer);
+  } catch (error) {
+    console.error('[PDF] Could not write cache:', error);
+  }
+}
+
+export const pdfService = {
+  /**
+   * Versión del PDF de una factura: cambia cuando cambia la factura (updated_at),
+   * los datos de la tienda o la plantilla.
+   */
+  async getInvoiceVersion(invoiceId: string): Promise<string> {
+    const result = await query('SELECT updated_at FROM invoices WHERE id = $1', [invoiceId]);
+    if (result.rows.length === 0) {
+      throw new AppError('Factura no encontrada', 404);
+    }
+
+    const store = await getStoreIdentity();
+    return createHash('sha1')
+      .update(JSON.stringify([TEMPLATE_VERSION, new Date(result.rows[0].updated_at).toISOString(), store]))
+      .digest('hex')
+      .slice(0, 16);
+  },
+
+  /**
+   * PDF de una factura o nota crédito (representación gráfica), cacheado por versión
+   */
+  async renderInvoice(invoiceId: string): Promise<RenderedPdf> {
+    const version = await this.getInvoiceVersion(invoiceId);
+    const invoice = await invoiceService.getInvoiceDetails(invoiceId);
+    const filename = `${invoice.invoice_number}.pdf`;
+
+    const cached = await readCached(invoiceId, version);
+    if (cached) {
+      return { buffer: cached, version, filename };
+    }
+
+    const store = await getStoreIdentity();
+    const buffer = await renderToBuffer(`${invoice.invoice_number} - ${store.name}`, doc => invoiceDocument(doc, invoice, store));
+    await writeCached(invoiceId, version, buffer);
+
+    return { buffer, version, filename };
+  },
+
+  /**
+   * Rótulo de envío + lista de empaque de una orden
+   */
+  async renderPackingSlip(orderId: string): Promise<RenderedPdf> {
+    const orders = await getPackingSlipOrders('o.id = $1', [orderId]);
+    if (orders.length === 0) {
+      throw new AppError('Orden no encontrada', 404);
+    }
+
+    const store = await getStoreIdentity();
+    const order = orders[0];
+    const buffer = await renderToBuffer(`Empaque ${order.order_number}`, doc => packingSlipPage(doc, order, store));
+
+    return { buffer, version: TEMPLATE_VERSION, filename: `empaque-${order.order_number}.pdf` };
+  },
+
+  /**
+   * Rótulos y listas de empaque de las órdenes confirmadas en una fecha (hora de Colombia)
+   */
+  async renderPackingSlipsForDate(date: string = storeToday()): Promise<RenderedPdf & { count: number }> {
+    const orders = await getPackingSlipOrders(
+      `o.status = 'confirmed'
+       AND CAST(o.confirmed_at AT TIME ZONE 'America/Bogota' AS DATE) = $1`,
+      [date]
+    );
+    if (orders.length === 0) {
+      throw new AppError('No hay órdenes confirmadas para esta fecha', 404);
+    }
+
+    const store = await getStoreIdentity();
+    const buffer = await renderToBuffer(`Empaques ${date}`, async doc => {
+      for (const [i, order] of orders.entries()) {
+        if (i > 0) doc.addPage();
+        await packingSlipPage(doc, order, store);
+      }
+    });
+
+    return { buffer, version: TEMPLATE_VERSION, filename: `empaques-${date}.pdf`, count: orders.length };
+  },
+};
@@ -0,0 +1,222 @@
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { settingsService } from './settings.service.js';
+import { couponService, type CouponEvaluation } from './coupon.service.js';
+import { shippingService } from './shipping.service.js';
+import type { Accessory, ShippingDestination, ShippingOption, ShippingQuote } from '../types/index.js';
+
+// Reglas de precios compartidas por checkout (contra entrega y Wompi).
+// El envío lo cotiza shipping.service según destino, peso y valor declarado.
+export const TAX_RATE = 0.08;
+
+// Diferencia máxima aceptada (en COP) entre lo que envía el cliente y lo calculado
+const PRICE_TOLERANCE = 1;
+
+export interface PricingItemInput {
+  product_id: string;
+  variant_id?: string;
+  quantity: number;
+  selected_accessories?: string[];
+}
+
+export interface PricingInput {
+  items: PricingItemInput[];
+  coupon_code?: string | null;
+  shipping_method?: string;       // Código del servicio de envío; sin él, el más barato
+  destination?: ShippingDestination | null;
+  user_id?: string | null;        // Para cupones de primera compra o con límite por cliente
+}
+
+export interface PricedLine {
+  product_id: string;
+  variant_id?: string;
+  category_id?: string | null;
+  name: string;
+  quantity: number;
+  base_price: number;
+  accessories_price: number;
+  selected_accessories: string[];
+  unit_price: number;
+  total: number;
+}
+
+export interface PriceQuote {
+  items: PricedLine[];
+  subtotal: number;
+  discount: number;
+  shipping_cost: number;
+  shipping_method: string;
+  shipping_option: ShippingOption;
+  shipping: ShippingQuote;
+  tax: number;
+  total: number;
+  coupon_id: string | null;
+  coupon_code: string | null;
+  coupon: CouponEvaluation | null;
+}
+
+export interface SubmittedTotals {
+  items?: Array<{ product_id: string; variant_id?: string; price?: number }>;
+  subtotal?: number;
+  discount?: number;
+  shipping_cost?: number;
+  tax?: number;
+  total?: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const pricingService = {
+  /**
+   * Precios de las líneas del carrito desde la base de datos, sin envío ni cupón
+   */
+  async priceItems(items: PricingItemInput[]): Promise<{ lines: PricedLine[]; subtotal: number; weight_g: number }> {
+    if (!items.length) {
+      throw new AppError('El carrito debe contener al menos un producto', 400);
+    }
+
+    const productIds = [...new Set(items.map(item => item.product_id))];
+    const variantIds = [...new Set(items.map(item => item.variant_id).filter(Boolean))] as string[];
+
+    const productsResult = await query(
+      `SELECT id, name, price, category_id, is_active, accessories, weight
+       FROM products WHERE id = ANY($1::uuid[])`,
+      [productIds]
+    );
+    const products = new Map(productsResult.rows.map(row => [row.id as string, row]));
+
+    const variants = new Map<string, any>();
+    if (variantIds.length > 0) {
+      const variantsResult = await query(
+        `SELECT id, product_id, price, is_active FROM product_variants WHERE id = ANY($1::uuid[])`,
+        [variantIds]
+      );
+      for (const row of variantsResult.rows) {
+        variants.set(row.id, row);
+      }
+    }
+
+    const lines: PricedLine[] = items.map(item => {
+      const product = products.get(item.product_id);
+      if (!product || !product.is_active) {
+        throw new AppError(`Producto ${item.product_id} no disponible`, 404);
+      }
+
+      let basePrice = Number(product.price);
+      if (item.variant_id) {
+        const variant = variants.get(item.variant_id);
+        if (!variant || variant.product_id !== item.product_id || !variant.is_active) {
+          throw new AppError(`Variante ${item.variant_id} no disponible para ${product.name}`, 404);
+        }
+        basePrice = Number(variant.price);
+      }
+
+      // Accesorios opcionales de conjuntos (products.accessories)
+      const available = (product.accessories || []) as Accessory[];
+      const selected = [...new Set(item.selected_accessories || [])];
+      let accessoriesPrice = 0;
+      for (const type of selected) {
+        const accessory = available.find(acc => acc.type === type);
+        if (!accessory) {
+          throw new AppError(`El accesorio "${type}" no está disponible para ${product.name}`, 400);
+        }
+        accessoriesPrice += Number(accessory.price);
+      }
+
+      const unitPrice = roundCurrency(basePrice + accessoriesPrice);
+
+      return {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        category_id: product.category_id,
+        name: product.name,
+        quantity: item.quantity,
+        base_price: basePrice,
+        accessories_price: accessoriesPrice,
+        selected_accessories: selected,
+        unit_price: unitPrice,
+        total: roundCurrency(unitPrice * item.quantity),
+      };
+    });
+
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.total, 0));
+
+    // Productos sin peso registrado cuentan con el peso por defecto de Ajustes
+    const { default_item_weight_g: defaultWeight } = await settingsService.get('shipping');
+    const weight = lines.reduce(
+      (sum, line) => sum + (Number(products.get(line.product_id).weight) || defaultWeight) * line.quantity,
+      0
+    );
+
+    return { lines, subtotal, weight_g: weight };
+  },
+
+  /**
+   * Recalcula el pedido desde los precios de la base de datos
+   */
+  async quote(input: PricingInput): Promise<PriceQuote> {
+    const { lines, subtotal, weight_g: weight } = await this.priceItems(input.items);
+
+    const shipping = await shippingService.quote(input.destination, { weight_g: weight, declared_value: subtotal });
+    const shippingOption = shippingService.select(shipping, input.shipping_method);
+    let shippingCost = shippingOption.cost;
+
+    let coupon: CouponEvaluation | null = null;
+    if (input.coupon_code) {
+      coupon = await couponService.evaluate(input.coupon_code, lines, {
+        userId: input.user_id,
+        subtotal,
+        shippingCost,
+      });
+      shippingCost = roundCurrency(shippingCost - coupon.shipping_discount);
+    }
+    const discount = coupon?.discount ?? 0;
+
+    const tax = roundCurrency(subtotal * TAX_RATE);
+    const total = roundCurrency(subtotal - discount + shippingCost + tax);
+
+    return {
+      items: lines,
+      subtotal,
+      discount,
+      shipping_cost: shippingCost,
+      shipping_method: shippingOption.code,
+      shipping_option: shippingOption,
+      shipping,
+      tax,
+      total,
+      coupon_id: coupon?.coupon_id ?? null,
+      coupon_code: coupon?.code ?? null,
+      coupon,
+    };
+  },
+
+  /**
+   * Rechaza pedidos cuyos precios o totales no coinciden con el cálculo del servidor
+   */
+  assertMatches(quote: PriceQuote, submitted: SubmittedTotals): void {
+    const differs = (value: number | undefined, expected: number) =>
+      value !== undefined && Math.abs(value - expected) > PRICE_TOLERANCE;
+
+    (submitted.items || []).forEach((item, index) => {
+      const line = quote.items[index];
+      if (line && differs(item.price, line.unit_price)) {
+        throw new AppError(
+          `El precio de ${line.name} cambió. Precio actual: $${line.unit_price}`,
+          409
+        );
+      }
+    });
+
+    const fields: Array<keyof Omit<SubmittedTotals, 'items'>> = ['subtotal', 'discount', 'shipping_cost', 'tax', 'total'];
+    for (const field of fields) {
+      if (differs(submitted[field], quote[field])) {
+        console.warn(`[Pricing] Mismatch on ${field}: submitted ${submitted[field]}, expected ${quote[field]}`);
+        throw new AppError(
+          `El total del pedido no coincide con los precios actuales. Total esperado: $${quote.total}`,
+          409
+        );
+      }
+    }
+  },
+};
@@ -1,5 +1,7 @@
-import { query } from '../config/database.js';
+import type { PoolClient } from 'pg';
+import { pool, query } from '../config/database.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { inventoryService } from './inventory.service.js';
 import type { Product, Category, ProductImage, ProductVariant } from '../types/index.js';
 
 interface ProductFilters {
@@ -18,6 +20,23 @@ interface ProductFilters {
   offset?: number;
 }
 
+// Cambios de stock y su fila del ledger se confirman juntos
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 export const productService = {
   async getAll(filters?: ProductFilters): Promise<Product[]> {
     try {
@@ -260,6 +279,22 @@ export const productService = {
              FROM product_variants pv
              WHERE pv.product_id = p.id AND pv.is_active = true), '[]'
           ) as variants,
+          COALESCE(
+            (SELECT ROUND(AVG(r.rating)::numeric, 1)::float
+             FROM reviews r
+             WHERE r.product_id = p.id AND r.status = 'approved'), 0
+          ) as average_rating,
+          (SELECT COUNT(*)::int
+           FROM reviews r
+           WHERE r.product_id = p.id AND r.status = 'approved') as review_count,
+          (SELECT json_build_object(
+             '1', COUNT(*) FILTER (WHERE r.rating = 1),
+             '2', COUNT(*) FILTER (WHERE r.rating = 2),
+             '3', COUNT(*) FILTER (WHERE r.rating = 3),
+             '4', COUNT(*) FILTER (WHERE r.rating = 4),
+             '5', COUNT(*) FILTER (WHERE r.rating = 5))
+           FROM reviews r
+           WHERE r.product_id = p.id AND r.status = 'approved') as rating_distribution,
           COALESCE(
             (SELECT json_agg(
               json_build_object(
@@ -267,13 +302,15 @@ export const productService = {
                 'rating', pr.rating,
                 'title', pr.title,
                 'content', pr.content,
+                'is_verified_purchase', pr.is_verified_purchase,
+                'helpful_count', pr.helpful_count,
                 'created_at', pr.created_at,
                 'user', json_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url)
-              )
+              ) ORDER BY pr.created_at DESC
             )
              FROM reviews pr
              LEFT JOIN users u ON pr.user_id = u.id
-             WHERE pr.product_id = p.id), '[]'
+             WHERE pr.product_id = p.id AND pr.status = 'approved'), '[]'
           ) as reviews
         FROM products p
         LEFT JOIN categories c ON p.category_id = c.id
@@ -313,7 +350,23 @@ export const productService = {
           (SELECT json_agg(pv)
            FROM product_variants pv
            WHERE pv.product_id = p.id AND pv.is_active = true), '[]'
-        ) as variants
+        ) as variants,
+        COALESCE(
+          (SELECT ROUND(AVG(r.rating)::numeric, 1)::float
+           FROM reviews r
+           WHERE r.product_id = p.id AND r.status = 'approved'), 0
+        ) as average_rating,
+        (SELECT COUNT(*)::int
+         FROM reviews r
+         WHERE r.product_id = p.id AND r.status = 'approved') as review_count,
+        (SELECT json_build_object(
+           '1', COUNT(*) FILTER (WHERE r.rating = 1),
+           '2', COUNT(*) FILTER (WHERE r.rating = 2),
+           '3', COUNT(*) FILTER (WHERE r.rating = 3),
+           '4', COUNT(*) FILTER (WHERE r.rating = 4),
+           '5', COUNT(*) FILTER (WHERE r.rating = 5))
+         FROM reviews r
+         WHERE r.product_id = p.id AND r.status = 'approved') as rating_distribution
       FROM products p
       LEFT JOIN categories c ON p.category_id = c.id
       WHERE p.id = $1`,
@@ -386,50 +439,67 @@ export const productService = {
   },
 
   // Admin functions
-  async create(product: Partial<Product>): Promise<Product> {
-    const result = await query(
-      `INSERT INTO products (name, slug, description, short_description, price, compare_at_price,
-        cost_per_item, sku, barcode, quantity, track_quantity, continue_selling_when_out_of_stock,
-        category_id, brand, tags, is_active, is_featured, seo_title, seo_description,
-        gender, product_type, sizes, colors, material, weight,
-        is_set, accessories)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)
-       RETURNING *`,
-      [
-        product.name,
-        product.slug,
-        product.description,
-        product.short_description,
-        product.price,
-        product.compare_at_price,
-        product.cost_per_item,
-        product.sku,
-        product.barcode,
-        product.quantity || 0,
-        product.track_quantity ?? true,
-        product.continue_selling_when_out_of_stock ?? false,
-        product.category_id,
-        product.brand,
-        product.tags || [],
-        product.is_active ?? true,
-        product.is_featured ?? false,
-        product.seo_title,
-        product.seo_description,
-        product.gender,
-        product.product_type,
-        product.sizes || [],
-        product.colors || [],
-        product.material,
-        product.weight,
-        product.is_set ?? false,
-        JSON.stringify(product.accessories || []),
-      ]
-    );
+  async create(product: Partial<Product>, createdBy?: string): Promise<Product> {
+    return withTransaction(async client => {
+      const result = await client.query(
+        `INSERT INTO products (name, slug, description, short_description, price, compare_at_price,
+          cost_per_item, sku, barcode, quantity, track_quantity, continue_selling_when_out_of_stock,
+          category_id, brand, tags, is_active, is_featured, seo_title, seo_description,
+          gender, product_type, sizes, colors, material, weight,
+          is_set, accessories, low_stock_threshold)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28)
+         RETURNING *`,
+        [
+          product.name,
+          product.slug,
+          product.description,
+          product.short_description,
+          product.price,
+          product.compare_at_price,
+          product.cost_per_item,
+          product.sku,
+          product.barcode,
+          product.quantity || 0,
+          product.track_quantity ?? true,
+          product.continue_selling_when_out_of_stock ?? false,
+          product.category_id,
+          product.brand,
+          product.tags || [],
+          product.is_active ?? true,
+          product.is_featured ?? false,
+          product.seo_title,
+          product.seo_description,
+          product.gender,
+          product.product_type,
+          product.sizes || [],
+          product.colors || [],
+          product.material,
+          product.weight,
+          product.is_set ?? false,
+          JSON.stringify(product.accessories || []),
+          product.low_stock_threshold ?? null,
+        ]
+      );
 
-    return result.rows[0] as Product;
+      const created = result.rows[0] as Product;
+
+      if (created.track_quantity && created.quantity > 0) {
+        await inventoryService.record(client, {
+          product_id: created.id,
+          type: 'restock',
+          quantity_change: created.quantity,
+          quantity_before: 0,
+          quantity_after: created.quantity,
+          reason: 'Stock inicial',
+          created_by: createdBy,
+        });
+      }
+
+      return created;
+    });
   },
 
-  async update(id: string, updates: Partial<Product>): Promise<Product> {
+  async update(id: string, updates: Partial<Product>, updatedBy?: string): Promise<Product> {
     const fields: string[] = [];
     const values: unknown[] = [];
     let paramIndex = 1;
@@ -437,7 +507,7 @@ export const productService = {
     const allowedFields = [
       'name', 'slug', 'description', 'short_description', 'price', 'compare_at_price',
       'cost_per_item', 'sku', 'barcode', 'quantity', 'track_quantity',
-      'continue_selling_when_out_of_stock', 'category_id', 'brand', 'tags',
+      'continue_selling_when_out_of_stock', 'low_stock_threshold', 'category_id', 'brand', 'tags',
       'is_active', 'is_featured', 'seo_title', 'seo_description',
       'gender', 'product_type', 'sizes', 'colors', 'material', 'weight',
       'is_set', 'accessories'
@@ -457,16 +527,36 @@ export const productService = {
     }
 
     values.push(id);
-    const result = await query(
-      `UPDATE products SET ${fields.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex} RETURNING *`,
-      values
-    );
+    return withTransaction(async client => {
+      // previous_quantity permite registrar en el ledger las ediciones directas del stock
+      const result = await client.query(
+        `UPDATE products p SET ${fields.join(', ')}, updated_at = NOW()
+         FROM (SELECT quantity FROM products WHERE id = $${paramIndex} FOR UPDATE) previous
+         WHERE p.id = $${paramIndex}
+         RETURNING p.*, previous.quantity as previous_quantity`,
+        values
+      );
 
-    if (result.rows.length === 0) {
-      throw new AppError('Product not found', 404);
-    }
+      if (result.rows.length === 0) {
+        throw new AppError('Product not found', 404);
+      }
 
-    return result.rows[0] as Product;
+      const { previous_quantity: previousQuantity, ...product } = result.rows[0];
+
+      if (product.track_quantity && product.quantity !== previousQuantity) {
+        await inventoryService.record(client, {
+          product_id: id,
+          type: 'adjustment',
+          quantity_change: product.quantity - previousQuantity,
+          quantity_before: previousQuantity,
+          quantity_after: product.quantity,
+          reason: 'Edición del producto',
+          created_by: updatedBy,
+        });
+      }
+
+      return product as Product;
+    });
   },
 
   async delete(id: string): Promise<void> {
@@ -493,8 +583,8 @@ export const productService = {
   // Product Variants
   async addVariant(productId: string, variant: Partial<ProductVariant>): Promise<ProductVariant> {
     const result = await query(
-      `INSERT INTO product_variants (product_id, name, sku, price, compare_at_price, quantity, options, image_url, is_active)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+      `INSERT INTO product_variants (product_id, name, sku, price, compare_at_price, quantity, options, image_url, is_active, low_stock_threshold)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
       [
         productId,
         variant.name,
@@ -505,12 +595,13 @@ export const productService = {
         JSON.stringify(variant.options || []),
         variant.image_url,
         variant.is_active ?? true,
+        variant.low_stock_threshold ?? null,
       ]
     );
     return result.rows[0] as ProductVariant;
   },
 
-  async updateVariant(variantId: string, updates: Partial<ProductVariant>): Promise<ProductVariant> {
+  async updateVariant(variantId: string, updates: Partial<ProductVariant>, updatedBy?: string): Promise<ProductVariant> {
     const fields: string[] = [];
     const values: unknown[] = [];
     let paramIndex = 1;
@@ -524,12 +615,35 @@ export const productService = {
     }
 
     values.push(variantId);
-    const result = await query(
-      `UPDATE product_variants SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
-      values
-    );
+    return withTransaction(async client => {
+      const result = await client.query(
+        `UPDATE product_variants v SET ${fields.join(', ')}
+         FROM (SELECT quantity FROM product_variants WHERE id = $${paramIndex} FOR UPDATE) previous
+         WHERE v.id = $${paramIndex}
+         RETURNING v.*, previous.quantity as previous_quantity`,
+        values
+      );
 
-    return result.rows[0] as ProductVariant;
+      if (result.rows.length === 0) {
+        throw new AppError('Variant not found', 404);
+      }
+
+      const { previous_quantity: previousQuantity, ...variant } = result.rows[0];
+
+      if (variant.quantity !== previousQuantity) {
+        await inventoryService.record(client, {
+          product_id: variant.product_id,
+          variant_id: variantId,
+          type: 'adjustment',
+          quantity_change: variant.quantity - previousQuantity,
+          variant_quantity_after: variant.quantity,
+          reason: 'Edición de la variante',
+          created_by: updatedBy,
+        });
+      }
+
+      return variant as ProductVariant;
+    });
   },
 
   async deleteVariant(variantId: string): Promise<void> {
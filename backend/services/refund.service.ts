@@ -0,0 +1,372 @@
+import type { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { inventoryService } from './inventory.service.js';
+import { orderEmailService } from './order-email.service.js';
+import { couponService } from './coupon.service.js';
+import { commissionService } from './commission.service.js';
+import { invoiceService } from './invoice.service.js';
+import { wompiService, type WompiReversalResult } from './wompi.service.js';
+import type { OrderRefund, RefundItem, RefundType } from '../types/index.js';
+
+interface CreateRefundData {
+  amount?: number;
+  reason?: string;
+  items?: RefundItem[];
+}
+
+// Diferencia tolerada al comparar montos en COP
+const AMOUNT_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Devuelve al inventario las unidades reembolsadas de un item (una sola vez por unidad)
+ */
+async function restockItem(client: PoolClient, orderId: string, item: RefundItem, reason: string): Promise<void> {
+  const result = await client.query(
+    `UPDATE order_items
+     SET refunded_quantity = refunded_quantity + $1
+     WHERE id = $2 AND order_id = $3 AND refunded_quantity + $1 <= quantity
+     RETURNING product_id, variant_id`,
+    [item.quantity, item.order_item_id, orderId]
+  );
+
+  if (result.rows.length === 0) {
+    console.warn(`[Refunds] Item ${item.order_item_id} already restocked, skipping`);
+    return;
+  }
+
+  const { product_id, variant_id } = result.rows[0];
+
+  await inventoryService.applyMovement(client, {
+    product_id,
+    variant_id,
+    type: 'return',
+    quantity_change: item.quantity,
+    reason,
+    order_id: orderId,
+  });
+}
+
+export const refundService = {
+  async getByOrder(orderId: string): Promise<OrderRefund[]> {
+    const result = await query(
+      'SELECT * FROM order_refunds WHERE order_id = $1 ORDER BY created_at DESC',
+      [orderId]
+    );
+    return result.rows as OrderRefund[];
+  },
+
+  async getById(refundId: string): Promise<OrderRefund> {
+    const result = await query('SELECT * FROM order_refunds WHERE id = $1', [refundId]);
+    if (result.rows.length === 0) {
+      throw new AppError('Refund not found', 404);
+    }
+    return result.rows[0] as OrderRefund;
+  },
+
+  /**
+   * Solicita a Wompi la anulación (total) o el reembolso (parcial) de una orden pagada
+   */
+  async create(orderId: string, data: CreateRefundData, requestedBy: string): Promise<OrderRefund> {
+    // La orden queda bloqueada mientras se calcula el saldo y se registra la
+    // solicitud pendiente: dos reembolsos simultáneos no pueden superar el total
+    const client = await (await import('../config/database.js')).pool.connect();
+    let paymentId: string;
+    let refundId: string;
+    let type: RefundType;
+    let amountInCents: number;
+
+    try {
+      await client.query('BEGIN');
+      const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+      if (orderResult.rows.length === 0) {
+        throw new AppError('Order not found', 404);
+      }
+
+      const order = orderResult.rows[0];
+      paymentId = order.payment_id;
+
+      if (!order.payment_id) {
+        throw new AppError('No payment to refund', 400);
+      }
+
+      if (!['paid', 'partially_refunded'].includes(order.payment_status)) {
+        throw new AppError(`Cannot refund an order with payment status ${order.payment_status}`, 400);
+      }
+
+      const pendingResult = await client.query(
+        `SELECT COALESCE(SUM(amount), 0) as pending FROM order_refunds WHERE order_id = $1 AND status = 'pending'`,
+        [orderId]
+      );
+      const pending = Number(pendingResult.rows[0].pending);
+      const refundable = roundCurrency(Number(order.total) - Number(order.refunded_amount || 0) - pending);
+
+      if (refundable <= 0) {
+        throw new AppError('Order has no refundable balance', 400);
+      }
+
+      const amount = roundCurrency(data.amount ?? refundable);
+      if (amount > refundable + AMOUNT_TOLERANCE) {
+        throw new AppError(`Refund amount exceeds the refundable balance ($${refundable})`, 400);
+      }
+
+      const isFull = Math.abs(amount - refundable) <= AMOUNT_TOLERANCE;
+      // Una anulación solo aplica al total de una orden sin reembolsos previos
+      type = isFull && Number(order.refunded_amount || 0) === 0 && pending === 0 ? 'void' : 'refund';
+
+      const itemsResult = await client.query(
+        'SELECT id, quantity, refunded_quantity FROM order_items WHERE order_id = $1',
+        [orderId]
+      );
+      const orderItems = new Map(itemsResult.rows.map(row => [row.id as string, row]));
+
+      let items: RefundItem[];
+      if (data.items && data.items.length > 0) {
+        for (const item of data.items) {
+          const orderItem = orderItems.get(item.order_item_id);
+          if (!orderItem) {
+            throw new AppError(`Item ${item.order_item_id} does not belong to this order`, 400);
+          }
+          if (item.quantity > orderItem.quantity - orderItem.refunded_quantity) {
+            throw new AppError(`Cannot restock more units than were sold for item ${item.order_item_id}`, 400);
+          }
+        }
+        items = data.items;
+      } else if (isFull) {
+        // Reembolso total sin detalle: se repone todo lo que no se haya repuesto antes
+        items = itemsResult.rows
+          .filter(row => row.quantity - row.refunded_quantity > 0)
+          .map(row => ({ order_item_id: row.id, quantity: row.quantity - row.refunded_quantity }));
+      } else {
+        items = [];
+      }
+
+      amountInCents = Math.round(amount * 100);
+      const insertResult = await client.query(
+        `INSERT INTO order_refunds (order_id, transaction_id, type, amount, amount_in_cents, reason, items, requested_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [orderId, order.payment_id, type, amount, amountInCents, data.reason || null, JSON.stringify(items), requestedBy]
+      );
+      refundId = insertResult.rows[0].id as string;
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    let reversal: WompiReversalResult;
+    try {
+      reversal = type === 'void'
+        ? await wompiService.voidTransaction(paymentId)
+        : await wompiService.refundTransaction(paymentId, amountInCents);
+    } catch (error) {
+      await query(
+        `UPDATE order_refunds SET status = 'error', error_message = $1 WHERE id = $2`,
+        [error instanceof Error ? error.message : String(error), refundId]
+      );
+      throw error;
+    }
+
+    await query('UPDATE order_refunds SET external_id = $1 WHERE id = $2', [reversal.id, refundId]);
+
+    if (reversal.status === 'APPROVED') {
+      await this.apply(refundId);
+    } else if (reversal.status === 'DECLINED' || reversal.status === 'ERROR') {
+      await query(
+        `UPDATE order_refunds SET status = $1 WHERE id = $2`,
+        [reversal.status === 'DECLINED' ? 'declined' : 'error', refundId]
+      );
+    }
+    // PENDING: se concilia cuando llegue el webhook de Wompi
+
+    return this.getById(refundId);
+  },
+
+  /**
+   * Aplica un reembolso aprobado: repone inventario, revierte comisiones y
+   * actualiza la orden. Idempotente (applied_at).
+   */
+  async apply(refundId: string): Promise<void> {
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const refundResult = await client.query(
+        'SELECT * FROM order_refunds WHERE id = $1 FOR UPDATE',
+        [refundId]
+      );
+      const refund = refundResult.rows[0] as OrderRefund | undefined;
+
+      if (!refund || refund.applied_at) {
+        await client.query('ROLLBACK');
+        return;
+      }
+
+      const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [refund.order_id]);
+      const order = orderResult.rows[0];
+      const amount = Number(refund.amount);
+
+      for (const item of refund.items || []) {
+        await restockItem(client, refund.order_id, item, refund.reason || `Reembolso ${refund.type}`);
+      }
+
+      const refundedAmount = roundCurrency(Number(order.refunded_amount || 0) + amount);
+      const fullyRefunded = refundedAmount >= Number(order.total) - AMOUNT_TOLERANCE;
+
+      await commissionService.clawback(client, {
+        orderId: refund.order_id,
+        amount,
+        refundedBefore: Number(order.refunded_amount || 0),
+        orderTotal: Number(order.total),
+        fullyRefunded,
+      });
+
+      if (fullyRefunded) {
+        await couponService.release(refund.order_id, 'refunded', client);
+      }
+
+      await client.query(
+        `UPDATE orders
+         SET refunded_amount = $1,
+             payment_status = $2,
+             status = COALESCE($3, status),
+             updated_at = NOW()
+         WHERE id = $4`,
+        [
+          refundedAmount,
+          fullyRefunded ? 'refunded' : 'partially_refunded',
+          fullyRefunded ? (refund.type === 'void' ? 'cancelled' : 'refunded') : null,
+          refund.order_id,
+        ]
+      );
+
+      await client.query(
+        `UPDATE order_refunds SET status = 'approved', applied_at = NOW() WHERE id = $1`,
+        [refundId]
+      );
+
+      await client.query('COMMIT');
+
+      console.log(`[Refunds] ${refund.type} of $${amount} applied to order ${order.order_number}`);
+
+      // Nota crédito electrónica; si falla se puede emitir luego desde el panel
+      try {
+        await invoiceService.createCreditNote(refund.id);
+      } catch (error) {
+        console.error(`⚠️  Failed to issue credit note for refund ${refund.id}:`, error);
+      }
+
+      void orderEmailService.notify('order_refunded', refund.order_id, {
+        refund_id: refund.id,
+        refund_amount: amount,
+        reason: refund.reason,
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Concilia eventos de Wompi (VOIDED / refund_applied) con el ledger.
+   * Solo se aplica la solicitud pendiente que corresponde al evento (por id
+   * de la reversión, anulación de la transacción o monto); si ninguna
+   * corresponde, el reembolso se hizo desde el dashboard de Wompi y se
+   * registra aquí.
+   */
+  async reconcileTransaction(transaction: {
+    id: string;
+    reference?: string;
+    status?: string;
+    amount_in_cents?: number;
+  }): Promise<void> {
+    const orderResult = await query(
+      'SELECT * FROM orders WHERE payment_id = $1 OR order_number = $2 LIMIT 1',
+      [transaction.id, transaction.reference || null]
+    );
+
+    if (orderResult.rows.length === 0) {
+      console.warn(`[Refunds] Order not found for transaction ${transaction.id}`);
+      return;
+    }
+
+    const order = orderResult.rows[0];
+
+    // El evento ya tiene su fila en el ledger (reversión pedida desde la tienda
+    // o webhook repetido)
+    const knownResult = await query(
+      `SELECT id, status FROM order_refunds WHERE order_id = $1 AND external_id = $2`,
+      [order.id, transaction.id]
+    );
+
+    if (knownResult.rows.length > 0) {
+      for (const row of knownResult.rows.filter(row => row.status === 'pending')) {
+        await this.apply(row.id);
+      }
+      return;
+    }
+
+    // Anulación de la transacción original, o reversión que llegó antes de
+    // guardar su external_id: se busca la solicitud pendiente equivalente
+    const pendingResult = await query(
+      `SELECT id FROM order_refunds
+       WHERE order_id = $1 AND status = 'pending'
+         AND (
+           ($2::text = 'VOIDED' AND type = 'void' AND transaction_id = $3)
+           OR ($4::bigint IS NOT NULL AND amount_in_cents = $4)
+         )
+       ORDER BY ($2::text = 'VOIDED' AND type = 'void') DESC, created_at
+       LIMIT 1`,
+      [order.id, transaction.status || null, transaction.id, transaction.amount_in_cents ?? null]
+    );
+
+    if (pendingResult.rows.length > 0) {
+      await this.apply(pendingResult.rows[0].id);
+      return;
+    }
+
+    // Sin solicitud previa: reembolso externo por el saldo restante
+    const remaining = roundCurrency(Number(order.total) - Number(order.refunded_amount || 0));
+    if (remaining <= 0 || !['paid', 'partially_refunded'].includes(order.payment_status)) {
+      console.log(`[Refunds] Order ${order.order_number} already reconciled, skipping`);
+      return;
+    }
+
+    const itemsResult = await query(
+      `SELECT id, quantity - refunded_quantity as pending_quantity
+       FROM order_items WHERE order_id = $1 AND quantity > refunded_quantity`,
+      [order.id]
+    );
+    const items: RefundItem[] = itemsResult.rows.map(row => ({
+      order_item_id: row.id,
+      quantity: Number(row.pending_quantity),
+    }));
+
+    const insertResult = await query(
+      `INSERT INTO order_refunds (order_id, transaction_id, type, amount, amount_in_cents, reason, items, external_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        order.id,
+        transaction.id,
+        transaction.status === 'VOIDED' ? 'void' : 'refund',
+        remaining,
+        Math.round(remaining * 100),
+        'Registrado desde webhook de Wompi',
+        JSON.stringify(items),
+        transaction.id,
+      ]
+    );
+
+    await this.apply(insertResult.rows[0].id);
+  },
+};
@@ -0,0 +1,220 @@
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { Review, ReviewStatus, RatingSummary } from '../types/index.js';
+
+interface ReviewFilters {
+  status?: ReviewStatus | 'all';
+  sort_by?: 'newest' | 'helpful' | 'rating_desc' | 'rating_asc';
+  limit?: number;
+  offset?: number;
+}
+
+interface CreateReviewData {
+  rating: number;
+  title?: string;
+  content?: string;
+  images?: string[];
+}
+
+const REVIEW_SELECT = `
+  SELECT r.*,
+    json_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url) as user
+  FROM reviews r
+  LEFT JOIN users u ON r.user_id = u.id
+`;
+
+export const reviewService = {
+  async getByProduct(productId: string, filters?: ReviewFilters): Promise<{ data: Review[]; count: number }> {
+    const params: unknown[] = [productId];
+    let where = 'WHERE r.product_id = $1';
+
+    const status = filters?.status ?? 'approved';
+    if (status !== 'all') {
+      params.push(status);
+      where += ` AND r.status = $${params.length}`;
+    }
+
+    const countResult = await query(`SELECT COUNT(*)::int as count FROM reviews r ${where}`, params);
+
+    let orderBy: string;
+    switch (filters?.sort_by) {
+      case 'helpful':
+        orderBy = 'r.helpful_count DESC, r.created_at DESC';
+        break;
+      case 'rating_desc':
+        orderBy = 'r.rating DESC, r.created_at DESC';
+        break;
+      case 'rating_asc':
+        orderBy = 'r.rating ASC, r.created_at DESC';
+        break;
+      case 'newest':
+      default:
+        orderBy = 'r.is_verified_purchase DESC, r.created_at DESC';
+    }
+
+    let sql = `${REVIEW_SELECT} ${where} ORDER BY ${orderBy}`;
+
+    if (filters?.limit) {
+      params.push(filters.limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    if (filters?.offset) {
+      params.push(filters.offset);
+      sql += ` OFFSET $${params.length}`;
+    }
+
+    const result = await query(sql, params);
+    return { data: result.rows as Review[], count: countResult.rows[0].count };
+  },
+
+  async getById(reviewId: string): Promise<Review> {
+    const result = await query(`${REVIEW_SELECT} WHERE r.id = $1`, [reviewId]);
+
+    if (result.rows.length === 0) {
+      throw new AppError('Reseña no encontrada', 404);
+    }
+
+    return result.rows[0] as Review;
+  },
+
+  async getSummary(productId: string): Promise<RatingSummary> {
+    const result = await query(
+      `SELECT
+        COALESCE(ROUND(AVG(rating)::numeric, 1), 0)::float as average_rating,
+        COUNT(*)::int as review_count,
+        json_build_object(
+          '1', COUNT(*) FILTER (WHERE rating = 1),
+          '2', COUNT(*) FILTER (WHERE rating = 2),
+          '3', COUNT(*) FILTER (WHERE rating = 3),
+          '4', COUNT(*) FILTER (WHERE rating = 4),
+          '5', COUNT(*) FILTER (WHERE rating = 5)
+        ) as rating_distribution
+       FROM reviews
+       WHERE product_id = $1 AND status = 'approved'`,
+      [productId]
+    );
+
+    return result.rows[0] as RatingSummary;
+  },
+
+  /**
+   * Compra verificada: el usuario tiene una orden pagada o entregada con el producto
+   */
+  async hasPurchased(userId: string, productId: string): Promise<boolean> {
+    const result = await query(
+      `SELECT EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN orders o ON oi.order_id = o.id
+        WHERE o.user_id = $1
+          AND oi.product_id = $2
+          AND (o.payment_status = 'paid' OR o.status = 'delivered')
+          AND o.status NOT IN ('cancelled', 'refunded')
+      ) as purchased`,
+      [userId, productId]
+    );
+
+    return result.rows[0].purchased;
+  },
+
+  async create(productId: string, userId: string, data: CreateReviewData): Promise<Review> {
+    const productResult = await query('SELECT id FROM products WHERE id = $1 AND is_active = true', [productId]);
+    if (productResult.rows.length === 0) {
+      throw new AppError('Product not found', 404);
+    }
+
+    const existing = await query(
+      'SELECT id FROM reviews WHERE product_id = $1 AND user_id = $2',
+      [productId, userId]
+    );
+    if (existing.rows.length > 0) {
+      throw new AppError('Ya escribiste una reseña para este producto', 409);
+    }
+
+    const verified = await this.hasPurchased(userId, productId);
+
+    // Las reseñas de compras verificadas se publican de inmediato; el resto pasa por moderación
+    const result = await query(
+      `INSERT INTO reviews (product_id, user_id, rating, title, content, images, is_verified_purchase, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        productId,
+        userId,
+        data.rating,
+        data.title || null,
+        data.content || null,
+        data.images || [],
+        verified,
+        verified ? 'approved' : 'pending',
+      ]
+    );
+
+    return this.getById(result.rows[0].id);
+  },
+
+  /**
+   * Registra un voto "útil" (uno por usuario). Devuelve el contador actualizado.
+   */
+  async markHelpful(reviewId: string, userId: string): Promise<{ helpful_count: number; voted: boolean }> {
+    const review = await this.getById(reviewId);
+
+    // Solo las reseñas publicadas se pueden votar
+    if (review.status !== 'approved') {
+      throw new AppError('Reseña no encontrada', 404);
+    }
+
+    if (review.user_id === userId) {
+      throw new AppError('No puedes votar tu propia reseña', 400);
+    }
+
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO review_votes (review_id, user_id) VALUES ($1, $2)`,
+        [reviewId, userId]
+      );
+      const result = await client.query(
+        `UPDATE reviews SET helpful_count = helpful_count + 1 WHERE id = $1 RETURNING helpful_count`,
+        [reviewId]
+      );
+      await client.query('COMMIT');
+
+      return { helpful_count: result.rows[0].helpful_count, voted: true };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if ((error as { code?: string }).code === '23505') {
+        throw new AppError('Ya marcaste esta reseña como útil', 409);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  async moderate(productId: string, reviewId: string, status: ReviewStatus, moderatorId: string, note?: string): Promise<Review> {
+    const result = await query(
+      `UPDATE reviews
+       SET status = $1, moderated_by = $2, moderated_at = NOW(), moderation_note = $3
+       WHERE id = $4 AND product_id = $5
+       RETURNING id`,
+      [status, moderatorId, note || null, reviewId, productId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Reseña no encontrada', 404);
+    }
+
+    return this.getById(reviewId);
+  },
+
+  async delete(productId: string, reviewId: string): Promise<void> {
+    const result = await query('DELETE FROM reviews WHERE id = $1 AND product_id = $2', [reviewId, productId]);
+    if (result.rowCount === 0) {
+      throw new AppError('Reseña no encontrada', 404);
+    }
+  },
+};
@@ -1 +1,286 @@
-export const sellerService = {};
+import type { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { commissionService } from './commission.service.js';
+import type { Seller, SellerDashboard, SellerStatus } from '../types/index.js';
+
+export interface SellerRegistration {
+  display_name?: string;
+  phone?: string;
+  document_number?: string;
+  payout_method?: string;
+  payout_details?: string;
+}
+
+export interface SellerUpdate {
+  status?: SellerStatus;
+  commission_percentage?: number;
+  referral_code?: string;
+  notes?: string;
+}
+
+const SELLER_SELECT = `
+  SELECT s.*, COALESCE(tm.commission_percentage, 0) as commission_percentage,
+    json_build_object('id', u.id, 'email', u.email, 'full_name', u.full_name) as user
+  FROM sellers s
+  JOIN users u ON u.id = s.user_id
+  LEFT JOIN team_members tm ON tm.id = s.team_member_id
+`;
+
+// Sin 0/O ni 1/I para que el código se pueda dictar por WhatsApp
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function mapSeller(row: Record<string, any>): Seller {
+  return { ...row, commission_percentage: parseFloat(row.commission_percentage) || 0 } as Seller;
+}
+
+function generateReferralCode(name: string): string {
+  const prefix = name
+    .normalize('NFD')
+    .replace(/[^A-Za-z]/g, '')
+    .toUpperCase()
+    .slice(0, 5) || 'MELO';
+  let suffix = '';
+  for (let i = 0; i < 4; i++) {
+    suffix += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return `${prefix}${suffix}`;
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export const sellerService = {
+  /**
+   * Solicitud de un cliente para unirse al programa de vendedores.
+   * Queda pendiente hasta que un admin la aprueba.
+   */
+  async register(userId: string, data: SellerRegistration): Promise<Seller> {
+    const existing = await query('SELECT id FROM sellers WHERE user_id = $1', [userId]);
+    if (existing.rows.length > 0) {
+      throw new AppError('Ya tienes una solicitud en el programa de vendedores', 409);
+    }
+
+    const userResult = await query('SELECT full_name, phone FROM users WHERE id = $1', [userId]);
+    if (userResult.rows.length === 0) {
+      throw new AppError('User not found', 404);
+    }
+    const user = userResult.rows[0];
+    const displayName = data.display_name || user.full_name;
+
+    // Reintenta ante la (poco probable) colisión del código aleatorio
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const result = await query(
+        `INSERT INTO sellers (user_id, referral_code, display_name, phone, document_number, payout_method, payout_details)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (referral_code) DO NOTHING
+         RETURNING id`,
+        [
+          userId,
+          generateReferralCode(displayName),
+          displayName,
+          data.phone || user.phone || null,
+          data.document_number || null,
+          data.payout_method || null,
+          data.payout_details || null,
+        ]
+      );
+
+      if (result.rows.length > 0) {
+        return this.getById(result.rows[0].id);
+      }
+    }
+
+    throw new AppError('No se pudo generar un código de referido, intenta de nuevo', 500);
+  },
+
+  async getById(id: string): Promise<Seller> {
+    const result = await query(`${SELLER_SELECT} WHERE s.id = $1`, [id]);
+    if (result.rows.length === 0) {
+      throw new AppError('Seller not found', 404);
+    }
+    return mapSeller(result.rows[0]);
+  },
+
+  async getByUserId(userId: string): Promise<Seller | null> {
+    const result = await query(`${SELLER_SELECT} WHERE s.user_id = $1`, [userId]);
+    return result.rows.length > 0 ? mapSeller(result.rows[0]) : null;
+  },
+
+  async getAll(filters: { status?: SellerStatus } = {}): Promise<Array<Seller & { orders_count: number; total_sales: number }>> {
+    const params: unknown[] = [];
+    let where = '';
+
+    if (filters.status) {
+      params.push(filters.status);
+      where = 'WHERE s.status = $1';
+    }
+
+    const result = await query(
+      `SELECT sel.*,
+        (SELECT COUNT(*) FROM orders o WHERE o.seller_id = sel.id AND o.status NOT IN ('cancelled', 'refunded'))::int as orders_count,
+        (SELECT COALESCE(SUM(o.total), 0) FROM orders o WHERE o.seller_id = sel.id AND o.status NOT IN ('cancelled', 'refunded')) as total_sales
+       FROM (${SELLER_SELECT} ${where}) sel
+       ORDER BY sel.created_at DESC`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      ...mapSeller(row),
+      orders_count: row.orders_count,
+      total_sales: parseFloat(row.total_sales) || 0,
+    }));
+  },
+
+  /**
+   * Cambios del admin: aprobar/suspender, comisión y código.
+   * Al activar se crea (o reutiliza) el team_member del vendedor, que es
+   * donde vive su porcentaje de comisión.
+   */
+  async update(id: string, data: SellerUpdate, adminId: string): Promise<Seller> {
+    const seller = await this.getById(id);
+    let teamMemberId = seller.team_member_id || null;
+
+    if (data.status === 'active' && !teamMemberId) {
+      const teamMember = await commissionService.createTeamMember({
+        user_id: seller.user_id,
+        position: 'seller',
+        commission_percentage: data.commission_percentage ?? (parseFloat(env.SELLER_COMMISSION_PERCENTAGE) || 0),
+        can_manage_products: false,
+        can_manage_orders: false,
+        can_view_analytics: false,
+        can_manage_customers: false,
+        can_manage_settings: false,
+        can_manage_team: false,
+        notes: `Vendedor ${seller.referral_code}`,
+      });
+      teamMemberId = teamMember.id;
+    } else if (data.commission_percentage !== undefined) {
+      if (!teamMemberId) {
+        throw new AppError('Aprueba al vendedor antes de asignarle una comisión', 400);
+      }
+      await commissionService.updateTeamMember(teamMemberId, { commission_percentage: data.commission_percentage });
+    }
+
+    if (data.referral_code) {
+      const taken = await query(
+        'SELECT id FROM sellers WHERE UPPER(referral_code) = $1 AND id != $2',
+        [normalizeCode(data.referral_code), id]
+      );
+      if (taken.rows.length > 0) {
+        throw new AppError('Ese código de referido ya está en uso', 409);
+      }
+    }
+
+    const activating = data.status === 'active' && seller.status !== 'active';
+
+    await query(
+      `UPDATE sellers
+       SET status = COALESCE($1, status),
+           referral_code = COALESCE($2, referral_code),
+           notes = COALESCE($3, notes),
+           team_member_id = $4,
+           approved_by = CASE WHEN $5 THEN $6::uuid ELSE approved_by END,
+           approved_at = CASE WHEN $5 THEN NOW() ELSE approved_at END
+       WHERE id = $7`,
+      [
+        data.status ?? null,
+        data.referral_code ? normalizeCode(data.referral_code) : null,
+        data.notes ?? null,
+        teamMemberId,
+        activating,
+        adminId,
+        id,
+      ]
+    );
+
+    return this.getById(id);
+  },
+
+  /**
+   * Datos públicos de un código de referido activo (para mostrarlo en la tienda)
+   */
+  async getPublicByCode(code: string): Promise<Pick<Seller, 'referral_code' | 'display_name'>> {
+    const result = await query(
+      `SELECT referral_code, display_name FROM sellers WHERE UPPER(referral_code) = $1 AND status = 'active'`,
+      [normalizeCode(code)]
+    );
+    if (result.rows.length === 0) {
+      throw new AppError('Código de referido no válido', 404);
+    }
+    return result.rows[0];
+  },
+
+  /**
+   * Vendedor al que se atribuye una orden nueva. Un código inválido o inactivo
+   * no bloquea la compra, y un vendedor no gana comisión sobre sus propias compras.
+   */
+  async resolveReferral(db: Pick<PoolClient, 'query'>, code: string | null | undefined, buyerId?: string): Promise<string | null> {
+    if (!code) return null;
+
+    const result = await db.query(
+      `SELECT id, user_id FROM sellers WHERE UPPER(referral_code) = $1 AND status = 'active'`,
+      [normalizeCode(code)]
+    );
+    const seller = result.rows[0];
+
+    if (!seller || seller.user_id === buyerId) {
+      return null;
+    }
+
+    return seller.id;
+  },
+
+  async getDashboard(userId: string): Promise<SellerDashboard> {
+    const seller = await this.getByUserId(userId);
+    if (!seller) {
+      throw new AppError('No estás registrado en el programa de vendedores', 404);
+    }
+
+    const statsResult = await query(
+      `SELECT
+        COUNT(*) FILTER (WHERE status NOT IN ('cancelled', 'refunded'))::int as orders_count,
+        COUNT(*) FILTER (WHERE status = 'delivered')::int as delivered_orders,
+        COALESCE(SUM(total) FILTER (WHERE status NOT IN ('cancelled', 'refunded')), 0) as total_sales,
+        COUNT(DISTINCT user_id)::int as customers_count
+       FROM orders
+       WHERE seller_id = $1`,
+      [seller.id]
+    );
+    const stats = statsResult.rows[0];
+
+    const ordersResult = await query(
+      `SELECT o.id, o.order_number, o.total, o.status, o.payment_status, o.created_at,
+        (SELECT SUM(c.commission_amount) FROM commissions c
+         WHERE c.order_id = o.id AND c.team_member_id = $2 AND c.status != 'cancelled') as commission_amount
+       FROM orders o
+       WHERE o.seller_id = $1
+       ORDER BY o.created_at DESC
+       LIMIT 20`,
+      [seller.id, seller.team_member_id]
+    );
+
+    const commissions = seller.team_member_id
+      ? await commissionService.getCommissionSummary(seller.team_member_id)
+      : { total_earned: 0, total_pending: 0, total_paid: 0, this_month_earned: 0, last_month_earned: 0, orders_count: 0 };
+
+    return {
+      seller,
+      referral_link: `${env.FRONTEND_URL}/?ref=${encodeURIComponent(seller.referral_code)}`,
+      stats: {
+        orders_count: stats.orders_count,
+        delivered_orders: stats.delivered_orders,
+        total_sales: parseFloat(stats.total_sales) || 0,
+        customers_count: stats.customers_count,
+      },
+      commissions,
+      recent_orders: ordersResult.rows.map(row => ({
+        ...row,
+        total: parseFloat(row.total),
+        commission_amount: row.commission_amount === null ? null : parseFloat(row.commission_amount),
+      })),
+    };
+  },
+};
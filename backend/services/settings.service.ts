@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { query } from '../config/database.js';
+
+// Esquemas de cada clave de store_settings. Los valores por defecto se usan
+// cuando la fila no existe o le faltan campos (p. ej. instalaciones antiguas).
+export const settingsSchemas = {
+  general: z.object({
+    store_name: z.string().min(1).max(100).default('MELO SPORTT'),
+    store_description: z.string().max(1000).default(''),
+    currency: z.string().length(3).default('COP'),
+    timezone: z.string().min(1).default('America/Bogota'),
+  }),
+  contact: z.object({
+    email: z.string().email().default('contacto@melosportt.com'),
+    phone: z.string().max(30).default(''),
+    whatsapp: z.string().max(30).default(''),
+    address: z.string().max(255).default(''),
+  }),
+  social: z.object({
+    facebook: z.string().max(255).default(''),
+    instagram: z.string().max(255).default(''),
+    twitter: z.string().max(255).default(''),
+    tiktok: z.string().max(255).default(''),
+  }),
+  shipping: z.object({
+    free_shipping_threshold: z.number().min(0).default(200000),
+    // Peso de los productos sin products.weight al cotizar el envío
+    default_item_weight_g: z.number().int().min(1).max(100000).default(500),
+  }),
+  inventory: z.object({
+    // Umbral de stock bajo cuando el producto/variante no define uno propio
+    low_stock_threshold: z.number().int().min(0).default(5),
+    // Ventana de ventas para calcular la velocidad y días de cobertura deseados al reabastecer
+    sales_window_days: z.number().int().min(1).max(365).default(30),
+    target_cover_days: z.number().int().min(1).max(365).default(30),
+  }),
+  // Datos del emisor en las facturas electrónicas (UBL 2.1 / DIAN)
+  invoicing: z.object({
+    nit: z.string().regex(/^\d{5,15}$/).default('900000000'),
+    check_digit: z.string().regex(/^\d$/).default('5'),
+    legal_name: z.string().min(1).max(255).default('MELO SPORTT S.A.S.'),
+    trade_name: z.string().min(1).max(255).default('MELO SPORTT'),
+    // Responsabilidades fiscales (RUT casilla 53), p. ej. O-13, O-15, O-23, O-47, R-99-PN
+    tax_responsibilities: z.array(z.string().max(10)).default(['R-99-PN']),
+    address: z.string().max(255).default('Cartagena de Indias'),
+    city: z.string().max(100).default('Cartagena'),
+    city_code: z.string().regex(/^\d{5}$/).default('13001'),
+    department: z.string().max(100).default('Bolívar'),
+    department_code: z.string().regex(/^\d{2}$/).default('13'),
+    email: z.string().email().default('facturacion@melosportt.com'),
+    // Identificador del software registrado ante la DIAN
+    software_id: z.string().max(100).default(''),
+  }),
+};
+
+export type SettingsKey = keyof typeof settingsSchemas;
+export type StoreSettingsMap = { [K in SettingsKey]: z.infer<typeof settingsSchemas[K]> };
+export type ShippingSettings = StoreSettingsMap['shipping'];
+export type ContactSettings = StoreSettingsMap['contact'];
+export type InventorySettings = StoreSettingsMap['inventory'];
+export type InvoicingSettings = StoreSettingsMap['invoicing'];
+
+export interface SettingsAuditEntry {
+  id: string;
+  key: string;
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: string | null;
+  changed_by_name?: string | null;
+  changed_at: string;
+}
+
+export const isSettingsKey = (key: string): key is SettingsKey =>
+  Object.prototype.hasOwnProperty.call(settingsSchemas, key);
+
+export const settingsService = {
+  async get<K extends SettingsKey>(key: K): Promise<StoreSettingsMap[K]> {
+    const result = await query('SELECT value FROM store_settings WHERE key = $1', [key]);
+    const stored = result.rows[0]?.value ?? {};
+
+    // Valores inválidos guardados antes de la validación no deben tumbar el checkout
+    const parsed = settingsSchemas[key].safeParse(stored);
+    if (!parsed.success) {
+      console.warn(`[Settings] Stored value for "${key}" is invalid, using defaults`, parsed.error.flatten().fieldErrors);
+      return settingsSchemas[key].parse({}) as StoreSettingsMap[K];
+    }
+
+    return parsed.data as StoreSettingsMap[K];
+  },
+
+  async getAll(): Promise<StoreSettingsMap> {
+    const keys = Object.keys(settingsSchemas) as SettingsKey[];
+    const values = await Promise.all(keys.map(key => this.get(key)));
+    return Object.fromEntries(keys.map((key, i) => [key, values[i]])) as StoreSettingsMap;
+  },
+
+  /**
+   * Reemplaza el valor de una clave y registra el cambio en store_settings_audit
+   */
+  async update<K extends SettingsKey>(key: K, value: unknown, userId: string): Promise<StoreSettingsMap[K]> {
+    // ZodError -> 400 con detalles (errorHandler)
+    const data = settingsSchemas[key].parse(value) as StoreSettingsMap[K];
+
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(
+        'SELECT value FROM store_settings WHERE key = $1 FOR UPDATE',
+        [key]
+      );
+      const oldValue = current.rows[0]?.value ?? null;
+
+      await client.query(
+        `INSERT INTO store_settings (key, value, updated_by, updated_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (key) DO UPDATE
+         SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()`,
+        [key, JSON.stringify(data), userId]
+      );
+
+      await client.query(
+        `INSERT INTO store_settings_audit (key, old_value, new_value, changed_by)
+         VALUES ($1, $2, $3, $4)`,
+        [key, oldValue === null ? null : JSON.stringify(oldValue), JSON.stringify(data), userId]
+      );
+
+      await client.query('COMMIT');
+
+      return data;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  async getHistory(key: SettingsKey, limit = 50): Promise<SettingsAuditEntry[]> {
+    const result = await query(
+      `SELECT a.*, u.full_name as changed_by_name
+       FROM store_settings_audit a
+       LEFT JOIN users u ON a.changed_by = u.id
+       WHERE a.key = $1
+       ORDER BY a.changed_at DESC
+       LIMIT $2`,
+      [key, limit]
+    );
+
+    return result.rows as SettingsAuditEntry[];
+  },
+};
@@ -0,0 +1,376 @@
+import { query } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { settingsService } from './settings.service.js';
+import type {
+  ShippingConfig,
+  ShippingDestination,
+  ShippingOption,
+  ShippingQuote,
+  ShippingRate,
+  ShippingService,
+  ShippingZone,
+  ShippingZoneLocation,
+} from '../types/index.js';
+
+/**
+ * Cotización de envíos: el destino (departamento/ciudad) define la zona, y
+ * cada servicio activo con tarifa en esa zona cotiza por el rango de peso del
+ * paquete, el kilo adicional y el porcentaje sobre el valor declarado. Los
+ * servicios marcados quedan gratis cuando el subtotal alcanza el umbral de
+ * store_settings.shipping.
+ */
+
+export interface ShippingServiceUpdate {
+  name?: string;
+  delivery_days_min?: number;
+  delivery_days_max?: number;
+  cash_on_delivery?: boolean;
+  free_shipping_eligible?: boolean;
+  active?: boolean;
+  sort_order?: number;
+}
+
+export type ShippingRateInput = Pick<
+  ShippingRate,
+  'min_weight_g' | 'max_weight_g' | 'price' | 'extra_kg_price' | 'declared_value_percent'
+>;
+
+interface ResolvedZone {
+  id: string;
+  code: string;
+  name: string;
+  free_shipping_eligible: boolean;
+}
+
+/**
+ * Nombres de lugar como se guardan en shipping_zone_locations: minúsculas,
+ * sin tildes ni puntuación ("Bogotá, D.C." -> "bogota")
+ */
+export function normalizePlace(value?: string | null): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\bd c$/, '')
+    .trim();
+}
+
+function toRate(row: any): ShippingRate {
+  return {
+    ...row,
+    min_weight_g: Number(row.min_weight_g),
+    max_weight_g: row.max_weight_g === null ? null : Number(row.max_weight_g),
+    price: Number(row.price),
+    extra_kg_price: Number(row.extra_kg_price),
+    declared_value_percent: Number(row.declared_value_percent),
+  };
+}
+
+async function resolveZone(destination?: ShippingDestination | null): Promise<ResolvedZone> {
+  const department = normalizePlace(destination?.department);
+  const city = normalizePlace(destination?.city);
+
+  // Ciudad y departamento > solo la ciudad (departamento mal escrito) > todo el departamento
+  const result = await query(
+    `SELECT z.id, z.code, z.name, z.free_shipping_eligible
+     FROM shipping_zone_locations l
+     JOIN shipping_zones z ON z.id = l.zone_id
+     WHERE z.active
+       AND ((l.department = $1 AND (l.city IS NULL OR l.city = $2)) OR l.city = $2)
+     ORDER BY (l.city IS NOT NULL AND l.department = $1) DESC, (l.city IS NOT NULL) DESC
+     LIMIT 1`,
+    [department, city]
+  );
+  if (result.rows.length > 0) {
+    return result.rows[0];
+  }
+
+  const fallback = await query(
+    `SELECT id, code, name, free_shipping_eligible FROM shipping_zones WHERE is_default AND active`
+  );
+  if (fallback.rows.length === 0) {
+    throw new AppError('No hay envíos disponibles para este destino', 400);
+  }
+
+  return fallback.rows[0];
+}
+
+async function getServices(where = '', params: unknown[] = []): Promise<ShippingService[]> {
+  const result = await query(
+    `SELECT s.*, c.code as carrier_code, c.name as carrier_name
+     FROM shipping_services s
+     JOIN shipping_carriers c ON c.id = s.carrier_id
+     ${where}
+     ORDER BY s.sort_order, s.name`,
+    params
+  );
+  return result.rows;
+}
+
+export const shippingService = {
+  /**
+   * Opciones de envío al destino, de la más barata a la más cara
+   */
+  async quote(
+    destination: ShippingDestination | null | undefined,
+    parcel: { weight_g: number; declared_value: number }
+  ): Promise<ShippingQuote> {
+    const zone = await resolveZone(destination);
+    const { free_shipping_threshold: threshold } = await settingsService.get('shipping');
+    const weight = Math.max(1, Math.ceil(parcel.weight_g));
+
+    // Rango que contiene el peso: (min, max], el primero incluye el 0
+    const result = await query(
+      `SELECT DISTINCT ON (s.id)
+         s.id as service_id, s.code, s.name, s.delivery_days_min, s.delivery_days_max,
+         s.cash_on_delivery, s.free_shipping_eligible, s.sort_order,
+         c.code as carrier_code, c.name as carrier_name,
+         r.min_weight_g, r.price, r.extra_kg_price, r.declared_value_percent
+       FROM shipping_rates r
+       JOIN shipping_services s ON s.id = r.service_id AND s.active
+       JOIN shipping_carriers c ON c.id = s.carrier_id AND c.active
+       WHERE r.zone_id = $1
+         AND (r.min_weight_g < $2 OR r.min_weight_g = 0)
+         AND (r.max_weight_g IS NULL OR $2 <= r.max_weight_g)
+       ORDER BY s.id, r.min_weight_g DESC`,
+      [zone.id, weight]
+    );
+
+    const options: ShippingOption[] = result.rows.map(row => {
+      // Kilo o fracción por encima del inicio del rango
+      const extraKg = Math.ceil(Math.max(0, weight - Number(row.min_weight_g)) / 1000);
+      const price = Math.round(
+        Number(row.price) +
+        Number(row.extra_kg_price) * extraKg +
+        parcel.declared_value * Number(row.declared_value_percent) / 100
+      );
+      const free = row.free_shipping_eligible && zone.free_shipping_eligible && parcel.declared_value >= threshold;
+
+      return {
+        service_id: row.service_id,
+        code: row.code,
+        name: row.name,
+        carrier_code: row.carrier_code,
+        carrier_name: row.carrier_name,
+        delivery_days_min: row.delivery_days_min,
+        delivery_days_max: row.delivery_days_max,
+        cash_on_delivery: row.cash_on_delivery,
+        price,
+        cost: free ? 0 : price,
+        free,
+        sort_order: row.sort_order,
+      };
+    })
+      .sort((a, b) => a.cost - b.cost || a.sort_order - b.sort_order)
+      .map(({ sort_order: _sortOrder, ...option }) => option);
+
+    return {
+      zone: { id: zone.id, code: zone.code, name: zone.name },
+      weight_g: weight,
+      free_shipping_threshold: threshold,
+      options,
+    };
+  },
+
+  /**
+   * Servicio elegido por el cliente, o el más barato si no eligió ninguno
+   */
+  select(quote: ShippingQuote, code?: string | null): ShippingOption {
+    if (quote.options.length === 0) {
+      throw new AppError(`No hay servicios de envío para ${quote.zone.name}`, 400);
+    }
+    if (!code) {
+      return quote.options[0];
+    }
+
+    const option = quote.options.find(candidate => candidate.code === code);
+    if (!option) {
+      throw new AppError(`El envío "${code}" no está disponible para ${quote.zone.name}`, 400);
+    }
+    return option;
+  },
+
+  async getConfig(): Promise<ShippingConfig> {
+    const [carriers, services, zones, rates] = await Promise.all([
+      query('SELECT id, code, name, active, sort_order FROM shipping_carriers ORDER BY sort_order, name'),
+      getServices(),
+      query(
+        `SELECT z.id, z.code, z.name, z.is_default, z.free_shipping_eligible, z.active,
+           COALESCE(
+             json_agg(json_build_object('department', l.department, 'city', l.city) ORDER BY l.department, l.city)
+               FILTER (WHERE l.id IS NOT NULL),
+             '[]'
+           ) as locations
+         FROM shipping_zones z
+         LEFT JOIN shipping_zone_locations l ON l.zone_id = z.id
+         GROUP BY z.id
+         ORDER BY z.is_default, z.name`
+      ),
+      query('SELECT * FROM shipping_rates ORDER BY service_id, zone_id, min_weight_g'),
+    ]);
+
+    return {
+      carriers: carriers.rows,
+      services,
+      zones: zones.rows as ShippingZone[],
+      rates: rates.rows.map(toRate),
+    };
+  },
+
+  async updateService(id: string, data: ShippingServiceUpdate): Promise<ShippingService> {
+    const [current] = await getServices('WHERE s.id = $1', [id]);
+    if (!current) {
+      throw new AppError('Servicio de envío no encontrado', 404);
+    }
+
+    const next = { ...current, ...data };
+    if (next.delivery_days_max < next.delivery_days_min) {
+      throw new AppError('Los días máximos de entrega no pueden ser menores que los mínimos', 400);
+    }
+
+    await query(
+      `UPDATE shipping_services
+       SET name = $1, delivery_days_min = $2, delivery_days_max = $3, cash_on_delivery = $4,
+           free_shipping_eligible = $5, active = $6, sort_order = $7
+       WHERE id = $8`,
+      [
+        next.name,
+        next.delivery_days_min,
+        next.delivery_days_max,
+        next.cash_on_delivery,
+        next.free_shipping_eligible,
+        next.active,
+        next.sort_order,
+        id,
+      ]
+    );
+
+    const [updated] = await getServices('WHERE s.id = $1', [id]);
+    return updated;
+  },
+
+  /**
+   * Reemplaza los rangos de peso de un servicio en una zona. Los rangos no se
+   * pueden solapar y solo el último puede quedar sin peso máximo. Sin rangos,
+   * el servicio deja de ofrecerse en la zona.
+   */
+  async replaceRates(serviceId: string, zoneId: string, rates: ShippingRateInput[]): Promise<ShippingRate[]> {
+    const bands = [...rates].sort((a, b) => a.min_weight_g - b.min_weight_g);
+    bands.forEach((band, index) => {
+      const next = bands[index + 1];
+      if (band.max_weight_g !== null && band.max_weight_g <= band.min_weight_g) {
+        throw new AppError(`El rango desde ${band.min_weight_g} g debe terminar en un peso mayor`, 400);
+      }
+      if (next && (band.max_weight_g === null || band.max_weight_g > next.min_weight_g)) {
+        throw new AppError(`El rango desde ${band.min_weight_g} g se solapa con el siguiente`, 400);
+      }
+    });
+
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const exists = await client.query(
+        `SELECT (SELECT COUNT(*) FROM shipping_services WHERE id = $1) as services,
+                (SELECT COUNT(*) FROM shipping_zones WHERE id = $2) as zones`,
+        [serviceId, zoneId]
+      );
+      if (Number(exists.rows[0].services) === 0 || Number(exists.rows[0].zones) === 0) {
+        throw new AppError('Servicio o zona de envío no encontrados', 404);
+      }
+
+      await client.query('DELETE FROM shipping_rates WHERE service_id = $1 AND zone_id = $2', [serviceId, zoneId]);
+
+      const inserted: ShippingRate[] = [];
+      for (const band of bands) {
+        const result = await client.query(
+          `INSERT INTO shipping_rates (service_id, zone_id, min_weight_g, max_weight_g, price, extra_kg_price, declared_value_percent)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [
+            serviceId,
+            zoneId,
+            band.min_weight_g,
+            band.max_weight_g,
+            band.price,
+            band.extra_kg_price,
+            band.declared_value_percent,
+          ]
+        );
+        inserted.push(toRate(result.rows[0]));
+      }
+
+      await client.query('COMMIT');
+      return inserted;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Reemplaza los departamentos/ciudades de una zona. Un lugar solo puede
+   * pertenecer a una zona.
+   */
+  async setZoneLocations(zoneId: string, locations: ShippingZoneLocation[]): Promise<ShippingZoneLocation[]> {
+    const normalized = new Map<string, ShippingZoneLocation>();
+    for (const location of locations) {
+      const department = normalizePlace(location.department);
+      const city = normalizePlace(location.city) || null;
+      if (!department) {
+        throw new AppError('Cada ubicación necesita un departamento', 400);
+      }
+      normalized.set(`${department}|${city ?? ''}`, { department, city });
+    }
+    const places = [...normalized.values()];
+
+    const client = await (await import('../config/database.js')).pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const zone = await client.query('SELECT id FROM shipping_zones WHERE id = $1 FOR UPDATE', [zoneId]);
+      if (zone.rows.length === 0) {
+        throw new AppError('Zona de envío no encontrada', 404);
+      }
+
+      const taken = await client.query(
+        `SELECT l.department, l.city, z.name as zone_name
+         FROM shipping_zone_locations l
+         JOIN shipping_zones z ON z.id = l.zone_id
+         JOIN unnest($2::text[], $3::text[]) AS p(department, city)
+           ON p.department = l.department AND p.city = COALESCE(l.city, '')
+         WHERE l.zone_id <> $1
+         LIMIT 1`,
+        [zoneId, places.map(place => place.department), places.map(place => place.city ?? '')]
+      );
+      if (taken.rows.length > 0) {
+        const place = taken.rows[0];
+        throw new AppError(
+          `${place.city ? `${place.city} (${place.department})` : place.department} ya pertenece a la zona ${place.zone_name}`,
+          409
+        );
+      }
+
+      await client.query('DELETE FROM shipping_zone_locations WHERE zone_id = $1', [zoneId]);
+      for (const place of places) {
+        await client.query(
+          'INSERT INTO shipping_zone_locations (zone_id, department, city) VALUES ($1, $2, $3)',
+          [zoneId, place.department, place.city]
+        );
+      }
+
+      await client.query('COMMIT');
+      return places;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+};
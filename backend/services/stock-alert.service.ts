@@ -0,0 +1,188 @@
+import { query } from '../config/database.js';
+import { settingsService } from './settings.service.js';
+import { userService } from './user.service.js';
+import { emitToAdmins, sendNotificationToUser } from './websocket.service.js';
+
+type AlertLevel = 'low' | 'out_of_stock';
+
+interface StockLevel {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  threshold: number;
+}
+
+interface OpenAlert {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  level: AlertLevel;
+}
+
+// Frecuencia de la revisión de stock en segundo plano
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+let monitorTimer: NodeJS.Timeout | null = null;
+
+const alertKey = (productId: string, variantId: string | null) => `${productId}:${variantId ?? ''}`;
+
+const levelFor = (item: StockLevel): AlertLevel | null => {
+  if (item.quantity <= 0) return 'out_of_stock';
+  if (item.quantity <= item.threshold) return 'low';
+  return null;
+};
+
+async function notifyAdmins(item: StockLevel, level: AlertLevel): Promise<void> {
+  const title = level === 'out_of_stock' ? `Agotado: ${item.name}` : `Stock bajo: ${item.name}`;
+  const message = level === 'out_of_stock'
+    ? `${item.name} se quedó sin unidades.`
+    : `Quedan ${item.quantity} unidades de ${item.name} (umbral ${item.threshold}).`;
+  const data = {
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    sku: item.sku,
+    quantity: item.quantity,
+    threshold: item.threshold,
+    level,
+  };
+
+  const admins = await query(`SELECT id FROM users WHERE role IN ('admin', 'super_admin')`);
+
+  for (const admin of admins.rows) {
+    const notification = await userService.createNotification(admin.id, { type: 'inventory', title, message, data });
+    sendNotificationToUser(admin.id, notification);
+  }
+
+  emitToAdmins('low-stock', { ...data, name: item.name, title, message });
+}
+
+export const stockAlertService = {
+  /**
+   * Stock actual y umbral efectivo (variante -> producto -> tienda) de todo lo que lleva inventario
+   */
+  async getStockLevels(): Promise<StockLevel[]> {
+    const { low_stock_threshold: defaultThreshold } = await settingsService.get('inventory');
+
+    const result = await query(
+      `SELECT p.id as product_id, NULL::uuid as variant_id, p.name, p.sku, p.quantity,
+        COALESCE(p.low_stock_threshold, $1) as threshold
+       FROM products p
+       WHERE p.track_quantity = true AND p.is_active = true
+       UNION ALL
+       SELECT v.product_id, v.id, p.name || ' - ' || v.name, v.sku, v.quantity,
+        COALESCE(v.low_stock_threshold, p.low_stock_threshold, $1)
+       FROM product_variants v
+       JOIN products p ON p.id = v.product_id
+       WHERE p.track_quantity = true AND p.is_active = true AND v.is_active = true`,
+      [defaultThreshold]
+    );
+
+    return result.rows as StockLevel[];
+  },
+
+  /**
+   * Abre una alerta (y notifica) cuando un producto/variante cruza su umbral,
+   * vuelve a notificar si pasa de bajo a agotado y cierra las alertas repuestas.
+   */
+  async check(): Promise<{ opened: number; resolved: number }> {
+    const levels = await this.getStockLevels();
+    const openResult = await query(
+      `SELECT id, product_id, variant_id, level FROM low_stock_alerts WHERE status = 'open'`
+    );
+    const openAlerts = new Map(
+      (openResult.rows as OpenAlert[]).map(alert => [alertKey(alert.product_id, alert.variant_id), alert])
+    );
+
+    let opened = 0;
+    let resolved = 0;
+
+    for (const item of levels) {
+      const key = alertKey(item.product_id, item.variant_id);
+      const level = levelFor(item);
+      const existing = openAlerts.get(key);
+      openAlerts.delete(key);
+
+      if (!level) {
+        if (existing) {
+          await query(
+            `UPDATE low_stock_alerts SET status = 'resolved', resolved_at = NOW() WHERE id = $1`,
+            [existing.id]
+          );
+          resolved++;
+        }
+        continue;
+      }
+
+      if (existing && (existing.level === level || level === 'low')) {
+        continue;
+      }
+
+      let changed;
+      if (existing) {
+        // Bajo -> agotado: se escala la alerta existente
+        changed = await query(
+          `UPDATE low_stock_alerts SET level = $1, quantity = $2, threshold = $3, notified_at = NOW()
+           WHERE id = $4 AND status = 'open' AND level <> $1
+           RETURNING id`,
+          [level, item.quantity, item.threshold, existing.id]
+        );
+      } else {
+        changed = await query(
+          `INSERT INTO low_stock_alerts (product_id, variant_id, level, quantity, threshold)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT DO NOTHING
+           RETURNING id`,
+          [item.product_id, item.variant_id, level, item.quantity, item.threshold]
+        );
+      }
+
+      // Otra instancia ya abrió o escaló esta alerta: ella notifica
+      if (changed.rows.length === 0) {
+        continue;
+      }
+
+      await notifyAdmins(item, level);
+      opened++;
+    }
+
+    // Alertas de productos desactivados o sin control de inventario
+    for (const alert of openAlerts.values()) {
+      await query(
+        `UPDATE low_stock_alerts SET status = 'resolved', resolved_at = NOW() WHERE id = $1`,
+        [alert.id]
+      );
+      resolved++;
+    }
+
+    return { opened, resolved };
+  },
+
+  async getOpenAlerts() {
+    const result = await query(
+      `SELECT a.*, p.name as product_name, p.sku, v.name as variant_name,
+        COALESCE(v.quantity, p.quantity) as current_quantity
+       FROM low_stock_alerts a
+       JOIN products p ON p.id = a.product_id
+       LEFT JOIN product_variants v ON v.id = a.variant_id
+       WHERE a.status = 'open'
+       ORDER BY (a.level = 'out_of_stock') DESC, a.notified_at DESC`
+    );
+    return result.rows;
+  },
+
+  startMonitor(): void {
+    if (monitorTimer) return;
+
+    monitorTimer = setInterval(() => {
+      this.check()
+        .then(({ opened, resolved }) => {
+          if (opened > 0 || resolved > 0) {
+            console.log(`[StockAlerts] ${opened} alert(s) opened, ${resolved} resolved`);
+          }
+        })
+        .catch(error => console.error('[StockAlerts] Stock check failed:', error));
+    }, CHECK_INTERVAL_MS);
+  },
+};
@@ -0,0 +1,225 @@
+import type { PoolClient } from 'pg';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { inventoryService } from './inventory.service.js';
+import { couponService } from './coupon.service.js';
+import type { StockReservation } from '../types/index.js';
+
+export type ReleaseReason = 'declined' | 'voided' | 'error' | 'expired' | 'cancelled';
+
+// Frecuencia con la que se buscan reservas vencidas
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+
+let expiryTimer: NodeJS.Timeout | null = null;
+
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await (await import('../config/database.js')).pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export const stockReservationService = {
+  /**
+   * Aparta el stock de todos los items de una orden recién creada.
+   * Se ejecuta dentro de la transacción de creación de la orden.
+   * expiresAt = null: la reserva no vence (contra entrega, prepago).
+   */
+  async reserve(client: PoolClient, orderId: string, expiresAt: Date | null): Promise<void> {
+    const itemsResult = await client.query(
+      'SELECT id, product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
+      [orderId]
+    );
+
+    for (const item of itemsResult.rows) {
+      await inventoryService.applyMovement(client, {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        type: 'reservation',
+        quantity_change: -item.quantity,
+        reason: expiresAt ? 'Checkout Wompi pendiente' : 'Pago contra entrega o fuera de línea',
+        order_id: orderId,
+      });
+
+      await client.query(
+        `INSERT INTO stock_reservations (order_id, order_item_id, product_id, variant_id, quantity, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [orderId, item.id, item.product_id, item.variant_id, item.quantity, expiresAt]
+      );
+    }
+  },
+
+  /**
+   * Vencimiento por defecto de un checkout Wompi pendiente
+   */
+  defaultExpiry(): Date {
+    const minutes = parseInt(env.STOCK_RESERVATION_MINUTES) || 30;
+    return new Date(Date.now() + minutes * 60 * 1000);
+  },
+
+  async getByOrder(orderId: string): Promise<StockReservation[]> {
+    const result = await query(
+      'SELECT * FROM stock_reservations WHERE order_id = $1 ORDER BY created_at',
+      [orderId]
+    );
+    return result.rows as StockReservation[];
+  },
+
+  /**
+   * Confirma la venta cuando el pago es aprobado. Si la reserva ya había
+   * vencido (o la orden es anterior a las reservas) descuenta el stock ahora.
+   * Idempotente: un segundo webhook APPROVED no vuelve a descontar.
+   */
+  async commit(orderId: string): Promise<void> {
+    await withTransaction(async (client) => {
+      const reservations = await client.query(
+        'SELECT * FROM stock_reservations WHERE order_id = $1 FOR UPDATE',
+        [orderId]
+      );
+      const rows = reservations.rows as StockReservation[];
+
+      if (rows.some(row => row.status === 'committed')) {
+        return;
+      }
+
+      const active = rows.filter(row => row.status === 'active');
+
+      if (active.length > 0) {
+        for (const row of active) {
+          await client.query(
+            `UPDATE products SET total_sold = COALESCE(total_sold, 0) + $1, updated_at = NOW()
+             WHERE id = $2 AND track_quantity = true`,
+            [row.quantity, row.product_id]
+          );
+        }
+
+        await client.query(
+          `UPDATE stock_reservations SET status = 'committed', committed_at = NOW()
+           WHERE order_id = $1 AND status = 'active'`,
+          [orderId]
+        );
+        return;
+      }
+
+      // Sin reserva vigente: el stock ya fue devuelto, se descuenta de nuevo
+      const itemsResult = await client.query(
+        'SELECT id, product_id, variant_id, quantity FROM order_items WHERE order_id = $1',
+        [orderId]
+      );
+
+      for (const item of itemsResult.rows) {
+        await inventoryService.applyMovement(client, {
+          product_id: item.product_id,
+          variant_id: item.variant_id,
+          type: 'sale',
+          quantity_change: -item.quantity,
+          order_id: orderId,
+        });
+
+        await client.query(
+          `INSERT INTO stock_reservations (order_id, order_item_id, product_id, variant_id, quantity, status, committed_at)
+           VALUES ($1, $2, $3, $4, $5, 'committed', NOW())`,
+          [orderId, item.id, item.product_id, item.variant_id, item.quantity]
+        );
+      }
+
+      if (rows.length > 0) {
+        console.warn(`[StockReservations] Order ${orderId} was paid after its reservation was released, stock deducted again`);
+      }
+    });
+  },
+
+  /**
+   * Devuelve al inventario las unidades apartadas por una orden.
+   * Solo afecta reservas activas, así que es seguro llamarlo varias veces.
+   */
+  async release(orderId: string, reason: ReleaseReason): Promise<number> {
+    const released = await withTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE stock_reservations
+         SET status = 'released', release_reason = $2, released_at = NOW()
+         WHERE order_id = $1 AND status = 'active'
+         RETURNING product_id, variant_id, quantity`,
+        [orderId, reason]
+      );
+
+      for (const row of result.rows) {
+        if (!row.product_id) continue;
+
+        await inventoryService.applyMovement(client, {
+          product_id: row.product_id,
+          variant_id: row.variant_id,
+          type: 'release',
+          quantity_change: row.quantity,
+          reason,
+          order_id: orderId,
+        });
+      }
+
+      return result.rows.length;
+    });
+
+    if (released > 0) {
+      console.log(`[StockReservations] Released ${released} reservation(s) for order ${orderId} (${reason})`);
+    }
+
+    return released;
+  },
+
+  /**
+   * Libera las reservas vencidas y cancela las órdenes que siguen sin pago
+   */
+  async releaseExpired(): Promise<number> {
+    // Contra entrega no vence aunque una reserva antigua tenga expires_at
+    const expired = await query(
+      `SELECT DISTINCT r.order_id FROM stock_reservations r
+       JOIN orders o ON o.id = r.order_id
+       WHERE r.status = 'active' AND r.expires_at IS NOT NULL AND r.expires_at < NOW()
+         AND o.payment_method <> 'cash_on_delivery'`
+    );
+
+    for (const row of expired.rows) {
+      await this.release(row.order_id, 'expired');
+
+      const cancelled = await query(
+        `UPDATE orders
+         SET status = 'cancelled',
+             payment_status = 'failed',
+             notes = COALESCE(notes || ' | ', '') || 'Reserva de stock vencida sin pago',
+             updated_at = NOW()
+         WHERE id = $1 AND status = 'pending' AND payment_status = 'pending'
+         RETURNING id`,
+        [row.order_id]
+      );
+
+      if (cancelled.rows.length > 0) {
+        await couponService.release(row.order_id, 'expired');
+      }
+    }
+
+    return expired.rows.length;
+  },
+
+  startExpiryJob(): void {
+    if (expiryTimer) return;
+
+    expiryTimer = setInterval(() => {
+      this.releaseExpired()
+        .then(count => {
+          if (count > 0) {
+            console.log(`[StockReservations] Released stock for ${count} expired checkout(s)`);
+          }
+        })
+        .catch(error => console.error('[StockReservations] Expiry job failed:', error));
+    }, EXPIRY_CHECK_INTERVAL_MS);
+  },
+};
@@ -0,0 +1,360 @@
+import type { PoolClient } from 'pg';
+import { query, pool } from '../config/database.js';
+import { env } from '../config/env.js';
+import type { AnalyticsEventInput, TrafficAttribution, TrafficSourceType } from '../types/index.js';
+
+/**
+ * Tráfico propio de la tienda: el frontend envía eventos por sesión y un job
+ * diario los resume en website_traffic, conversion_tracking y traffic_sources.
+ */
+
+// Frecuencia del resumen; cada pasada recalcula ayer y hoy
+const ROLLUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Eventos con fecha fuera de esta ventana se registran con la hora del servidor
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Día de la tienda (Colombia) de un evento
+const eventDate = (column = 'occurred_at') => `CAST(${column} AT TIME ZONE 'America/Bogota' AS DATE)`;
+
+const SEARCH_ENGINES = /(^|\.)(google|bing|yahoo|duckduckgo|ecosia|baidu|yandex)\./;
+const SOCIAL_NETWORKS = /(^|\.)(facebook|fb|instagram|tiktok|twitter|x|t|linkedin|pinterest|youtube|whatsapp|wa)\.(com|co|me)$/;
+const SOCIAL_SOURCES = /^(facebook|fb|instagram|ig|tiktok|twitter|x|linkedin|pinterest|youtube|whatsapp)$/;
+const PAID_MEDIUMS = /^(cpc|ppc|cpm|paid|paid_social|paidsocial|display|ads?)$/;
+
+let rollupTimer: NodeJS.Timeout | null = null;
+
+interface SourceTotals {
+  sessions: number;
+  page_views: number;
+  bounces: number;
+  duration: number;
+  product_view_sessions: number;
+  add_to_cart_sessions: number;
+  checkout_sessions: number;
+  purchase_sessions: number;
+  orders: number;
+  revenue: number;
+}
+
+const emptyTotals = (): SourceTotals => ({
+  sessions: 0,
+  page_views: 0,
+  bounces: 0,
+  duration: 0,
+  product_view_sessions: 0,
+  add_to_cart_sessions: 0,
+  checkout_sessions: 0,
+  purchase_sessions: 0,
+  orders: 0,
+  revenue: 0,
+});
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function hostOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+const storeHost = hostOf(env.FRONTEND_URL);
+
+/**
+ * Origen de la sesión: UTM primero, luego el dominio del referrer.
+ * Un referrer de la propia tienda cuenta como directo.
+ */
+export function classifySource(attribution: TrafficAttribution): TrafficSourceType {
+  const medium = attribution.utm_medium?.trim().toLowerCase();
+  const source = attribution.utm_source?.trim().toLowerCase();
+
+  if (medium && PAID_MEDIUMS.test(medium)) return 'paid';
+  if (medium === 'social' || (source && SOCIAL_SOURCES.test(source))) return 'social';
+  if (medium === 'organic') return 'organic';
+  if (source || medium) return 'referral';
+
+  const host = hostOf(attribution.referrer);
+  if (!host || host === storeHost) return 'direct';
+  if (SEARCH_ENGINES.test(host)) return 'organic';
+  if (SOCIAL_NETWORKS.test(host)) return 'social';
+  return 'referral';
+}
+
+function eventTime(occurredAt: string | undefined, now: number): Date {
+  const time = occurredAt ? Date.parse(occurredAt) : NaN;
+  if (Number.isNaN(time) || time > now || now - time > MAX_EVENT_AGE_MS) {
+    return new Date(now);
+  }
+  return new Date(time);
+}
+
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Fecha YYYY-MM-DD en Colombia (UTC-5), offsetDays respecto a hoy
+function storeDate(offsetDays = 0): string {
+  const colombiaOffset = 5 * 60 * 60 * 1000;
+  return new Date(Date.now() - colombiaOffset + offsetDays * 86400000).toISOString().split('T')[0];
+}
+
+export const trafficService = {
+  /**
+   * Registra un lote de eventos de una sesión. Los IDs de producto que no
+   * existen se guardan como NULL para no rechazar el lote completo. Un evento
+   * purchase solo cuenta si la orden es del usuario de la sesión; si no, se
+   * descarta (el navegador no puede atribuirse órdenes ajenas).
+   */
+  async record(data: {
+    session_id: string;
+    visitor_id: string;
+    user_id?: string | null;
+    user_agent?: string | null;
+    attribution: TrafficAttribution;
+    events: AnalyticsEventInput[];
+  }): Promise<number> {
+    const sourceType = classifySource(data.attribution);
+    const now = Date.now();
+    let recorded = 0;
+
+    for (const event of data.events) {
+      let orderId: string | null = null;
+      if (event.type === 'purchase') {
+        if (!data.user_id || (!event.order_id && !event.order_number)) continue;
+
+        const order = await query(
+          `SELECT id FROM orders
+           WHERE user_id = $1 AND (id = $2::uuid OR order_number = $3)
+           LIMIT 1`,
+          [data.user_id, event.order_id ?? null, event.order_number ?? null]
+        );
+        if (order.rows.length === 0) continue;
+        orderId = order.rows[0].id;
+      }
+
+      await query(
+        `INSERT INTO analytics_events (
+          event_type, session_id, visitor_id, user_id, path, product_id, order_id, source_type,
+          referrer, utm_source, utm_medium, utm_campaign, utm_term, utm_content, user_agent, occurred_at
+        ) VALUES (
+          $1, $2, $3, $4, $5,
+          (SELECT id FROM products WHERE id = $6::uuid),
+          $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+        )`,
+        [
+          event.type,
+          data.session_id,
+          data.visitor_id,
+          data.user_id ?? null,
+          event.path ?? null,
+          event.product_id ?? null,
+          orderId,
+          sourceType,
+          data.attribution.referrer ?? null,
+          data.attribution.utm_source ?? null,
+          data.attribution.utm_medium ?? null,
+          data.attribution.utm_campaign ?? null,
+          data.attribution.utm_term ?? null,
+          data.attribution.utm_content ?? null,
+          data.user_agent?.slice(0, 500) ?? null,
+          eventTime(event.occurred_at, now),
+        ]
+      );
+      recorded++;
+    }
+
+    return recorded;
+  },
+
+  /**
+   * Resume los eventos de un día (YYYY-MM-DD, hora de Colombia). Idempotente:
+   * reemplaza las filas de ese día en las tres tablas.
+   */
+  async rollup(date: string): Promise<void> {
+    const sessionsResult = await query(
+      `WITH sessions AS (
+        SELECT
+          session_id,
+          (ARRAY_AGG(source_type ORDER BY occurred_at))[1] as source_type,
+          COUNT(*) as events,
+          COUNT(*) FILTER (WHERE event_type = 'page_view') as page_views,
+          EXTRACT(EPOCH FROM MAX(occurred_at) - MIN(occurred_at)) as duration,
+          BOOL_OR(event_type = 'product_view') as viewed_product,
+          BOOL_OR(event_type = 'add_to_cart') as added_to_cart,
+          BOOL_OR(event_type = 'begin_checkout') as began_checkout,
+          BOOL_OR(event_type = 'purchase') as purchased
+        FROM analytics_events
+        WHERE ${eventDate()} = $1
+        GROUP BY session_id
+      )
+      SELECT
+        source_type,
+        COUNT(*) as sessions,
+        SUM(page_views) as page_views,
+        COUNT(*) FILTER (WHERE events = 1) as bounces,
+        SUM(duration) as duration,
+        COUNT(*) FILTER (WHERE viewed_product) as product_view_sessions,
+        COUNT(*) FILTER (WHERE added_to_cart) as add_to_cart_sessions,
+        COUNT(*) FILTER (WHERE began_checkout) as checkout_sessions,
+        COUNT(*) FILTER (WHERE purchased) as purchase_sessions
+      FROM sessions
+      GROUP BY source_type`,
+      [date]
+    );
+
+    // Órdenes reales detrás de los eventos purchase (el valor no viene del navegador)
+    const ordersResult = await query(
+      `WITH purchases AS (
+        SELECT DISTINCT ON (e.order_id) e.order_id, e.source_type, o.total
+        FROM analytics_events e
+        JOIN orders o ON o.id = e.order_id
+        WHERE e.event_type = 'purchase'
+          AND ${eventDate('e.occurred_at')} = $1
+          AND o.status NOT IN ('cancelled', 'failed')
+        ORDER BY e.order_id, e.occurred_at
+      )
+      SELECT source_type, COUNT(*) as orders, COALESCE(SUM(total), 0) as revenue
+      FROM purchases
+      GROUP BY source_type`,
+      [date]
+    );
+
+    const visitorsResult = await query(
+      `SELECT COUNT(DISTINCT visitor_id) as visitors FROM analytics_events WHERE ${eventDate()} = $1`,
+      [date]
+    );
+
+    const bySource = new Map<TrafficSourceType, SourceTotals>();
+    const sourceTotals = (source: TrafficSourceType) => {
+      if (!bySource.has(source)) bySource.set(source, emptyTotals());
+      return bySource.get(source)!;
+    };
+
+    for (const row of sessionsResult.rows) {
+      const totals = sourceTotals(row.source_type);
+      totals.sessions = parseInt(row.sessions) || 0;
+      totals.page_views = parseInt(row.page_views) || 0;
+      totals.bounces = parseInt(row.bounces) || 0;
+      totals.duration = parseFloat(row.duration) || 0;
+      totals.product_view_sessions = parseInt(row.product_view_sessions) || 0;
+      totals.add_to_cart_sessions = parseInt(row.add_to_cart_sessions) || 0;
+      totals.checkout_sessions = parseInt(row.checkout_sessions) || 0;
+      totals.purchase_sessions = parseInt(row.purchase_sessions) || 0;
+    }
+
+    for (const row of ordersResult.rows) {
+      const totals = sourceTotals(row.source_type);
+      totals.orders = parseInt(row.orders) || 0;
+      totals.revenue = parseFloat(row.revenue) || 0;
+    }
+
+    const day = emptyTotals();
+    for (const totals of bySource.values()) {
+      for (const key of Object.keys(day) as Array<keyof SourceTotals>) {
+        day[key] += totals[key];
+      }
+    }
+
+    const uniqueVisitors = parseInt(visitorsResult.rows[0].visitors) || 0;
+
+    await withTransaction(async client => {
+      await client.query(
+        `INSERT INTO website_traffic (date, page_views, unique_visitors, bounce_rate, avg_session_duration)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (date)
+         DO UPDATE SET
+           page_views = EXCLUDED.page_views,
+           unique_visitors = EXCLUDED.unique_visitors,
+           bounce_rate = EXCLUDED.bounce_rate,
+           avg_session_duration = EXCLUDED.avg_session_duration,
+           updated_at = NOW()`,
+        [
+          date,
+          day.page_views,
+          uniqueVisitors,
+          day.sessions > 0 ? round(day.bounces / day.sessions * 100) : 0,
+          day.sessions > 0 ? Math.round(day.duration / day.sessions) : 0,
+        ]
+      );
+
+      // conversion_rate lo deriva el trigger de total_orders / total_visits
+      await client.query(
+        `INSERT INTO conversion_tracking (
+          date, total_visits, total_orders, revenue, revenue_per_visitor,
+          product_view_sessions, add_to_cart_sessions, checkout_sessions, purchase_sessions
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (date)
+        DO UPDATE SET
+          total_visits = EXCLUDED.total_visits,
+          total_orders = EXCLUDED.total_orders,
+          revenue = EXCLUDED.revenue,
+          revenue_per_visitor = EXCLUDED.revenue_per_visitor,
+          product_view_sessions = EXCLUDED.product_view_sessions,
+          add_to_cart_sessions = EXCLUDED.add_to_cart_sessions,
+          checkout_sessions = EXCLUDED.checkout_sessions,
+          purchase_sessions = EXCLUDED.purchase_sessions,
+          updated_at = NOW()`,
+        [
+          date,
+          day.sessions,
+          day.orders,
+          round(day.revenue),
+          uniqueVisitors > 0 ? round(day.revenue / uniqueVisitors) : 0,
+          day.product_view_sessions,
+          day.add_to_cart_sessions,
+          day.checkout_sessions,
+          day.purchase_sessions,
+        ]
+      );
+
+      await client.query('DELETE FROM traffic_sources WHERE date = $1', [date]);
+      for (const [source, totals] of bySource) {
+        await client.query(
+          `INSERT INTO traffic_sources (date, source_type, visits, orders, revenue)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [date, source, totals.sessions, totals.orders, round(totals.revenue)]
+        );
+      }
+    });
+  },
+
+  /**
+   * Resume todos los días que tienen eventos
+   */
+  async rollupAll(): Promise<number> {
+    const result = await query(
+      `SELECT DISTINCT ${eventDate()}::text as date FROM analytics_events ORDER BY date`
+    );
+
+    for (const row of result.rows) {
+      await this.rollup(row.date);
+    }
+    return result.rows.length;
+  },
+
+  startRollupJob(): void {
+    if (rollupTimer) return;
+
+    rollupTimer = setInterval(() => {
+      // Ayer se vuelve a resumir para incluir los eventos que llegaron tarde
+      this.rollup(storeDate(-1))
+        .then(() => this.rollup(storeDate()))
+        .catch(error => console.error('[Traffic] Rollup failed:', error));
+    }, ROLLUP_INTERVAL_MS);
+  },
+};
@@ -605,6 +605,24 @@ export const userService = {
       throw new AppError('User is not an admin', 400);
     }
 
+    // Las facturas con número fiscal no se pueden borrar (trigger de la migración 039)
+    const numberedInvoices = await query(
+      `SELECT 1 FROM invoices i
+       JOIN orders o ON o.id = i.order_id
+       WHERE o.user_id = $1 AND i.sequence_number IS NOT NULL
+       LIMIT 1`,
+      [adminId]
+    );
+    if (numberedInvoices.rows.length > 0) {
+      throw new AppError('Cannot delete an admin with numbered invoices', 409);
+    }
+
+    // orders.user_id no tiene ON DELETE: sus compras también impiden borrarlo
+    const orders = await query('SELECT 1 FROM orders WHERE user_id = $1 LIMIT 1', [adminId]);
+    if (orders.rows.length > 0) {
+      throw new AppError('Cannot delete an admin with orders', 409);
+    }
+
     const result = await query(
       'DELETE FROM users WHERE id = $1 AND role = \'admin\'',
       [adminId]
@@ -263,6 +263,15 @@ export const sendNotificationToUser = (userId: string, notification: any) => {
   }
 };
 
+/**
+ * Send an event to every connected admin
+ */
+export const emitToAdmins = (event: string, data: any) => {
+  if (io) {
+    io.to('admin').emit(event, data);
+  }
+};
+
 /**
  * Send message to a conversation
  */
@@ -298,6 +307,7 @@ export const getIO = () => io;
 export default {
   initializeWebSocket,
   sendNotificationToUser,
+  emitToAdmins,
   sendMessageToConversation,
   broadcastToAll,
   getIO,
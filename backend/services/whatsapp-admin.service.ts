@@ -0,0 +1,220 @@
+import type { PoolClient } from 'pg';
+import { query, pool } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { whatsappService } from './whatsapp.service.js';
+import { whatsappOrderService, type WhatsAppOrderStatus } from './whatsapp-order.service.js';
+
+/**
+ * Acciones de los admins sobre el canal de WhatsApp. Cada envío manual y cada
+ * cambio de estado de un pedido del bot queda en whatsapp_admin_audit; los
+ * envíos además se limitan por hora contando esas mismas filas.
+ */
+
+export type WhatsAppAuditAction = 'send_message' | 'update_order_status';
+export type WhatsAppAuditStatus = 'success' | 'failed' | 'rate_limited';
+
+export interface WhatsAppAuditEntry {
+  id: string;
+  user_id: string | null;
+  user_name?: string | null;
+  action: WhatsAppAuditAction;
+  phone: string | null;
+  order_number: string | null;
+  status: WhatsAppAuditStatus;
+  details: Record<string, unknown>;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface WhatsAppAuditFilters {
+  action?: WhatsAppAuditAction;
+  userId?: string;
+  phone?: string;
+  limit?: number;
+}
+
+interface AuditRecord {
+  userId: string;
+  action: WhatsAppAuditAction;
+  status: WhatsAppAuditStatus;
+  phone?: string | null;
+  orderNumber?: string | null;
+  details?: Record<string, unknown>;
+  ip?: string;
+}
+
+// Mismo formato que guarda whatsappService (57 + celular) para contar por destinatario
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 && digits.startsWith('3') ? `57${digits}` : digits;
+};
+
+async function record(entry: AuditRecord, client?: PoolClient): Promise<string> {
+  const result = await (client ? client.query.bind(client) : query)(
+    `INSERT INTO whatsapp_admin_audit (user_id, action, phone, order_number, status, details, ip_address)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [
+      entry.userId,
+      entry.action,
+      entry.phone ?? null,
+      entry.orderNumber ?? null,
+      entry.status,
+      JSON.stringify(entry.details ?? {}),
+      entry.ip ?? null,
+    ]
+  );
+  return result.rows[0].id;
+}
+
+// Envíos que cuentan para el límite: los intentos rechazados no consumen cupo
+async function countRecentSends(client: PoolClient, column: 'user_id' | 'phone', value: string): Promise<number> {
+  const result = await client.query(
+    `SELECT COUNT(*)::int AS total
+     FROM whatsapp_admin_audit
+     WHERE ${column} = $1
+       AND action = 'send_message'
+       AND status <> 'rate_limited'
+       AND created_at > NOW() - INTERVAL '1 hour'`,
+    [value]
+  );
+  return result.rows[0].total;
+}
+
+export const whatsappAdminService = {
+  /**
+   * Envía un mensaje manual respetando los límites por admin y por destinatario.
+   * El cupo se reserva con una fila de auditoría bajo un advisory lock del admin
+   * y del número, así dos envíos en paralelo no pueden pasar ambos el límite.
+   */
+  async sendMessage(userId: string, to: string, text: string, ip?: string): Promise<{ to: string; sent: boolean }> {
+    const phone = normalizePhone(to);
+    const perAdmin = parseInt(env.WHATSAPP_SEND_LIMIT_PER_ADMIN, 10);
+    const perRecipient = parseInt(env.WHATSAPP_SEND_LIMIT_PER_RECIPIENT, 10);
+
+    const client = await pool.connect();
+    let auditId: string;
+    try {
+      await client.query('BEGIN');
+      // Siempre en el mismo orden (admin, número) para no bloquearse entre sí
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`whatsapp_send:user:${userId}`]);
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`whatsapp_send:phone:${phone}`]);
+
+      const adminSends = await countRecentSends(client, 'user_id', userId);
+      const recipientSends = await countRecentSends(client, 'phone', phone);
+
+      const limitReached = adminSends >= perAdmin
+        ? `Límite de ${perAdmin} mensajes por hora alcanzado`
+        : recipientSends >= perRecipient
+          ? `Límite de ${perRecipient} mensajes por hora a este número alcanzado`
+          : null;
+
+      if (limitReached) {
+        await record({
+          userId,
+          action: 'send_message',
+          status: 'rate_limited',
+          phone,
+          details: { text, reason: limitReached },
+          ip,
+        }, client);
+        await client.query('COMMIT');
+        throw new AppError(limitReached, 429);
+      }
+
+      // Queda como 'failed' hasta que el envío se confirme; igual consume cupo
+      auditId = await record({
+        userId,
+        action: 'send_message',
+        status: 'failed',
+        phone,
+        details: { text },
+        ip,
+      }, client);
+      await client.query('COMMIT');
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        await client.query('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const sent = await whatsappService.sendMessage({ to: phone, text });
+    if (sent) {
+      await query(`UPDATE whatsapp_admin_audit SET status = 'success' WHERE id = $1`, [auditId]);
+    }
+
+    return { to: phone, sent };
+  },
+
+  /**
+   * Cambia el estado de un pedido del bot y deja constancia de quién lo hizo
+   */
+  async updateOrderStatus(
+    userId: string,
+    orderNumber: string,
+    status: WhatsAppOrderStatus,
+    ip?: string
+  ): Promise<Record<string, unknown>> {
+    try {
+      const order = await whatsappOrderService.updateStatus(orderNumber, status);
+
+      await record({
+        userId,
+        action: 'update_order_status',
+        status: 'success',
+        phone: (order.customer_phone as string | undefined) ?? null,
+        orderNumber,
+        details: { status },
+        ip,
+      });
+
+      return order;
+    } catch (error) {
+      await record({
+        userId,
+        action: 'update_order_status',
+        status: 'failed',
+        orderNumber,
+        details: { status, error: error instanceof Error ? error.message : String(error) },
+        ip,
+      });
+      throw error;
+    }
+  },
+
+  async getAuditLog(filters: WhatsAppAuditFilters = {}): Promise<WhatsAppAuditEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.action) {
+      params.push(filters.action);
+      conditions.push(`a.action = $${params.length}`);
+    }
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`a.user_id = $${params.length}`);
+    }
+    if (filters.phone) {
+      params.push(normalizePhone(filters.phone));
+      conditions.push(`a.phone = $${params.length}`);
+    }
+
+    params.push(Math.min(filters.limit ?? 100, 500));
+
+    const result = await query(
+      `SELECT a.*, u.full_name as user_name
+       FROM whatsapp_admin_audit a
+       LEFT JOIN users u ON a.user_id = u.id
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY a.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows as WhatsAppAuditEntry[];
+  },
+};
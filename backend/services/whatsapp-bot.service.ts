@@ -1,27 +1,16 @@
 import { whatsappService, WhatsAppMessage } from './whatsapp.service.js';
+import { whatsappOrderService, type WhatsAppCheckoutResult, type WhatsAppPaymentMethod } from './whatsapp-order.service.js';
+import { botFlowService, waitsForInput } from './bot-flow.service.js';
+import { whatsappWebhookService } from './whatsapp-webhook.service.js';
+import { commissionService } from './commission.service.js';
 import { query } from '../config/database.js';
 import { env } from '../config/env.js';
+import type { BotFlowAction, BotFlowDefinition, BotFlowMatch, BotFlowMessage, BotFlowVariable } from '../types/index.js';
 
 // ============================================
 // TIPOS E INTERFACES
 // ============================================
 
-// Estados del bot
-enum BotState {
-  GREETING = 'greeting',
-  ASK_NAME = 'ask_name',
-  ASK_STYLE = 'ask_style',
-  ASK_CATALOG = 'ask_catalog',
-  BROWSE_CATALOG = 'browse_catalog',
-  ASK_PRODUCTS = 'ask_products',
-  ASK_BUDGET = 'ask_budget',
-  ASK_QUANTITIES = 'ask_quantities',
-  CONFIRM_ORDER = 'confirm_order',
-  ORDER_CONFIRMED = 'order_confirmed',
-  ESCALATE = 'escalate',
-  CLOSED = 'closed',
-}
-
 // Producto del catálogo
 interface CatalogProduct {
   id: string;
@@ -45,18 +34,52 @@ interface CartItem {
   notes?: string;
 }
 
+type ConversationStatus = 'active' | 'escalated' | 'closed';
+
+// Datos del flujo que no tienen columna propia
+interface ConversationContext {
+  selected_product_id?: string;   // Elegido en la lista del catálogo
+  last_results?: string[];        // Resultados de la última búsqueda (para "el #2")
+  last_added?: string;
+  payment_method?: WhatsAppPaymentMethod;
+}
+
+// Respuesta del cliente: el texto y, si tocó un botón o una fila de lista, su id
+interface CustomerInput {
+  text: string;
+  replyId?: string;
+}
+
+// Mensaje que el bot envía al cliente al final del turno
+type OutboundMessage =
+  | { kind: 'text'; text: string; previewUrl?: boolean }
+  | { kind: 'buttons'; text: string; buttons: Array<{ id: string; title: string }> }
+  | {
+      kind: 'list';
+      text: string;
+      buttonText: string;
+      sections: Array<{ title: string; rows: Array<{ id: string; title: string; description?: string }> }>;
+    };
+
 // Conversación del cliente
 interface BotConversation {
   phone: string;
-  state: BotState;
+  status: ConversationStatus;
+  state: string; // Paso del flujo activo
+  version: number; // 0 = aún no guardada
   customerName: string;
   style: 'urbano' | 'clasico' | null;
   budget: string;
   cart: CartItem[];
+  shippingAddress?: string;
+  context: ConversationContext;
   messages: Array<{ role: 'bot' | 'customer'; text: string; timestamp: Date }>;
   escalatedAt?: Date;
   closedAt?: Date;
   lastActivity?: Date;
+  // Solo durante el turno: respuestas pendientes y checkout a ejecutar tras guardar
+  outbox: OutboundMessage[];
+  checkout?: WhatsAppPaymentMethod;
 }
 
 // ============================================
@@ -64,21 +87,17 @@ interface BotConversation {
 // ============================================
 
 class WhatsAppBotService {
-  private conversations: Map<string, BotConversation> = new Map();
   private catalog: CatalogProduct[] = [];
-  private readonly CONVERSATION_TIMEOUT = 30 * 60 * 1000; // 30 minutos
-  private readonly COMMISSION_PERCENTAGE = parseFloat(env.INTERMEDIARY_COMMISSION_PERCENTAGE) || 10;
-
-  constructor() {
-    // Cargar catálogo al iniciar
-    this.loadCatalog();
-    // Cargar conversaciones activas
-    this.loadActiveConversations();
-    // Limpiar conversaciones inactivas periódicamente
-    setInterval(() => this.cleanupInactiveConversations(), 10 * 60 * 1000);
-    // Recargar catálogo cada 5 minutos
-    setInterval(() => this.loadCatalog(), 5 * 60 * 1000);
-  }
+  private catalogLoadedAt = 0;
+  private timeoutTimer: NodeJS.Timeout | null = null;
+  private readonly CATALOG_TTL = 5 * 60 * 1000; // 5 minutos
+  private readonly CONVERSATION_TIMEOUT_MINUTES = 30;
+  private readonly TIMEOUT_CHECK_INTERVAL = 5 * 60 * 1000;
+  private readonly MAX_SAVE_ATTEMPTS = 3;
+  private readonly MAX_SEND_ATTEMPTS = 3;
+  private readonly SEND_RETRY_DELAY = 2000;
+  private readonly MAX_STORED_MESSAGES = 100;
+  private readonly MAX_FLOW_HOPS = 10;
 
   // ========================================
   // CATÁLOGO DE PRODUCTOS
@@ -114,13 +133,22 @@ class WhatsAppBotService {
         image_url: row.image_url,
       }));
 
+      this.catalogLoadedAt = Date.now();
       console.log(`[Bot] Catálogo cargado: ${this.catalog.length} productos`);
     } catch (error) {
       console.error('[Bot] Error cargando catálogo:', error);
     }
   }
 
-  getCatalog(): CatalogProduct[] {
+  // Caché por proceso que se recarga al vencer (sin timers por instancia)
+  private async ensureCatalog(): Promise<void> {
+    if (Date.now() - this.catalogLoadedAt > this.CATALOG_TTL) {
+      await this.loadCatalog();
+    }
+  }
+
+  async getCatalog(): Promise<CatalogProduct[]> {
+    await this.ensureCatalog();
     return this.catalog;
   }
 
@@ -137,203 +165,281 @@ class WhatsAppBotService {
   // PROCESAMIENTO DE MENSAJES
   // ========================================
 
-  async processMessage(message: WhatsAppMessage): Promise<void> {
+  /**
+   * Procesa un mensaje entrante. El estado se lee de la BD, el turno se
+   * calcula en memoria y se guarda con bloqueo optimista; las respuestas solo
+   * se envían si el guardado ganó, así dos instancias nunca contestan distinto.
+   * Devuelve false si el mensaje ya se había procesado (reintento o repetición).
+   * Una vez guardado el turno el mensaje queda reclamado: los fallos de envío
+   * se reintentan sobre el outbox y no reprocesan el turno.
+   */
+  async processMessage(message: WhatsAppMessage): Promise<boolean> {
     const phone = message.from;
-    const text = message.text?.body || message.button?.text || '';
-    const timestamp = new Date();
-
-    // Obtener o crear conversación
-    let conversation = this.conversations.get(phone);
-    if (!conversation) {
-      const newConversation = await this.createConversation(phone);
-      if (newConversation) {
-        conversation = newConversation;
-      } else {
-        return;
-      }
-    }
+    const input = this.readInput(message);
 
-    // Guardar mensaje del cliente
-    conversation.messages.push({ role: 'customer', text, timestamp });
-    conversation.lastActivity = timestamp;
-
-    // Procesar según el estado
-    await this.handleState(conversation, text, message);
-  }
+    // Meta reintenta los webhooks: cada mensaje avanza el flujo una sola vez
+    if (message.id && !(await this.claimMessage(message.id, phone))) {
+      console.log(`[Bot] Mensaje ${message.id} ya procesado, se ignora`);
+      return false;
+    }
 
-  private async createConversation(phone: string): Promise<BotConversation | null> {
+    let persisted = false;
     try {
-      // Verificar si existe en BD
-      const existing = await this.getConversationFromDB(phone);
-      if (existing && ['escalated', 'closed'].includes(existing.status)) {
-        return null;
-      }
-
-      const newConversation: BotConversation = {
-        phone,
-        state: BotState.GREETING,
-        customerName: '',
-        style: null,
-        budget: '',
-        cart: [],
-        messages: [],
-      };
+      await this.ensureCatalog();
+      const flow = await botFlowService.getActive();
 
-      this.conversations.set(phone, newConversation);
-      await this.sendGreeting(newConversation);
+      for (let attempt = 1; attempt <= this.MAX_SAVE_ATTEMPTS; attempt++) {
+        const existing = await this.loadConversation(phone);
 
-      return newConversation;
-    } catch (error) {
-      console.error('[Bot] Error creando conversación:', error);
-      return null;
-    }
-  }
+        // Conversaciones escaladas o cerradas las atiende una persona
+        if (existing && existing.status !== 'active') {
+          return true;
+        }
 
-  // ========================================
-  // SALUDOS Y FLUJO PRINCIPAL
-  // ========================================
+        const conversation = existing ?? this.newConversation(phone);
+        const timestamp = new Date();
 
-  private async sendGreeting(conversation: BotConversation): Promise<void> {
-    const greeting = `🏃‍♂️💨 *¡Hola! Bienvenido a Melo Sportt* 🏃‍♂️
+        conversation.messages.push({ role: 'customer', text: input.text, timestamp });
+        conversation.lastActivity = timestamp;
 
-Somos tu tienda de ropa urbana y clásica de la mejor calidad en Cartagena.
+        // El primer mensaje solo abre la conversación con el paso inicial
+        if (existing) {
+          await this.handleInput(conversation, flow, input);
+        } else {
+          await this.enterState(conversation, flow, flow.initial_state);
+        }
 
-🤖 *Soy tu asistente virtual inteligente* y te voy a ayudar a encontrar exactamente lo que buscas.
+        if (await this.persistConversation(conversation)) {
+          persisted = true;
+          await this.deliverOutbox(conversation);
+          if (conversation.checkout) {
+            await this.confirmAndFinishOrder(conversation, conversation.checkout);
+          }
+          return true;
+        }
 
-*¿Cómo te llamas?* 😊`;
+        console.warn(`[Bot] Conflicto de versión en ${phone}, reintentando (${attempt}/${this.MAX_SAVE_ATTEMPTS})`);
+      }
 
-    await whatsappService.sendMessage({
-      to: conversation.phone,
-      text: greeting,
-    });
+      console.error(`[Bot] No se pudo guardar la conversación de ${phone} tras ${this.MAX_SAVE_ATTEMPTS} intentos`);
+      return true;
+    } catch (error) {
+      // Libera el ID para que el reintento de Meta vuelva a procesarlo, solo si
+      // el turno no llegó a guardarse (si no, el flujo avanzaría dos veces)
+      if (message.id && !persisted) {
+        await query('DELETE FROM whatsapp_processed_messages WHERE message_id = $1', [message.id]);
+      }
+      throw error;
+    }
+  }
 
-    conversation.messages.push({
-      role: 'bot',
-      text: greeting,
-      timestamp: new Date(),
-    });
+  private readInput(message: WhatsAppMessage): CustomerInput {
+    const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+    return {
+      text: reply?.title || message.text?.body || message.button?.text || '',
+      replyId: reply?.id || message.button?.payload,
+    };
+  }
 
-    conversation.state = BotState.ASK_NAME;
-    await this.saveConversation(conversation);
+  private newConversation(phone: string): BotConversation {
+    return {
+      phone,
+      status: 'active',
+      state: '',
+      version: 0,
+      customerName: '',
+      style: null,
+      budget: '',
+      cart: [],
+      context: {},
+      messages: [],
+      outbox: [],
+    };
   }
 
   // ========================================
-  // MANEJO DE ESTADOS
+  // MOTOR DEL FLUJO (definido en bot_flows)
   // ========================================
 
-  private async handleState(conversation: BotConversation, input: string, message?: WhatsAppMessage): Promise<void> {
-    switch (conversation.state) {
-      case BotState.ASK_NAME:
-        await this.handleAskName(conversation, input);
-        break;
-      case BotState.ASK_STYLE:
-        await this.handleAskStyle(conversation, input);
-        break;
-      case BotState.ASK_CATALOG:
-        await this.handleAskCatalog(conversation, input);
-        break;
-      case BotState.BROWSE_CATALOG:
-        await this.handleBrowseCatalog(conversation, input);
-        break;
-      case BotState.ASK_PRODUCTS:
-        await this.handleAskProducts(conversation, input);
-        break;
-      case BotState.ASK_BUDGET:
-        await this.handleAskBudget(conversation, input);
-        break;
-      case BotState.ASK_QUANTITIES:
-        await this.handleAskQuantities(conversation, input);
-        break;
-      case BotState.CONFIRM_ORDER:
-        await this.handleConfirmOrder(conversation, input);
-        break;
-      case BotState.ORDER_CONFIRMED:
-      case BotState.ESCALATE:
-      case BotState.CLOSED:
-        break;
+  /**
+   * Entra a un paso: envía su mensaje, ejecuta on_enter y sigue los saltos
+   * automáticos (resultado de la acción o next de un paso que no espera respuesta).
+   */
+  private async enterState(conversation: BotConversation, flow: BotFlowDefinition, stateId: string, hops = 0): Promise<void> {
+    const state = flow.states[stateId];
+    if (!state || hops > this.MAX_FLOW_HOPS) {
+      console.error(`[Bot] Paso "${stateId}" inexistente o demasiados saltos seguidos (${conversation.phone})`);
+      return;
     }
-  }
-
-  private async handleAskName(conversation: BotConversation, name: string): Promise<void> {
-    conversation.customerName = name.trim();
 
-    const response = `¡Mucho gusto, *${name.trim()}*! 👋
+    conversation.state = stateId;
 
-Ahora, cuéntanos, ¿qué tipo de estilo buscas?
+    if (state.message) {
+      await this.reply(conversation, state.message);
+    }
 
-🏙️ *Urbano* - Para un look moderno y fresco
-👔 *Clásico* - Elegancia atemporal`;
+    if (state.on_enter) {
+      const outcome = await this.runAction(conversation, state.on_enter, { text: '' });
+      const target = state.outcomes?.[outcome];
+      if (target) {
+        await this.enterState(conversation, flow, target, hops + 1);
+        return;
+      }
+    }
 
-    await whatsappService.sendInteractiveButtons(
-      conversation.phone,
-      response,
-      [
-        { id: 'style_urbano', title: '🏙️ Urbano' },
-        { id: 'style_clasico', title: '👔 Clásico' },
-      ]
-    );
+    if (state.terminal) {
+      conversation.status = 'closed';
+      conversation.closedAt = new Date();
+      return;
+    }
 
-    conversation.state = BotState.ASK_STYLE;
-    await this.saveConversation(conversation);
+    if (state.next && !waitsForInput(state)) {
+      await this.enterState(conversation, flow, state.next, hops + 1);
+    }
   }
 
-  private async handleAskStyle(conversation: BotConversation, input: string): Promise<void> {
-    const isUrbano = input.toLowerCase().includes('urbano') || input.includes('1');
-    const isClasico = input.toLowerCase().includes('clásico') || input.toLowerCase().includes('clasico') || input.includes('2');
+  private async handleInput(conversation: BotConversation, flow: BotFlowDefinition, input: CustomerInput): Promise<void> {
+    const state = flow.states[conversation.state];
 
-    if (!isUrbano && !isClasico) {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: 'Por favor selecciona una opción:\n1. Urbano\n2. Clásico',
-      });
+    // El paso ya no existe en el flujo publicado: se empieza de nuevo
+    if (!state) {
+      await this.enterState(conversation, flow, flow.initial_state);
       return;
     }
 
-    conversation.style = isUrbano ? 'urbano' : 'clasico';
-    const styleName = conversation.style === 'urbano' ? 'urbano' : 'clásico';
+    if (state.capture) {
+      const value = input.text.trim();
+      if (value.length < (state.min_length ?? 1)) {
+        if (state.fallback) await this.reply(conversation, state.fallback);
+        return;
+      }
+      this.setVariable(conversation, state.capture, value);
+    }
+
+    // Primero el botón/fila exacto, después el texto escrito
+    const transitions = state.transitions ?? [];
+    const transition =
+      transitions.find(t => input.replyId && t.match.ids?.includes(input.replyId)) ??
+      transitions.find(t => this.matchesText(t.match, input.text));
 
-    const response = `¡Excelente! 🎯 Estilo *${styleName}* seleccionado.
+    if (transition) {
+      for (const [variable, value] of Object.entries(transition.set ?? {})) {
+        this.setVariable(conversation, variable as BotFlowVariable, value);
+      }
+      await this.enterState(conversation, flow, transition.to);
+      return;
+    }
 
-📱 *¿Cómo quieres ver nuestros productos?*
+    let target = state.next;
+    if (state.on_input) {
+      const outcome = await this.runAction(conversation, state.on_input, input);
+      target = state.outcomes?.[outcome] ?? state.next;
+      // Sin destino la acción ya respondió y el cliente sigue en este paso
+      if (!target) return;
+    }
 
-🔗 *Ver catálogo completo online* - Navega en nuestra página web
-🛒 *Ver aquí mismo* - Te muestro algunos productos destacados`;
+    if (target) {
+      await this.enterState(conversation, flow, target);
+    } else if (state.fallback) {
+      await this.reply(conversation, state.fallback);
+    }
+  }
 
-    await whatsappService.sendInteractiveButtons(
-      conversation.phone,
-      response,
-      [
-        { id: 'catalog_online', title: '🔗 Ver catálogo online' },
-        { id: 'catalog_here', title: '🛒 Ver aquí mismo' },
-      ]
+  private matchesText(match: BotFlowMatch, rawText: string): boolean {
+    if (match.any) return true;
+    const text = rawText.trim().toLowerCase();
+    if (!text) return false;
+    return Boolean(
+      match.equals?.some(value => value.toLowerCase() === text) ||
+      match.keywords?.some(keyword => text.includes(keyword.toLowerCase()))
     );
+  }
+
+  private setVariable(conversation: BotConversation, variable: BotFlowVariable, value: string): void {
+    switch (variable) {
+      case 'customer_name':
+        conversation.customerName = value;
+        break;
+      case 'style':
+        conversation.style = value === 'clasico' ? 'clasico' : 'urbano';
+        break;
+      case 'budget':
+        conversation.budget = value;
+        break;
+      case 'shipping_address':
+        conversation.shippingAddress = value;
+        break;
+      case 'payment_method':
+        conversation.context.payment_method = value === 'wompi' ? 'wompi' : 'cash_on_delivery';
+        break;
+    }
+  }
 
-    conversation.state = BotState.ASK_CATALOG;
-    await this.saveConversation(conversation);
+  /**
+   * Pasos dinámicos (catálogo, carrito y checkout). Envían sus propias
+   * respuestas y devuelven el resultado que el flujo usa en `outcomes`.
+   */
+  private async runAction(conversation: BotConversation, action: BotFlowAction, input: CustomerInput): Promise<string> {
+    switch (action) {
+      case 'show_featured_products':
+        return this.showFeaturedProducts(conversation);
+      case 'browse_catalog':
+        return this.browseCatalog(conversation, input);
+      case 'search_products':
+        return this.searchCatalog(conversation, input.text);
+      case 'add_to_cart':
+        return this.addToCart(conversation, input.text);
+      case 'checkout':
+        // El pedido se crea después de guardar el turno, para no duplicarlo si hay conflicto
+        conversation.checkout = conversation.context.payment_method ?? 'cash_on_delivery';
+        return 'done';
+    }
   }
 
-  private async handleAskCatalog(conversation: BotConversation, input: string): Promise<void> {
-    const wantsOnline = input.toLowerCase().includes('online') || input.toLowerCase().includes('web') || input.includes('1');
+  private async templateVariables(conversation: BotConversation, text: string): Promise<Record<string, string>> {
+    const cartTotal = this.calculateCartTotal(conversation.cart);
+    // Las reglas de comisión se consultan solo si el mensaje las muestra
+    const quote = /{{\s*(commission|commission_percentage|owner_total)\s*}}/.test(text)
+      ? await this.quoteCommission(conversation.cart)
+      : { rate: 0, amount: 0 };
 
-    if (wantsOnline) {
-      const catalogMessage = `📱 *Aquí está nuestro catálogo online:*\n\n🔗 https://melo-sportt.vercel.app/products\n\nPuedes filtrar por:\n• Estilo: Urbano 🏙️ / Clásico 👔\n• Tipo: Camisetas, Buzos, Pantalonetas...\n• Género: Hombre / Mujer\n\nCuando Encuentres algo que te guste, vuelve aquí y me dices qué quieres comprar. 💪`;
+    return {
+      customer_name: conversation.customerName,
+      style_label: conversation.style === 'clasico' ? 'clásico' : conversation.style === 'urbano' ? 'urbano' : 'No especificado',
+      budget: conversation.budget || 'A confirmar',
+      shipping_address: conversation.shippingAddress || '',
+      cart: this.formatCart(conversation.cart),
+      cart_total: this.formatPrice(cartTotal),
+      commission_percentage: String(quote.rate),
+      commission: this.formatPrice(quote.amount),
+      owner_total: this.formatPrice(cartTotal - quote.amount),
+      last_added: conversation.context.last_added || '',
+      catalog_url: `${env.FRONTEND_URL}/products`,
+    };
+  }
 
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: catalogMessage,
-        previewUrl: true,
-      });
+  private async reply(conversation: BotConversation, message: BotFlowMessage): Promise<void> {
+    const variables = await this.templateVariables(conversation, message.text);
+    const text = message.text.replace(/{{\s*(\w+)\s*}}/g, (_, name: string) => variables[name] ?? '');
 
-      conversation.state = BotState.ASK_PRODUCTS;
-    } else {
-      // Mostrar productos destacados aquí mismo
-      await this.showFeaturedProducts(conversation);
+    switch (message.type) {
+      case 'text':
+        this.replyText(conversation, { text, previewUrl: message.preview_url });
+        break;
+      case 'buttons':
+        this.replyButtons(conversation, text, message.buttons);
+        break;
+      case 'list':
+        this.replyList(conversation, text, message.button_text, message.sections);
+        break;
     }
-
-    await this.saveConversation(conversation);
   }
 
-  private async showFeaturedProducts(conversation: BotConversation): Promise<void> {
+  // ========================================
+  // ACCIONES DE CATÁLOGO Y CARRITO
+  // ========================================
+
+  private async showFeaturedProducts(conversation: BotConversation): Promise<string> {
     // Filtrar por estilo si está definido
     const products = conversation.style
       ? this.catalog.filter(p => {
@@ -343,84 +449,79 @@ Ahora, cuéntanos, ¿qué tipo de estilo buscas?
       : this.catalog.slice(0, 8);
 
     if (products.length === 0) {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
+      this.replyText(conversation, {
         text: `📦 *Nuestros productos disponibles:*\n\n${this.catalog.slice(0, 10).map((p, i) => `${i + 1}. ${p.name} - $${this.formatPrice(p.price)}`).join('\n')}\n\n*¿Cuál te interesa?* Escribe el número o el nombre.`,
       });
-      conversation.state = BotState.ASK_PRODUCTS;
-      return;
+      conversation.context.last_results = this.catalog.slice(0, 10).map(p => p.id);
+      return 'empty';
     }
 
-    // Enviar productos como lista interactiva
+    // Enviar productos como lista interactiva (WhatsApp corta los títulos en 24 caracteres)
     const sections = [
       {
-        title: '🏆 Productos destacados',
-        rows: products.map((p, i) => ({
+        title: '🏆 Destacados',
+        rows: products.map(p => ({
           id: `product_${p.id}`,
-          title: `${p.name}`,
+          title: Array.from(p.name).slice(0, 24).join(''),
           description: `$${this.formatPrice(p.price)}`,
         })),
       },
     ];
 
-    await whatsappService.sendInteractiveList(
-      conversation.phone,
+    this.replyList(
+      conversation,
       `📦 *Nuestros productos (${products.length}):*\n\nSelecciona uno para ver detalles o escribe lo que buscas.`,
       'Ver productos',
       sections
     );
 
-    conversation.state = BotState.BROWSE_CATALOG;
+    return 'listed';
   }
 
-  private async handleBrowseCatalog(conversation: BotConversation, input: string): Promise<void> {
+  private async browseCatalog(conversation: BotConversation, input: CustomerInput): Promise<string> {
     // Si seleccionó un producto de la lista
-    if (input.startsWith('product_')) {
-      const productId = input.replace('product_', '');
+    const selection = input.replyId || input.text;
+    if (selection.startsWith('product_')) {
+      const productId = selection.replace('product_', '');
       const product = this.catalog.find(p => p.id === productId);
 
       if (product) {
         const sizeInfo = product.sizes?.length ? `\n📏 Tallas: ${product.sizes.join(', ')}` : '';
         const colorInfo = product.colors?.length ? `\n🎨 Colores: ${product.colors.join(', ')}` : '';
 
-        const details = `🛍️ *${product.name}*\n\n💰 *Precio:* $${this.formatPrice(product.price)}${sizeInfo}${colorInfo}\n\n${product.description || 'Producto de alta calidad.'}\n\n*¿Cuántas unidades quieres?* (escribe un número o "1" para默认)`;
+        const details = `🛍️ *${product.name}*\n\n💰 *Precio:* $${this.formatPrice(product.price)}${sizeInfo}${colorInfo}\n\n${product.description || 'Producto de alta calidad.'}\n\n*¿Cuántas unidades quieres?* (escribe un número)`;
 
-        await whatsappService.sendMessage({
-          to: conversation.phone,
+        this.replyText(conversation, {
           text: details,
         });
 
-        // Guardar producto seleccionado temporalmente en el mensaje
-        conversation.messages[conversation.messages.length - 1].text = `${input}: ${product.name}`;
-        conversation.state = BotState.ASK_QUANTITIES;
-
-        await this.saveConversation(conversation);
-        return;
+        conversation.context.selected_product_id = product.id;
+        return 'selected';
       }
     }
 
     // Buscar productos por nombre
-    const searchResults = this.searchProducts(input);
+    const searchResults = this.searchProducts(input.text);
+    conversation.context.last_results = searchResults.map(p => p.id);
 
     if (searchResults.length > 0) {
       const productsList = searchResults.map((p, i) =>
         `${i + 1}. *${p.name}* - $${this.formatPrice(p.price)}`
       ).join('\n');
 
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: `🔍 *Resultados para "${input}":*\n\n${productsList}\n\n*¿Cuál te interesa?* Escribe el número o nombre.`,
+      this.replyText(conversation, {
+        text: `🔍 *Resultados para "${input.text}":*\n\n${productsList}\n\n*¿Cuál te interesa?* Escribe el número o nombre.`,
       });
     } else {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: `No encontré "${input}". 🤔\n\n📦 *Nuestro catálogo:*\n${this.catalog.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} - $${this.formatPrice(p.price)}`).join('\n')}\n\n*¿Cuál te interesa?*`,
+      this.replyText(conversation, {
+        text: `No encontré "${input.text}". 🤔\n\n📦 *Nuestro catálogo:*\n${this.catalog.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} - $${this.formatPrice(p.price)}`).join('\n')}\n\n*¿Cuál te interesa?*`,
       });
     }
+
+    return 'searched';
   }
 
-  private async handleAskProducts(conversation: BotConversation, input: string): Promise<void> {
-    // Buscar productos
+  private async searchCatalog(conversation: BotConversation, input: string): Promise<string> {
     const searchResults = this.searchProducts(input);
 
     if (searchResults.length > 0) {
@@ -428,192 +529,104 @@ Ahora, cuéntanos, ¿qué tipo de estilo buscas?
         `${i + 1}. *${p.name}* - $${this.formatPrice(p.price)}`
       ).join('\n');
 
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: `🔍 *Encontré esto para "${input}":*\n\n${productsList}\n\n*¿Cuál te interesa y cuántas unidades?*\nEjemplo: "Quiero el #1, 2 unidades" o "el tercero"`,
+      this.replyText(conversation, {
+        text: `🔍 *Encontré esto para "${input}":*\n\n${productsList}\n\n*¿Cuál te interesa y cuántas unidades?*\nEjemplo: "Quiero el #1, 2 unidades"`,
       });
 
-      conversation.state = BotState.ASK_QUANTITIES;
-    } else {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: `🤔 No encontré "${input}".\n\n💡 *Nuestros productos más populares:*\n${this.catalog.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} - $${this.formatPrice(p.price)}`).join('\n')}\n\n*¿Cuál te interesa?*`,
-      });
+      conversation.context.last_results = searchResults.map(p => p.id);
+      conversation.context.selected_product_id = searchResults.length === 1 ? searchResults[0].id : undefined;
+      return 'found';
     }
-  }
-
-  private async handleAskQuantities(conversation: BotConversation, input: string): Promise<void> {
-    // Extraer cantidad del mensaje
-    const quantityMatch = input.match(/(\d+)/);
-    const quantity = quantityMatch ? parseInt(quantityMatch[1]) : 1;
 
-    // Intentar encontrar el último producto mencionado
-    const lastMessage = conversation.messages[conversation.messages.length - 2]?.text || '';
-    let productName = '';
+    this.replyText(conversation, {
+      text: `🤔 No encontré "${input}".\n\n💡 *Nuestros productos más populares:*\n${this.catalog.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} - $${this.formatPrice(p.price)}`).join('\n')}\n\n*¿Cuál te interesa?*`,
+    });
+    return 'not_found';
+  }
 
-    if (lastMessage.includes('product_')) {
-      const productId = lastMessage.split('_')[1];
-      const product = this.catalog.find(p => p.id === productId);
-      if (product) productName = product.name;
-    } else {
-      // Buscar en el mensaje actual
-      const words = input.split(' ');
-      for (const word of words) {
-        const product = this.catalog.find(p =>
-          p.name.toLowerCase().includes(word.toLowerCase())
-        );
-        if (product) {
-          productName = product.name;
-          break;
-        }
-      }
+  /**
+   * Producto de la respuesta: "#2" de la última búsqueda, el elegido en la
+   * lista o el primero cuyo nombre contenga alguna palabra del mensaje.
+   */
+  private resolveProduct(conversation: BotConversation, input: string): { product: CatalogProduct | undefined; rest: string } {
+    const byId = (id?: string) => (id ? this.catalog.find(p => p.id === id) : undefined);
+    const reference = input.match(/#\s*(\d+)/);
+
+    if (reference) {
+      const product = byId(conversation.context.last_results?.[parseInt(reference[1]) - 1]);
+      if (product) return { product, rest: input.replace(reference[0], ' ') };
     }
 
-    if (productName) {
-      // Agregar al carrito
-      const existingItem = conversation.cart.find(
-        item => item.name.toLowerCase().includes(productName.toLowerCase())
-      );
+    const selected = byId(conversation.context.selected_product_id);
+    if (selected) return { product: selected, rest: input };
 
-      if (existingItem) {
-        existingItem.quantity += quantity;
-      } else {
-        const product = this.catalog.find(p =>
-          p.name.toLowerCase().includes(productName.toLowerCase())
-        );
-        conversation.cart.push({
-          product_id: product?.id || '',
-          name: productName,
-          price: product?.price || 0,
-          quantity,
-        });
-      }
+    const words = input.toLowerCase().split(/\s+/).filter(word => word.length >= 3);
+    const product = this.catalog.find(p => words.some(word => p.name.toLowerCase().includes(word)));
+    return { product, rest: input };
+  }
 
-      await this.confirmAddToCart(conversation, productName, quantity);
-    } else {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
+  private async addToCart(conversation: BotConversation, input: string): Promise<string> {
+    const { product, rest } = this.resolveProduct(conversation, input);
+
+    if (!product) {
+      this.replyText(conversation, {
         text: `🤔 No entendí qué producto quieres.\n\n💡 *Nuestros productos:*\n${this.catalog.slice(0, 5).map((p, i) => `${i + 1}. ${p.name}`).join('\n')}\n\n*¿Cuál quieres?*`,
       });
+      return 'not_understood';
     }
-  }
 
-  private async confirmAddToCart(conversation: BotConversation, productName: string, quantity: number): Promise<void> {
-    const cartTotal = this.calculateCartTotal(conversation.cart);
-    const commission = cartTotal * (this.COMMISSION_PERCENTAGE / 100);
-    const ownerTotal = cartTotal - commission;
-
-    const response = `✅ *¡Agregado al carrito!*\n\n🛒 *${quantity}x ${productName}*\n\n📦 *Tu carrito actual:*\n${this.formatCart(conversation.cart)}\n\n💵 *Subtotal:* $${this.formatPrice(cartTotal)}\n\n*¿Algo más?* Responde:\n• "Sí" o "agregar más" - para seguir comprando\n• "No" o "continuar" - para ver resumen y finalize`;
-
-    await whatsappService.sendInteractiveButtons(
-      conversation.phone,
-      response,
-      [
-        { id: 'cart_add_more', title: '✅ Sí, agregar más' },
-        { id: 'cart_confirm', title: '📋 No, ver resumen' },
-      ]
-    );
-
-    conversation.state = BotState.CONFIRM_ORDER;
-    await this.saveConversation(conversation);
-  }
-
-  private async handleAskBudget(conversation: BotConversation, input: string): Promise<void> {
-    conversation.budget = input.trim();
-    await this.confirmOrder(conversation);
-  }
-
-  private async handleConfirmOrder(conversation: BotConversation, input: string): Promise<void> {
-    const wantsMore = input.toLowerCase().includes('sí') ||
-                      input.toLowerCase().includes('si') ||
-                      input.toLowerCase().includes('yes') ||
-                      input.toLowerCase().includes('agregar') ||
-                      input.toLowerCase().includes('más') ||
-                      input === '1';
+    // Extraer cantidad del mensaje
+    const quantityMatch = rest.match(/(\d+)/);
+    const quantity = quantityMatch ? Math.max(1, parseInt(quantityMatch[1])) : 1;
 
-    if (wantsMore) {
-      await whatsappService.sendMessage({
-        to: conversation.phone,
-        text: 'Perfecto, ¿qué más te interesa?\n\nPuedes:\n• Escribir el nombre de un producto\n• Decir "ver catálogo" para ver más opciones',
-      });
-      conversation.state = BotState.ASK_PRODUCTS;
-      await this.saveConversation(conversation);
+    const existingItem = conversation.cart.find(item => item.product_id === product.id);
+    if (existingItem) {
+      existingItem.quantity += quantity;
     } else {
-      await this.confirmOrder(conversation);
+      conversation.cart.push({
+        product_id: product.id,
+        name: product.name,
+        price: product.price,
+        quantity,
+      });
     }
-  }
-
-  private async confirmOrder(conversation: BotConversation): Promise<void> {
-    const cartTotal = this.calculateCartTotal(conversation.cart);
-    const commission = cartTotal * (this.COMMISSION_PERCENTAGE / 100);
-    const ownerTotal = cartTotal - commission;
 
-    const response = `📋 *RESUMEN DE TU PEDIDO*
-
-*Cliente:* ${conversation.customerName}
-*Estilo:* ${conversation.style || 'No especificado'}
-*Presupuesto:* ${conversation.budget || 'A confirmar'}
-
-🛒 *Productos:*
-${this.formatCart(conversation.cart)}
-
-💰 *RESUMEN FINANCIERO:*
-─────────────────
-Subtotal: $${this.formatPrice(cartTotal)}
-Comisión (${this.COMMISSION_PERCENTAGE}%): -$${this.formatPrice(commission)}
-─────────────────
-💵 *Para el tienda:* $${this.formatPrice(ownerTotal)}
-
-─────────────────
-
-*¿Confirmas este pedido?* ✅
-
-Responde "Sí" o "confirmar" para enviar a procesar.`;
-
-    await whatsappService.sendInteractiveButtons(
-      conversation.phone,
-      response,
-      [
-        { id: 'order_confirm', title: '✅ Sí, confirmar pedido' },
-        { id: 'order_edit', title: '✏️ Editar pedido' },
-      ]
-    );
-
-    conversation.state = BotState.ORDER_CONFIRMED;
-    await this.saveConversation(conversation);
+    conversation.context.selected_product_id = undefined;
+    conversation.context.last_added = `${quantity}x ${product.name}`;
+    return 'added';
   }
 
   // ========================================
   // FINALIZAR PEDIDO Y NOTIFICACIONES
   // ========================================
 
-  async confirmAndFinishOrder(conversation: BotConversation): Promise<void> {
+  async confirmAndFinishOrder(
+    conversation: BotConversation,
+    paymentMethod: WhatsAppPaymentMethod = 'cash_on_delivery'
+  ): Promise<void> {
+    let storeOrder: WhatsAppCheckoutResult | null = null;
     try {
       // Calcular totales
       const cartTotal = this.calculateCartTotal(conversation.cart);
-      const commission = cartTotal * (this.COMMISSION_PERCENTAGE / 100);
+      const quote = await this.quoteCommission(conversation.cart);
+      const commission = quote.amount;
       const ownerTotal = cartTotal - commission;
 
-      // Generar número de orden
-      const orderResult = await query('SELECT generate_whatsapp_order_number() as order_number');
-      const orderNumber = orderResult.rows[0].order_number;
-
-      // Guardar pedido en la base de datos
+      // Guardar pedido en la base de datos (el trigger genera el número WA-AAAAMMDD-0001)
       const savedOrder = await query(`
         INSERT INTO whatsapp_orders (
           order_number, customer_phone, customer_name, items,
           subtotal, commission_percentage, commission_amount, final_total,
           style, budget, status, notified_to_fuyi, notified_to_owner,
           created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending', false, false, NOW(), NOW())
-        RETURNING id
+        ) VALUES ('', $1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', false, false, NOW(), NOW())
+        RETURNING id, order_number
       `, [
-        orderNumber,
         conversation.phone,
         conversation.customerName,
         JSON.stringify(conversation.cart),
         cartTotal,
-        this.COMMISSION_PERCENTAGE,
+        quote.rate,
         commission,
         ownerTotal,
         conversation.style,
@@ -621,38 +634,95 @@ Responde "Sí" o "confirmar" para enviar a procesar.`;
       ]);
 
       const orderId = savedOrder.rows[0].id;
+      const orderNumber: string = savedOrder.rows[0].order_number;
+
+      // Crear la orden real de la tienda (stock, panel de órdenes, analítica y comisiones)
+      try {
+        storeOrder = await whatsappOrderService.createStoreOrder({
+          whatsappOrderId: orderId,
+          orderNumber,
+          phone: conversation.phone,
+          customerName: conversation.customerName,
+          cart: conversation.cart,
+          shippingAddress: conversation.shippingAddress || '',
+          paymentMethod,
+        });
+      } catch (error) {
+        // Sin orden de la tienda el pedido sigue en whatsapp_orders y la
+        // conversación pasa a una persona; al cliente no se le confirma nada
+        console.error(`[Bot] No se pudo crear la orden de la tienda para ${orderNumber}:`, error);
+      }
 
       // Actualizar conversación con referencia al pedido
       await query(
-        `UPDATE whatsapp_conversations SET whatsapp_order_id = $1, status = 'escalated', escalated_at = NOW() WHERE phone = $2`,
-        [orderId, conversation.phone]
+        `UPDATE whatsapp_conversations
+         SET whatsapp_order_id = $1,
+             status = CASE WHEN $3::boolean THEN status ELSE 'escalated' END,
+             escalated_at = CASE WHEN $3::boolean THEN escalated_at ELSE NOW() END,
+             version = version + 1
+         WHERE phone = $2`,
+        [orderId, conversation.phone, storeOrder !== null]
       );
 
       // Enviar resumen a Fuyi (tú)
-      await this.sendSummaryToFuyi(conversation, orderNumber, cartTotal, commission, ownerTotal);
+      await this.sendSummaryToFuyi(conversation, orderNumber, cartTotal, quote.rate, commission, ownerTotal);
 
       // Enviar notificación al dueño del local
       await this.sendNotificationToOwner(conversation, orderNumber, cartTotal, commission, ownerTotal);
 
       // Confirmar al cliente
-      await this.confirmToCustomer(conversation, orderNumber);
-
-      // Marcar conversación como cerrada
-      conversation.state = BotState.CLOSED;
-      conversation.closedAt = new Date();
-      await this.saveConversation(conversation);
-      await this.saveConversationToDB(conversation);
+      await this.confirmToCustomer(conversation, orderNumber, storeOrder);
 
-      console.log(`[Bot] Pedido ${orderNumber} confirmado para ${conversation.phone}`);
+      if (storeOrder) {
+        console.log(`[Bot] Pedido ${orderNumber} confirmado para ${conversation.phone}`);
+      } else {
+        console.warn(`[Bot] Pedido ${orderNumber} de ${conversation.phone} escalado para seguimiento manual`);
+      }
     } catch (error) {
       console.error('[Bot] Error confirmando pedido:', error);
+      // Si la orden ya existe solo falló una notificación
+      if (storeOrder) return;
+      await this.escalateFailedCheckout(conversation).catch(escalationError =>
+        console.error('[Bot] Error escalando pedido fallido:', escalationError)
+      );
     }
   }
 
+  /**
+   * El pedido no llegó a guardarse: se avisa al cliente que no quedó
+   * confirmado y la conversación queda escalada para que la retome una persona.
+   */
+  private async escalateFailedCheckout(conversation: BotConversation): Promise<void> {
+    await query(
+      `UPDATE whatsapp_conversations
+       SET status = 'escalated', escalated_at = NOW(), version = version + 1
+       WHERE phone = $1`,
+      [conversation.phone]
+    );
+
+    await whatsappService.sendMessage({
+      to: conversation.phone,
+      text: `⚠️ *${conversation.customerName}, no pudimos registrar tu pedido.*
+
+No se ha hecho ningún cobro. Un asesor de Melo Sportt te escribirá a este número para terminarlo contigo.`,
+    });
+
+    await whatsappService.sendMessage({
+      to: env.FUYI_PHONE_NUMBER,
+      text: `🚨 *PEDIDO SIN REGISTRAR*
+
+No se pudo guardar el pedido de ${conversation.customerName} (${this.formatPhoneNumber(conversation.phone)}).
+🛒 ${conversation.cart.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+
+📞 *Acción:* Contactar al cliente; la conversación quedó escalada.`,
+    });
+  }
+
   private async sendSummaryToFuyi(
     conversation: BotConversation,
     orderNumber: string,
     subtotal: number,
+    commissionRate: number,
     commission: number,
     ownerTotal: number
   ): Promise<void> {
@@ -676,7 +746,7 @@ ${productsList}
 ━━━━━━━━━━━━━━━━━━━━
 💰 *RESUMEN FINANCIERO:*
 • Subtotal: $${this.formatPrice(subtotal)}
-• Comisión (${this.COMMISSION_PERCENTAGE}%): $${this.formatPrice(commission)}
+• Comisión (${commissionRate}%): $${this.formatPrice(commission)}
 ━━━━━━━━━━━━━━━━━━━━
 💵 *TU GANANCIA:* $${this.formatPrice(commission)}
 🏪 *PARA LA TIENDA:* $${this.formatPrice(ownerTotal)}
@@ -715,6 +785,7 @@ ${productsList}
 
 👤 Cliente: ${conversation.customerName}
 📱 Teléfono: ${this.formatPhoneNumber(conversation.phone)}
+📍 Dirección: ${conversation.shippingAddress || 'A confirmar'}
 
 📦 *Productos:*
 ${productsList}
@@ -735,9 +806,39 @@ ${productsList}
     await query('UPDATE whatsapp_orders SET notified_to_owner = true WHERE order_number = $1', [orderNumber]);
   }
 
-  private async confirmToCustomer(conversation: BotConversation, orderNumber: string): Promise<void> {
-    const cartTotal = this.calculateCartTotal(conversation.cart);
-    const commission = cartTotal * (this.COMMISSION_PERCENTAGE / 100);
+  private async confirmToCustomer(
+    conversation: BotConversation,
+    orderNumber: string,
+    storeOrder: WhatsAppCheckoutResult | null
+  ): Promise<void> {
+    // Sin orden de la tienda el pedido no está confirmado: lo retoma un asesor
+    if (!storeOrder) {
+      await whatsappService.sendMessage({
+        to: conversation.phone,
+        text: `📝 *${conversation.customerName}, recibimos tu solicitud #${orderNumber}*
+
+🛒 *Resumen:*
+${this.formatCart(conversation.cart)}
+
+⚠️ Aún no está confirmada: no pudimos apartar los productos automáticamente. Un asesor te escribirá al ${this.formatPhoneNumber(conversation.phone)} para revisar disponibilidad, pago y entrega.`,
+      });
+      return;
+    }
+
+    const total = Number(storeOrder.order.total);
+
+    let nextSteps: string;
+    if (storeOrder.payment_link) {
+      nextSteps = `💳 *Paga aquí de forma segura:*
+${storeOrder.payment_link}
+
+Apartamos tus productos mientras completas el pago.`;
+    } else if (storeOrder.order.payment_method === 'cash_on_delivery') {
+      nextSteps = `💵 Pagas en efectivo cuando recibas tu pedido en:
+${conversation.shippingAddress}`;
+    } else {
+      nextSteps = `Te enviaremos el link de pago al ${this.formatPhoneNumber(conversation.phone)} en unos minutos.`;
+    }
 
     const message = `✅ *¡Pedido confirmado, ${conversation.customerName}!* 🎉
 
@@ -746,14 +847,10 @@ ${productsList}
 🛒 *Resumen:*
 ${this.formatCart(conversation.cart)}
 
-💰 *Total:* $${this.formatPrice(cartTotal)}
+💰 *Total:* $${this.formatPrice(total)}
 
 📞 *Próximos pasos:*
-Nuestro equipo te contactará al ${this.formatPhoneNumber(conversation.phone)} para confirmar:
-
-• Método de pago
-• Dirección de entrega
-• Disponibilidad de productos
+${nextSteps}
 
 🏃‍♂️💨 ¡Gracias por elegir Melo Sportt!`;
 
@@ -771,6 +868,14 @@ Nuestro equipo te contactará al ${this.formatPhoneNumber(conversation.phone)} p
     return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
   }
 
+  // La tasa sale de las reglas de comisión del canal whatsapp
+  private async quoteCommission(cart: CartItem[]): Promise<{ rate: number; amount: number }> {
+    return commissionService.quote('whatsapp', cart.map(item => ({
+      product_id: item.product_id,
+      total: item.price * item.quantity,
+    })));
+  }
+
   private formatCart(cart: CartItem[]): string {
     return cart.map(item =>
       `${item.quantity}x ${item.name} - $${this.formatPrice(item.price * item.quantity)}`
@@ -793,151 +898,310 @@ Nuestro equipo te contactará al ${this.formatPhoneNumber(conversation.phone)} p
   }
 
   // ========================================
-  // BASE DE DATOS
+  // RESPUESTAS (se envían al guardar el turno)
   // ========================================
 
-  private async saveConversation(conversation: BotConversation): Promise<void> {
-    this.conversations.set(conversation.phone, conversation);
+  private replyText(conversation: BotConversation, message: { text: string; previewUrl?: boolean }): void {
+    this.queue(conversation, { kind: 'text', ...message });
   }
 
-  private async saveConversationToDB(conversation: BotConversation): Promise<void> {
-    try {
-      await query(
-        `INSERT INTO whatsapp_conversations
-         (phone, customer_name, style, budget, products, messages, status, escalated_at, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
-         ON CONFLICT (phone) DO UPDATE SET
-           customer_name = $2,
-           style = $3,
-           budget = $4,
-           products = $5,
-           messages = $6,
-           status = $7,
-           escalated_at = $8,
-           updated_at = NOW()`,
-        [
-          conversation.phone,
-          conversation.customerName,
-          conversation.style,
-          conversation.budget,
-          JSON.stringify(conversation.cart.map(c => c.name)),
-          JSON.stringify(conversation.messages),
-          conversation.state,
-          conversation.escalatedAt,
-        ]
-      );
-    } catch (error) {
-      console.error('[Bot] Error guardando en BD:', error);
-    }
+  private replyButtons(
+    conversation: BotConversation,
+    text: string,
+    buttons: Array<{ id: string; title: string }>
+  ): void {
+    this.queue(conversation, { kind: 'buttons', text, buttons });
   }
 
-  private async getConversationFromDB(phone: string): Promise<any> {
-    try {
-      const result = await query(
-        `SELECT * FROM whatsapp_conversations WHERE phone = $1 ORDER BY updated_at DESC LIMIT 1`,
-        [phone]
-      );
-      return result.rows[0] || null;
-    } catch (error) {
-      console.error('[Bot] Error obteniendo de BD:', error);
-      return null;
-    }
+  private replyList(
+    conversation: BotConversation,
+    text: string,
+    buttonText: string,
+    sections: Extract<OutboundMessage, { kind: 'list' }>['sections']
+  ): void {
+    this.queue(conversation, { kind: 'list', text, buttonText, sections });
   }
 
-  private async loadActiveConversations(): Promise<void> {
-    try {
-      const result = await query(
-        `SELECT * FROM whatsapp_conversations WHERE status NOT IN ('escalated', 'closed')`
-      );
+  // Las respuestas también quedan en el historial de la conversación
+  private queue(conversation: BotConversation, message: OutboundMessage): void {
+    conversation.outbox.push(message);
+    conversation.messages.push({ role: 'bot', text: message.text, timestamp: new Date() });
+  }
 
-      for (const row of result.rows) {
-        this.conversations.set(row.phone, {
-          phone: row.phone,
-          state: row.status,
-          customerName: row.customer_name || '',
-          style: row.style,
-          budget: row.budget || '',
-          cart: [],
-          messages: row.messages || [],
-          escalatedAt: row.escalated_at,
-          closedAt: row.closed_at,
-        });
+  /**
+   * Envía el outbox de un turno ya guardado, reintentando solo los mensajes
+   * que aún no salieron. Un error de envío no reprocesa el turno.
+   */
+  private async deliverOutbox(conversation: BotConversation): Promise<void> {
+    for (let attempt = 1; attempt <= this.MAX_SEND_ATTEMPTS; attempt++) {
+      try {
+        if (await this.flushOutbox(conversation)) return;
+      } catch (error) {
+        console.error(`[Bot] Error enviando respuesta a ${conversation.phone}:`, error);
+      }
+      if (attempt < this.MAX_SEND_ATTEMPTS) {
+        console.warn(`[Bot] Reintentando envío a ${conversation.phone} (${attempt}/${this.MAX_SEND_ATTEMPTS})`);
+        await new Promise(resolve => setTimeout(resolve, this.SEND_RETRY_DELAY * attempt));
       }
+    }
+    console.error(`[Bot] ${conversation.outbox.length} respuesta(s) sin enviar a ${conversation.phone}`);
+  }
 
-      console.log(`[Bot] Cargadas ${this.conversations.size} conversaciones activas`);
-    } catch (error) {
-      console.error('[Bot] Error cargando conversaciones:', error);
+  // Devuelve false en el primer mensaje que no se pudo enviar; los enviados salen del outbox
+  private async flushOutbox(conversation: BotConversation): Promise<boolean> {
+    while (conversation.outbox.length > 0) {
+      const message = conversation.outbox[0];
+      let sent = false;
+      switch (message.kind) {
+        case 'text':
+          sent = await whatsappService.sendMessage({ to: conversation.phone, text: message.text, previewUrl: message.previewUrl });
+          break;
+        case 'buttons':
+          sent = await whatsappService.sendInteractiveButtons(conversation.phone, message.text, message.buttons);
+          break;
+        case 'list':
+          sent = await whatsappService.sendInteractiveList(conversation.phone, message.text, message.buttonText, message.sections);
+          break;
+      }
+      if (!sent) return false;
+      conversation.outbox.shift();
     }
+    return true;
+  }
+
+  // ========================================
+  // BASE DE DATOS
+  // ========================================
+
+  /**
+   * Registra el ID del mensaje de Meta. Devuelve false si ya se había procesado.
+   */
+  private async claimMessage(messageId: string, phone: string): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO whatsapp_processed_messages (message_id, phone)
+       VALUES ($1, $2)
+       ON CONFLICT (message_id) DO NOTHING
+       RETURNING message_id`,
+      [messageId, phone]
+    );
+    return result.rows.length > 0;
   }
 
-  private async cleanupInactiveConversations(): Promise<void> {
-    const now = new Date();
-    const timeout = this.CONVERSATION_TIMEOUT;
+  private async loadConversation(phone: string): Promise<BotConversation | null> {
+    const result = await query('SELECT * FROM whatsapp_conversations WHERE phone = $1', [phone]);
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      phone: row.phone,
+      status: row.status,
+      state: row.state,
+      version: row.version,
+      customerName: row.customer_name || '',
+      style: row.style,
+      budget: row.budget || '',
+      cart: row.cart || [],
+      shippingAddress: row.shipping_address || undefined,
+      context: row.context || {},
+      messages: (row.messages || []).map((m: { role: 'bot' | 'customer'; text: string; timestamp: string }) => ({
+        ...m,
+        timestamp: new Date(m.timestamp),
+      })),
+      escalatedAt: row.escalated_at || undefined,
+      closedAt: row.closed_at || undefined,
+      lastActivity: row.last_activity_at,
+      outbox: [],
+    };
+  }
+
+  /**
+   * Guarda el turno solo si nadie más modificó la conversación desde que se
+   * leyó (misma versión). Devuelve false ante un conflicto.
+   */
+  private async persistConversation(conversation: BotConversation): Promise<boolean> {
+    const messages = JSON.stringify(conversation.messages.slice(-this.MAX_STORED_MESSAGES));
+    const values = [
+      conversation.phone,
+      conversation.customerName,
+      conversation.style,
+      conversation.budget,
+      conversation.cart.map(item => item.name),
+      messages,
+      conversation.status,
+      conversation.state,
+      JSON.stringify(conversation.cart),
+      conversation.shippingAddress || null,
+      conversation.escalatedAt || null,
+      conversation.closedAt || null,
+      JSON.stringify(conversation.context),
+    ];
+
+    if (conversation.version === 0) {
+      const result = await query(
+        `INSERT INTO whatsapp_conversations
+         (phone, customer_name, style, budget, products, messages, status, state, cart, shipping_address,
+          escalated_at, closed_at, context, version, last_activity_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 1, NOW())
+         ON CONFLICT (phone) DO NOTHING
+         RETURNING version`,
+        values
+      );
+      if (result.rows.length === 0) return false;
+      conversation.version = result.rows[0].version;
+      return true;
+    }
 
-    for (const [phone, conversation] of this.conversations.entries()) {
-      const lastMessage = conversation.messages[conversation.messages.length - 1];
-      if (lastMessage) {
-        const timeSinceLastMessage = now.getTime() - lastMessage.timestamp.getTime();
+    const result = await query(
+      `UPDATE whatsapp_conversations SET
+         customer_name = $2,
+         style = $3,
+         budget = $4,
+         products = $5,
+         messages = $6,
+         status = $7,
+         state = $8,
+         cart = $9,
+         shipping_address = $10,
+         escalated_at = $11,
+         closed_at = $12,
+         context = $13,
+         last_activity_at = NOW(),
+         followup_sent_at = NULL,
+         version = version + 1,
+         updated_at = NOW()
+       WHERE phone = $1 AND version = $14
+       RETURNING version`,
+      [...values, conversation.version]
+    );
+    if (result.rows.length === 0) return false;
+    conversation.version = result.rows[0].version;
+    return true;
+  }
+
+  /**
+   * Envía un único recordatorio a las conversaciones activas sin actividad.
+   * La fila se reclama con UPDATE, así solo una instancia envía el mensaje.
+   */
+  async sendInactivityFollowups(): Promise<number> {
+    const result = await query(
+      `UPDATE whatsapp_conversations
+       SET followup_sent_at = NOW(),
+           version = version + 1
+       WHERE id IN (
+         SELECT id FROM whatsapp_conversations
+         WHERE status = 'active'
+           AND followup_sent_at IS NULL
+           AND last_activity_at < NOW() - make_interval(mins => $1::int)
+         LIMIT 50
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING phone, customer_name`,
+      [this.CONVERSATION_TIMEOUT_MINUTES]
+    );
 
-        if (timeSinceLastMessage > timeout && conversation.state !== BotState.CLOSED) {
-          const goodbyeMessage = `⏰ *Hola ${conversation.customerName},*
+    for (const row of result.rows) {
+      const followupMessage = `⏰ *Hola ${row.customer_name || ''},*
 
 Hemos notado que has estado inactivo. ¿Sigues interesado en nuestros productos?
 
 Responde "sí" para continuar o "no" para que te contactemos después.`;
 
-          await whatsappService.sendMessage({
-            to: conversation.phone,
-            text: goodbyeMessage,
-          });
-
-          conversation.messages.push({
-            role: 'bot',
-            text: 'Mensaje de seguimiento por inactividad',
-            timestamp: new Date(),
-          });
+      await whatsappService.sendMessage({
+        to: row.phone,
+        text: followupMessage,
+      });
 
-          this.conversations.set(phone, conversation);
-        }
-      }
+      // El historial guarda el texto que recibió el cliente
+      await query(
+        `UPDATE whatsapp_conversations
+         SET messages = messages || jsonb_build_array(jsonb_build_object('role', 'bot', 'text', $2::text, 'timestamp', NOW())),
+             version = version + 1
+         WHERE phone = $1`,
+        [row.phone, followupMessage]
+      );
     }
+
+    // Los IDs procesados solo importan mientras Meta puede reintentar
+    await query(`DELETE FROM whatsapp_processed_messages WHERE processed_at < NOW() - INTERVAL '7 days'`);
+    await whatsappWebhookService.purgeRejections();
+
+    return result.rows.length;
+  }
+
+  startTimeoutJob(): void {
+    if (this.timeoutTimer) return;
+
+    this.timeoutTimer = setInterval(() => {
+      this.sendInactivityFollowups()
+        .then(count => {
+          if (count > 0) {
+            console.log(`[Bot] ${count} recordatorio(s) de inactividad enviados`);
+          }
+        })
+        .catch(error => console.error('[Bot] Error en recordatorios de inactividad:', error));
+    }, this.TIMEOUT_CHECK_INTERVAL);
   }
 
   // ========================================
   // API PÚBLICA
   // ========================================
 
-  getConversationState(phone: string): BotConversation | undefined {
-    return this.conversations.get(phone);
+  async getConversationState(phone: string): Promise<BotConversation | null> {
+    return this.loadConversation(phone);
+  }
+
+  /**
+   * Borra la conversación para que el próximo mensaje empiece el flujo desde
+   * cero (usado por el simulador). No toca los pedidos ya creados.
+   */
+  async resetConversation(phone: string): Promise<boolean> {
+    const result = await query('DELETE FROM whatsapp_conversations WHERE phone = $1', [phone]);
+    await query('DELETE FROM whatsapp_processed_messages WHERE phone = $1', [phone]);
+    return (result.rowCount ?? 0) > 0;
   }
 
-  getAllActiveConversations(): BotConversation[] {
-    return Array.from(this.conversations.values()).filter(
-      c => c.state !== BotState.CLOSED
+  async getAllActiveConversations(): Promise<Array<Pick<BotConversation, 'phone' | 'customerName' | 'state' | 'style' | 'cart'>>> {
+    const result = await query(
+      `SELECT phone, customer_name, state, style, cart
+       FROM whatsapp_conversations
+       WHERE status = 'active'
+       ORDER BY last_activity_at DESC
+       LIMIT 200`
     );
+
+    return result.rows.map(row => ({
+      phone: row.phone,
+      customerName: row.customer_name || '',
+      state: row.state,
+      style: row.style,
+      cart: row.cart || [],
+    }));
   }
 
-  getMetrics(): any {
-    const conversations = Array.from(this.conversations.values());
+  async getMetrics(): Promise<Record<string, unknown>> {
+    await this.ensureCatalog();
+    const result = await query(
+      `SELECT
+        COUNT(*)::int as total,
+        COUNT(*) FILTER (WHERE status = 'active')::int as active,
+        COUNT(*) FILTER (WHERE status = 'escalated')::int as escalated,
+        COUNT(*) FILTER (WHERE style = 'urbano')::int as urbano,
+        COUNT(*) FILTER (WHERE style = 'clasico')::int as clasico
+       FROM whatsapp_conversations`
+    );
+    const metrics = result.rows[0];
+
     return {
-      total: conversations.length,
-      active: conversations.filter(c => c.state !== BotState.CLOSED).length,
-      escalated: conversations.filter(c => c.state === BotState.ESCALATE).length,
+      total: metrics.total,
+      active: metrics.active,
+      escalated: metrics.escalated,
       byStyle: {
-        urbano: conversations.filter(c => c.style === 'urbano').length,
-        clasico: conversations.filter(c => c.style === 'clasico').length,
+        urbano: metrics.urbano,
+        clasico: metrics.clasico,
       },
       catalogSize: this.catalog.length,
     };
   }
-
-  // Método para procesar confirmación de pedido desde webhook
-  async processOrderConfirmation(phone: string): Promise<void> {
-    const conversation = this.conversations.get(phone);
-    if (conversation && conversation.state === BotState.ORDER_CONFIRMED) {
-      await this.confirmAndFinishOrder(conversation);
-    }
-  }
 }
 
 export const whatsappBotService = new WhatsAppBotService();
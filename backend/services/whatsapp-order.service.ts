@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { orderService } from './order.service.js';
+import { pricingService } from './pricing.service.js';
+import { settingsService } from './settings.service.js';
+import { wompiService } from './wompi.service.js';
+import type { Order } from '../types/index.js';
+
+export type WhatsAppPaymentMethod = 'cash_on_delivery' | 'wompi';
+export type WhatsAppOrderStatus = 'pending' | 'contacted' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface WhatsAppCartItem {
+  product_id: string;
+  variant_id?: string;
+  name: string;
+  quantity: number;
+}
+
+export interface WhatsAppCheckout {
+  whatsappOrderId: number;
+  orderNumber: string;
+  phone: string;
+  customerName: string;
+  cart: WhatsAppCartItem[];
+  shippingAddress: string;
+  paymentMethod: WhatsAppPaymentMethod;
+}
+
+export interface WhatsAppCheckoutResult {
+  order: Order;
+  payment_link: string | null;
+}
+
+/**
+ * Dominio reservado (.invalid) para clientes que solo conocemos por WhatsApp.
+ * El correo transaccional ignora estas direcciones.
+ */
+export const WHATSAPP_EMAIL_DOMAIN = 'whatsapp.melosportt.invalid';
+
+// Los números de WhatsApp llegan con indicativo (573001234567); en users.phone
+// pueden estar en cualquier formato, así que se comparan los últimos 10 dígitos
+const phoneDigits = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+export const whatsappOrderService = {
+  /**
+   * Cliente invitado propio de ese número de WhatsApp. Los teléfonos de las
+   * cuentas registradas no están verificados, así que un pedido por WhatsApp
+   * nunca se asocia a una de ellas. El invitado no tiene contraseña ni correo
+   * real y no puede iniciar sesión: sus pedidos se gestionan desde el panel.
+   */
+  async findOrCreateCustomer(phone: string, customerName: string): Promise<{ id: string; email: string }> {
+    const digits = phoneDigits(phone);
+    if (digits.length < 7) {
+      throw new AppError('Número de teléfono inválido', 400);
+    }
+
+    const email = `${digits}@${WHATSAPP_EMAIL_DOMAIN}`;
+    const findGuest = () => query(
+      `SELECT id, email FROM users
+       WHERE email = $1 AND role = 'customer' AND password_hash IS NULL`,
+      [email]
+    );
+
+    const existing = await findGuest();
+    if (existing.rows.length > 0) {
+      return existing.rows[0];
+    }
+
+    const result = await query(
+      `INSERT INTO users (id, email, full_name, phone, role)
+       VALUES ($1, $2, $3, $4, 'customer')
+       ON CONFLICT (email) DO NOTHING
+       RETURNING id, email`,
+      [uuidv4(), email, customerName || 'Cliente WhatsApp', phone]
+    );
+    if (result.rows.length > 0) {
+      return result.rows[0];
+    }
+
+    // Otro pedido lo creó a la vez; si en cambio alguien registró ese correo
+    // con contraseña, no se le asignan pedidos ajenos
+    const created = await findGuest();
+    if (created.rows.length === 0) {
+      throw new AppError('No se pudo crear el cliente de WhatsApp para este número', 409);
+    }
+    return created.rows[0];
+  },
+
+  /**
+   * Convierte un pedido confirmado en el bot en una orden real: precios
+   * recalculados en el servidor, stock apartado y, si el cliente paga en
+   * línea, un link de pago de Wompi.
+   */
+  async createStoreOrder(checkout: WhatsAppCheckout): Promise<WhatsAppCheckoutResult> {
+    const items = checkout.cart.filter(item => item.product_id);
+    if (items.length === 0) {
+      throw new AppError('El pedido no tiene productos del catálogo', 400);
+    }
+
+    const customer = await this.findOrCreateCustomer(checkout.phone, checkout.customerName);
+    const quote = await pricingService.quote({
+      items: items.map(item => ({ product_id: item.product_id, variant_id: item.variant_id, quantity: item.quantity })),
+    });
+
+    const orderData = {
+      user_id: customer.id,
+      subtotal: quote.subtotal,
+      discount: quote.discount,
+      shipping_cost: quote.shipping_cost,
+      tax: quote.tax,
+      total: quote.total,
+      shipping_service_id: quote.shipping_option.service_id,
+      shipping_weight_g: quote.shipping.weight_g,
+      channel: 'whatsapp' as const,
+      shipping_address: {
+        name: checkout.customerName,
+        address: checkout.shippingAddress,
+        phone: checkout.phone,
+      },
+      items: quote.items.map(line => ({
+        product_id: line.product_id,
+        variant_id: line.variant_id,
+        quantity: line.quantity,
+        price: line.unit_price,
+      })),
+    };
+
+    let order: Order;
+    let paymentLink: string | null = null;
+
+    if (checkout.paymentMethod === 'cash_on_delivery') {
+      order = await orderService.createCashOnDelivery({
+        ...orderData,
+        order_number: checkout.orderNumber,
+        notes: `Pedido por WhatsApp ${checkout.orderNumber} - Pago contra entrega`,
+      } as any);
+    } else {
+      // La referencia de Wompi es el número de orden; el prefijo MST hace que
+      // el webhook la reconozca como de esta tienda
+      const reference = `MST-${checkout.orderNumber}`;
+      order = await orderService.create({
+        ...orderData,
+        order_number: reference,
+        status: 'pending',
+        payment_status: 'pending',
+        payment_method: 'wompi',
+        notes: `Pedido por WhatsApp ${checkout.orderNumber} - Pago pendiente - Wompi ref: ${reference}`,
+      } as any, 'reserve');
+
+      try {
+        const link = await wompiService.generatePaymentLink({
+          reference,
+          amount_in_cents: Math.round(quote.total * 100),
+          currency: 'COP',
+          // Wompi exige un correo; sin uno real se usa el de contacto de la tienda
+          customer_email: customer.email.endsWith(WHATSAPP_EMAIL_DOMAIN)
+            ? (await settingsService.get('contact')).email
+            : customer.email,
+          redirect_url: `${env.FRONTEND_URL}/checkout/wompi/callback`,
+          description: `Pedido ${checkout.orderNumber}`,
+        });
+        paymentLink = link.checkout_url || null;
+        await orderService.updatePaymentId(order.id, link.transaction_id);
+      } catch (error) {
+        // La orden queda pendiente con el stock apartado hasta que venza la reserva
+        console.error(`[WhatsAppOrders] Could not create payment link for ${checkout.orderNumber}:`, error);
+      }
+    }
+
+    await query(
+      `UPDATE whatsapp_orders
+       SET order_id = $1, user_id = $2, payment_method = $3, payment_link = $4, shipping_address = $5,
+           final_total = $6
+       WHERE id = $7`,
+      [order.id, customer.id, checkout.paymentMethod, paymentLink, checkout.shippingAddress, quote.total, checkout.whatsappOrderId]
+    );
+
+    return { order, payment_link: paymentLink };
+  },
+
+  /**
+   * Cambio de estado desde el panel del bot: se refleja en la orden de la
+   * tienda (y ésta, a su vez, actualiza el pedido del bot).
+   */
+  async updateStatus(orderNumber: string, status: WhatsAppOrderStatus): Promise<Record<string, unknown>> {
+    const result = await query(
+      `UPDATE whatsapp_orders SET status = $1, updated_at = NOW() WHERE order_number = $2 RETURNING *`,
+      [status, orderNumber]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Order not found', 404);
+    }
+
+    const orderId: string | null = result.rows[0].order_id;
+    if (!orderId) {
+      return result.rows[0];
+    }
+
+    const order = await orderService.getById(orderId);
+
+    if (status === 'confirmed' && order.status === 'pending') {
+      await orderService.updateStatus(order.id, 'confirmed');
+    } else if (status === 'cancelled' && !['cancelled', 'refunded', 'delivered'].includes(order.status)) {
+      await orderService.updateStatus(order.id, 'cancelled');
+    } else if (status === 'completed' && order.status !== 'delivered') {
+      if (order.payment_method === 'cash_on_delivery' && order.payment_status !== 'paid') {
+        await orderService.confirmCashOnDelivery(order.id);
+      } else {
+        await orderService.updateStatus(order.id, 'delivered');
+      }
+    }
+
+    return this.getByOrderNumber(orderNumber);
+  },
+
+  async getAll(limit = 50): Promise<Record<string, unknown>[]> {
+    const result = await query(
+      `SELECT w.*, o.order_number as store_order_number, o.status as store_status,
+        o.payment_status as store_payment_status
+       FROM whatsapp_orders w
+       LEFT JOIN orders o ON o.id = w.order_id
+       ORDER BY w.created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  },
+
+  async getByOrderNumber(orderNumber: string): Promise<Record<string, unknown>> {
+    const result = await query(
+      `SELECT w.*, o.order_number as store_order_number, o.status as store_status,
+        o.payment_status as store_payment_status
+       FROM whatsapp_orders w
+       LEFT JOIN orders o ON o.id = w.order_id
+       WHERE w.order_number = $1`,
+      [orderNumber]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Order not found', 404);
+    }
+    return result.rows[0];
+  },
+};
@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { whatsappWebhookService } from './whatsapp-webhook.service.js';
+
+/**
+ * Simulador local de la API de WhatsApp Cloud (WHATSAPP_TRANSPORT=simulator).
+ * Los mensajes salientes se guardan en memoria en vez de ir a Meta, y los
+ * entrantes se inyectan como un webhook real contra /api/whatsapp/webhook.
+ */
+
+export type SimulatedInbound =
+  | { type: 'text'; text: string }
+  | { type: 'button_reply'; id: string; title?: string }
+  | { type: 'list_reply'; id: string; title?: string; description?: string };
+
+export interface TranscriptEntry {
+  id: string;                       // wamid simulado
+  direction: 'inbound' | 'outbound';
+  phone: string;
+  type: string;                     // text | interactive_buttons | interactive_list | button_reply | list_reply
+  text: string;
+  buttons?: Array<{ id: string; title: string }>;
+  sections?: Array<{ title: string; rows: Array<{ id: string; title: string; description?: string }> }>;
+  reply_id?: string;
+  timestamp: string;
+  payload: Record<string, unknown>; // Cuerpo tal como lo recibiría o enviaría la Graph API
+}
+
+const MAX_ENTRIES_PER_PHONE = 500;
+const transcripts = new Map<string, TranscriptEntry[]>();
+
+// Mismo formato que usa whatsappService al enviar (57 + celular)
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 && digits.startsWith('3') ? `57${digits}` : digits;
+};
+
+const simulatedId = () => `wamid.SIM${randomUUID().replace(/-/g, '').toUpperCase()}`;
+
+function append(entry: TranscriptEntry): void {
+  const entries = transcripts.get(entry.phone) ?? [];
+  entries.push(entry);
+  transcripts.set(entry.phone, entries.slice(-MAX_ENTRIES_PER_PHONE));
+}
+
+export const whatsappSimulator = {
+  isEnabled(): boolean {
+    return env.WHATSAPP_TRANSPORT === 'simulator';
+  },
+
+  normalizePhone,
+
+  /**
+   * Registra un envío hecho por whatsappService (payload de /messages de la Graph API).
+   */
+  recordOutbound(payload: Record<string, any>): string {
+    const id = simulatedId();
+    const interactive = payload.interactive;
+
+    append({
+      id,
+      direction: 'outbound',
+      phone: normalizePhone(String(payload.to)),
+      type: payload.type === 'interactive' ? `interactive_${interactive?.type === 'list' ? 'list' : 'buttons'}` : payload.type,
+      text: payload.type === 'text' ? payload.text?.body ?? '' : interactive?.body?.text ?? '',
+      buttons: interactive?.type === 'button'
+        ? interactive.action.buttons.map((button: { reply: { id: string; title: string } }) => button.reply)
+        : undefined,
+      sections: interactive?.type === 'list' ? interactive.action.sections : undefined,
+      timestamp: new Date().toISOString(),
+      payload,
+    });
+
+    return id;
+  },
+
+  /**
+   * Arma el webhook que Meta enviaría por un mensaje del cliente y lo publica
+   * en el propio servidor. Devuelve lo que el bot respondió en ese turno.
+   */
+  async injectInbound(from: string, message: SimulatedInbound): Promise<{ message_id: string; status: number; replies: TranscriptEntry[] }> {
+    if (!this.isEnabled()) {
+      throw new AppError('El simulador de WhatsApp no está activo', 404);
+    }
+
+    const phone = normalizePhone(from);
+    const id = simulatedId();
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const waMessage: Record<string, unknown> = message.type === 'text'
+      ? { from: phone, id, timestamp, type: 'text', text: { body: message.text } }
+      : {
+          from: phone,
+          id,
+          timestamp,
+          type: 'interactive',
+          interactive: {
+            type: message.type,
+            [message.type]: {
+              id: message.id,
+              title: message.title ?? message.id,
+              ...(message.type === 'list_reply' ? { description: message.description ?? '' } : {}),
+            },
+          },
+        };
+
+    const payload = {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: 'SIMULATOR',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: { display_phone_number: 'SIMULATOR', phone_number_id: env.WHATSAPP_PHONE_NUMBER_ID || 'SIMULATOR' },
+            contacts: [{ profile: { name: 'Simulador' }, wa_id: phone }],
+            messages: [waMessage],
+          },
+        }],
+      }],
+    };
+
+    append({
+      id,
+      direction: 'inbound',
+      phone,
+      type: message.type,
+      text: message.type === 'text' ? message.text : message.title ?? message.id,
+      reply_id: message.type === 'text' ? undefined : message.id,
+      timestamp: new Date().toISOString(),
+      payload,
+    });
+
+    // Firmado como lo haría Meta, así el webhook se prueba con la verificación activa
+    const body = JSON.stringify(payload);
+    const response = await fetch(`http://127.0.0.1:${env.PORT}/api/whatsapp/webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Hub-Signature-256': whatsappWebhookService.sign(body, whatsappWebhookService.getAppSecret()!),
+      },
+      body,
+    });
+
+    // El webhook procesa el mensaje antes de contestar, así que las respuestas ya están registradas
+    const entries = transcripts.get(phone) ?? [];
+    const replies = entries.slice(entries.findIndex(entry => entry.id === id) + 1).filter(entry => entry.direction === 'outbound');
+    return { message_id: id, status: response.status, replies };
+  },
+
+  getTranscript(phone: string): TranscriptEntry[] {
+    return transcripts.get(normalizePhone(phone)) ?? [];
+  },
+
+  getPhones(): Array<{ phone: string; messages: number; last_message_at: string }> {
+    return [...transcripts.entries()].map(([phone, entries]) => ({
+      phone,
+      messages: entries.length,
+      last_message_at: entries[entries.length - 1]?.timestamp,
+    }));
+  },
+
+  clear(phone?: string): void {
+    if (phone) {
+      transcripts.delete(normalizePhone(phone));
+    } else {
+      transcripts.clear();
+    }
+  },
+};
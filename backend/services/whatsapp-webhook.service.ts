@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { query } from '../config/database.js';
+import { env } from '../config/env.js';
+
+/**
+ * Seguridad del webhook de WhatsApp: firma HMAC de Meta (X-Hub-Signature-256)
+ * y registro de las entregas que no se procesan.
+ */
+
+export type WebhookRejectionReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'secret_not_configured'
+  | 'stale_message'
+  | 'duplicate_message';
+
+export interface WebhookRejection {
+  reason: WebhookRejectionReason;
+  messageId?: string;
+  phone?: string;
+  signature?: string;
+  ip?: string;
+  userAgent?: string;
+  payload?: unknown;
+}
+
+export interface WebhookRejectionEntry {
+  id: string;
+  reason: WebhookRejectionReason;
+  message_id: string | null;
+  phone: string | null;
+  signature: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  payload: unknown;
+  created_at: string;
+}
+
+// Meta reintenta un webhook hasta 7 días; es también lo que se guardan los IDs procesados
+export const WEBHOOK_MESSAGE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+// Cuerpos más grandes no se guardan completos en el registro de rechazos
+const MAX_STORED_PAYLOAD_BYTES = 64 * 1024;
+
+export const whatsappWebhookService = {
+  getAppSecret(): string | undefined {
+    if (env.WHATSAPP_APP_SECRET) return env.WHATSAPP_APP_SECRET;
+    // El simulador nunca corre en producción (ver config/env.ts)
+    return env.WHATSAPP_TRANSPORT === 'simulator' ? env.WHATSAPP_SIMULATOR_APP_SECRET : undefined;
+  },
+
+  /**
+   * Cabecera X-Hub-Signature-256 para un cuerpo: sha256=HMAC_SHA256(app secret, cuerpo)
+   */
+  sign(body: Buffer | string, secret: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  },
+
+  verifySignature(rawBody: Buffer, signature: string, secret: string): boolean {
+    const expected = Buffer.from(this.sign(rawBody, secret));
+    const received = Buffer.from(signature.trim().toLowerCase());
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  },
+
+  /**
+   * true si el timestamp de Meta (segundos Unix) es más viejo que la ventana de reintentos
+   */
+  isStale(timestamp: string | number | undefined): boolean {
+    const seconds = Number(timestamp);
+    if (!Number.isFinite(seconds)) return false;
+    return Date.now() / 1000 - seconds > WEBHOOK_MESSAGE_MAX_AGE_SECONDS;
+  },
+
+  async recordRejection(rejection: WebhookRejection): Promise<void> {
+    const payload = rejection.payload === undefined ? null : JSON.stringify(rejection.payload);
+
+    try {
+      await query(
+        `INSERT INTO whatsapp_webhook_rejections
+          (reason, message_id, phone, signature, ip_address, user_agent, payload)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          rejection.reason,
+          rejection.messageId ?? null,
+          rejection.phone ?? null,
+          rejection.signature?.substring(0, 100) ?? null,
+          rejection.ip ?? null,
+          rejection.userAgent ?? null,
+          payload && Buffer.byteLength(payload) <= MAX_STORED_PAYLOAD_BYTES ? payload : null,
+        ]
+      );
+    } catch (error) {
+      // El diagnóstico nunca debe cambiar la respuesta que recibe Meta
+      console.error('[WhatsApp] Error registrando rechazo del webhook:', error);
+    }
+  },
+
+  async getRejections(reason?: WebhookRejectionReason, limit = 100): Promise<WebhookRejectionEntry[]> {
+    const result = await query(
+      `SELECT * FROM whatsapp_webhook_rejections
+       WHERE ($1::varchar IS NULL OR reason = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [reason ?? null, Math.min(limit, 500)]
+    );
+    return result.rows as WebhookRejectionEntry[];
+  },
+
+  async purgeRejections(): Promise<void> {
+    await query(`DELETE FROM whatsapp_webhook_rejections WHERE created_at < NOW() - INTERVAL '30 days'`);
+  },
+};
@@ -1,5 +1,6 @@
 import { env } from '../config/env.js';
 import { query } from '../config/database.js';
+import { whatsappSimulator } from './whatsapp-simulator.service.js';
 
 const WHATSAPP_API_URL = 'https://graph.facebook.com/v17.0';
 
@@ -44,7 +45,7 @@ export class WhatsAppService {
   }
 
   isConfigured(): boolean {
-    return !!(this.phoneNumberId && this.accessToken);
+    return whatsappSimulator.isEnabled() || !!(this.phoneNumberId && this.accessToken);
   }
 
   // Enviar mensaje de texto
@@ -54,37 +55,12 @@ export class WhatsAppService {
       return false;
     }
 
-    try {
-      const response = await fetch(
-        `${WHATSAPP_API_URL}/${this.phoneNumberId}/messages`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            messaging_product: 'whatsapp',
-            to: this.formatPhoneNumber(to),
-            type: 'text',
-            text: { body: text, preview_url: previewUrl },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('[WhatsApp] Error enviando mensaje:', error);
-        return false;
-      }
-
-      const result = await response.json() as { messages?: Array<{ id: string }> };
-      console.log('[WhatsApp] Mensaje enviado:', result.messages?.[0]?.id);
-      return true;
-    } catch (error) {
-      console.error('[WhatsApp] Error:', error);
-      return false;
-    }
+    return this.deliver({
+      messaging_product: 'whatsapp',
+      to: this.formatPhoneNumber(to),
+      type: 'text',
+      text: { body: text, preview_url: previewUrl },
+    }, 'mensaje');
   }
 
   // Enviar mensaje con botones (máximo 3 opciones)
@@ -103,44 +79,21 @@ export class WhatsAppService {
       buttons = buttons.slice(0, 3);
     }
 
-    try {
-      const response = await fetch(
-        `${WHATSAPP_API_URL}/${this.phoneNumberId}/messages`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            messaging_product: 'whatsapp',
-            to: this.formatPhoneNumber(to),
-            type: 'interactive',
-            interactive: {
-              type: 'button',
-              body: { text },
-              action: {
-                buttons: buttons.map((btn) => ({
-                  type: 'reply',
-                  reply: { id: btn.id, title: btn.title.substring(0, 20) },
-                })),
-              },
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('[WhatsApp] Error enviando botones:', error);
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('[WhatsApp] Error:', error);
-      return false;
-    }
+    return this.deliver({
+      messaging_product: 'whatsapp',
+      to: this.formatPhoneNumber(to),
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text },
+        action: {
+          buttons: buttons.map((btn) => ({
+            type: 'reply',
+            reply: { id: btn.id, title: btn.title.substring(0, 20) },
+          })),
+        },
+      },
+    }, 'botones');
   }
 
   // Enviar lista de opciones (más de 3 opciones)
@@ -158,6 +111,28 @@ export class WhatsAppService {
       return false;
     }
 
+    return this.deliver({
+      messaging_product: 'whatsapp',
+      to: this.formatPhoneNumber(to),
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        body: { text },
+        action: {
+          button: buttonText.substring(0, 20),
+          sections,
+        },
+      },
+    }, 'lista');
+  }
+
+  // POST a /messages de la Graph API, o al simulador local si está activo
+  private async deliver(payload: Record<string, unknown>, label: string): Promise<boolean> {
+    if (whatsappSimulator.isEnabled()) {
+      whatsappSimulator.recordOutbound(payload);
+      return true;
+    }
+
     try {
       const response = await fetch(
         `${WHATSAPP_API_URL}/${this.phoneNumberId}/messages`,
@@ -167,28 +142,18 @@ export class WhatsAppService {
             'Authorization': `Bearer ${this.accessToken}`,
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            messaging_product: 'whatsapp',
-            to: this.formatPhoneNumber(to),
-            type: 'interactive',
-            interactive: {
-              type: 'list',
-              body: { text },
-              action: {
-                button: buttonText.substring(0, 20),
-                sections,
-              },
-            },
-          }),
+          body: JSON.stringify(payload),
         }
       );
 
       if (!response.ok) {
         const error = await response.json();
-        console.error('[WhatsApp] Error enviando lista:', error);
+        console.error(`[WhatsApp] Error enviando ${label}:`, error);
         return false;
       }
 
+      const result = await response.json() as { messages?: Array<{ id: string }> };
+      console.log(`[WhatsApp] Enviado (${label}):`, result.messages?.[0]?.id);
       return true;
     } catch (error) {
       console.error('[WhatsApp] Error:', error);
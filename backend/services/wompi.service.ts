@@ -35,6 +35,9 @@ const simulatedTransactions = new Map<string, {
   created_at: number;
 }>();
 
+// Simulated refunds: amount already reversed per transaction (in cents)
+const simulatedRefundedCents = new Map<string, number>();
+
 // Helper to generate fake IDs
 const generateFakeId = (prefix: string) =>
   `${prefix}_simulated_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -77,6 +80,13 @@ export interface CreateTransactionData {
   };
 }
 
+export interface WompiReversalResult {
+  id: string;
+  transaction_id: string;
+  status: 'APPROVED' | 'PENDING' | 'DECLINED' | 'ERROR';
+  amount_in_cents: number;
+}
+
 export interface AcceptanceToken {
   acceptance_token: string;
   permalink: string;
@@ -636,21 +646,6 @@ export const wompiService = {
     }
   },
 
-  /**
-   * Calculate commission (10%)
-   */
-  calculateCommission(totalAmountInCents: number) {
-    const commissionPercentage = 0.10; // 10%
-    const commission = Math.round(totalAmountInCents * commissionPercentage);
-    const merchantAmount = totalAmountInCents - commission;
-
-    return {
-      total: totalAmountInCents,
-      commission,
-      merchantAmount
-    };
-  },
-
   async getTransaction(transactionId: string) {
     // SIMULATED MODE
     if (SIMULATED_MODE) {
@@ -704,6 +699,124 @@ export const wompiService = {
     }
   },
 
+  /**
+   * Anula (void) una transacción aprobada por el total.
+   * Wompi solo permite anular transacciones con tarjeta antes de su liquidación.
+   */
+  async voidTransaction(transactionId: string): Promise<WompiReversalResult> {
+    return this.reverseTransaction(transactionId);
+  },
+
+  /**
+   * Reembolso parcial o total de una transacción aprobada
+   */
+  async refundTransaction(transactionId: string, amountInCents: number): Promise<WompiReversalResult> {
+    if (!Number.isInteger(amountInCents) || amountInCents <= 0) {
+      throw new AppError('Refund amount must be a positive integer in cents', 400);
+    }
+    return this.reverseTransaction(transactionId, amountInCents);
+  },
+
+  async reverseTransaction(transactionId: string, amountInCents?: number): Promise<WompiReversalResult> {
+    // SIMULATED MODE
+    if (SIMULATED_MODE) {
+      const transaction = simulatedTransactions.get(transactionId);
+
+      // Transacción simulada perdida (p. ej. reinicio del servidor): se aprueba tal cual
+      if (!transaction) {
+        console.log('🧪 [SIMULATED WOMPI] Transaction not in memory, approving reversal:', transactionId);
+        return {
+          id: generateFakeId(amountInCents ? 'refund' : 'void'),
+          transaction_id: transactionId,
+          status: 'APPROVED',
+          amount_in_cents: amountInCents ?? 0,
+        };
+      }
+
+      if (transaction.status !== 'APPROVED') {
+        throw new AppError(`Cannot reverse a transaction with status ${transaction.status}`, 400);
+      }
+
+      const alreadyRefunded = simulatedRefundedCents.get(transactionId) || 0;
+      const remaining = transaction.amount_in_cents - alreadyRefunded;
+      const amount = amountInCents ?? remaining;
+
+      if (amount > remaining) {
+        throw new AppError('Refund amount exceeds the remaining transaction amount', 400);
+      }
+
+      simulatedRefundedCents.set(transactionId, alreadyRefunded + amount);
+      if (alreadyRefunded + amount >= transaction.amount_in_cents) {
+        transaction.status = 'VOIDED';
+        simulatedTransactions.set(transactionId, transaction);
+      }
+
+      console.log(`🧪 [SIMULATED WOMPI] ${amountInCents ? 'Refund' : 'Void'} approved:`, {
+        id: transactionId,
+        amount_in_cents: amount,
+      });
+
+      return {
+        id: generateFakeId(amountInCents ? 'refund' : 'void'),
+        transaction_id: transactionId,
+        status: 'APPROVED',
+        amount_in_cents: amount,
+      };
+    }
+
+    // REAL MODE
+    if (!env.WOMPI_PRIVATE_KEY) {
+      throw new AppError('Wompi is not configured', 500);
+    }
+
+    try {
+      const response = await axios.post(
+        `${WOMPI_API_URL}/transactions/${transactionId}/void`,
+        amountInCents ? { amount_in_cents: amountInCents } : {},
+        {
+          headers: {
+            'Authorization': `Bearer ${env.WOMPI_PRIVATE_KEY}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 30000,
+        }
+      );
+
+      const data = response.data?.data || {};
+      const transaction = data.transaction || data;
+
+      console.log('[Wompi Service] Reversal requested:', {
+        transactionId,
+        amount_in_cents: amountInCents,
+        status: data.status || transaction.status,
+      });
+
+      // La anulación queda APPROVED (VOIDED en la transacción) o PENDING hasta el webhook
+      const rawStatus = String(data.status || transaction.status || 'PENDING').toUpperCase();
+      const status: WompiReversalResult['status'] =
+        rawStatus === 'VOIDED' || rawStatus === 'APPROVED' ? 'APPROVED'
+          : rawStatus === 'DECLINED' ? 'DECLINED'
+          : rawStatus === 'ERROR' ? 'ERROR'
+          : 'PENDING';
+
+      return {
+        id: String(data.id || transaction.id || transactionId),
+        transaction_id: transactionId,
+        status,
+        amount_in_cents: amountInCents ?? Number(transaction.amount_in_cents || 0),
+      };
+    } catch (error: any) {
+      console.error('Wompi Void/Refund Error:', error.response?.data || error.message);
+      const reason = error.response?.data?.error?.reason
+        || error.response?.data?.error?.messages
+        || error.message;
+      throw new AppError(
+        `Failed to reverse transaction: ${typeof reason === 'string' ? reason : JSON.stringify(reason)}`,
+        error.response?.status === 422 ? 422 : 502
+      );
+    }
+  },
+
   /**
    * Verify event signature from webhook
    *
@@ -1,4 +1,5 @@
 import { query } from '../config/database';
+import { trafficService } from '../../services/traffic.service.js';
 
 /**
  * Servicio de analítica que calcula datos reales desde la base de datos
@@ -95,6 +96,21 @@ class AnalyticsService {
     const result = await query(productQuery);
     const performanceData = result.rows;
 
+    // Vistas de producto registradas por la tienda
+    const viewsResult = await query(`
+      SELECT
+        product_id,
+        EXTRACT(YEAR FROM occurred_at AT TIME ZONE 'America/Bogota') as year,
+        EXTRACT(MONTH FROM occurred_at AT TIME ZONE 'America/Bogota') as month,
+        COUNT(*) as views
+      FROM analytics_events
+      WHERE event_type = 'product_view' AND product_id IS NOT NULL
+      GROUP BY product_id, year, month
+    `);
+    const views = new Map<string, number>(
+      viewsResult.rows.map((v: any) => [`${v.product_id}:${parseInt(v.year)}:${parseInt(v.month)}`, parseInt(v.views)])
+    );
+
     // Almacenamos el rendimiento de cada producto
     for (const data of performanceData) {
       if (data.year && data.month) {
@@ -114,7 +130,7 @@ class AnalyticsService {
           parseFloat(data.total_sales || 0),
           parseInt(data.total_quantity || 0),
           parseInt(data.total_orders || 0),
-          0, // Conteo real de vistas (no disponible en base de datos actualmente)
+          views.get(`${data.product_id}:${parseInt(data.year)}:${parseInt(data.month)}`) || 0,
         ]);
       }
     }
@@ -272,99 +288,10 @@ class AnalyticsService {
   }
 
   /**
-   * Calcula estadísticas de tráfico web (simuladas basadas en órdenes)
+   * Resume el tráfico web a partir de los eventos registrados por la tienda
    */
   async calculateTrafficStats(): Promise<void> {
-    const currentYear = new Date().getFullYear();
-    const currentMonth = new Date().getMonth() + 1;
-
-    // Simulamos tráfico basado en órdenes (relación realista)
-    const ordersQuery = `
-      SELECT
-        DATE(created_at) as date,
-        COUNT(*) as orders,
-        SUM(CAST(total AS DECIMAL)) as revenue
-      FROM orders
-      WHERE status NOT IN ('cancelled', 'failed')
-      GROUP BY DATE(created_at)
-      ORDER BY date DESC
-    `;
-
-    const ordersResult = await query(ordersQuery);
-    const ordersData = ordersResult.rows;
-
-    for (const orderData of ordersData) {
-      const date = orderData.date;
-      const orders = parseInt(orderData.orders);
-      const revenue = parseFloat(orderData.revenue || 0);
-
-      // Simulamos tráfico realista: típicamente se necesitan 10-20 visitas para una orden
-      const estimatedVisits = orders * 15; // Ratio promedio 15:1
-      const estimatedUniqueVisitors = Math.floor(estimatedVisits * 0.7); // 70% únicos
-      const conversionRate = orders > 0 ? (orders / estimatedVisits) * 100 : 0;
-      const revenuePerVisitor = estimatedVisits > 0 ? revenue / estimatedVisits : 0;
-
-      // Insertamos datos de tráfico
-      await query(`
-        INSERT INTO website_traffic (date, page_views, unique_visitors, bounce_rate, avg_session_duration)
-        VALUES ($1, $2, $3, $4, $5)
-        ON CONFLICT (date)
-        DO UPDATE SET
-          page_views = EXCLUDED.page_views,
-          unique_visitors = EXCLUDED.unique_visitors,
-          bounce_rate = EXCLUDED.bounce_rate,
-          avg_session_duration = EXCLUDED.avg_session_duration
-      `, [
-        date,
-        estimatedVisits * 2, // Promedio 2 páginas por visita
-        estimatedUniqueVisitors,
-        45.0, // Tasa de rebote promedio
-        180 // 3 minutos promedio
-      ]);
-
-      // Insertamos datos de conversión
-      await query(`
-        INSERT INTO conversion_tracking (date, total_visits, total_orders, conversion_rate, revenue_per_visitor)
-        VALUES ($1, $2, $3, $4, $5)
-        ON CONFLICT (date)
-        DO UPDATE SET
-          total_visits = EXCLUDED.total_visits,
-          total_orders = EXCLUDED.total_orders,
-          conversion_rate = EXCLUDED.conversion_rate,
-          revenue_per_visitor = EXCLUDED.revenue_per_visitor
-      `, [
-        date,
-        estimatedVisits,
-        orders,
-        conversionRate,
-        revenuePerVisitor
-      ]);
-
-      // Insertamos datos por fuentes de tráfico (distribución realista)
-      const sources = [
-        { type: 'organic', ratio: 0.4, orders_ratio: 0.3 },
-        { type: 'direct', ratio: 0.3, orders_ratio: 0.35 },
-        { type: 'referral', ratio: 0.15, orders_ratio: 0.2 },
-        { type: 'social', ratio: 0.10, orders_ratio: 0.10 },
-        { type: 'paid', ratio: 0.05, orders_ratio: 0.05 }
-      ];
-
-      for (const source of sources) {
-        const sourceVisits = Math.floor(estimatedVisits * source.ratio);
-        const sourceOrders = Math.floor(orders * source.orders_ratio);
-        const sourceRevenue = revenue * source.orders_ratio;
-
-        await query(`
-          INSERT INTO traffic_sources (date, source_type, visits, orders, revenue)
-          VALUES ($1, $2, $3, $4, $5)
-          ON CONFLICT (date, source_type)
-          DO UPDATE SET
-            visits = EXCLUDED.visits,
-            orders = EXCLUDED.orders,
-            revenue = EXCLUDED.revenue
-        `, [date, source.type, sourceVisits, sourceOrders, sourceRevenue]);
-      }
-    }
+    await trafficService.rollupAll();
   }
 
   /**
@@ -427,14 +354,21 @@ class AnalyticsService {
       LIMIT 5
     `);
 
-    // Estadísticas de tráfico y conversión
+    // Estadísticas de tráfico y embudo de conversión
     const trafficResult = await query(`
       SELECT
-        SUM(page_views) as total_views,
-        SUM(unique_visitors) as total_visitors,
-        AVG(conversion_rate) as avg_conversion_rate
-      FROM conversion_tracking
-      WHERE date >= CURRENT_DATE - INTERVAL '30 days'
+        SUM(wt.page_views) as total_views,
+        SUM(wt.unique_visitors) as total_visitors,
+        AVG(wt.bounce_rate) as avg_bounce_rate,
+        SUM(ct.total_visits) as sessions,
+        SUM(ct.product_view_sessions) as product_view_sessions,
+        SUM(ct.add_to_cart_sessions) as add_to_cart_sessions,
+        SUM(ct.checkout_sessions) as checkout_sessions,
+        SUM(ct.purchase_sessions) as purchase_sessions,
+        SUM(ct.total_orders) as orders
+      FROM conversion_tracking ct
+      LEFT JOIN website_traffic wt ON wt.date = ct.date
+      WHERE ct.date >= CURRENT_DATE - INTERVAL '30 days'
     `);
 
     // Fuentes de tráfico
@@ -487,6 +421,7 @@ class AnalyticsService {
     }));
 
     const trafficData = trafficResult.rows[0];
+    const sessions = parseInt(trafficData?.sessions || 0);
     const trafficSources = trafficSourcesResult.rows.map((t: any) => ({
       source: t.source_type,
       visits: parseInt(t.total_visits || 0),
@@ -504,7 +439,16 @@ class AnalyticsService {
       traffic: {
         totalViews: parseInt(trafficData?.total_views || 0),
         totalVisitors: parseInt(trafficData?.total_visitors || 0),
-        conversionRate: parseFloat(trafficData?.avg_conversion_rate || 0),
+        sessions,
+        bounceRate: parseFloat(trafficData?.avg_bounce_rate || 0),
+        conversionRate: sessions > 0 ? (parseInt(trafficData?.orders || 0) / sessions) * 100 : 0,
+      },
+      funnel: {
+        sessions,
+        productViews: parseInt(trafficData?.product_view_sessions || 0),
+        addToCart: parseInt(trafficData?.add_to_cart_sessions || 0),
+        beginCheckout: parseInt(trafficData?.checkout_sessions || 0),
+        purchases: parseInt(trafficData?.purchase_sessions || 0),
       },
       trafficSources,
       generalStats: {
@@ -552,14 +496,14 @@ class AnalyticsService {
     // Datos para gráfico de tráfico web (últimos 30 días)
     const trafficDataResult = await query(`
       SELECT
-        date,
-        SUM(page_views) as total_views,
-        SUM(unique_visitors) as unique_visitors,
-        AVG(conversion_rate) as conversion_rate
-      FROM conversion_tracking
-      WHERE date >= CURRENT_DATE - INTERVAL '30 days'
-      GROUP BY date
-      ORDER BY date ASC
+        wt.date,
+        wt.page_views as total_views,
+        wt.unique_visitors,
+        COALESCE(ct.conversion_rate, 0) as conversion_rate
+      FROM website_traffic wt
+      LEFT JOIN conversion_tracking ct ON ct.date = wt.date
+      WHERE wt.date >= CURRENT_DATE - INTERVAL '30 days'
+      ORDER BY wt.date ASC
     `);
 
     // Datos para gráfico de fuentes de tráfico
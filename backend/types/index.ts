@@ -25,6 +25,7 @@ export interface User {
   is_active: boolean;
   last_login?: string;
   preferences?: UserPreferences;
+  sessions_revoked_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -47,6 +48,7 @@ export interface TeamMember {
   user?: PublicUser;
   position: string; // 'owner', 'developer', 'manager', etc
   commission_percentage: number;
+  commission_base?: CommissionBase;
   can_manage_products: boolean;
   can_manage_orders: boolean;
   can_view_analytics: boolean;
@@ -59,9 +61,51 @@ export interface TeamMember {
   updated_at: string;
 }
 
+// Permisos por acción de un miembro del equipo (columnas de team_members)
+export type TeamPermission =
+  | 'can_manage_products'
+  | 'can_manage_orders'
+  | 'can_view_analytics'
+  | 'can_manage_customers'
+  | 'can_manage_settings'
+  | 'can_manage_team';
+
 // Commission tracking
 export type CommissionStatus = 'pending' | 'approved' | 'paid' | 'cancelled';
 
+// order_total: total de la orden; net_sales: productos menos descuento, sin envío ni impuestos
+export type CommissionBase = 'order_total' | 'net_sales';
+
+export type CommissionRuleType = 'category' | 'channel' | 'tier';
+
+// team: equipo interno; seller: vendedores que cobran por ventas referidas
+export type CommissionEarnerType = 'team' | 'seller';
+
+export interface CommissionRule {
+  id: string;
+  team_member_id: string | null; // null = todos los miembros del earner_type
+  earner_type: CommissionEarnerType;
+  rule_type: CommissionRuleType;
+  category_id: string | null;
+  channel: OrderChannel | null;
+  min_monthly_volume: number | null;
+  rate: number;
+  active: boolean;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Base y tasa aplicadas a una línea de la orden
+export interface CommissionLine {
+  product_id: string | null;
+  category_id: string | null;
+  base: number;
+  rate: number;
+  source: 'category' | 'channel' | 'tier' | 'member';
+  amount: number;
+}
+
 export interface Commission {
   id: string;
   team_member_id: string;
@@ -71,6 +115,9 @@ export interface Commission {
   order_total: number;
   commission_percentage: number;
   commission_amount: number;
+  commission_base?: CommissionBase | null;
+  breakdown?: CommissionLine[] | null;
+  clawback_of?: string | null; // Comisión pagada que este registro recupera (monto negativo)
   status: CommissionStatus;
   paid_at?: string;
   notes?: string;
@@ -99,8 +146,48 @@ export interface CommissionSummary {
   orders_count: number;
 }
 
+// Seller / reseller program
+export type SellerStatus = 'pending' | 'active' | 'suspended' | 'rejected';
+
+export interface Seller {
+  id: string;
+  user_id: string;
+  user?: Pick<PublicUser, 'id' | 'email' | 'full_name'>;
+  team_member_id?: string | null;
+  referral_code: string;
+  status: SellerStatus;
+  display_name?: string;
+  phone?: string;
+  document_number?: string;
+  payout_method?: string;
+  payout_details?: string;
+  notes?: string;
+  commission_percentage: number;
+  approved_by?: string;
+  approved_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SellerStats {
+  orders_count: number;
+  delivered_orders: number;
+  total_sales: number;
+  customers_count: number;
+}
+
+export interface SellerDashboard {
+  seller: Seller;
+  referral_link: string;
+  stats: SellerStats;
+  commissions: CommissionSummary;
+  recent_orders: Array<Pick<Order, 'id' | 'order_number' | 'total' | 'status' | 'payment_status' | 'created_at'> & {
+    commission_amount: number | null;
+  }>;
+}
+
 // User notifications
-export type NotificationType = 'order' | 'commission' | 'promotion' | 'system';
+export type NotificationType = 'order' | 'commission' | 'promotion' | 'system' | 'inventory';
 
 export interface UserNotification {
   id: string;
@@ -113,6 +200,48 @@ export interface UserNotification {
   created_at: string;
 }
 
+// Transactional emails (the template key is the order event)
+export type OrderEmailEvent =
+  | 'order_placed'
+  | 'payment_approved'
+  | 'payment_declined'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'order_refunded';
+
+export interface EmailTemplate {
+  key: string;
+  description?: string;
+  subject: string;
+  body_text: string;
+  body_html?: string | null;
+  is_active: boolean;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EmailQueueStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface EmailQueueItem {
+  id: string;
+  template_key?: string;
+  to_email: string;
+  subject: string;
+  body_text: string;
+  body_html?: string | null;
+  order_id?: string;
+  dedupe_key?: string;
+  status: EmailQueueStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+  sent_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Address {
   id: string;
   user_id: string;
@@ -148,6 +277,7 @@ export interface Product {
   quantity: number;
   track_quantity: boolean;
   continue_selling_when_out_of_stock: boolean;
+  low_stock_threshold?: number | null; // NULL: umbral por defecto de la tienda
   category_id?: string | null;
   category?: Category;
   brand?: string | null;
@@ -168,6 +298,10 @@ export interface Product {
   // Campos para conjuntos con accesorios
   is_set?: boolean; // Indica si es un conjunto
   accessories?: Accessory[]; // Array de accesorios opcionales
+  // Calificación agregada (solo reseñas aprobadas)
+  average_rating?: number;
+  review_count?: number;
+  rating_distribution?: RatingDistribution;
   created_at: string;
   updated_at: string;
 }
@@ -189,6 +323,7 @@ export interface ProductVariant {
   price: number;
   compare_at_price?: number | null;
   quantity: number;
+  low_stock_threshold?: number | null; // NULL: umbral del producto
   options: VariantOption[];
   image_url?: string;
   is_active: boolean;
@@ -211,6 +346,37 @@ export interface Category {
   products_count?: number;
 }
 
+// Review Types
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// Conteo de reseñas por número de estrellas: { "1": 0, ..., "5": 12 }
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface Review {
+  id: string;
+  product_id: string;
+  user_id: string;
+  user?: Pick<PublicUser, 'id' | 'full_name' | 'avatar_url'>;
+  rating: number;
+  title?: string;
+  content?: string;
+  images: string[];
+  is_verified_purchase: boolean;
+  helpful_count: number;
+  status: ReviewStatus;
+  moderated_by?: string;
+  moderated_at?: string;
+  moderation_note?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RatingSummary {
+  average_rating: number;
+  review_count: number;
+  rating_distribution: RatingDistribution;
+}
+
 // Order Types
 export type OrderStatus =
   | 'pending'
@@ -228,6 +394,8 @@ export type PaymentStatus =
   | 'refunded'
   | 'partially_refunded';
 
+export type OrderChannel = 'web' | 'whatsapp';
+
 export interface Order {
   id: string;
   order_number: string;
@@ -249,6 +417,13 @@ export interface Order {
   tracking_url?: string;
   notes?: string;
   coupon_code?: string;
+  refunded_amount?: number;
+  seller_id?: string | null;
+  referral_code?: string | null;
+  channel?: OrderChannel;
+  shipping_service_id?: string | null;
+  shipping_weight_g?: number | null;
+  confirmed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -263,6 +438,253 @@ export interface OrderItem {
   quantity: number;
   price: number;
   total: number;
+  refunded_quantity?: number;
+}
+
+export interface ShippingCarrier {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+  sort_order: number;
+}
+
+export interface ShippingService {
+  id: string;
+  carrier_id: string;
+  carrier_code?: string;
+  carrier_name?: string;
+  code: string;
+  name: string;
+  delivery_days_min: number;
+  delivery_days_max: number;
+  cash_on_delivery: boolean;
+  free_shipping_eligible: boolean;
+  active: boolean;
+  sort_order: number;
+}
+
+export interface ShippingZoneLocation {
+  department: string;
+  city: string | null;   // null = todo el departamento
+}
+
+export interface ShippingZone {
+  id: string;
+  code: string;
+  name: string;
+  is_default: boolean;
+  free_shipping_eligible: boolean;
+  active: boolean;
+  locations: ShippingZoneLocation[];
+}
+
+export interface ShippingRate {
+  id: string;
+  service_id: string;
+  zone_id: string;
+  min_weight_g: number;
+  max_weight_g: number | null;   // null = sin límite
+  price: number;
+  extra_kg_price: number;
+  declared_value_percent: number;
+}
+
+export interface ShippingDestination {
+  department?: string | null;
+  city?: string | null;
+}
+
+export interface ShippingOption {
+  service_id: string;
+  code: string;
+  name: string;
+  carrier_code: string;
+  carrier_name: string;
+  delivery_days_min: number;
+  delivery_days_max: number;
+  cash_on_delivery: boolean;
+  price: number;          // Tarifa antes del envío gratis
+  cost: number;           // Lo que paga el cliente
+  free: boolean;
+}
+
+export interface ShippingQuote {
+  zone: Pick<ShippingZone, 'id' | 'code' | 'name'>;
+  weight_g: number;
+  free_shipping_threshold: number;
+  options: ShippingOption[];
+}
+
+export interface ShippingConfig {
+  carriers: ShippingCarrier[];
+  services: ShippingService[];
+  zones: ShippingZone[];
+  rates: ShippingRate[];
+}
+
+export type RefundType = 'void' | 'refund';
+export type RefundStatus = 'pending' | 'approved' | 'declined' | 'error';
+
+export interface RefundItem {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  transaction_id: string;
+  type: RefundType;
+  amount: number;
+  amount_in_cents: number;
+  status: RefundStatus;
+  reason?: string;
+  items: RefundItem[];
+  external_id?: string;
+  error_message?: string;
+  requested_by?: string;
+  applied_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StockReservationStatus = 'active' | 'committed' | 'released';
+
+export interface StockReservation {
+  id: string;
+  order_id: string;
+  order_item_id?: string;
+  product_id?: string;
+  variant_id?: string;
+  quantity: number;
+  status: StockReservationStatus;
+  expires_at?: string;
+  release_reason?: string;
+  committed_at?: string;
+  released_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Electronic invoicing (DIAN UBL 2.1)
+export type ElectronicDocumentType = 'invoice' | 'credit_note';
+export type DianStatus = 'not_sent' | 'pending' | 'accepted' | 'rejected';
+
+export interface DianResolution {
+  id: string;
+  document_type: ElectronicDocumentType;
+  resolution_number?: string | null;
+  prefix: string;
+  range_from: number;
+  range_to: number;
+  next_number: number;         // Según el contador del prefijo (numbering_sequences)
+  valid_from: string;
+  valid_to: string;
+  technical_key?: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NumberingSequence {
+  prefix: string;
+  document_type: ElectronicDocumentType;
+  first_number: number;
+  last_number: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NumberingSequenceReport extends NumberingSequence {
+  issued: number;
+  voided: number;
+  expected: number;            // Números entregados por el contador dentro de rangos autorizados
+  missing_count: number;
+  missing: number[];           // Primeros faltantes
+  outside_counter: string[];   // Documentos fuera de first_number..last_number
+  out_of_range: string[];      // Documentos fuera de todo rango autorizado del prefijo
+  ok: boolean;
+}
+
+export interface NumberingReconciliation {
+  generated_at: string;
+  ok: boolean;
+  unnumbered: number;          // Facturas anteriores a la numeración DIAN
+  sequences: NumberingSequenceReport[];
+}
+
+export interface InvoiceLine {
+  id: string;
+  invoice_id: string;
+  line_number: number;
+  order_item_id?: string | null;
+  product_id?: string | null;
+  sku?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  line_extension: number;
+  tax_percent: number;
+  tax_amount: number;
+}
+
+export type InventoryMovementType =
+  | 'sale'
+  | 'return'
+  | 'adjustment'
+  | 'restock'
+  | 'damage'
+  | 'reservation'
+  | 'release';
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  type: InventoryMovementType;
+  quantity_change: number;
+  quantity_before?: number;
+  quantity_after?: number;
+  variant_quantity_after?: number;
+  reason?: string;
+  order_id?: string;
+  created_by?: string;
+  created_at: string;
+  // Joined fields
+  product_name?: string;
+  variant_name?: string;
+  order_number?: string;
+  created_by_name?: string;
+}
+
+// Reporte de reposición (días de cobertura)
+export type StockStatus = 'ok' | 'low' | 'out_of_stock';
+
+export interface InventoryReportItem {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  threshold: number;
+  units_sold: number;
+  daily_velocity: number;
+  days_of_cover: number | null; // null: sin ventas en la ventana
+  suggested_reorder: number;
+  status: StockStatus;
+}
+
+export interface InventoryReport {
+  window_days: number;
+  target_cover_days: number;
+  items: InventoryReportItem[];
+  summary: {
+    out_of_stock: number;
+    low: number;
+    below_target: number;
+  };
 }
 
 // Chat Types
@@ -302,15 +724,103 @@ export interface Conversation {
   updated_at: string;
 }
 
+// WhatsApp bot flows (declarative script edited by admins)
+export type BotFlowMessage =
+  | { type: 'text'; text: string; preview_url?: boolean }
+  | { type: 'buttons'; text: string; buttons: Array<{ id: string; title: string }> }
+  | {
+      type: 'list';
+      text: string;
+      button_text: string;
+      sections: Array<{ title: string; rows: Array<{ id: string; title: string; description?: string }> }>;
+    };
+
+// Datos de la conversación que un paso puede guardar
+export type BotFlowVariable = 'customer_name' | 'style' | 'budget' | 'shipping_address' | 'payment_method';
+
+// Los que se capturan como texto libre (style y payment_method solo por transición)
+export type BotFlowCapture = Exclude<BotFlowVariable, 'style' | 'payment_method'>;
+
+// Pasos dinámicos implementados en código (catálogo, carrito, checkout)
+export type BotFlowAction =
+  | 'show_featured_products'
+  | 'browse_catalog'
+  | 'search_products'
+  | 'add_to_cart'
+  | 'checkout';
+
+export interface BotFlowMatch {
+  any?: boolean;
+  ids?: string[];       // id exacto de un botón o fila de lista
+  equals?: string[];    // texto exacto (sin distinguir mayúsculas)
+  keywords?: string[];  // el texto contiene alguna palabra
+}
+
+export interface BotFlowTransition {
+  match: BotFlowMatch;
+  to: string;
+  set?: Partial<Record<BotFlowVariable, string>>;
+}
+
+/**
+ * Paso del flujo. Al entrar se envía `message` y se ejecuta `on_enter`.
+ * Un paso que espera respuesta (capture, transitions u on_input) usa `next`
+ * después de la respuesta; uno que no espera avanza a `next` de inmediato.
+ * `outcomes` mapea el resultado de la acción al siguiente paso.
+ */
+export interface BotFlowState {
+  description?: string;
+  message?: BotFlowMessage;
+  on_enter?: BotFlowAction;
+  capture?: BotFlowCapture;
+  min_length?: number;
+  transitions?: BotFlowTransition[];
+  on_input?: BotFlowAction;
+  outcomes?: Record<string, string>;
+  fallback?: BotFlowMessage;
+  next?: string;
+  terminal?: boolean;   // Cierra la conversación al entrar
+}
+
+export interface BotFlowDefinition {
+  initial_state: string;
+  states: Record<string, BotFlowState>;
+}
+
+export interface BotFlow {
+  id: string;
+  name: string;
+  description?: string;
+  definition: BotFlowDefinition;
+  is_active: boolean;
+  version: number;
+  created_by?: string;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BotFlowValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
 // Auth Types
 export interface AuthRequest extends Request {
   user?: User;
 }
 
+// Cuerpo original tal como llegó (para verificar firmas HMAC de webhooks)
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
 export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  iat?: number;
 }
 
 // API Response Types
@@ -344,3 +854,27 @@ export interface DashboardMetrics {
   monthly_revenue_change: number;
   month_name: string;
 }
+
+// Eventos de navegación enviados por la tienda
+export type AnalyticsEventType = 'page_view' | 'product_view' | 'add_to_cart' | 'begin_checkout' | 'purchase';
+
+export type TrafficSourceType = 'direct' | 'organic' | 'referral' | 'social' | 'paid';
+
+// UTM y referrer con los que llegó la sesión
+export interface TrafficAttribution {
+  referrer?: string | null;
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+  utm_term?: string | null;
+  utm_content?: string | null;
+}
+
+export interface AnalyticsEventInput {
+  type: AnalyticsEventType;
+  path?: string | null;
+  product_id?: string | null;
+  order_id?: string | null;
+  order_number?: string | null; // Los pagos Wompi solo conocen la referencia
+  occurred_at?: string;
+}
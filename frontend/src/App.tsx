@@ -21,6 +21,8 @@ import { WompiCallbackPage } from '@/pages/WompiCallbackPage';
 import { LoginPage } from '@/pages/auth/LoginPage';
 import { RegisterPage } from '@/pages/auth/RegisterPage';
 import { AdminLoginPage } from '@/pages/auth/AdminLoginPage';
+import { ForgotPasswordPage } from '@/pages/auth/ForgotPasswordPage';
+import { ResetPasswordPage } from '@/pages/auth/ResetPasswordPage';
 import { AdminDashboard } from '@/pages/admin/AdminDashboard';
 import { AdminOrders } from '@/pages/admin/AdminOrders';
 import { AdminProducts } from '@/pages/admin/AdminProducts';
@@ -29,6 +31,8 @@ import { AdminAnalytics } from '@/pages/admin/AdminAnalytics';
 import { AdminSettings } from '@/pages/admin/AdminSettings';
 import { AdminMessages } from '@/pages/admin/AdminMessages';
 import { AdminCoupons } from '@/pages/admin/AdminCoupons';
+import { AdminSellers } from '@/pages/admin/AdminSellers';
+import { AdminBotFlows } from '@/pages/admin/AdminBotFlows';
 import { AdminManagement } from '@/pages/admin/AdminManagement';
 import { SellerCallback } from '@/pages/SellerCallback';
 import { DebugPage } from '@/pages/DebugPage';
@@ -47,7 +51,8 @@ import {
   MyCommissionsPage,
   OwnerDashboardPage,
   TeamManagementPage,
-  CommissionsManagementPage
+  CommissionsManagementPage,
+  SellerProgramPage
 } from '@/pages/account';
 import { MessagesPage } from '@/pages/account/MessagesPage';
 
@@ -186,7 +191,8 @@ function App() {
             <Route path="/login" element={<LoginPage />} />
             <Route path="/register" element={<RegisterPage />} />
             <Route path="/admin-login" element={<AdminLoginPage />} />
-            <Route path="/forgot-password" element={<div className="min-h-screen bg-black py-20 text-center text-white">Forgot Password</div>} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
           </Route>
 
           {/* Checkout (separate layout) */}
@@ -209,6 +215,8 @@ function App() {
             <Route path="analytics" element={<AdminAnalytics />} />
             <Route path="messages" element={<AdminMessages />} />
             <Route path="coupons" element={<AdminCoupons />} />
+            <Route path="sellers" element={<AdminSellers />} />
+            <Route path="bot-flows" element={<AdminBotFlows />} />
             <Route path="settings" element={<AdminSettings />} />
           </Route>
 
@@ -278,6 +286,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/account/seller"
+              element={
+                <ProtectedRoute>
+                  <SellerProgramPage />
+                </ProtectedRoute>
+              }
+            />
             {/* Developer/Team member routes */}
             <Route
               path="/account/my-commissions"
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Loader2, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { cn } from '@/lib/utils';
+import { useAdjustInventory, useProductInventoryHistory } from '@/hooks/useInventory';
+import type { InventoryAdjustmentType, InventoryMovementType, Product } from '@/types';
+
+const movementLabels: Record<InventoryMovementType, string> = {
+  sale: 'Venta',
+  return: 'Devolución',
+  adjustment: 'Ajuste',
+  restock: 'Reabastecimiento',
+  damage: 'Daño / pérdida',
+  reservation: 'Reserva',
+  release: 'Reserva liberada',
+};
+
+const adjustmentOptions = [
+  { value: 'count', label: 'Conteo físico' },
+  { value: 'restock', label: 'Reabastecimiento (+)' },
+  { value: 'damage', label: 'Daño / pérdida (-)' },
+  { value: 'adjustment', label: 'Ajuste manual (+/-)' },
+];
+
+type AdjustmentMode = InventoryAdjustmentType | 'count';
+
+interface InventoryHistoryModalProps {
+  product: Pick<Product, 'id' | 'name'> | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onAdjusted?: () => void;
+}
+
+export function InventoryHistoryModal({ product, isOpen, onClose, onAdjusted }: InventoryHistoryModalProps) {
+  const { data: history, isLoading } = useProductInventoryHistory(isOpen ? product?.id : undefined);
+  const adjustInventory = useAdjustInventory();
+
+  const [mode, setMode] = useState<AdjustmentMode>('count');
+  const [variantId, setVariantId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+
+  const resetForm = () => {
+    setMode('count');
+    setVariantId('');
+    setQuantity('');
+    setReason('');
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    const value = parseInt(quantity);
+    if (Number.isNaN(value)) {
+      toast.error('Ingresa una cantidad válida');
+      return;
+    }
+
+    try {
+      await adjustInventory.mutateAsync({
+        product_id: product.id,
+        variant_id: variantId || undefined,
+        type: mode === 'count' ? 'adjustment' : mode,
+        ...(mode === 'count'
+          ? { counted_quantity: value }
+          : { quantity_change: mode === 'damage' ? -Math.abs(value) : mode === 'restock' ? Math.abs(value) : value }),
+        reason,
+      });
+      toast.success('Inventario ajustado');
+      resetForm();
+      onAdjusted?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo ajustar el inventario');
+    }
+  };
+
+  const variants = history?.product.variants || [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Movimientos de inventario" description={product?.name} size="xl">
+      {isLoading || !history ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-3">
+            <div className="bg-gray-50 rounded-xl px-4 py-3 border border-gray-100">
+              <p className="text-xs text-gray-500">Stock en sistema</p>
+              <p className="text-2xl font-bold text-black">{history.product.quantity}</p>
+            </div>
+            {variants.map((variant) => (
+              <div key={variant.id} className="bg-gray-50 rounded-xl px-4 py-3 border border-gray-100">
+                <p className="text-xs text-gray-500">{variant.name}</p>
+                <p className="text-lg font-semibold text-black">{variant.quantity}</p>
+              </div>
+            ))}
+          </div>
+
+          {history.product.track_quantity ? (
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <Select
+                label="Tipo"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as AdjustmentMode)}
+                options={adjustmentOptions}
+              />
+              {variants.length > 0 ? (
+                <Select
+                  label="Variante"
+                  value={variantId}
+                  onChange={(e) => setVariantId(e.target.value)}
+                  options={[
+                    { value: '', label: 'Producto completo' },
+                    ...variants.map((variant) => ({ value: variant.id, label: variant.name })),
+                  ]}
+                />
+              ) : null}
+              <Input
+                label={mode === 'count' ? 'Cantidad contada' : 'Unidades'}
+                type="number"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+              />
+              <Input
+                label="Motivo"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Ej: conteo mensual de bodega"
+                required
+              />
+              <Button type="submit" isLoading={adjustInventory.isPending} className="md:col-span-4">
+                Registrar ajuste
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-500">Este producto no lleva control de inventario.</p>
+          )}
+
+          <div className="border border-gray-200 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Fecha</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Tipo</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Cambio</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Stock</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Detalle</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {history.movements.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      Sin movimientos registrados
+                    </td>
+                  </tr>
+                ) : (
+                  history.movements.map((movement) => (
+                    <tr key={movement.id}>
+                      <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                        {new Date(movement.created_at).toLocaleString('es-CO')}
+                      </td>
+                      <td className="px-4 py-3 text-black">
+                        {movementLabels[movement.type]}
+                        {movement.variant_name && <span className="text-gray-500"> · {movement.variant_name}</span>}
+                      </td>
+                      <td
+                        className={cn(
+                          'px-4 py-3 text-right font-medium',
+                          movement.quantity_change > 0 ? 'text-emerald-600' : 'text-red-600'
+                        )}
+                      >
+                        <span className="inline-flex items-center gap-1">
+                          {movement.quantity_change > 0 ? (
+                            <ArrowUpRight className="h-3.5 w-3.5" />
+                          ) : (
+                            <ArrowDownRight className="h-3.5 w-3.5" />
+                          )}
+                          {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">{movement.quantity_after ?? '—'}</td>
+                      <td className="px-4 py-3 text-gray-500">
+                        {movement.order_number && <span className="text-black">{movement.order_number} </span>}
+                        {movement.reason}
+                        {movement.created_by_name && <span className="block text-xs">{movement.created_by_name}</span>}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {history.count > history.movements.length && (
+            <p className="text-xs text-gray-500 text-center">
+              Mostrando los últimos {history.movements.length} de {history.count} movimientos
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -10,6 +10,7 @@ import {
   ShoppingCart,
   MoreVertical,
   Star,
+  History,
 } from 'lucide-react';
 import type { ProductWithStats } from '@/types';
 
@@ -18,9 +19,10 @@ interface ProductCardAdminProps {
   onEdit: (product: ProductWithStats) => void;
   onDelete: (product: ProductWithStats) => void;
   onView: (product: ProductWithStats) => void;
+  onInventory?: (product: ProductWithStats) => void;
 }
 
-export function ProductCardAdmin({ product, onEdit, onDelete, onView }: ProductCardAdminProps) {
+export function ProductCardAdmin({ product, onEdit, onDelete, onView, onInventory }: ProductCardAdminProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
 
@@ -135,6 +137,14 @@ export function ProductCardAdmin({ product, onEdit, onDelete, onView }: ProductC
                   >
                     <Edit2 className="w-4 h-4" /> Editar
                   </button>
+                  {onInventory && (
+                    <button
+                      onClick={() => { onInventory(product); setShowMenu(false); }}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                    >
+                      <History className="w-4 h-4" /> Inventario
+                    </button>
+                  )}
                   <button
                     onClick={() => { onDelete(product); setShowMenu(false); }}
                     className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
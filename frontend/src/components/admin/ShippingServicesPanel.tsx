@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { shippingService } from '@/lib/services';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { ShippingConfig, ShippingRate, ShippingServiceConfig } from '@/types';
+
+type ServiceToggle = 'active' | 'cash_on_delivery' | 'free_shipping_eligible';
+
+const toggles: Array<{ field: ServiceToggle; label: string }> = [
+  { field: 'active', label: 'Activo' },
+  { field: 'cash_on_delivery', label: 'Contra entrega' },
+  { field: 'free_shipping_eligible', label: 'Envío gratis' },
+];
+
+const formatBand = (rate: ShippingRate) => {
+  const from = rate.min_weight_g / 1000;
+  const range = rate.max_weight_g === null ? `+${from} kg` : `${from}–${rate.max_weight_g / 1000} kg`;
+  const extra = rate.extra_kg_price > 0 ? ` + ${formatCurrency(rate.extra_kg_price, 'COP', 'es-CO')}/kg` : '';
+  return `${range}: ${formatCurrency(rate.price, 'COP', 'es-CO')}${extra}`;
+};
+
+// Servicios por transportadora y tarifas por zona que usa la cotización del checkout
+export function ShippingServicesPanel() {
+  const [config, setConfig] = useState<ShippingConfig | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    shippingService
+      .getConfig()
+      .then(setConfig)
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Error al cargar los envíos'));
+  }, []);
+
+  const toggleService = async (service: ShippingServiceConfig, field: ServiceToggle) => {
+    setSavingId(service.id);
+    try {
+      const updated = await shippingService.updateService(service.id, { [field]: !service[field] });
+      setConfig((prev) =>
+        prev ? { ...prev, services: prev.services.map((s) => (s.id === updated.id ? updated : s)) } : prev
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar el servicio');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-white">Servicios de envío</h3>
+        {config.services.map((service) => (
+          <div
+            key={service.id}
+            className={cn(
+              'flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-primary-800 rounded-lg',
+              !service.active && 'opacity-60'
+            )}
+          >
+            <div>
+              <p className="text-white font-medium">{service.name}</p>
+              <p className="text-gray-400 text-sm">
+                {service.carrier_name} · {service.delivery_days_min}-{service.delivery_days_max} días hábiles
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              {toggles.map(({ field, label }) => (
+                <label key={field} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={service[field]}
+                    disabled={savingId === service.id}
+                    onChange={() => toggleService(service, field)}
+                    className="w-4 h-4 rounded border-primary-700 bg-primary-900"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-medium text-white">Tarifas por zona</h3>
+        {config.zones.map((zone) => {
+          const zoneRates = config.rates.filter((rate) => rate.zone_id === zone.id);
+          return (
+            <div key={zone.id} className="p-4 bg-primary-800 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-white font-medium">
+                  {zone.name}
+                  {zone.is_default && <span className="text-gray-400 text-sm font-normal"> · destinos no listados</span>}
+                  {!zone.free_shipping_eligible && <span className="text-yellow-400 text-sm font-normal"> · sin envío gratis</span>}
+                </p>
+              </div>
+              {zone.locations.length > 0 && (
+                <p className="text-gray-400 text-xs capitalize">
+                  {zone.locations.map((location) => location.city ?? location.department).join(', ')}
+                </p>
+              )}
+              <div className="space-y-1">
+                {config.services
+                  .filter((service) => zoneRates.some((rate) => rate.service_id === service.id))
+                  .map((service) => (
+                    <p key={service.id} className="text-sm text-gray-300">
+                      <span className="text-white">{service.name}:</span>{' '}
+                      {zoneRates
+                        .filter((rate) => rate.service_id === service.id)
+                        .map(formatBand)
+                        .join(' · ')}
+                    </p>
+                  ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,3 +2,5 @@
 export { StatCard, MiniStat } from './StatCard';
 export { ProductCardAdmin, ProductStatsDetail } from './ProductCardAdmin';
 export { RevenueChart, OrdersChart, CategoryChart, MonthlyChart, GenderChart } from './Charts';
+export { InventoryHistoryModal } from './InventoryHistoryModal';
+export { ShippingServicesPanel } from './ShippingServicesPanel';
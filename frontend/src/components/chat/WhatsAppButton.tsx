@@ -1,7 +1,6 @@
 import { motion } from 'framer-motion';
 import { generateWhatsAppUrl } from '@/lib/utils';
-
-const WHATSAPP_NUMBER = import.meta.env.VITE_WHATSAPP_NUMBER || '+573044155473';
+import { useWhatsAppNumber } from '@/hooks/useSettings';
 const DEFAULT_MESSAGE = '¡Hola! Me gustaría obtener más información sobre sus productos.';
 
 interface WhatsAppButtonProps {
@@ -13,7 +12,8 @@ export function WhatsAppButton({
   message = DEFAULT_MESSAGE,
   className,
 }: WhatsAppButtonProps) {
-  const whatsappUrl = generateWhatsAppUrl(WHATSAPP_NUMBER, message);
+  const whatsappNumber = useWhatsAppNumber();
+  const whatsappUrl = generateWhatsAppUrl(whatsappNumber, message);
 
   return (
     <motion.a
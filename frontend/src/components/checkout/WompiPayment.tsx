@@ -126,6 +126,7 @@ interface WompiPaymentProps {
     unit_price: number;
     product_id?: string; // Para crear orden en backend
     variant_id?: string;
+    selected_accessories?: string[];
   }>;
   customerEmail: string;
   shippingAddress?: {
@@ -141,7 +142,8 @@ interface WompiPaymentProps {
   subtotal?: number;
   shippingCost?: number;
   tax?: number;
-  onSuccess: (transactionId: string) => void;
+  shippingMethod?: string;
+  onSuccess: (transactionId: string, reference: string) => void;
   onBack: () => void;
   isProcessing: boolean;
   setIsProcessing: (value: boolean) => void;
@@ -155,6 +157,7 @@ export function WompiPayment({
   subtotal,
   shippingCost,
   tax,
+  shippingMethod,
   onSuccess,
   onBack,
   isProcessing,
@@ -287,7 +290,7 @@ export function WompiPayment({
         if (status === 'APPROVED') {
           clearInterval(interval);
           setPaymentStep('success');
-          setTimeout(() => onSuccess(id), 1500);
+          setTimeout(() => onSuccess(id, result.data?.reference || reference), 1500);
         } else if (status === 'DECLINED' || status === 'ERROR' || status === 'VOIDED') {
           clearInterval(interval);
           setError(status === 'DECLINED'
@@ -365,7 +368,7 @@ export function WompiPayment({
           clearInterval(interval);
           console.log('[WompiPayment] PSE approved without redirect (sandbox)');
           setPaymentStep('success');
-          setTimeout(() => onSuccess(id), 1500);
+          setTimeout(() => onSuccess(id, result.data?.reference || reference), 1500);
           return;
         }
 
@@ -489,6 +492,8 @@ export function WompiPayment({
         subtotal,
         shipping_cost: shippingCost,
         tax,
+        // El backend recalcula el monto con el método de envío seleccionado
+        shipping_method: shippingMethod,
       };
 
       // Include payment_method if we have a card token (for direct card payments)
@@ -606,7 +611,7 @@ export function WompiPayment({
         } else if (transactionStatus === 'APPROVED') {
           // Ya aprobado (sandbox con banco de prueba)
           setPaymentStep('success');
-          setTimeout(() => onSuccess(result.data.id), 1500);
+          setTimeout(() => onSuccess(result.data.id, result.data.reference || reference), 1500);
         } else {
           // Error o estado desconocido
           throw new Error('No se pudo conectar con el banco. Por favor intenta de nuevo o usa otro método de pago.');
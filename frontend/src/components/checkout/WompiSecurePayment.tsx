@@ -18,6 +18,7 @@ import { RefreshCw } from 'lucide-react'; // Importar RefreshCw para el botón d
 
 // Importar Modal component
 import { Modal } from '@/components/ui/Modal'; // Asegúrate de que este path es correcto para tu proyecto
+import { getReferralCode } from '@/lib/utils';
 
 // Si no tienes un componente Modal, puedes crear uno simple o usar un div con backdrop
 const SimpleModal = ({ isOpen, onClose, children }: { isOpen: boolean; onClose: () => void; children: React.ReactNode }) => {
@@ -199,6 +200,7 @@ export function WompiSecurePayment({
             name: `${shippingAddress.firstName} ${shippingAddress.lastName}`,
             phone: shippingAddress.phone,
           },
+          referral_code: getReferralCode(),
           redirectUrl: `${window.location.origin}/checkout/success`,
         }),
       });
@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { FileText, Printer, Download, Calendar, CreditCard, Package, MapPin, User, Mail, Phone } from 'lucide-react';
 import { formatCurrency } from '@/lib/utils';
 import { Button } from '@/components/ui/Button';
+import { api } from '@/lib/api';
+import { useStoreSettings } from '@/hooks/useSettings';
 import toast from 'react-hot-toast';
 
 interface InvoiceData {
@@ -10,7 +12,7 @@ interface InvoiceData {
   invoice_number: string;
   order_number: string;
   issue_date: string;
-  status: 'draft' | 'sent' | 'paid' | 'cancelled';
+  status: 'draft' | 'sent' | 'paid' | 'cancelled' | 'voided';
   payment_method: string;
   subtotal: number;
   discount: number;
@@ -44,6 +46,8 @@ interface InvoiceViewProps {
 export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
   const [invoice, setInvoice] = useState<InvoiceData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pdfLoading, setPdfLoading] = useState(false);
+  const { data: settings } = useStoreSettings();
 
   useEffect(() => {
     loadInvoice();
@@ -51,16 +55,8 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
 
   const loadInvoice = async () => {
     try {
-      const response = await fetch(`/api/invoices/${invoiceId}/details`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-
-      if (!response.ok) throw new Error('Error al cargar factura');
-
-      const data = await response.json();
-      setInvoice(data.data);
+      const response = await api.get<InvoiceData>(`/invoices/${invoiceId}/details`);
+      setInvoice(response.data ?? null);
     } catch (error) {
       console.error('Error loading invoice:', error);
       toast.error('No se pudo cargar la factura');
@@ -69,17 +65,26 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
     }
   };
 
-  const handlePrint = () => {
-    window.open(`/api/invoices/${invoiceId}/print`, '_blank');
+  // El PDF lo genera el servidor; se pide con el token y se abre como blob
+  const handlePrint = async () => {
+    setPdfLoading(true);
+    try {
+      await api.open(`/invoices/${invoiceId}/print`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo abrir la factura');
+    } finally {
+      setPdfLoading(false);
+    }
   };
 
-  const handleDownload = () => {
-    // Open in new tab and trigger browser print dialog
-    const printWindow = window.open(`/api/invoices/${invoiceId}/print`, '_blank');
-    if (printWindow) {
-      printWindow.addEventListener('load', () => {
-        printWindow.print();
-      });
+  const handleDownload = async () => {
+    setPdfLoading(true);
+    try {
+      await api.download(`/invoices/${invoiceId}/pdf`, `factura-${invoice?.invoice_number ?? invoiceId}.pdf`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo descargar la factura');
+    } finally {
+      setPdfLoading(false);
     }
   };
 
@@ -105,6 +110,7 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
     sent: 'bg-blue-500',
     paid: 'bg-green-500',
     cancelled: 'bg-red-500',
+    voided: 'bg-red-500',
   };
 
   const statusLabels = {
@@ -112,6 +118,7 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
     sent: 'Enviada',
     paid: 'Pagada',
     cancelled: 'Cancelada',
+    voided: 'Anulada',
   };
 
   return (
@@ -124,12 +131,15 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
       <div className="bg-black text-white p-6">
         <div className="flex items-start justify-between mb-6">
           <div>
-            <h1 className="text-3xl font-bold mb-2">MELO SPORTT</h1>
-            <p className="text-sm text-gray-300">
-              Cartagena de Indias, Colombia<br />
-              741 Cra. 17, Barrio San Francisco<br />
-              Email: info@melosportt.com
-            </p>
+            <h1 className="text-3xl font-bold mb-2">{settings?.general.store_name ?? 'MELO SPORTT'}</h1>
+            {settings && (
+              <p className="text-sm text-gray-300">
+                {settings.invoicing.legal_name} · NIT {settings.invoicing.nit}-{settings.invoicing.check_digit}<br />
+                {settings.contact.address || settings.invoicing.address}<br />
+                {settings.invoicing.city}, {settings.invoicing.department}<br />
+                Email: {settings.contact.email}
+              </p>
+            )}
           </div>
           <div className="text-right">
             <h2 className="text-2xl font-bold mb-2">FACTURA</h2>
@@ -150,6 +160,7 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
             size="sm"
             leftIcon={<Printer className="w-4 h-4" />}
             onClick={handlePrint}
+            disabled={pdfLoading}
           >
             Imprimir
           </Button>
@@ -158,6 +169,7 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
             size="sm"
             leftIcon={<Download className="w-4 h-4" />}
             onClick={handleDownload}
+            disabled={pdfLoading}
           >
             Descargar
           </Button>
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button } from '@/components/ui/Button';
+import { invoiceService } from '@/lib/services';
+import { cn } from '@/lib/utils';
+import type { NumberingReconciliation } from '@/types';
+
+const documentLabels = {
+  invoice: 'Facturas',
+  credit_note: 'Notas crédito',
+};
+
+// Conciliación de consecutivos: cada número entregado debe tener su documento
+export function NumberingReconciliationPanel() {
+  const [report, setReport] = useState<NumberingReconciliation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const runReconciliation = async () => {
+    setIsLoading(true);
+    try {
+      setReport(await invoiceService.getNumberingReconciliation());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al conciliar la numeración');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-black font-medium">Conciliación de consecutivos</p>
+          <p className="text-gray-600 text-sm">Verifica que no haya números sin documento en cada prefijo</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<RefreshCw className="w-4 h-4" />}
+          isLoading={isLoading}
+          onClick={runReconciliation}
+        >
+          Conciliar
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-3">
+          <div
+            className={cn(
+              'flex items-center gap-2 text-sm font-medium',
+              report.ok ? 'text-green-700' : 'text-red-700'
+            )}
+          >
+            {report.ok ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+            {report.ok ? 'Numeración completa, sin huecos' : 'Se encontraron inconsistencias'}
+            <span className="text-gray-500 font-normal">
+              · {new Date(report.generated_at).toLocaleString('es-CO')}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-4">Prefijo</th>
+                  <th className="py-2 pr-4">Tipo</th>
+                  <th className="py-2 pr-4">Rango emitido</th>
+                  <th className="py-2 pr-4 text-right">Emitidos</th>
+                  <th className="py-2 pr-4 text-right">Anuladas</th>
+                  <th className="py-2">Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.sequences.map((sequence) => (
+                  <tr key={sequence.prefix} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4 font-mono">{sequence.prefix}</td>
+                    <td className="py-2 pr-4">{documentLabels[sequence.document_type]}</td>
+                    <td className="py-2 pr-4 font-mono">
+                      {sequence.last_number >= sequence.first_number
+                        ? `${sequence.first_number} – ${sequence.last_number}`
+                        : 'Sin emitir'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{sequence.issued}</td>
+                    <td className="py-2 pr-4 text-right">{sequence.voided}</td>
+                    <td className="py-2">
+                      {sequence.ok ? (
+                        <span className="text-green-700">OK</span>
+                      ) : (
+                        <div className="text-red-700 space-y-1">
+                          {sequence.missing_count > 0 && (
+                            <p>
+                              {sequence.missing_count} faltantes: {sequence.missing.join(', ')}
+                              {sequence.missing_count > sequence.missing.length && '…'}
+                            </p>
+                          )}
+                          {sequence.outside_counter.length > 0 && (
+                            <p>Fuera del contador: {sequence.outside_counter.join(', ')}</p>
+                          )}
+                          {sequence.out_of_range.length > 0 && (
+                            <p>Fuera del rango autorizado: {sequence.out_of_range.join(', ')}</p>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.unnumbered > 0 && (
+            <p className="text-gray-500 text-xs">
+              {report.unnumbered} facturas anteriores a la numeración DIAN no entran en la conciliación
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
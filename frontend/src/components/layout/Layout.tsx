@@ -1,4 +1,5 @@
-import { Outlet } from 'react-router-dom';
+import { useEffect } from 'react';
+import { Outlet, useLocation, useSearchParams } from 'react-router-dom';
 import { Header } from './Header';
 import { Footer } from './Footer';
 import { CartDrawer } from '@/components/sections/CartDrawer';
@@ -6,8 +7,23 @@ import { ChatWidget } from '@/components/chat/ChatWidget';
 import { WhatsAppButton } from '@/components/chat/WhatsAppButton';
 import { ScrollToTop } from '@/components/ui/ScrollToTop';
 import { PageTransition } from '@/components/animations/PageTransition';
+import { saveReferralCode } from '@/lib/utils';
+import { track } from '@/lib/tracking';
 
 export function Layout() {
+  const [searchParams] = useSearchParams();
+  const referralCode = searchParams.get('ref');
+  const { pathname } = useLocation();
+
+  // Links de vendedores: /?ref=CODIGO atribuye la próxima compra
+  useEffect(() => {
+    saveReferralCode(referralCode);
+  }, [referralCode]);
+
+  useEffect(() => {
+    track('page_view', { path: pathname });
+  }, [pathname]);
+
   return (
     <div className="min-h-screen bg-black text-white flex flex-col">
       {/* Header */}
@@ -1,80 +1,95 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Star, ThumbsUp, User, ChevronDown, ChevronUp } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Textarea } from '@/components/ui/Input';
 import { cn } from '@/lib/utils';
-import type { Review } from '@/types';
+import { reviewService } from '@/lib/services';
+import { useAuthStore } from '@/stores/authStore';
+import toast from 'react-hot-toast';
+import type { Review, RatingSummary } from '@/types';
 
 interface ReviewSectionProps {
   productId: string;
-  reviews?: Review[];
-  averageRating?: number;
-  totalReviews?: number;
 }
 
-// Mock reviews data
-const mockReviews: Review[] = [
-  {
-    id: '1',
-    product_id: '1',
-    user_id: '1',
-    user: { id: '1', email: 'maria@email.com', full_name: 'María García', role: 'customer', created_at: '', updated_at: '' },
-    rating: 5,
-    title: 'Excelente calidad',
-    content: 'La camiseta es de muy buena calidad, el material es suave y cómodo. El envío fue rápido y llegó en perfectas condiciones. Definitivamente volveré a comprar.',
-    is_verified_purchase: true,
-    helpful_count: 12,
-    created_at: '2025-01-15T10:00:00Z',
-  },
-  {
-    id: '2',
-    product_id: '1',
-    user_id: '2',
-    user: { id: '2', email: 'carlos@email.com', full_name: 'Carlos Rodríguez', role: 'customer', created_at: '', updated_at: '' },
-    rating: 4,
-    title: 'Muy buen producto',
-    content: 'Me gustó mucho la calidad del producto. Solo le quito una estrella porque la talla quedó un poco más grande de lo esperado.',
-    is_verified_purchase: true,
-    helpful_count: 8,
-    created_at: '2025-01-10T14:30:00Z',
-  },
-  {
-    id: '3',
-    product_id: '1',
-    user_id: '3',
-    user: { id: '3', email: 'ana@email.com', full_name: 'Ana Martínez', role: 'customer', created_at: '', updated_at: '' },
-    rating: 5,
-    title: '¡Lo recomiendo!',
-    content: 'Increíble relación calidad-precio. El diseño es exactamente como se ve en las fotos y el material es de primera.',
-    is_verified_purchase: true,
-    helpful_count: 5,
-    created_at: '2025-01-05T09:15:00Z',
-  },
-];
+const emptySummary: RatingSummary = {
+  average_rating: 0,
+  review_count: 0,
+  rating_distribution: { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 },
+};
 
-const ratingDistribution = [
-  { stars: 5, count: 45, percentage: 60 },
-  { stars: 4, count: 20, percentage: 27 },
-  { stars: 3, count: 7, percentage: 9 },
-  { stars: 2, count: 2, percentage: 3 },
-  { stars: 1, count: 1, percentage: 1 },
-];
-
-export function ReviewSection({ productId, reviews = mockReviews, averageRating = 4.5, totalReviews = 75 }: ReviewSectionProps) {
+export function ReviewSection({ productId }: ReviewSectionProps) {
+  const { isAuthenticated } = useAuthStore();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [summary, setSummary] = useState<RatingSummary>(emptySummary);
   const [showAllReviews, setShowAllReviews] = useState(false);
   const [isWritingReview, setIsWritingReview] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [newReview, setNewReview] = useState({ rating: 0, title: '', content: '' });
   const [hoverRating, setHoverRating] = useState(0);
 
+  const loadReviews = useCallback(async () => {
+    try {
+      const result = await reviewService.getByProduct(productId);
+      setReviews(result.data);
+      setSummary(result.summary || emptySummary);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
   const displayedReviews = showAllReviews ? reviews : reviews.slice(0, 3);
+  const averageRating = summary.average_rating;
+  const totalReviews = summary.review_count;
+  const ratingDistribution = [5, 4, 3, 2, 1].map((stars) => {
+    const count = summary.rating_distribution[String(stars) as keyof RatingSummary['rating_distribution']] || 0;
+    return {
+      stars,
+      count,
+      percentage: totalReviews > 0 ? Math.round((count / totalReviews) * 100) : 0,
+    };
+  });
+
+  const handleWriteReview = () => {
+    if (!isAuthenticated) {
+      toast.error('Inicia sesión para escribir una reseña');
+      return;
+    }
+    setIsWritingReview(!isWritingReview);
+  };
 
-  const handleSubmitReview = (e: React.FormEvent) => {
+  const handleSubmitReview = async (e: React.FormEvent) => {
     e.preventDefault();
-    // TODO: Submit review to backend
-    console.log('Submitting review:', newReview);
-    setIsWritingReview(false);
-    setNewReview({ rating: 0, title: '', content: '' });
+    setIsSubmitting(true);
+    try {
+      const { message } = await reviewService.create(productId, newReview);
+      toast.success(message || 'Reseña enviada');
+      setIsWritingReview(false);
+      setNewReview({ rating: 0, title: '', content: '' });
+      await loadReviews();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo enviar la reseña');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleHelpful = async (reviewId: string) => {
+    if (!isAuthenticated) {
+      toast.error('Inicia sesión para votar');
+      return;
+    }
+    try {
+      const { helpful_count } = await reviewService.markHelpful(productId, reviewId);
+      setReviews((prev) => prev.map((r) => (r.id === reviewId ? { ...r, helpful_count } : r)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo registrar tu voto');
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -86,8 +101,8 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
   };
 
   return (
-    <section className="py-12 border-t border-primary-800">
-      <div className="container mx-auto px-6">
+    <section>
+      <div>
         <h2 className="text-2xl font-bold text-white mb-8">Reseñas de Clientes</h2>
 
         <div className="grid lg:grid-cols-3 gap-8">
@@ -95,7 +110,7 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
           <div className="lg:col-span-1">
             <div className="bg-primary-900 rounded-2xl p-6 border border-primary-800">
               <div className="text-center mb-6">
-                <p className="text-5xl font-bold text-white mb-2">{averageRating}</p>
+                <p className="text-5xl font-bold text-white mb-2">{averageRating.toFixed(1)}</p>
                 <div className="flex justify-center gap-1 mb-2">
                   {[1, 2, 3, 4, 5].map((star) => (
                     <Star
@@ -130,7 +145,7 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
 
               <Button
                 className="w-full mt-6"
-                onClick={() => setIsWritingReview(!isWritingReview)}
+                onClick={handleWriteReview}
               >
                 Escribir una Reseña
               </Button>
@@ -203,7 +218,7 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
                       <Button type="button" variant="outline" onClick={() => setIsWritingReview(false)}>
                         Cancelar
                       </Button>
-                      <Button type="submit" disabled={newReview.rating === 0}>
+                      <Button type="submit" disabled={newReview.rating === 0 || isSubmitting}>
                         Publicar Reseña
                       </Button>
                     </div>
@@ -213,6 +228,9 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
             </AnimatePresence>
 
             {/* Reviews */}
+            {reviews.length === 0 && (
+              <p className="text-gray-400">Este producto aún no tiene reseñas. ¡Sé el primero en opinar!</p>
+            )}
             <div className="space-y-6">
               {displayedReviews.map((review) => (
                 <motion.div
@@ -255,7 +273,9 @@ export function ReviewSection({ productId, reviews = mockReviews, averageRating
                   <h4 className="font-semibold text-white mb-2">{review.title}</h4>
                   <p className="text-gray-300 mb-4">{review.content}</p>
 
-                  <button className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors text-sm">
+                  <button
+                    onClick={() => handleHelpful(review.id)}
+                    className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors text-sm">
                     <ThumbsUp className="h-4 w-4" />
                     Útil ({review.helpful_count})
                   </button>
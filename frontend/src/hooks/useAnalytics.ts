@@ -25,8 +25,18 @@ export interface AnalyticsDashboardData {
   traffic: {
     totalViews: number;
     totalVisitors: number;
+    sessions: number;
+    bounceRate: number;
     conversionRate: number;
   };
+  // Sesiones que llegaron a cada paso (últimos 30 días)
+  funnel: {
+    sessions: number;
+    productViews: number;
+    addToCart: number;
+    beginCheckout: number;
+    purchases: number;
+  };
   trafficSources: Array<{
     source: string;
     visits: number;
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { botFlowService } from '@/lib/services';
+import type { BotFlowInput } from '@/types';
+
+// WhatsApp bot flow hooks (Admin)
+export function useBotFlows() {
+  return useQuery({
+    queryKey: ['bot-flows'],
+    queryFn: () => botFlowService.getAll(),
+  });
+}
+
+export function useValidateBotFlow() {
+  return useMutation({
+    mutationFn: (definition: unknown) => botFlowService.validate(definition),
+  });
+}
+
+export function useSaveBotFlow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: BotFlowInput }) =>
+      id ? botFlowService.update(id, data) : botFlowService.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bot-flows'] });
+    },
+  });
+}
+
+export function useActivateBotFlow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => botFlowService.activate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bot-flows'] });
+    },
+  });
+}
+
+export function useDeleteBotFlow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => botFlowService.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bot-flows'] });
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { analyticsService, inventoryService } from '@/lib/services';
+import type { InventoryAdjustment } from '@/types';
+
+// Inventory hooks (Admin)
+export function useProductInventoryHistory(productId: string | undefined) {
+  return useQuery({
+    queryKey: ['inventory', 'product', productId],
+    queryFn: () => inventoryService.getProductHistory(productId!),
+    enabled: !!productId,
+  });
+}
+
+export function useAdjustInventory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (adjustment: InventoryAdjustment) => inventoryService.adjust(adjustment),
+    onSuccess: (_movement, adjustment) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory', 'product', adjustment.product_id] });
+      queryClient.invalidateQueries({ queryKey: ['inventory', 'report'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+}
+
+export function useInventoryReport(params: { days?: number; targetDays?: number; limit?: number } = {}) {
+  return useQuery({
+    queryKey: ['inventory', 'report', params],
+    queryFn: () => analyticsService.getInventoryReport(params),
+  });
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { sellerService } from '@/lib/services';
+import type { SellerRegistration, SellerStatus, SellerUpdate } from '@/types';
+
+// Seller program hooks
+export function useMySeller() {
+  return useQuery({
+    queryKey: ['sellers', 'me'],
+    queryFn: () => sellerService.getMine(),
+  });
+}
+
+export function useSellerDashboard(enabled = true) {
+  return useQuery({
+    queryKey: ['sellers', 'me', 'dashboard'],
+    queryFn: () => sellerService.getDashboard(),
+    enabled,
+  });
+}
+
+export function useRegisterSeller() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SellerRegistration) => sellerService.register(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sellers', 'me'] });
+    },
+  });
+}
+
+// Admin
+export function useSellers(status?: SellerStatus) {
+  return useQuery({
+    queryKey: ['sellers', 'list', status],
+    queryFn: () => sellerService.getAll(status),
+  });
+}
+
+export function useUpdateSeller() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SellerUpdate }) => sellerService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sellers', 'list'] });
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { settingsService } from '@/lib/services';
+import type { StoreSettings, StoreSettingsKey } from '@/types';
+
+// Respaldo mientras cargan los ajustes o si aún no se configuró el número
+const FALLBACK_WHATSAPP_NUMBER = import.meta.env.VITE_WHATSAPP_NUMBER || '+573044155473';
+
+// Store settings hooks
+export function useStoreSettings() {
+  return useQuery({
+    queryKey: ['settings'],
+    queryFn: () => settingsService.getAll(),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useStoreSetting<K extends StoreSettingsKey>(key: K) {
+  return useQuery({
+    queryKey: ['settings'],
+    queryFn: () => settingsService.getAll(),
+    staleTime: 1000 * 60 * 5,
+    select: (settings: StoreSettings) => settings[key],
+  });
+}
+
+export function useWhatsAppNumber() {
+  const { data: contact } = useStoreSetting('contact');
+  return contact?.whatsapp || FALLBACK_WHATSAPP_NUMBER;
+}
+
+export function useSettingsHistory(key: StoreSettingsKey, enabled = true) {
+  return useQuery({
+    queryKey: ['settings', 'history', key],
+    queryFn: () => settingsService.getHistory(key, 20),
+    enabled,
+  });
+}
+
+export function useUpdateSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ key, value }: { key: StoreSettingsKey; value: StoreSettings[StoreSettingsKey] }) =>
+      settingsService.update(key, value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+}
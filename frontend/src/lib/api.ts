@@ -232,6 +232,69 @@ class ApiClient {
       throw new Error('Network error');
     }
   }
+
+  // GET autenticado de un archivo binario; los errores llegan como JSON
+  private async fetchFile(endpoint: string): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const token = localStorage.getItem('melo_sportt_token');
+
+    const headers: HeadersInit = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(url, { headers });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        this.setToken(null);
+        localStorage.removeItem('melo-sportt-auth');
+        window.dispatchEvent(new CustomEvent('melo:unauthorized'));
+      }
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || data?.message || 'Download failed');
+    }
+
+    return response;
+  }
+
+  // Descarga un archivo (CSV, PDF) y lo guarda con el nombre que envía el servidor
+  async download(endpoint: string, fallbackFilename: string): Promise<void> {
+    const response = await this.fetchFile(endpoint);
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="?([^";]+)"?/)?.[1] || fallbackFilename;
+
+    const blobUrl = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(blobUrl);
+  }
+
+  // Abre un archivo (PDF) en una pestaña nueva para verlo o imprimirlo.
+  // La pestaña se abre antes del fetch para que el navegador no la bloquee.
+  async open(endpoint: string): Promise<void> {
+    const tab = window.open('', '_blank');
+
+    try {
+      const response = await this.fetchFile(endpoint);
+      const blobUrl = URL.createObjectURL(await response.blob());
+      if (tab) {
+        tab.location.href = blobUrl;
+      } else {
+        window.location.href = blobUrl;
+      }
+      // La pestaña ya cargó el blob; liberar la URL más tarde
+      setTimeout(() => URL.revokeObjectURL(blobUrl), 60000);
+    } catch (error) {
+      tab?.close();
+      throw error;
+    }
+  }
 }
 
 export const api = new ApiClient(API_URL);
@@ -19,6 +19,30 @@ import type {
   MonthlyRevenue,
   SalesByGender,
   SalesOverview,
+  Review,
+  RatingSummary,
+  StoreSettings,
+  StoreSettingsKey,
+  SettingsAuditEntry,
+  NumberingReconciliation,
+  ShippingDestination,
+  ShippingQuote,
+  ShippingConfig,
+  ShippingServiceConfig,
+  ShippingRate,
+  InventoryMovement,
+  InventoryAdjustment,
+  ProductInventoryHistory,
+  InventoryReport,
+  Seller,
+  SellerDashboard,
+  SellerRegistration,
+  SellerUpdate,
+  SellerStatus,
+  BotFlow,
+  BotFlowDefinition,
+  BotFlowInput,
+  BotFlowValidation,
 } from '@/types';
 
 // ============================================
@@ -72,6 +96,10 @@ export const authService = {
     await api.post('/auth/reset-password', { email });
   },
 
+  async confirmPasswordReset(token: string, password: string) {
+    await api.post('/auth/reset-password/confirm', { token, password });
+  },
+
   async updatePassword(newPassword: string) {
     await api.put('/auth/password', { newPassword });
   },
@@ -192,6 +220,40 @@ export const productService = {
   },
 };
 
+// ============================================
+// REVIEWS SERVICE
+// ============================================
+
+export const reviewService = {
+  async getByProduct(productId: string, filters?: { sort_by?: string; limit?: number; offset?: number }) {
+    const params: Record<string, string> = {};
+    if (filters?.sort_by) params.sort_by = filters.sort_by;
+    if (filters?.limit !== undefined) params.limit = String(filters.limit);
+    if (filters?.offset !== undefined) params.offset = String(filters.offset);
+
+    // El listado incluye el resumen de calificaciones junto a las reseñas
+    const response: { data?: Review[]; count?: number; summary?: RatingSummary } =
+      await api.get<Review[]>(`/products/${productId}/reviews`, params);
+    return {
+      data: response.data || [],
+      count: response.count || 0,
+      summary: response.summary,
+    };
+  },
+
+  async create(productId: string, review: { rating: number; title?: string; content?: string }) {
+    const response = await api.post<Review>(`/products/${productId}/reviews`, review);
+    return { review: response.data!, message: response.message };
+  },
+
+  async markHelpful(productId: string, reviewId: string) {
+    const response = await api.post<{ helpful_count: number; voted: boolean }>(
+      `/products/${productId}/reviews/${reviewId}/helpful`
+    );
+    return response.data!;
+  },
+};
+
 // ============================================
 // CATEGORIES SERVICE
 // ============================================
@@ -279,6 +341,16 @@ export const orderService = {
     const response = await api.post('/orders/confirm-payment', { paymentIntentId, orderId });
     return response.data;
   },
+
+  // Guía de envío + lista de empaque en PDF (admin)
+  async openPackingSlip(id: string) {
+    await api.open(`/orders/${id}/packing-slip`);
+  },
+
+  // Todas las guías de los pedidos confirmados hoy en un solo PDF
+  async openTodayPackingSlips() {
+    await api.open('/orders/packing-slips/today');
+  },
 };
 
 // ============================================
@@ -618,6 +690,17 @@ export const analyticsService = {
     const response = await api.get<SalesByGender[]>('/analytics/sales-by-gender');
     return response.data || [];
   },
+
+  // Get reorder report ranked by days of cover
+  async getInventoryReport(params: { days?: number; targetDays?: number; limit?: number } = {}) {
+    const query: Record<string, string> = {};
+    if (params.days) query.days = params.days.toString();
+    if (params.targetDays) query.target_days = params.targetDays.toString();
+    if (params.limit) query.limit = params.limit.toString();
+
+    const response = await api.get<InventoryReport>('/analytics/inventory', query);
+    return response.data!;
+  },
 };
 
 // ============================================
@@ -636,4 +719,177 @@ export const storageService = {
     // TODO: Implement file deletion through backend
     throw new Error('File deletion not implemented.');
   },
-};
\ No newline at end of file
+};
+
+// ============================================
+// STORE SETTINGS SERVICE
+// ============================================
+
+export const settingsService = {
+  async getAll() {
+    const response = await api.get<StoreSettings>('/settings');
+    return response.data!;
+  },
+
+  async get<K extends StoreSettingsKey>(key: K) {
+    const response = await api.get<StoreSettings[K]>(`/settings/${key}`);
+    return response.data!;
+  },
+
+  async update<K extends StoreSettingsKey>(key: K, value: StoreSettings[K]) {
+    const response = await api.put<StoreSettings[K]>(`/settings/${key}`, value);
+    return response.data!;
+  },
+
+  async getHistory(key: StoreSettingsKey, limit?: number) {
+    const params = limit ? { limit: String(limit) } : undefined;
+    const response = await api.get<SettingsAuditEntry[]>(`/settings/${key}/history`, params);
+    return response.data || [];
+  },
+};
+
+// ============================================
+// SHIPPING SERVICE
+// ============================================
+
+export const shippingService = {
+  // Opciones de envío y totales del carrito para el destino (misma cotización que valida la orden)
+  async quote(data: {
+    items: Array<{ product_id: string; variant_id?: string; quantity: number; selected_accessories?: string[] }>;
+    destination?: ShippingDestination;
+    shipping_method?: string;
+  }) {
+    const response = await api.post<ShippingQuote>('/shipping/quote', data);
+    return response.data!;
+  },
+
+  async getConfig() {
+    const response = await api.get<ShippingConfig>('/shipping/config');
+    return response.data!;
+  },
+
+  async updateService(id: string, changes: Partial<Omit<ShippingServiceConfig, 'id' | 'carrier_id' | 'carrier_code' | 'carrier_name' | 'code'>>) {
+    const response = await api.patch<ShippingServiceConfig>(`/shipping/services/${id}`, changes);
+    return response.data!;
+  },
+
+  async replaceRates(
+    serviceId: string,
+    zoneId: string,
+    rates: Array<Omit<ShippingRate, 'id' | 'service_id' | 'zone_id'>>
+  ) {
+    const response = await api.put<ShippingRate[]>(`/shipping/services/${serviceId}/zones/${zoneId}/rates`, { rates });
+    return response.data || [];
+  },
+};
+
+// ============================================
+// INVOICE SERVICE
+// ============================================
+
+export const invoiceService = {
+  async getNumberingReconciliation() {
+    const response = await api.get<NumberingReconciliation>('/invoices/numbering/reconciliation');
+    return response.data!;
+  },
+
+  // Anula una factura emitida: el backend emite la nota crédito vinculada
+  async voidInvoice(id: string, reason: string) {
+    const response = await api.post(`/invoices/${id}/void`, { reason });
+    return response.data;
+  },
+};
+
+// ============================================
+// INVENTORY SERVICE
+// ============================================
+
+export const inventoryService = {
+  async getProductHistory(productId: string, limit = 50) {
+    const response = await api.get<ProductInventoryHistory>(`/inventory/products/${productId}/movements`, {
+      limit: String(limit),
+    });
+    return response.data!;
+  },
+
+  async getMovements(params?: Record<string, string>) {
+    const response = await api.get<InventoryMovement[]>('/inventory/movements', params);
+    return { data: response.data || [], count: response.count || 0 };
+  },
+
+  async adjust(adjustment: InventoryAdjustment) {
+    const response = await api.post<InventoryMovement>('/inventory/adjustments', adjustment);
+    return response.data!;
+  },
+};
+
+// ============================================
+// SELLER SERVICE
+// ============================================
+
+export const sellerService = {
+  async getMine() {
+    const response = await api.get<Seller | null>('/sellers/me');
+    return response.data ?? null;
+  },
+
+  async getDashboard() {
+    const response = await api.get<SellerDashboard>('/sellers/me/dashboard');
+    return response.data!;
+  },
+
+  async register(data: SellerRegistration) {
+    const response = await api.post<Seller>('/sellers/register', data);
+    return response.data!;
+  },
+
+  async getAll(status?: SellerStatus) {
+    const response = await api.get<Seller[]>('/sellers', status ? { status } : undefined);
+    return response.data || [];
+  },
+
+  async update(id: string, data: SellerUpdate) {
+    const response = await api.patch<Seller>(`/sellers/${id}`, data);
+    return response.data!;
+  },
+};
+
+// ============================================
+// BOT FLOW SERVICE
+// ============================================
+
+export const botFlowService = {
+  async getAll() {
+    const response = await api.get<BotFlow[]>('/bot-flows');
+    return response.data || [];
+  },
+
+  async getDefault() {
+    const response = await api.get<BotFlowDefinition>('/bot-flows/default');
+    return response.data!;
+  },
+
+  async validate(definition: unknown) {
+    const response = await api.post<BotFlowValidation>('/bot-flows/validate', { definition });
+    return response.data!;
+  },
+
+  async create(data: BotFlowInput) {
+    const response = await api.post<BotFlow & { validation: BotFlowValidation }>('/bot-flows', data);
+    return response.data!;
+  },
+
+  async update(id: string, data: BotFlowInput) {
+    const response = await api.put<BotFlow & { validation: BotFlowValidation }>(`/bot-flows/${id}`, data);
+    return response.data!;
+  },
+
+  async activate(id: string) {
+    const response = await api.post<BotFlow>(`/bot-flows/${id}/activate`);
+    return response.data!;
+  },
+
+  async delete(id: string) {
+    await api.delete(`/bot-flows/${id}`);
+  },
+};
@@ -0,0 +1,148 @@
+// ============================================
+// MELO SPORTT - TRAFFIC TRACKING
+// ============================================
+// First-party funnel events sent to /api/analytics/events
+
+import { api } from './api';
+import { storage } from './utils';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+const VISITOR_STORAGE_KEY = 'melo_sportt_visitor';
+const SESSION_STORAGE_KEY = 'melo_sportt_session';
+
+// A session ends after 30 minutes without events
+const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 20;
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export type TrackingEventType = 'page_view' | 'product_view' | 'add_to_cart' | 'begin_checkout' | 'purchase';
+
+interface TrackingEvent {
+  type: TrackingEventType;
+  path?: string;
+  product_id?: string;
+  order_id?: string;
+  order_number?: string;
+  occurred_at: string;
+}
+
+type Attribution = Partial<Record<(typeof UTM_PARAMS)[number] | 'referrer', string>>;
+
+interface TrackingSession {
+  id: string;
+  lastSeen: number;
+  attribution: Attribution;
+}
+
+const queue: TrackingEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function newId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function visitorId(): string {
+  let id = storage.get<string | null>(VISITOR_STORAGE_KEY, null);
+  if (!id) {
+    id = newId();
+    storage.set(VISITOR_STORAGE_KEY, id);
+  }
+  return id;
+}
+
+// UTM params and external referrer of the landing page
+function landingAttribution(): Attribution {
+  const params = new URLSearchParams(window.location.search);
+  const attribution: Attribution = {};
+
+  for (const key of UTM_PARAMS) {
+    const value = params.get(key)?.trim();
+    if (value) attribution[key] = value.slice(0, 100);
+  }
+
+  try {
+    if (document.referrer && new URL(document.referrer).host !== window.location.host) {
+      attribution.referrer = document.referrer.slice(0, 500);
+    }
+  } catch {
+    // Invalid referrer: counted as direct traffic
+  }
+
+  return attribution;
+}
+
+// Current session, renewed after inactivity or when arriving from a new campaign
+function currentSession(): TrackingSession {
+  const now = Date.now();
+  const saved = storage.get<TrackingSession | null>(SESSION_STORAGE_KEY, null);
+  const landing = landingAttribution();
+  const newCampaign = landing.utm_source && landing.utm_source !== saved?.attribution.utm_source;
+
+  const session = saved && now - saved.lastSeen < SESSION_TIMEOUT_MS && !newCampaign
+    ? { ...saved, lastSeen: now }
+    : { id: newId(), lastSeen: now, attribution: landing };
+
+  storage.set(SESSION_STORAGE_KEY, session);
+  return session;
+}
+
+function flush(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+
+  const events = queue.splice(0, MAX_BATCH);
+  const session = storage.get<TrackingSession | null>(SESSION_STORAGE_KEY, null) ?? currentSession();
+  const token = api.getToken();
+
+  // keepalive lets the last batch survive a page unload
+  fetch(`${API_URL}/analytics/events`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({
+      session_id: session.id,
+      visitor_id: visitorId(),
+      attribution: session.attribution,
+      events,
+    }),
+    keepalive: true,
+  }).catch(() => {
+    // Tracking failures never affect the store
+  });
+
+  if (queue.length > 0) flush();
+}
+
+export function track(type: TrackingEventType, data: Omit<TrackingEvent, 'type' | 'occurred_at'> = {}): void {
+  if (typeof window === 'undefined') return;
+
+  // Resolve the session now, while the landing URL still has its UTM params
+  currentSession();
+
+  queue.push({
+    type,
+    path: data.path ?? window.location.pathname,
+    ...data,
+    occurred_at: new Date().toISOString(),
+  });
+
+  if (queue.length >= MAX_BATCH) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', flush);
+}
@@ -343,3 +343,23 @@ export function formatCategoryName(name: string | undefined | null): string {
   }
   return name;
 }
+
+// Referral code (?ref=CODE) from a seller link, kept for 30 days
+const REFERRAL_STORAGE_KEY = 'melo_sportt_referral';
+const REFERRAL_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function saveReferralCode(code: string | null | undefined): void {
+  const value = code?.trim();
+  if (!value) return;
+  storage.set(REFERRAL_STORAGE_KEY, { code: value.toUpperCase(), savedAt: Date.now() });
+}
+
+export function getReferralCode(): string | undefined {
+  const saved = storage.get<{ code: string; savedAt: number } | null>(REFERRAL_STORAGE_KEY, null);
+  if (!saved) return undefined;
+  if (Date.now() - saved.savedAt > REFERRAL_TTL_MS) {
+    storage.remove(REFERRAL_STORAGE_KEY);
+    return undefined;
+  }
+  return saved.code;
+}
@@ -28,11 +28,12 @@ import { Input, Select, Textarea } from '@/components/ui/Input';
 import PhoneInput from '@/components/ui/PhoneInput';
 import { useCartStore } from '@/stores/cartStore';
 import { useAuthStore } from '@/stores/authStore';
-import { formatCurrency, generateOrderNumber } from '@/lib/utils';
-import { orderService } from '@/lib/services';
+import { formatCurrency, generateOrderNumber, getReferralCode } from '@/lib/utils';
+import { orderService, shippingService } from '@/lib/services';
+import { track } from '@/lib/tracking';
 import { cn } from '@/lib/utils';
 import { WompiPayment } from '@/components/checkout/WompiPayment';
-import type { CartItem } from '@/types';
+import type { CartItem, ShippingOption, ShippingQuote } from '@/types';
 
 
 // Form schemas
@@ -58,12 +59,6 @@ const steps = [
   { id: 'confirmation', name: 'Confirmación', icon: Check },
 ];
 
-const shippingMethods = [
-  { id: 'standard', name: 'Envío Estándar', price: 15000, days: '5-7 días hábiles' },
-  { id: 'express', name: 'Envío Express', price: 35000, days: '2-3 días hábiles' },
-  { id: 'overnight', name: 'Envío Prioritario', price: 60000, days: '1 día hábil' },
-];
-
 const countries = [
   { value: 'CO', label: 'Colombia' },
   { value: 'MX', label: 'México' },
@@ -77,11 +72,20 @@ const countries = [
   { value: 'ES', label: 'España' },
 ];
 
+const formatDeliveryDays = (option: ShippingOption) => {
+  if (option.delivery_days_min === 0) {
+    return option.delivery_days_max <= 1 ? 'Mismo día o siguiente día hábil' : `Hasta ${option.delivery_days_max} días hábiles`;
+  }
+  return option.delivery_days_min === option.delivery_days_max
+    ? `${option.delivery_days_max} ${option.delivery_days_max === 1 ? 'día hábil' : 'días hábiles'}`
+    : `${option.delivery_days_min}-${option.delivery_days_max} días hábiles`;
+};
+
 
 export function CheckoutPage() {
   const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState(0);
-  const [shippingMethod, setShippingMethod] = useState('standard');
+  const [shippingMethod, setShippingMethod] = useState('');
   const [shippingData, setShippingData] = useState<ShippingFormData | null>(null);
   const [orderNumber, setOrderNumber] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -101,17 +105,12 @@ export function CheckoutPage() {
   const { items, getSubtotal, clearCart } = useCartStore();
   const { user, isAuthenticated } = useAuthStore();
 
-  const subtotal = getSubtotal();
-  const selectedShipping = shippingMethods.find((m) => m.id === shippingMethod);
-  const shippingCost = subtotal >= 200000 ? 0 : (selectedShipping?.price || 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const total = subtotal + shippingCost + tax;
-
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    watch,
   } = useForm<ShippingFormData>({
     resolver: zodResolver(shippingSchema),
     defaultValues: {
@@ -119,6 +118,59 @@ export function CheckoutPage() {
     },
   });
 
+  // Opciones de envío cotizadas por el backend para el carrito y el destino
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const city = watch('city');
+  const department = watch('state');
+
+  useEffect(() => {
+    if (items.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const quote = await shippingService.quote({
+          items: items.map((item) => ({
+            product_id: item.product.id,
+            variant_id: item.variant?.id,
+            quantity: item.quantity,
+            selected_accessories: item.selected_accessories,
+          })),
+          destination: { department, city },
+        });
+        if (!cancelled) {
+          setShippingQuote(quote);
+          setQuoteError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setShippingQuote(null);
+          setQuoteError(error instanceof Error ? error.message : 'No se pudo cotizar el envío');
+        }
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [items, city, department]);
+
+  const shippingOptions = shippingQuote?.options ?? [];
+  const freeShippingThreshold = shippingQuote?.free_shipping_threshold ?? Infinity;
+
+  const subtotal = getSubtotal();
+  // Si el destino cambia y el servicio elegido ya no llega, se toma el más barato
+  const selectedShipping = shippingOptions.find((option) => option.code === shippingMethod) ?? shippingOptions[0];
+  const shippingCost = selectedShipping?.cost ?? 0;
+  const tax = subtotal * 0.08; // 8% tax
+  const total = subtotal + shippingCost + tax;
+
   // Pre-fill form if user is authenticated
   useEffect(() => {
     if (isAuthenticated && user) {
@@ -126,6 +178,15 @@ export function CheckoutPage() {
     }
   }, [isAuthenticated, user, setValue]);
 
+  // Funnel: the customer reached checkout with items in the cart (once per visit)
+  const checkoutTracked = useRef(false);
+  useEffect(() => {
+    if (!checkoutTracked.current && items.length > 0) {
+      checkoutTracked.current = true;
+      track('begin_checkout');
+    }
+  }, [items.length]);
+
   // Redirect if cart is empty (but not after payment success)
   useEffect(() => {
     if (items.length === 0 && currentStep !== 2 && !isPaymentSuccess) {
@@ -134,6 +195,10 @@ export function CheckoutPage() {
   }, [items, currentStep, navigate, isPaymentSuccess]);
 
   const onShippingSubmit = (data: ShippingFormData) => {
+    if (!selectedShipping) {
+      toast.error(quoteError || 'Selecciona un método de envío');
+      return;
+    }
     setShippingData(data);
     // Capture order data when moving to payment step to prevent stale data in callbacks
     orderDataRef.current = {
@@ -147,10 +212,14 @@ export function CheckoutPage() {
   };
 
   const handleCashOnDelivery = async () => {
-    if (!shippingData) {
+    if (!shippingData || !selectedShipping) {
       toast.error('Por favor completa la información de envío');
       return;
     }
+    if (!selectedShipping.cash_on_delivery) {
+      toast.error(`${selectedShipping.name} no recibe pago contra entrega`);
+      return;
+    }
 
     const newOrderNumber = generateOrderNumber();
     setOrderNumber(newOrderNumber);
@@ -158,8 +227,7 @@ export function CheckoutPage() {
 
     try {
       const subtotal = getSubtotal();
-      const selectedShipping = shippingMethods.find((m) => m.id === shippingMethod);
-      const shippingCost = subtotal >= 200000 ? 0 : (selectedShipping?.price || 0);
+      const shippingCost = selectedShipping.cost;
       const tax = subtotal * 0.08;
       const total = subtotal + shippingCost + tax;
 
@@ -174,6 +242,8 @@ export function CheckoutPage() {
         status: 'pending' as const,
         payment_status: 'pending' as const,
         payment_method: 'cash_on_delivery',
+        shipping_method: selectedShipping.code,
+        referral_code: getReferralCode(),
         shipping_address: {
           email: shippingData.email,
           firstName: shippingData.firstName,
@@ -191,10 +261,12 @@ export function CheckoutPage() {
           variant_id: item.variant?.id,
           quantity: item.quantity,
           price: typeof item.price === 'number' ? item.price : parseFloat(item.price),
+          selected_accessories: item.selected_accessories,
         })),
       } as any;
 
-      await orderService.create(orderData);
+      const order = await orderService.create(orderData);
+      track('purchase', { order_id: order.id });
 
       setCurrentStep(2);
       setUsedPaymentMethod('cash_on_delivery');
@@ -208,7 +280,9 @@ export function CheckoutPage() {
     }
   };
 
-  const handlePaymentSuccess = async (paymentId: string) => {
+  const handlePaymentSuccess = async (paymentId: string, reference: string) => {
+    track('purchase', { order_number: reference });
+
     // The order was already created by the backend during prepareTransaction
     // and will be updated to 'paid' status by the webhook.
     // We need to navigate to the success page with all required parameters.
@@ -408,13 +482,19 @@ export function CheckoutPage() {
                       <h3 className="text-lg font-medium text-white mb-4 mt-8">
                         Método de Envío
                       </h3>
+                      {shippingQuote && (
+                        <p className="text-sm text-gray-400 mb-3">
+                          Zona {shippingQuote.zone.name} · paquete de {(shippingQuote.weight_g / 1000).toLocaleString('es-CO')} kg
+                          {isQuoting && ' · actualizando…'}
+                        </p>
+                      )}
                       <div className="space-y-3">
-                        {shippingMethods.map((method) => (
+                        {shippingOptions.map((option) => (
                           <label
-                            key={method.id}
+                            key={option.code}
                             className={cn(
                               'flex items-center justify-between p-4 bg-primary-900 rounded-lg cursor-pointer border-2 transition-colors',
-                              shippingMethod === method.id
+                              selectedShipping?.code === option.code
                                 ? 'border-white'
                                 : 'border-transparent hover:border-primary-700'
                             )}
@@ -423,39 +503,45 @@ export function CheckoutPage() {
                               <input
                                 type="radio"
                                 name="shippingMethod"
-                                value={method.id}
-                                checked={shippingMethod === method.id}
-                                onChange={() => setShippingMethod(method.id)}
+                                value={option.code}
+                                checked={selectedShipping?.code === option.code}
+                                onChange={() => setShippingMethod(option.code)}
                                 className="sr-only"
                               />
                               <div
                                 className={cn(
                                   'w-5 h-5 rounded-full border-2 flex items-center justify-center',
-                                  shippingMethod === method.id
+                                  selectedShipping?.code === option.code
                                     ? 'border-white bg-white'
                                     : 'border-gray-500'
                                 )}
                               >
-                                {shippingMethod === method.id && (
+                                {selectedShipping?.code === option.code && (
                                   <div className="w-2 h-2 rounded-full bg-black" />
                                 )}
                               </div>
                               <div>
-                                <p className="text-white font-medium">{method.name}</p>
-                                <p className="text-gray-400 text-sm">{method.days}</p>
+                                <p className="text-white font-medium">{option.name}</p>
+                                <p className="text-gray-400 text-sm">
+                                  {option.carrier_name} · {formatDeliveryDays(option)}
+                                  {!option.cash_on_delivery && ' · sin contra entrega'}
+                                </p>
                               </div>
                             </div>
                             <span className="text-white font-medium">
-                              {subtotal >= 200000 && method.id === 'standard'
-                                ? 'GRATIS'
-                                : formatCurrency(method.price)}
+                              {option.free ? 'GRATIS' : formatCurrency(option.cost)}
                             </span>
                           </label>
                         ))}
+                        {!shippingQuote && (
+                          <p className="text-sm text-gray-400">
+                            {isQuoting ? 'Calculando opciones de envío…' : quoteError || 'Ingresa tu ciudad y departamento para ver las opciones de envío'}
+                          </p>
+                        )}
                       </div>
-                      {subtotal < 200000 && (
+                      {shippingQuote && subtotal < freeShippingThreshold && (
                         <p className="text-sm text-gray-400 mt-2">
-                          Agrega {formatCurrency(200000 - subtotal)} más para envío estándar gratis
+                          Agrega {formatCurrency(freeShippingThreshold - subtotal)} más para envío gratis en los servicios participantes
                         </p>
                       )}
                     </div>
@@ -580,8 +666,9 @@ export function CheckoutPage() {
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
                         onClick={() => setPaymentMethod('cash_on_delivery')}
+                        disabled={!selectedShipping?.cash_on_delivery}
                         className={cn(
-                          'p-4 rounded-lg border-2 transition-all text-left',
+                          'p-4 rounded-lg border-2 transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed',
                           paymentMethod === 'cash_on_delivery'
                             ? 'border-white bg-white/10'
                             : 'border-primary-700 bg-primary-800 hover:border-primary-600'
@@ -595,6 +682,11 @@ export function CheckoutPage() {
                               <p className="text-sm text-gray-300 mb-2">
                                 Paga en efectivo cuando recibas tu pedido
                               </p>
+                              {selectedShipping && !selectedShipping.cash_on_delivery && (
+                                <p className="text-xs text-yellow-400 mb-2">
+                                  No disponible con {selectedShipping.name}
+                                </p>
+                              )}
                               <ul className="text-xs text-gray-400 space-y-1">
                                 <li>✓ Paga al recibir tu producto</li>
                                 <li>✓ Solo efectivo</li>
@@ -649,6 +741,7 @@ export function CheckoutPage() {
                         unit_price: item.price,
                         product_id: item.product.id, // Para crear orden en backend
                         variant_id: item.variant?.id,
+                        selected_accessories: item.selected_accessories,
                       }))}
                       customerEmail={shippingData?.email || ''}
                       shippingAddress={shippingData ? {
@@ -664,6 +757,7 @@ export function CheckoutPage() {
                       subtotal={subtotal}
                       shippingCost={shippingCost}
                       tax={tax}
+                      shippingMethod={selectedShipping?.code}
                       onSuccess={handlePaymentSuccess}
                       onBack={() => setCurrentStep(0)}
                       isProcessing={isProcessing}
@@ -789,7 +883,7 @@ export function CheckoutPage() {
                               <div className="flex-1">
                                 <p className="text-gray-300 text-sm sm:text-base">
                                   Tiempo estimado de entrega:
-                                  <span className="text-white font-medium"> {selectedShipping?.days}</span>
+                                  <span className="text-white font-medium"> {selectedShipping && formatDeliveryDays(selectedShipping)}</span>
                                 </p>
                               </div>
                             </li>
@@ -905,7 +999,9 @@ export function CheckoutPage() {
                   </div>
                   <div className="flex justify-between text-gray-400">
                     <span>Envío</span>
-                    <span>{shippingCost === 0 ? 'GRATIS' : formatCurrency(shippingCost)}</span>
+                    <span>
+                      {!selectedShipping ? 'Por calcular' : selectedShipping.free ? 'GRATIS' : formatCurrency(shippingCost)}
+                    </span>
                   </div>
                   <div className="flex justify-between text-gray-400">
                     <span>Impuestos</span>
@@ -5,6 +5,8 @@ import { Package, Check, ShieldCheck, PackageOpen, Truck, Clock, Store, HeadsetI
 import { Button } from '@/components/ui/Button';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
+import { useStoreSetting, useWhatsAppNumber } from '@/hooks/useSettings';
+import { formatPhoneForWhatsApp } from '@/lib/utils';
 
 export function CheckoutSuccessPage() {
   const navigate = useNavigate();
@@ -12,6 +14,8 @@ export function CheckoutSuccessPage() {
   const [isVerifying, setIsVerifying] = useState(true);
   const [paymentStatus, setPaymentStatus] = useState<'success' | 'pending' | 'error'>('pending');
   const [orderNumber, setOrderNumber] = useState('');
+  const { data: contact } = useStoreSetting('contact');
+  const whatsappNumber = useWhatsAppNumber();
 
   const paymentId = searchParams.get('payment_id');
   const externalReference = searchParams.get('external_reference');
@@ -386,15 +390,15 @@ export function CheckoutSuccessPage() {
               </motion.a>
               <motion.a
                 whileHover={{ scale: 1.05, color: '#fff' }}
-                href="tel:+573001234567"
+                href={`tel:+${formatPhoneForWhatsApp(contact?.phone || whatsappNumber)}`}
                 className="flex items-center gap-2"
               >
                 <Phone className="h-4 w-4" />
-                +57 300 123 4567
+                {contact?.phone || whatsappNumber}
               </motion.a>
               <motion.a
                 whileHover={{ scale: 1.05, color: '#fff' }}
-                href="https://wa.me/573001234567"
+                href={`https://wa.me/${formatPhoneForWhatsApp(whatsappNumber)}`}
                 className="flex items-center gap-2"
               >
                 <HeadsetIcon className="h-4 w-4" />
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Swiper, SwiperSlide } from 'swiper/react';
@@ -28,11 +28,13 @@ import toast from 'react-hot-toast';
 import { AnimatedSection, StaggerContainer, StaggerItem } from '@/components/animations/AnimatedSection';
 import { Button, IconButton } from '@/components/ui/Button';
 import { ProductCard } from '@/components/ui/ProductCard';
+import { ReviewSection } from '@/components/ui/ReviewSection';
 import { useCartStore } from '@/stores/cartStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useToggleWishlist, useWishlistIds } from '@/hooks/useWishlist';
 import { useProduct, useRelatedProducts } from '@/hooks/useProducts';
 import { cn, formatCurrency, calculateDiscount, formatCategoryName } from '@/lib/utils';
+import { track } from '@/lib/tracking';
 import type { Product, ProductVariant } from '@/types';
 
 export function ProductPage() {
@@ -54,6 +56,11 @@ export function ProductPage() {
 
   // Fetch product by slug from API
   const { data: product, isLoading, error } = useProduct(slug || '');
+  const productId = product?.id;
+
+  useEffect(() => {
+    if (productId) track('product_view', { product_id: productId });
+  }, [productId]);
 
   const { data: wishlistIds } = useWishlistIds(userId);
   const { toggle } = useToggleWishlist(userId);
@@ -138,11 +145,9 @@ export function ProductPage() {
     }
   };
 
-  // Get reviews from product (if available)
-  const reviews = (product as any).reviews || [];
-  const averageRating = reviews.length > 0
-    ? reviews.reduce((acc: number, r: any) => acc + (r.rating || 0), 0) / reviews.length
-    : 0;
+  // Calificación agregada calculada por el backend (solo reseñas aprobadas)
+  const averageRating = product.average_rating || 0;
+  const reviewCount = product.review_count || 0;
 
   return (
     <div className="min-h-screen bg-black">
@@ -283,7 +288,7 @@ export function ProductPage() {
                 </h1>
 
                 {/* Rating */}
-                {reviews.length > 0 && (
+                {reviewCount > 0 && (
                   <div className="flex items-center gap-4 mb-6">
                     <div className="flex items-center gap-1">
                       {[...Array(5)].map((_, i) => (
@@ -303,7 +308,7 @@ export function ProductPage() {
                       onClick={() => setActiveTab('reviews')}
                       className="text-gray-400 hover:text-white transition-colors underline"
                     >
-                      {reviews.length} reviews
+                      {reviewCount} reviews
                     </button>
                   </div>
                 )}
@@ -616,7 +621,7 @@ export function ProductPage() {
                 activeTab === 'reviews' ? 'text-white' : 'text-gray-400 hover:text-white'
               )}
             >
-              Reviews {reviews.length > 0 && `(${reviews.length})`}
+              Reviews {reviewCount > 0 && `(${reviewCount})`}
               {activeTab === 'reviews' && (
                 <motion.div
                   layoutId="activeTab"
@@ -647,96 +652,7 @@ export function ProductPage() {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
               >
-                {reviews.length > 0 ? (
-                  <>
-                    {/* Reviews summary */}
-                    <div className="flex items-center gap-8 mb-8 p-6 bg-primary-900 rounded-xl">
-                      <div className="text-center">
-                        <div className="text-5xl font-bold text-white mb-2">{averageRating.toFixed(1)}</div>
-                        <div className="flex justify-center gap-1 mb-1">
-                          {[...Array(5)].map((_, i) => (
-                            <Star
-                              key={i}
-                              className={cn(
-                                'h-4 w-4',
-                                i < Math.round(averageRating)
-                                  ? 'text-yellow-400 fill-yellow-400'
-                                  : 'text-gray-600'
-                              )}
-                            />
-                          ))}
-                        </div>
-                        <p className="text-sm text-gray-400">{reviews.length} reviews</p>
-                      </div>
-                      <div className="flex-1">
-                        {[5, 4, 3, 2, 1].map((rating) => {
-                          const count = reviews.filter((r: any) => r.rating === rating).length;
-                          const percentage = (count / reviews.length) * 100;
-                          return (
-                            <div key={rating} className="flex items-center gap-3 mb-1">
-                              <span className="text-sm text-gray-400 w-8">{rating}</span>
-                              <Star className="h-4 w-4 text-yellow-400 fill-yellow-400" />
-                              <div className="flex-1 h-2 bg-primary-800 rounded-full overflow-hidden">
-                                <div
-                                  className="h-full bg-yellow-400 rounded-full"
-                                  style={{ width: `${percentage}%` }}
-                                />
-                              </div>
-                              <span className="text-sm text-gray-400 w-8">{count}</span>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    </div>
-
-                    {/* Reviews list */}
-                    <div className="space-y-6">
-                      {reviews.map((review: any) => {
-                        const userName = review.user?.full_name || review.user || 'Anonymous';
-                        const userInitial = userName[0]?.toUpperCase() || 'A';
-                        return (
-                          <div key={review.id} className="p-6 bg-primary-900 rounded-xl">
-                            <div className="flex items-center justify-between mb-3">
-                              <div className="flex items-center gap-3">
-                                <div className="w-10 h-10 bg-primary-800 rounded-full flex items-center justify-center text-white font-medium">
-                                  {userInitial}
-                                </div>
-                                <div>
-                                  <div className="flex items-center gap-2">
-                                    <span className="font-medium text-white">{userName}</span>
-                                  </div>
-                                  <div className="flex gap-1">
-                                    {[...Array(5)].map((_, i) => (
-                                      <Star
-                                        key={i}
-                                        className={cn(
-                                          'h-3 w-3',
-                                          i < (review.rating || 0)
-                                            ? 'text-yellow-400 fill-yellow-400'
-                                            : 'text-gray-600'
-                                        )}
-                                      />
-                                    ))}
-                                  </div>
-                                </div>
-                              </div>
-                              <span className="text-sm text-gray-500">
-                                {review.created_at ? new Date(review.created_at).toLocaleDateString() : ''}
-                              </span>
-                            </div>
-                            {review.title && <h4 className="font-medium text-white mb-2">{review.title}</h4>}
-                            <p className="text-gray-400">{review.content || review.text || ''}</p>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </>
-                ) : (
-                  <div className="text-center py-12">
-                    <p className="text-gray-400 text-lg mb-4">No reviews yet</p>
-                    <p className="text-gray-500">Be the first to review this product!</p>
-                  </div>
-                )}
+                <ReviewSection productId={product.id} />
               </motion.div>
             )}
           </AnimatePresence>
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/Button';
 import { useCartStore } from '@/stores/cartStore';
 import { orderService } from '@/lib/services';
 import { generateOrderNumber } from '@/lib/utils';
+import { track } from '@/lib/tracking';
 import toast from 'react-hot-toast';
 
 export function WompiCallbackPage() {
@@ -54,6 +55,7 @@ export function WompiCallbackPage() {
           // Payment successful
           const correctOrderNumber = transaction.reference;
           setOrderNumber(correctOrderNumber);
+          track('purchase', { order_number: correctOrderNumber });
 
           // Create order (you may want to pass the order data from localStorage or state)
           // For now, we'll just show success
@@ -17,7 +17,8 @@ import {
   Crown,
   Code,
   Star,
-  ArrowRight
+  ArrowRight,
+  Share2
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAuthStore } from '@/stores/authStore';
@@ -381,6 +382,16 @@ export function AccountPage() {
                   </div>
                   <ChevronRight className="w-5 h-5 text-zinc-600" />
                 </Link>
+                <Link
+                  to="/account/seller"
+                  className="flex items-center justify-between p-4 hover:bg-zinc-800/50 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <Share2 className="w-5 h-5 text-zinc-400" />
+                    <span>Programa de Vendedores</span>
+                  </div>
+                  <ChevronRight className="w-5 h-5 text-zinc-600" />
+                </Link>
                 <Link
                   to="/account/settings"
                   className="flex items-center justify-between p-4 hover:bg-zinc-800/50 transition-colors"
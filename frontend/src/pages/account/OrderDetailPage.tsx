@@ -24,11 +24,13 @@ import {
 import { useAuthStore } from '@/stores/authStore';
 import { orderService } from '@/lib/services';
 import type { Order } from '@/types';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, generateWhatsAppUrl } from '@/lib/utils';
+import { useWhatsAppNumber } from '@/hooks/useSettings';
 import toast from 'react-hot-toast';
 
 export function OrderDetailPage() {
   const { id } = useParams<{ id: string }>();
+  const whatsappNumber = useWhatsAppNumber();
   const navigate = useNavigate();
   const { user } = useAuthStore();
   const [order, setOrder] = useState<Order | null>(null);
@@ -555,7 +557,7 @@ export function OrderDetailPage() {
               Chat sobre este pedido
             </button>
             <a
-              href={`https://wa.me/573001234567?text=Hola,%20tengo%20una%20consulta%20sobre%20mi%20pedido%20%23${order.order_number}`}
+              href={generateWhatsAppUrl(whatsappNumber, `Hola, tengo una consulta sobre mi pedido #${order.order_number}`)}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-green-600 text-white rounded-full font-medium hover:bg-green-700 transition-colors"
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Copy, DollarSign, Clock, Package, Users, Share2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { useMySeller, useRegisterSeller, useSellerDashboard } from '@/hooks/useSellers';
+import { formatCurrency } from '@/lib/utils';
+import type { SellerRegistration } from '@/types';
+
+const payoutOptions = [
+  { value: '', label: 'Selecciona un método' },
+  { value: 'nequi', label: 'Nequi' },
+  { value: 'daviplata', label: 'Daviplata' },
+  { value: 'bank_transfer', label: 'Transferencia bancaria' },
+];
+
+const orderStatusLabels: Record<string, string> = {
+  pending: 'Pendiente',
+  confirmed: 'Confirmado',
+  processing: 'En preparación',
+  shipped: 'Enviado',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado',
+  refunded: 'Reembolsado',
+};
+
+function SellerRegistrationForm() {
+  const registerSeller = useRegisterSeller();
+  const [form, setForm] = useState<SellerRegistration>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await registerSeller.mutateAsync({
+        ...form,
+        payout_method: form.payout_method || undefined,
+      });
+      toast.success('Solicitud enviada. Te avisaremos cuando sea aprobada.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo enviar la solicitud');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-zinc-900 rounded-xl p-6 space-y-4">
+      <p className="text-zinc-400">
+        Comparte tu link de referido y gana una comisión por cada pedido entregado que llegue a través de él.
+      </p>
+      <Input
+        label="Nombre para mostrar"
+        value={form.display_name || ''}
+        onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+        placeholder="Tu nombre o el de tu tienda"
+      />
+      <div className="grid sm:grid-cols-2 gap-4">
+        <Input
+          label="Celular"
+          value={form.phone || ''}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+        <Input
+          label="Documento"
+          value={form.document_number || ''}
+          onChange={(e) => setForm({ ...form, document_number: e.target.value })}
+        />
+        <Select
+          label="¿Cómo quieres recibir tus pagos?"
+          value={form.payout_method || ''}
+          onChange={(e) => setForm({ ...form, payout_method: e.target.value })}
+          options={payoutOptions}
+        />
+        <Input
+          label="Cuenta o número"
+          value={form.payout_details || ''}
+          onChange={(e) => setForm({ ...form, payout_details: e.target.value })}
+        />
+      </div>
+      <Button type="submit" isLoading={registerSeller.isPending} className="w-full">
+        Quiero ser vendedor
+      </Button>
+    </form>
+  );
+}
+
+export function SellerProgramPage() {
+  const { data: seller, isLoading } = useMySeller();
+  const { data: dashboard } = useSellerDashboard(seller?.status === 'active');
+
+  const copyLink = async () => {
+    if (!dashboard) return;
+    await navigator.clipboard.writeText(dashboard.referral_link);
+    toast.success('Link copiado');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link
+            to="/account"
+            className="w-10 h-10 rounded-full bg-zinc-900 flex items-center justify-center hover:bg-zinc-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Programa de Vendedores</h1>
+            <p className="text-zinc-500">
+              {seller?.status === 'active'
+                ? `${seller.commission_percentage}% de cada venta referida`
+                : 'Vende MELO SPORTT y gana comisiones'}
+            </p>
+          </div>
+        </div>
+
+        {!seller && <SellerRegistrationForm />}
+
+        {seller && seller.status !== 'active' && (
+          <div className="bg-zinc-900 rounded-xl p-6 text-zinc-400">
+            {seller.status === 'pending' && 'Tu solicitud está en revisión. Te avisaremos cuando sea aprobada.'}
+            {seller.status === 'suspended' && 'Tu cuenta de vendedor está suspendida. Escríbenos para más información.'}
+            {seller.status === 'rejected' && 'Tu solicitud no fue aprobada.'}
+          </div>
+        )}
+
+        {dashboard && (
+          <>
+            {/* Referral link */}
+            <div className="bg-zinc-900 rounded-xl p-6 mb-8">
+              <div className="flex items-center gap-2 mb-3 text-zinc-400">
+                <Share2 className="w-4 h-4" />
+                <span className="text-sm">Tu link de referido · código {dashboard.seller.referral_code}</span>
+              </div>
+              <div className="flex gap-2">
+                <code className="flex-1 bg-zinc-800 rounded-lg px-4 py-3 text-sm truncate">{dashboard.referral_link}</code>
+                <Button variant="outline" onClick={copyLink} leftIcon={<Copy className="w-4 h-4" />}>
+                  Copiar
+                </Button>
+              </div>
+            </div>
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              <div className="bg-gradient-to-br from-green-900/30 to-green-800/20 border border-green-800/30 rounded-xl p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <DollarSign className="w-5 h-5 text-green-400" />
+                  <span className="text-sm text-green-400">Total Ganado</span>
+                </div>
+                <p className="text-2xl font-bold">{formatCurrency(dashboard.commissions.total_earned)}</p>
+              </div>
+              <div className="bg-gradient-to-br from-yellow-900/30 to-yellow-800/20 border border-yellow-800/30 rounded-xl p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <Clock className="w-5 h-5 text-yellow-400" />
+                  <span className="text-sm text-yellow-400">Por Cobrar</span>
+                </div>
+                <p className="text-2xl font-bold">{formatCurrency(dashboard.commissions.total_pending)}</p>
+              </div>
+              <div className="bg-gradient-to-br from-blue-900/30 to-blue-800/20 border border-blue-800/30 rounded-xl p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <Package className="w-5 h-5 text-blue-400" />
+                  <span className="text-sm text-blue-400">Pedidos</span>
+                </div>
+                <p className="text-2xl font-bold">{dashboard.stats.orders_count}</p>
+                <p className="text-xs text-zinc-500">{formatCurrency(dashboard.stats.total_sales)} en ventas</p>
+              </div>
+              <div className="bg-gradient-to-br from-purple-900/30 to-purple-800/20 border border-purple-800/30 rounded-xl p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <Users className="w-5 h-5 text-purple-400" />
+                  <span className="text-sm text-purple-400">Clientes</span>
+                </div>
+                <p className="text-2xl font-bold">{dashboard.stats.customers_count}</p>
+              </div>
+            </div>
+
+            {/* Recent orders */}
+            <h2 className="text-lg font-semibold mb-4">Pedidos Referidos</h2>
+            <div className="bg-zinc-900 rounded-xl overflow-hidden">
+              {dashboard.recent_orders.length > 0 ? (
+                <div className="divide-y divide-zinc-800">
+                  {dashboard.recent_orders.map((order) => (
+                    <div key={order.id} className="p-4 flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">Orden #{order.order_number}</p>
+                        <p className="text-sm text-zinc-500">
+                          {new Date(order.created_at).toLocaleDateString('es-CO')} · {orderStatusLabels[order.status] || order.status}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">{formatCurrency(order.total)}</p>
+                        <p className="text-xs text-green-400">
+                          {order.commission_amount !== null
+                            ? `+${formatCurrency(order.commission_amount)}`
+                            : 'Comisión al entregar'}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="p-12 text-center text-zinc-500">
+                  Aún no hay pedidos con tu código. ¡Comparte tu link!
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
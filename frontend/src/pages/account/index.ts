@@ -7,3 +7,4 @@ export { MyCommissionsPage } from './MyCommissionsPage';
 export { OwnerDashboardPage } from './OwnerDashboardPage';
 export { TeamManagementPage } from './TeamManagementPage';
 export { CommissionsManagementPage } from './CommissionsManagementPage';
+export { SellerProgramPage } from './SellerProgramPage';
@@ -31,11 +31,27 @@ import {
 
 import { Button } from '@/components/ui/Button';
 import { useAnalyticsDashboard, useAnalyticsChartData, useCalculateRealData } from '@/hooks/useAnalytics';
+import { useInventoryReport } from '@/hooks/useInventory';
 import { formatCurrency, formatCategoryName } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import type { StockStatus } from '@/types';
 
 const timeRanges = ['7 días', '30 días', '90 días', '12 meses'];
 
+const trafficSourceLabels: Record<string, string> = {
+  direct: 'Directo',
+  organic: 'Orgánico',
+  referral: 'Referidos',
+  social: 'Redes sociales',
+  paid: 'Pauta',
+};
+
+const stockStatusStyles: Record<StockStatus, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-emerald-50 text-emerald-700' },
+  low: { label: 'Stock bajo', className: 'bg-amber-50 text-amber-700' },
+  out_of_stock: { label: 'Agotado', className: 'bg-red-50 text-red-700' },
+};
+
 export function AdminAnalytics() {
   const [selectedRange, setSelectedRange] = useState('30 días');
 
@@ -43,6 +59,7 @@ export function AdminAnalytics() {
   const { data: dashboardData, isLoading: dashboardLoading, error: dashboardError } = useAnalyticsDashboard();
   const { data: chartData, isLoading: chartLoading, error: chartError } = useAnalyticsChartData();
   const { mutate: calculateRealData, isPending: calculating } = useCalculateRealData();
+  const { data: inventoryReport } = useInventoryReport({ limit: 10 });
 
   // Datos para estadísticas generales
   const generalStats = dashboardData?.generalStats || {
@@ -63,6 +80,18 @@ export function AdminAnalytics() {
   // Datos para categorías más populares
   const topCategoriesData = dashboardData?.topCategories || [];
 
+  // Embudo y fuentes de tráfico medidos por la tienda
+  const traffic = dashboardData?.traffic;
+  const funnel = dashboardData?.funnel;
+  const trafficSourcesData = dashboardData?.trafficSources || [];
+  const funnelSteps = funnel ? [
+    { label: 'Sesiones', value: funnel.sessions },
+    { label: 'Vieron un producto', value: funnel.productViews },
+    { label: 'Agregaron al carrito', value: funnel.addToCart },
+    { label: 'Iniciaron checkout', value: funnel.beginCheckout },
+    { label: 'Compraron', value: funnel.purchases },
+  ] : [];
+
   const stats = [
     {
       title: 'Ingresos Totales',
@@ -165,6 +194,58 @@ export function AdminAnalytics() {
         ))}
       </div>
 
+      {/* Conversion Funnel & Traffic Sources */}
+      {funnel && (
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-xl p-4 sm:p-6 border border-gray-200 shadow-sm">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-6">
+              <h3 className="text-lg font-semibold text-black">Embudo de Conversión</h3>
+              <p className="text-sm text-gray-600">
+                Últimos 30 días · {traffic?.totalViews ?? 0} páginas vistas · rebote {(traffic?.bounceRate ?? 0).toFixed(1)}%
+              </p>
+            </div>
+            <div className="space-y-4">
+              {funnelSteps.map((step, index) => {
+                const share = funnel.sessions > 0 ? (step.value / funnel.sessions) * 100 : 0;
+                const previous = index > 0 ? funnelSteps[index - 1].value : 0;
+                return (
+                  <div key={step.label}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="text-black font-medium">{step.label}</span>
+                      <span className="text-gray-600">
+                        {step.value}
+                        {index > 0 && previous > 0 && ` · ${((step.value / previous) * 100).toFixed(1)}% del paso anterior`}
+                      </span>
+                    </div>
+                    <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-black rounded-full" style={{ width: `${share}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl p-4 sm:p-6 border border-gray-200 shadow-sm">
+            <h3 className="text-lg font-semibold text-black mb-6">Fuentes de Tráfico</h3>
+            <div className="space-y-4">
+              {trafficSourcesData.length === 0 && (
+                <p className="text-gray-600 text-sm">Aún no hay visitas registradas</p>
+              )}
+              {trafficSourcesData.map((source) => (
+                <div key={source.source} className="flex items-center justify-between">
+                  <div>
+                    <p className="text-black font-medium text-sm">{trafficSourceLabels[source.source] || source.source}</p>
+                    <p className="text-gray-600 text-xs">{source.visits} sesiones · {source.orders} pedidos</p>
+                  </div>
+                  <p className="text-black font-medium">{formatCurrency(source.revenue)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Charts Row 1 */}
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Revenue Chart */}
@@ -339,6 +420,52 @@ export function AdminAnalytics() {
           </table>
         </div>
       </div>
+
+      {/* Inventory Cover Table */}
+      {inventoryReport && (
+        <div className="bg-white rounded-xl p-4 sm:p-6 border border-gray-200 shadow-sm">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-6">
+            <h3 className="text-lg font-semibold text-black">Reposición de Inventario</h3>
+            <p className="text-sm text-gray-600">
+              {inventoryReport.summary.out_of_stock} agotados · {inventoryReport.summary.low} con stock bajo · ventas de los últimos {inventoryReport.window_days} días
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-2 sm:px-4 text-sm font-semibold text-black">Producto</th>
+                  <th className="text-right py-3 px-2 sm:px-4 text-sm font-semibold text-black">Stock</th>
+                  <th className="text-right py-3 px-2 sm:px-4 text-sm font-semibold text-black hidden sm:table-cell">Venta diaria</th>
+                  <th className="text-right py-3 px-2 sm:px-4 text-sm font-semibold text-black">Días de cobertura</th>
+                  <th className="text-right py-3 px-2 sm:px-4 text-sm font-semibold text-black hidden sm:table-cell">Reponer</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inventoryReport.items.map((item) => (
+                  <tr key={item.variant_id || item.product_id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-4 px-2 sm:px-4">
+                      <p className="text-black font-medium">{item.product_name}</p>
+                      <div className="flex items-center gap-2 mt-1">
+                        {item.variant_name && <span className="text-gray-600 text-xs">{item.variant_name}</span>}
+                        <span className={cn('text-xs px-2 py-0.5 rounded-full', stockStatusStyles[item.status].className)}>
+                          {stockStatusStyles[item.status].label}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="py-4 px-2 sm:px-4 text-right text-gray-700">{item.quantity}</td>
+                    <td className="py-4 px-2 sm:px-4 text-right text-gray-700 hidden sm:table-cell">{item.daily_velocity}</td>
+                    <td className="py-4 px-2 sm:px-4 text-right text-black font-medium">
+                      {item.days_of_cover ?? 'Sin ventas'}
+                    </td>
+                    <td className="py-4 px-2 sm:px-4 text-right text-gray-700 hidden sm:table-cell">{item.suggested_reorder}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
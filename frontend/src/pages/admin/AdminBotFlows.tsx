@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { AlertTriangle, Bot, CheckCircle2, Loader2, Plus, Trash2, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button, IconButton } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { botFlowService } from '@/lib/services';
+import {
+  useActivateBotFlow,
+  useBotFlows,
+  useDeleteBotFlow,
+  useSaveBotFlow,
+  useValidateBotFlow,
+} from '@/hooks/useBotFlows';
+import type { BotFlow, BotFlowDefinition, BotFlowValidation } from '@/types';
+
+interface FlowForm {
+  id?: string;
+  version?: number;
+  name: string;
+  description: string;
+  json: string;
+}
+
+const toJson = (definition: BotFlowDefinition) => JSON.stringify(definition, null, 2);
+
+export function AdminBotFlows() {
+  const { data: flows = [], isLoading } = useBotFlows();
+  const validateFlow = useValidateBotFlow();
+  const saveFlow = useSaveBotFlow();
+  const activateFlow = useActivateBotFlow();
+  const deleteFlow = useDeleteBotFlow();
+
+  const [form, setForm] = useState<FlowForm | null>(null);
+  const [validation, setValidation] = useState<BotFlowValidation | null>(null);
+
+  const openFlow = (flow: BotFlow) => {
+    setForm({
+      id: flow.id,
+      version: flow.version,
+      name: flow.name,
+      description: flow.description || '',
+      json: toJson(flow.definition),
+    });
+    setValidation(null);
+  };
+
+  const openNew = async () => {
+    try {
+      const definition = await botFlowService.getDefault();
+      setForm({ name: 'Nuevo flujo', description: '', json: toJson(definition) });
+      setValidation(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo cargar el flujo por defecto');
+    }
+  };
+
+  // Devuelve la definición si el JSON se puede leer
+  const parseJson = (): BotFlowDefinition | null => {
+    if (!form) return null;
+    try {
+      return JSON.parse(form.json) as BotFlowDefinition;
+    } catch (error) {
+      setValidation({ valid: false, errors: [`JSON inválido: ${(error as Error).message}`], warnings: [] });
+      return null;
+    }
+  };
+
+  const handleValidate = async () => {
+    const definition = parseJson();
+    if (!definition) return;
+
+    try {
+      setValidation(await validateFlow.mutateAsync(definition));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo validar el flujo');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const definition = parseJson();
+    if (!definition) return;
+
+    try {
+      const check = await validateFlow.mutateAsync(definition);
+      setValidation(check);
+      if (!check.valid) {
+        toast.error('Corrige los errores antes de guardar');
+        return;
+      }
+
+      const saved = await saveFlow.mutateAsync({
+        id: form.id,
+        data: {
+          name: form.name,
+          description: form.description || null,
+          definition,
+          version: form.version,
+        },
+      });
+      setForm({ ...form, id: saved.id, version: saved.version });
+      toast.success(saved.is_active ? 'Flujo guardado y publicado' : 'Flujo guardado');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo guardar el flujo');
+    }
+  };
+
+  const handleActivate = async (flow: BotFlow) => {
+    try {
+      await activateFlow.mutateAsync(flow.id);
+      toast.success(`"${flow.name}" es ahora el flujo del bot`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo activar el flujo');
+    }
+  };
+
+  const handleDelete = async (flow: BotFlow) => {
+    if (!window.confirm(`¿Eliminar el flujo "${flow.name}"?`)) return;
+
+    try {
+      await deleteFlow.mutateAsync(flow.id);
+      if (form?.id === flow.id) setForm(null);
+      toast.success('Flujo eliminado');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo eliminar el flujo');
+    }
+  };
+
+  const editingFlow = flows.find((flow) => flow.id === form?.id);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-black">Flujos del bot</h1>
+          <p className="text-gray-600">Edita los mensajes, botones y pasos del bot de ventas de WhatsApp</p>
+        </div>
+        <Button onClick={openNew} leftIcon={<Plus className="h-4 w-4" />}>
+          Nuevo flujo
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Flows */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm h-fit">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          ) : flows.length === 0 ? (
+            <div className="py-12 text-center text-gray-500">
+              <Bot className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No hay flujos guardados
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {flows.map((flow) => (
+                <li
+                  key={flow.id}
+                  className={cn('flex items-center gap-3 px-4 py-3', form?.id === flow.id && 'bg-gray-50')}
+                >
+                  <button type="button" className="flex-1 text-left" onClick={() => openFlow(flow)}>
+                    <p className="font-medium text-black">{flow.name}</p>
+                    <p className="text-xs text-gray-500">
+                      v{flow.version} · {Object.keys(flow.definition.states).length} pasos · {formatRelativeTime(flow.updated_at)}
+                    </p>
+                  </button>
+                  {flow.is_active ? (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700">Activo</span>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleActivate(flow)} disabled={activateFlow.isPending}>
+                        Activar
+                      </Button>
+                      <IconButton variant="ghost" size="sm" onClick={() => handleDelete(flow)} aria-label="Eliminar flujo">
+                        <Trash2 className="h-4 w-4" />
+                      </IconButton>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Editor */}
+        <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          {!form ? (
+            <div className="py-12 text-center text-gray-500">
+              Selecciona un flujo para editarlo o crea uno nuevo a partir del flujo por defecto
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Input
+                  label="Nombre"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+                <Input
+                  label="Descripción"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+
+              {editingFlow?.is_active && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+                  Este es el flujo activo: al guardar, los cambios llegan a los clientes en menos de un minuto.
+                </p>
+              )}
+
+              <textarea
+                className="w-full h-[480px] px-4 py-3 bg-white border border-gray-300 rounded-lg text-black font-mono text-xs focus:outline-none focus:border-black"
+                spellCheck={false}
+                value={form.json}
+                onChange={(e) => setForm({ ...form, json: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">
+                Variables: {'{{customer_name}} {{style_label}} {{budget}} {{shipping_address}} {{cart}} {{cart_total}} {{commission_percentage}} {{commission}} {{owner_total}} {{last_added}} {{catalog_url}}'}
+              </p>
+
+              {validation && (
+                <div className="space-y-2 text-sm">
+                  {validation.valid && (
+                    <p className="flex items-center gap-2 text-emerald-700">
+                      <CheckCircle2 className="h-4 w-4" /> El flujo es válido
+                    </p>
+                  )}
+                  {validation.errors.map((error) => (
+                    <p key={error} className="flex items-start gap-2 text-red-600">
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0" /> {error}
+                    </p>
+                  ))}
+                  {validation.warnings.map((warning) => (
+                    <p key={warning} className="flex items-start gap-2 text-amber-700">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button variant="ghost" onClick={handleValidate} isLoading={validateFlow.isPending}>
+                  Validar
+                </Button>
+                <Button onClick={handleSave} isLoading={saveFlow.isPending}>
+                  Guardar
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
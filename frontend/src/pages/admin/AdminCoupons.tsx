@@ -16,6 +16,9 @@ import {
   AlertCircle,
   Filter,
   X as XIcon,
+  Layers,
+  Download,
+  Power,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -23,7 +26,29 @@ import { Button, IconButton } from '@/components/ui/Button';
 import { Modal, ConfirmDialog } from '@/components/ui/Modal';
 import { Input, Textarea, Select } from '@/components/ui/Input';
 import { cn, formatCurrency } from '@/lib/utils';
-import { couponService, type Coupon, type CreateCouponData } from '@/services/coupon.service';
+import {
+  couponService,
+  type Coupon,
+  type CouponCampaign,
+  type CreateCouponData,
+} from '@/services/coupon.service';
+import { useCategories } from '@/hooks/useProducts';
+
+// Texto corto del beneficio para la lista de cupones
+const describeDiscount = (coupon: Pick<Coupon, 'discount_type' | 'discount_value' | 'buy_quantity' | 'get_quantity'>) => {
+  switch (coupon.discount_type) {
+    case 'percentage':
+      return `${coupon.discount_value}% OFF`;
+    case 'buy_x_get_y':
+      return Number(coupon.discount_value) >= 100
+        ? `Lleva ${coupon.buy_quantity} y recibe ${coupon.get_quantity} gratis`
+        : `Lleva ${coupon.buy_quantity} y recibe ${coupon.get_quantity} con ${coupon.discount_value}% OFF`;
+    case 'free_shipping':
+      return 'Envío gratis';
+    default:
+      return formatCurrency(coupon.discount_value) + ' OFF';
+  }
+};
 
 export function AdminCoupons() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -36,6 +61,13 @@ export function AdminCoupons() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [couponToDelete, setCouponToDelete] = useState<Coupon | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: categories = [] } = useCategories();
+
+  // Campañas de códigos únicos: el modal reutiliza las reglas del cupón
+  const [campaigns, setCampaigns] = useState<CouponCampaign[]>([]);
+  const [isCampaignMode, setIsCampaignMode] = useState(false);
+  const [campaignForm, setCampaignForm] = useState({ name: '', description: '', code_prefix: '', quantity: 100 });
+  const [campaignToDelete, setCampaignToDelete] = useState<CouponCampaign | null>(null);
 
   // Form state
   const [formData, setFormData] = useState<CreateCouponData>({
@@ -49,6 +81,12 @@ export function AdminCoupons() {
     starts_at: undefined,
     applicable_to: 'all',
     product_ids: [],
+    category_ids: [],
+    per_customer_limit: undefined,
+    first_order_only: false,
+    min_items: undefined,
+    buy_quantity: undefined,
+    get_quantity: undefined,
     active: true,
   });
 
@@ -56,6 +94,10 @@ export function AdminCoupons() {
     loadCoupons();
   }, [statusFilter]);
 
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
+
   const loadCoupons = async () => {
     setIsLoading(true);
     try {
@@ -72,6 +114,15 @@ export function AdminCoupons() {
     }
   };
 
+  const loadCampaigns = async () => {
+    try {
+      setCampaigns(await couponService.getCampaigns());
+    } catch (error) {
+      console.error('Error loading campaigns:', error);
+      toast.error('Error al cargar las campañas');
+    }
+  };
+
   const filteredCoupons = coupons.filter((coupon) =>
     coupon.code.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -88,7 +139,17 @@ export function AdminCoupons() {
     const newErrors: Record<string, string> = {};
 
     // Code validation
-    if (!formData.code.trim()) {
+    if (isCampaignMode) {
+      if (!campaignForm.name.trim()) {
+        newErrors.name = 'El nombre de la campaña es requerido';
+      }
+      if (!/^[A-Z0-9]{2,12}$/i.test(campaignForm.code_prefix.trim())) {
+        newErrors.code_prefix = 'El prefijo debe tener entre 2 y 12 letras o números';
+      }
+      if (!Number.isInteger(campaignForm.quantity) || campaignForm.quantity < 1 || campaignForm.quantity > 10000) {
+        newErrors.quantity = 'Se pueden generar entre 1 y 10.000 códigos por lote';
+      }
+    } else if (!formData.code.trim()) {
       newErrors.code = 'El código del cupón es requerido';
     } else if (formData.code.trim().length < 3) {
       newErrors.code = 'El código debe tener al menos 3 caracteres';
@@ -96,15 +157,25 @@ export function AdminCoupons() {
       newErrors.code = 'El código solo puede contener letras, números, guiones y guiones bajos';
     }
 
-    // Discount value validation
-    if (formData.discount_value <= 0) {
+    // Discount value validation (el envío gratis no lleva valor)
+    if (formData.discount_type !== 'free_shipping' && formData.discount_value <= 0) {
       newErrors.discount_value = 'El valor del descuento debe ser mayor a 0';
     }
 
-    if (formData.discount_type === 'percentage' && formData.discount_value > 100) {
+    if ((formData.discount_type === 'percentage' || formData.discount_type === 'buy_x_get_y') && formData.discount_value > 100) {
       newErrors.discount_value = 'El porcentaje no puede ser mayor a 100';
     }
 
+    // Buy X get Y
+    if (formData.discount_type === 'buy_x_get_y' && (!formData.buy_quantity || !formData.get_quantity)) {
+      newErrors.buy_quantity = 'Indica cuántas unidades se compran y cuántas se reciben';
+    }
+
+    // Category eligibility
+    if (formData.applicable_to === 'categories' && !formData.category_ids?.length) {
+      newErrors.category_ids = 'Selecciona al menos una categoría';
+    }
+
     // Date validation
     if (formData.starts_at && formData.expires_at) {
       const startDate = new Date(formData.starts_at);
@@ -133,8 +204,10 @@ export function AdminCoupons() {
     return Object.keys(newErrors).length === 0;
   };
 
-  const openCreateModal = () => {
+  const openCreateModal = (campaign = false) => {
     setEditingCoupon(null);
+    setIsCampaignMode(campaign);
+    setCampaignForm({ name: '', description: '', code_prefix: '', quantity: 100 });
     setFormData({
       code: '',
       discount_type: 'percentage',
@@ -146,6 +219,12 @@ export function AdminCoupons() {
       starts_at: undefined,
       applicable_to: 'all',
       product_ids: [],
+      category_ids: [],
+      per_customer_limit: undefined,
+      first_order_only: false,
+      min_items: undefined,
+      buy_quantity: undefined,
+      get_quantity: undefined,
       active: true,
     });
     setErrors({});
@@ -154,6 +233,7 @@ export function AdminCoupons() {
 
   const openEditModal = (coupon: Coupon) => {
     setEditingCoupon(coupon);
+    setIsCampaignMode(false);
     setFormData({
       code: coupon.code,
       discount_type: coupon.discount_type,
@@ -165,6 +245,12 @@ export function AdminCoupons() {
       starts_at: coupon.starts_at ? new Date(coupon.starts_at).toISOString().slice(0, 16) : undefined,
       applicable_to: coupon.applicable_to,
       product_ids: coupon.product_ids || [],
+      category_ids: coupon.category_ids || [],
+      per_customer_limit: coupon.per_customer_limit,
+      first_order_only: coupon.first_order_only,
+      min_items: coupon.min_items,
+      buy_quantity: coupon.buy_quantity,
+      get_quantity: coupon.get_quantity,
       active: coupon.active,
     });
     setErrors({});
@@ -183,8 +269,50 @@ export function AdminCoupons() {
 
     setIsSaving(true);
     try {
+      if (isCampaignMode) {
+        // Cada código es de un solo uso; código, límite y estado los pone el servidor
+        await couponService.createCampaign({
+          name: campaignForm.name.trim(),
+          description: campaignForm.description.trim() || undefined,
+          code_prefix: campaignForm.code_prefix.trim().toUpperCase(),
+          quantity: campaignForm.quantity,
+          rules: {
+            discount_type: formData.discount_type,
+            discount_value: formData.discount_value,
+            min_purchase: formData.min_purchase,
+            max_discount: formData.max_discount,
+            per_customer_limit: formData.per_customer_limit,
+            first_order_only: formData.first_order_only,
+            min_items: formData.min_items,
+            buy_quantity: formData.buy_quantity,
+            get_quantity: formData.get_quantity,
+            applicable_to: formData.applicable_to,
+            product_ids: formData.product_ids,
+            category_ids: formData.category_ids,
+            starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : undefined,
+            expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : undefined,
+          },
+        });
+        toast.success(`${campaignForm.quantity} códigos generados`);
+        setIsModalOpen(false);
+        loadCampaigns();
+        return;
+      }
+
       if (editingCoupon) {
-        await couponService.update(editingCoupon.id, formData);
+        // Los campos vacíos van como null para que el servidor los limpie
+        await couponService.update(editingCoupon.id, {
+          ...formData,
+          min_purchase: formData.min_purchase ?? null,
+          max_discount: formData.max_discount ?? null,
+          usage_limit: formData.usage_limit ?? null,
+          per_customer_limit: formData.per_customer_limit ?? null,
+          min_items: formData.min_items ?? null,
+          buy_quantity: formData.buy_quantity ?? null,
+          get_quantity: formData.get_quantity ?? null,
+          expires_at: formData.expires_at || null,
+          starts_at: formData.starts_at || null,
+        });
         toast.success('Cupón actualizado exitosamente');
       } else {
         await couponService.create(formData);
@@ -194,7 +322,7 @@ export function AdminCoupons() {
       loadCoupons();
     } catch (error: any) {
       console.error('Error saving coupon:', error);
-      const errorMessage = error.response?.data?.message || 'Error al guardar el cupón';
+      const errorMessage = error.response?.data?.message || (isCampaignMode && error.message) || 'Error al guardar el cupón';
       toast.error(errorMessage);
     } finally {
       setIsSaving(false);
@@ -219,6 +347,43 @@ export function AdminCoupons() {
     }
   };
 
+  const handleToggleCampaign = async (campaign: CouponCampaign) => {
+    try {
+      await couponService.updateCampaign(campaign.id, { active: !campaign.active });
+      toast.success(campaign.active ? 'Campaña pausada' : 'Campaña activada');
+      loadCampaigns();
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      toast.error('Error al actualizar la campaña');
+    }
+  };
+
+  const handleExportCampaign = async (campaign: CouponCampaign) => {
+    try {
+      await couponService.exportCampaignCodes(campaign);
+    } catch (error) {
+      console.error('Error exporting campaign:', error);
+      toast.error('Error al exportar los códigos');
+    }
+  };
+
+  const handleDeleteCampaign = async () => {
+    if (!campaignToDelete) return;
+
+    setIsSaving(true);
+    try {
+      await couponService.deleteCampaign(campaignToDelete.id);
+      toast.success('Campaña eliminada');
+      setCampaignToDelete(null);
+      loadCampaigns();
+    } catch (error) {
+      console.error('Error deleting campaign:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la campaña');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleCopyCode = (code: string) => {
     navigator.clipboard.writeText(code);
     toast.success('Código copiado al portapapeles');
@@ -257,9 +422,14 @@ export function AdminCoupons() {
           <h1 className="text-2xl font-bold text-black">Cupones de Descuento</h1>
           <p className="text-gray-600">Crea y gestiona códigos de descuento</p>
         </div>
-        <Button leftIcon={<Plus className="h-4 w-4" />} onClick={openCreateModal}>
-          Crear Cupón
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" leftIcon={<Layers className="h-4 w-4" />} onClick={() => openCreateModal(true)}>
+            Crear Campaña
+          </Button>
+          <Button leftIcon={<Plus className="h-4 w-4" />} onClick={() => openCreateModal()}>
+            Crear Cupón
+          </Button>
+        </div>
       </div>
 
       {/* Stats */}
@@ -341,7 +511,7 @@ export function AdminCoupons() {
               : 'Crea tu primer cupón de descuento para atraer más clientes.'}
           </p>
           {!searchQuery && statusFilter === 'all' && (
-            <Button leftIcon={<Plus className="h-4 w-4" />} onClick={openCreateModal}>
+            <Button leftIcon={<Plus className="h-4 w-4" />} onClick={() => openCreateModal()}>
               Crear Primer Cupón
             </Button>
           )}
@@ -375,9 +545,7 @@ export function AdminCoupons() {
                       </div>
                       <div className="flex items-center gap-3">
                         <span className="font-medium text-black">
-                          {coupon.discount_type === 'percentage'
-                            ? `${coupon.discount_value}% OFF`
-                            : formatCurrency(coupon.discount_value) + ' OFF'}
+                          {describeDiscount(coupon)}
                         </span>
                         <span className={cn(
                           'inline-flex px-2 py-0.5 rounded-full text-xs font-medium',
@@ -424,16 +592,128 @@ export function AdminCoupons() {
         </div>
       )}
 
+      {/* Campaigns */}
+      {campaigns.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-lg font-semibold text-black">Campañas</h2>
+            <p className="text-sm text-gray-600">Códigos únicos de un solo uso para influencers y WhatsApp</p>
+          </div>
+          {campaigns.map((campaign) => (
+            <motion.div
+              key={campaign.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm hover:shadow-md transition-all"
+            >
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-pink-600 rounded-xl flex items-center justify-center flex-shrink-0">
+                    <Layers className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-black font-bold text-lg">{campaign.name}</span>
+                      <span className="text-gray-500 font-mono text-sm">{campaign.code_prefix}-XXXXXXXX</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-black">{describeDiscount(campaign.rules)}</span>
+                      <span className={cn(
+                        'inline-flex px-2 py-0.5 rounded-full text-xs font-medium',
+                        campaign.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      )}>
+                        {campaign.active ? 'Activa' : 'Pausada'}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-6">
+                  <div className="grid grid-cols-3 gap-4 text-right">
+                    <div>
+                      <p className="text-xs text-gray-500">Emitidos</p>
+                      <p className="font-semibold text-black">{campaign.stats.issued}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Usados</p>
+                      <p className="font-semibold text-black">{campaign.stats.redeemed}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Ventas</p>
+                      <p className="font-semibold text-black">{formatCurrency(campaign.stats.revenue)}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <IconButton onClick={() => handleExportCampaign(campaign)} title="Exportar CSV">
+                      <Download className="h-4 w-4" />
+                    </IconButton>
+                    <IconButton onClick={() => handleToggleCampaign(campaign)} title={campaign.active ? 'Pausar' : 'Activar'}>
+                      <Power className="h-4 w-4" />
+                    </IconButton>
+                    <IconButton
+                      onClick={() => setCampaignToDelete(campaign)}
+                      className="hover:bg-red-500/20 hover:text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </IconButton>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
       {/* Create/Edit Modal */}
       <Modal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        title={editingCoupon ? 'Editar Cupón' : 'Crear Cupón'}
+        title={isCampaignMode ? 'Crear Campaña' : editingCoupon ? 'Editar Cupón' : 'Crear Cupón'}
         size="lg"
       >
         <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
+          {/* Campaign */}
+          {isCampaignMode && (
+            <>
+              <Input
+                label="Nombre de la campaña *"
+                value={campaignForm.name}
+                onChange={(e) => setCampaignForm({ ...campaignForm, name: e.target.value })}
+                placeholder="Influencer Laura - Octubre"
+                error={errors.name}
+              />
+              <Textarea
+                label="Descripción (opcional)"
+                value={campaignForm.description}
+                onChange={(e) => setCampaignForm({ ...campaignForm, description: e.target.value })}
+                rows={2}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Prefijo de los códigos *"
+                  value={campaignForm.code_prefix}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, code_prefix: e.target.value.toUpperCase() })}
+                  placeholder="LAURA"
+                  className="uppercase font-mono"
+                  error={errors.code_prefix}
+                />
+                <Input
+                  label="Cantidad de códigos *"
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={campaignForm.quantity || ''}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, quantity: parseInt(e.target.value) || 0 })}
+                  error={errors.quantity}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Cada código ({campaignForm.code_prefix || 'PREFIJO'}-XXXXXXXX) se puede usar una sola vez y comparte las reglas de abajo.
+              </p>
+            </>
+          )}
+
           {/* Code */}
-          <div>
+          <div className={cn(isCampaignMode && 'hidden')}>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Código del Cupón *
             </label>
@@ -464,14 +744,16 @@ export function AdminCoupons() {
               options={[
                 { value: 'percentage', label: 'Porcentaje (%)' },
                 { value: 'fixed', label: 'Monto Fijo ($)' },
+                { value: 'buy_x_get_y', label: 'Lleva X, recibe Y' },
+                { value: 'free_shipping', label: 'Envío gratis' },
               ]}
               value={formData.discount_type}
               onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as any })}
             />
 
-            <div>
+            <div className={cn(formData.discount_type === 'free_shipping' && 'hidden')}>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Valor del Descuento *
+                {formData.discount_type === 'buy_x_get_y' ? 'Descuento en las unidades Y (%) *' : 'Valor del Descuento *'}
               </label>
               <input
                 type="number"
@@ -536,8 +818,116 @@ export function AdminCoupons() {
             </div>
           </div>
 
-          {/* Usage Limit */}
+          {/* Buy X get Y */}
+          {formData.discount_type === 'buy_x_get_y' && (
+            <div>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Unidades que compra (X)"
+                  type="number"
+                  min={1}
+                  value={formData.buy_quantity || ''}
+                  onChange={(e) => setFormData({ ...formData, buy_quantity: e.target.value ? parseInt(e.target.value) : undefined })}
+                  placeholder="2"
+                />
+                <Input
+                  label="Unidades con descuento (Y)"
+                  type="number"
+                  min={1}
+                  value={formData.get_quantity || ''}
+                  onChange={(e) => setFormData({ ...formData, get_quantity: e.target.value ? parseInt(e.target.value) : undefined })}
+                  placeholder="1"
+                />
+              </div>
+              {errors.buy_quantity && (
+                <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4" /> {errors.buy_quantity}
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Las unidades con descuento son siempre las más baratas de cada grupo. Con 100% salen gratis.
+              </p>
+            </div>
+          )}
+
+          {/* Eligibility */}
           <div>
+            <Select
+              label="Aplica a"
+              options={[
+                { value: 'all', label: 'Todos los productos' },
+                { value: 'categories', label: 'Categorías específicas' },
+                ...(formData.applicable_to === 'specific'
+                  ? [{ value: 'specific', label: 'Productos específicos' }]
+                  : []),
+              ]}
+              value={formData.applicable_to}
+              onChange={(e) => setFormData({ ...formData, applicable_to: e.target.value as CreateCouponData['applicable_to'] })}
+            />
+            {formData.applicable_to === 'categories' && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {categories.map((category) => {
+                  const selected = formData.category_ids?.includes(category.id);
+                  return (
+                    <button
+                      key={category.id}
+                      type="button"
+                      onClick={() => setFormData({
+                        ...formData,
+                        category_ids: selected
+                          ? formData.category_ids?.filter((id) => id !== category.id)
+                          : [...(formData.category_ids || []), category.id],
+                      })}
+                      className={cn(
+                        'px-3 py-1.5 rounded-lg text-sm transition-colors',
+                        selected ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      )}
+                    >
+                      {category.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {errors.category_ids && (
+              <p className="text-red-500 text-sm mt-1 flex items-center gap-1">
+                <AlertCircle className="h-4 w-4" /> {errors.category_ids}
+              </p>
+            )}
+          </div>
+
+          {/* Customer rules */}
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Usos por cliente (opcional)"
+              type="number"
+              min={1}
+              value={formData.per_customer_limit || ''}
+              onChange={(e) => setFormData({ ...formData, per_customer_limit: e.target.value ? parseInt(e.target.value) : undefined })}
+              placeholder="1"
+            />
+            <Input
+              label="Unidades mínimas (opcional)"
+              type="number"
+              min={1}
+              value={formData.min_items || ''}
+              onChange={(e) => setFormData({ ...formData, min_items: e.target.value ? parseInt(e.target.value) : undefined })}
+              placeholder="3"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!formData.first_order_only}
+              onChange={(e) => setFormData({ ...formData, first_order_only: e.target.checked })}
+              className="h-4 w-4 accent-black"
+            />
+            Solo para la primera compra del cliente
+          </label>
+
+          {/* Usage Limit */}
+          <div className={cn(isCampaignMode && 'hidden')}>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Límite de Usos (opcional)
             </label>
@@ -594,7 +984,7 @@ export function AdminCoupons() {
           </div>
 
           {/* Active Toggle */}
-          <div className="flex items-center gap-3 pt-2">
+          <div className={cn('flex items-center gap-3 pt-2', isCampaignMode && 'hidden')}>
             <button
               type="button"
               onClick={() => setFormData({ ...formData, active: !formData.active })}
@@ -629,7 +1019,7 @@ export function AdminCoupons() {
             isLoading={isSaving}
             leftIcon={<Check className="h-4 w-4" />}
           >
-            {editingCoupon ? 'Actualizar' : 'Crear'}
+            {isCampaignMode ? 'Generar códigos' : editingCoupon ? 'Actualizar' : 'Crear'}
           </Button>
         </div>
       </Modal>
@@ -646,6 +1036,18 @@ export function AdminCoupons() {
         isLoading={isSaving}
         variant="danger"
       />
+
+      <ConfirmDialog
+        isOpen={!!campaignToDelete}
+        onClose={() => setCampaignToDelete(null)}
+        onConfirm={handleDeleteCampaign}
+        title="Eliminar Campaña"
+        message={`¿Eliminar la campaña "${campaignToDelete?.name}" y sus ${campaignToDelete?.stats.issued ?? 0} códigos? Solo es posible si ninguno se ha usado.`}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        isLoading={isSaving}
+        variant="danger"
+      />
     </div>
   );
 }
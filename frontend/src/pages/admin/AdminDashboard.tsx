@@ -10,6 +10,7 @@ import {
   Settings,
   MessageSquare,
   Tag,
+  Share2,
   Menu,
   X,
   Bell,
@@ -23,6 +24,7 @@ import {
   Clock,
   RefreshCw,
   UserCog,
+  Bot,
 } from 'lucide-react';
 
 import { useAuthStore } from '@/stores/authStore';
@@ -44,6 +46,8 @@ const getSidebarItems = (userRole: string | undefined) => {
     { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
     { name: 'Mensajes y Soporte', href: '/admin/messages', icon: MessageSquare, badge: 3 },
     { name: 'Cupones', href: '/admin/coupons', icon: Tag },
+    { name: 'Vendedores', href: '/admin/sellers', icon: Share2 },
+    { name: 'Bot WhatsApp', href: '/admin/bot-flows', icon: Bot },
     { name: 'Configuración', href: '/admin/settings', icon: Settings },
   ];
 
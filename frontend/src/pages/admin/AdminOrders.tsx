@@ -20,6 +20,7 @@ import {
   X,
   RefreshCw,
   User,
+  Printer,
 } from 'lucide-react';
 
 import { Button, IconButton } from '@/components/ui/Button';
@@ -55,6 +56,7 @@ export function AdminOrders() {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
   const [isContactModalOpen, setIsContactModalOpen] = useState(false);
   const [contactMessage, setContactMessage] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
@@ -102,6 +104,21 @@ export function AdminOrders() {
     setIsContactModalOpen(false);
   };
 
+  const printPackingSlips = async (orderId?: string) => {
+    setIsPrinting(true);
+    try {
+      if (orderId) {
+        await orderService.openPackingSlip(orderId);
+      } else {
+        await orderService.openTodayPackingSlips();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al generar las guías');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
     try {
       await orderService.updateStatus(orderId, newStatus);
@@ -130,9 +147,19 @@ export function AdminOrders() {
           <h1 className="text-2xl font-bold text-black">Pedidos</h1>
           <p className="text-gray-600">Gestiona y rastrea los pedidos de los clientes</p>
         </div>
-        <Button leftIcon={<Download className="h-4 w-4" />} variant="outline">
-          Exportar
-        </Button>
+        <div className="flex gap-3">
+          <Button
+            leftIcon={<Printer className="h-4 w-4" />}
+            variant="outline"
+            isLoading={isPrinting}
+            onClick={() => printPackingSlips()}
+          >
+            Guías de hoy
+          </Button>
+          <Button leftIcon={<Download className="h-4 w-4" />} variant="outline">
+            Exportar
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -275,6 +302,11 @@ export function AdminOrders() {
                           <StatusIcon className="h-3 w-3" />
                           {statusConfig[order.status as keyof typeof statusConfig]?.label || order.status}
                         </span>
+                        {order.channel === 'whatsapp' && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700">
+                            WhatsApp
+                          </span>
+                        )}
                       </div>
                       <p className="text-sm text-gray-500">
                         {order.user_id?.slice(0, 8)}... • {formatDate(order.created_at)}
@@ -590,6 +622,15 @@ export function AdminOrders() {
               <Button variant="outline" className="flex-1">
                 Imprimir Factura
               </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                leftIcon={<Printer className="h-4 w-4" />}
+                isLoading={isPrinting}
+                onClick={() => printPackingSlips(selectedOrder.id)}
+              >
+                Guía de Empaque
+              </Button>
               <Button
                 variant="outline"
                 className="flex-1"
@@ -15,6 +15,7 @@ import {
   Image as ImageIcon,
   Edit2,
   Trash2,
+  History,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -27,6 +28,7 @@ import { formatCurrency } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { productService, categoryService, analyticsService } from '@/lib/services';
 import { ProductCardAdmin, ProductStatsDetail } from '@/components/admin/ProductCardAdmin';
+import { InventoryHistoryModal } from '@/components/admin/InventoryHistoryModal';
 import type { Product, Category, ProductWithStats, ProductAccessory } from '@/types';
 
 const genderOptions = [
@@ -132,6 +134,7 @@ interface FormData {
   productType: string;
   gender: string;
   quantity: string;
+  lowStockThreshold: string;
   brand: string;
   material: string;
   weight: string;
@@ -156,6 +159,7 @@ const initialFormData: FormData = {
   productType: '',
   gender: '',
   quantity: '',
+  lowStockThreshold: '',
   brand: '',
   material: '',
   weight: '',
@@ -182,6 +186,7 @@ export function AdminProducts() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isStatsModalOpen, setIsStatsModalOpen] = useState(false);
+  const [isInventoryModalOpen, setIsInventoryModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<ProductWithStats | null>(null);
   const [productImages, setProductImages] = useState<UploadedImage[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -276,6 +281,7 @@ export function AdminProducts() {
       productType: product.product_type || '',
       gender: product.gender || '',
       quantity: product.quantity.toString(),
+      lowStockThreshold: product.low_stock_threshold?.toString() || '',
       brand: product.brand || '',
       material: product.material || '',
       weight: product.weight?.toString() || '',
@@ -313,6 +319,11 @@ export function AdminProducts() {
     setIsStatsModalOpen(true);
   };
 
+  const handleOpenInventory = (product: ProductWithStats) => {
+    setSelectedProduct(product);
+    setIsInventoryModalOpen(true);
+  };
+
   const handleSubmit = async (isEdit: boolean) => {
     if (!formData.name || !formData.sku || !formData.price) {
       toast.error('Por favor completa los campos obligatorios');
@@ -329,6 +340,8 @@ export function AdminProducts() {
         price: parseFloat(formData.price),
         sku: formData.sku,
         quantity: parseInt(formData.quantity) || 0,
+        // Vacío: se usa el umbral por defecto de la tienda
+        low_stock_threshold: formData.lowStockThreshold ? parseInt(formData.lowStockThreshold) : null,
         category_id: formData.category_id || undefined,
         brand: formData.brand,
         tags: formData.tags.split(',').map((t) => t.trim()).filter(Boolean),
@@ -757,6 +770,7 @@ export function AdminProducts() {
                   onEdit={handleOpenEditModal}
                   onDelete={handleOpenDeleteDialog}
                   onView={handleOpenStats}
+                  onInventory={handleOpenInventory}
                 />
               ))}
             </div>
@@ -829,6 +843,9 @@ export function AdminProducts() {
                             <IconButton onClick={() => handleOpenStats(product)} variant="ghost" className="text-gray-500 hover:text-black">
                               <Search className="h-4 w-4" />
                             </IconButton>
+                            <IconButton onClick={() => handleOpenInventory(product)} variant="ghost" className="text-gray-500 hover:text-black">
+                              <History className="h-4 w-4" />
+                            </IconButton>
                             <IconButton onClick={() => handleOpenEditModal(product)} variant="ghost" className="text-gray-500 hover:text-black">
                               <Edit2 className="h-4 w-4" />
                             </IconButton>
@@ -992,6 +1009,17 @@ export function AdminProducts() {
                       className="bg-white/5 border-white/10 text-white placeholder-gray-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1.5">Alerta de stock bajo</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={formData.lowStockThreshold}
+                      onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
+                      placeholder="Por defecto de la tienda"
+                      className="bg-white/5 border-white/10 text-white placeholder-gray-500"
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -1096,6 +1124,19 @@ export function AdminProducts() {
                       className="bg-white/5 border-white/10 text-white placeholder-gray-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1.5">Peso (gramos)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.weight}
+                      onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+                      placeholder="Ej. 350"
+                      className="bg-white/5 border-white/10 text-white placeholder-gray-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Con el empaque; se usa para cotizar el envío</p>
+                  </div>
                 </div>
               </div>
 
@@ -1426,6 +1467,14 @@ export function AdminProducts() {
       >
         {selectedProduct && <ProductStatsDetail product={selectedProduct} />}
       </Modal>
+
+      {/* Inventory Movements Modal */}
+      <InventoryHistoryModal
+        product={selectedProduct}
+        isOpen={isInventoryModalOpen}
+        onClose={() => setIsInventoryModalOpen(false)}
+        onAdjusted={loadData}
+      />
     </div>
   );
 }
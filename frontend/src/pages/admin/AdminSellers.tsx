@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Edit, Loader2, Share2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button, IconButton } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Input, Select } from '@/components/ui/Input';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useSellers, useUpdateSeller } from '@/hooks/useSellers';
+import type { Seller, SellerStatus } from '@/types';
+
+const statusLabels: Record<SellerStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendiente', className: 'bg-amber-50 text-amber-700' },
+  active: { label: 'Activo', className: 'bg-emerald-50 text-emerald-700' },
+  suspended: { label: 'Suspendido', className: 'bg-red-50 text-red-700' },
+  rejected: { label: 'Rechazado', className: 'bg-gray-100 text-gray-600' },
+};
+
+const statusOptions = (Object.keys(statusLabels) as SellerStatus[]).map((status) => ({
+  value: status,
+  label: statusLabels[status].label,
+}));
+
+interface SellerForm {
+  status: SellerStatus;
+  commission_percentage: string;
+  referral_code: string;
+  notes: string;
+}
+
+export function AdminSellers() {
+  const [statusFilter, setStatusFilter] = useState<SellerStatus | ''>('');
+  const { data: sellers = [], isLoading } = useSellers(statusFilter || undefined);
+  const updateSeller = useUpdateSeller();
+
+  const [editing, setEditing] = useState<Seller | null>(null);
+  const [form, setForm] = useState<SellerForm>({ status: 'pending', commission_percentage: '', referral_code: '', notes: '' });
+
+  const openEdit = (seller: Seller) => {
+    setEditing(seller);
+    setForm({
+      status: seller.status,
+      commission_percentage: seller.team_member_id ? seller.commission_percentage.toString() : '',
+      referral_code: seller.referral_code,
+      notes: seller.notes || '',
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    try {
+      await updateSeller.mutateAsync({
+        id: editing.id,
+        data: {
+          status: form.status,
+          commission_percentage: form.commission_percentage ? parseFloat(form.commission_percentage) : undefined,
+          referral_code: form.referral_code !== editing.referral_code ? form.referral_code : undefined,
+          notes: form.notes || undefined,
+        },
+      });
+      toast.success('Vendedor actualizado');
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo actualizar el vendedor');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-black">Vendedores</h1>
+          <p className="text-gray-600">Aprueba revendedores y define su comisión por venta referida</p>
+        </div>
+        <div className="w-full sm:w-48">
+          <Select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SellerStatus | '')}
+            options={[{ value: '', label: 'Todos' }, ...statusOptions]}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : sellers.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            <Share2 className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+            No hay vendedores {statusFilter ? 'con este estado' : 'registrados'}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Vendedor</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Código</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">Estado</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">Comisión</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">Pedidos</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">Ventas</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sellers.map((seller) => (
+                <tr key={seller.id}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-black">{seller.display_name || seller.user?.full_name}</p>
+                    <p className="text-xs text-gray-500">{seller.user?.email}{seller.phone && ` · ${seller.phone}`}</p>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-black">{seller.referral_code}</td>
+                  <td className="px-4 py-3">
+                    <span className={cn('text-xs px-2 py-0.5 rounded-full', statusLabels[seller.status].className)}>
+                      {statusLabels[seller.status].label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">
+                    {seller.team_member_id ? `${seller.commission_percentage}%` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">{seller.orders_count ?? 0}</td>
+                  <td className="px-4 py-3 text-right text-black font-medium">{formatCurrency(seller.total_sales ?? 0)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <IconButton variant="ghost" size="sm" onClick={() => openEdit(seller)} aria-label="Editar vendedor">
+                      <Edit className="h-4 w-4" />
+                    </IconButton>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title="Editar vendedor"
+        description={editing?.display_name || editing?.user?.full_name}
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <Select
+            label="Estado"
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value as SellerStatus })}
+            options={statusOptions}
+          />
+          <Input
+            label="Comisión (%)"
+            type="number"
+            min={0}
+            max={100}
+            step="0.5"
+            value={form.commission_percentage}
+            onChange={(e) => setForm({ ...form, commission_percentage: e.target.value })}
+            hint="Vacío al aprobar: se usa la comisión por defecto"
+          />
+          <Input
+            label="Código de referido"
+            value={form.referral_code}
+            onChange={(e) => setForm({ ...form, referral_code: e.target.value.toUpperCase() })}
+          />
+          <Input
+            label="Notas"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          {editing?.payout_method && (
+            <p className="text-sm text-gray-500">
+              Pagos: {editing.payout_method} {editing.payout_details}
+            </p>
+          )}
+          <Button type="submit" isLoading={updateSeller.isPending} className="w-full">
+            Guardar
+          </Button>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   Store,
@@ -17,7 +17,11 @@ import toast from 'react-hot-toast';
 
 import { Button } from '@/components/ui/Button';
 import { Input, Textarea, Select } from '@/components/ui/Input';
+import { NumberingReconciliationPanel } from '@/components/invoice/NumberingReconciliationPanel';
+import { ShippingServicesPanel } from '@/components/admin';
 import { cn } from '@/lib/utils';
+import { useStoreSettings, useUpdateSettings } from '@/hooks/useSettings';
+import type { StoreSettings, StoreSettingsKey } from '@/types';
 
 const tabs = [
   { id: 'general', label: 'General', icon: Store },
@@ -47,13 +51,41 @@ const timezones = [
 export function AdminSettings() {
   const [activeTab, setActiveTab] = useState('general');
   const [isSaving, setIsSaving] = useState(false);
+  const { data: savedSettings } = useStoreSettings();
+  const updateSettings = useUpdateSettings();
+  const [form, setForm] = useState<StoreSettings | null>(null);
+
+  useEffect(() => {
+    if (savedSettings) setForm(savedSettings);
+  }, [savedSettings]);
+
+  const updateField = <K extends StoreSettingsKey>(key: K, field: keyof StoreSettings[K], value: unknown) => {
+    setForm((prev) => (prev ? { ...prev, [key]: { ...prev[key], [field]: value } } : prev));
+  };
 
   const handleSave = async () => {
+    if (!form || !savedSettings) return;
+
+    // Solo se guardan las secciones modificadas (cada guardado queda auditado)
+    const changedKeys = (Object.keys(form) as StoreSettingsKey[]).filter(
+      (key) => JSON.stringify(form[key]) !== JSON.stringify(savedSettings[key])
+    );
+    if (changedKeys.length === 0) {
+      toast.success('No hay cambios por guardar');
+      return;
+    }
+
     setIsSaving(true);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsSaving(false);
-    toast.success('Configuración guardada exitosamente');
+    try {
+      for (const key of changedKeys) {
+        await updateSettings.mutateAsync({ key, value: form[key] });
+      }
+      toast.success('Configuración guardada exitosamente');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la configuración');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -122,26 +154,73 @@ export function AdminSettings() {
                 </div>
 
                 <div className="grid sm:grid-cols-2 gap-4">
-                  <Input label="Nombre de la Tienda" defaultValue="MELO SPORTT" />
-                  <Input label="Email de Contacto" type="email" defaultValue="contacto@melosportt.com" />
+                  <Input
+                    label="Nombre de la Tienda"
+                    value={form?.general.store_name ?? ''}
+                    onChange={(e) => updateField('general', 'store_name', e.target.value)}
+                  />
+                  <Input
+                    label="Email de Contacto"
+                    type="email"
+                    value={form?.contact.email ?? ''}
+                    onChange={(e) => updateField('contact', 'email', e.target.value)}
+                  />
                 </div>
 
                 <div className="grid sm:grid-cols-2 gap-4">
-                  <Input label="Teléfono" type="tel" defaultValue="+57 300 123 4567" />
-                  <Input label="WhatsApp" type="tel" defaultValue="+57 300 123 4567" />
+                  <Input
+                    label="Teléfono"
+                    type="tel"
+                    value={form?.contact.phone ?? ''}
+                    onChange={(e) => updateField('contact', 'phone', e.target.value)}
+                  />
+                  <Input
+                    label="WhatsApp"
+                    type="tel"
+                    value={form?.contact.whatsapp ?? ''}
+                    onChange={(e) => updateField('contact', 'whatsapp', e.target.value)}
+                    hint="Número del botón de WhatsApp y enlaces de soporte"
+                  />
                 </div>
 
                 <Textarea
                   label="Descripción de la Tienda"
-                  defaultValue="Moda deportiva premium. Descubre piezas atemporales diseñadas con atención al detalle."
+                  value={form?.general.store_description ?? ''}
+                  onChange={(e) => updateField('general', 'store_description', e.target.value)}
                 />
 
                 <div className="grid sm:grid-cols-2 gap-4">
-                  <Select label="Moneda" options={currencies} defaultValue="COP" />
-                  <Select label="Zona Horaria" options={timezones} defaultValue="America/Bogota" />
+                  <Select
+                    label="Moneda"
+                    options={currencies}
+                    value={form?.general.currency ?? 'COP'}
+                    onChange={(e) => updateField('general', 'currency', e.target.value)}
+                  />
+                  <Select
+                    label="Zona Horaria"
+                    options={timezones}
+                    value={form?.general.timezone ?? 'America/Bogota'}
+                    onChange={(e) => updateField('general', 'timezone', e.target.value)}
+                  />
                 </div>
 
-                <Input label="Dirección de la Tienda" defaultValue="Calle 123 #45-67, Bogotá, Colombia" />
+                <Input
+                  label="Dirección de la Tienda"
+                  value={form?.contact.address ?? ''}
+                  onChange={(e) => updateField('contact', 'address', e.target.value)}
+                />
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  {(['facebook', 'instagram', 'twitter', 'tiktok'] as const).map((network) => (
+                    <Input
+                      key={network}
+                      label={network.charAt(0).toUpperCase() + network.slice(1)}
+                      value={form?.social[network] ?? ''}
+                      onChange={(e) => updateField('social', network, e.target.value)}
+                      placeholder="https://"
+                    />
+                  ))}
+                </div>
               </div>
             )}
 
@@ -175,6 +254,33 @@ export function AdminSettings() {
                   ))}
                 </div>
 
+                <div className="grid sm:grid-cols-3 gap-4">
+                  <Input
+                    label="Umbral de stock bajo"
+                    type="number"
+                    min={0}
+                    value={form?.inventory.low_stock_threshold ?? 5}
+                    onChange={(e) => updateField('inventory', 'low_stock_threshold', Number(e.target.value))}
+                    hint="Se usa cuando el producto o la talla no tiene uno propio"
+                  />
+                  <Input
+                    label="Ventana de ventas (días)"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form?.inventory.sales_window_days ?? 30}
+                    onChange={(e) => updateField('inventory', 'sales_window_days', Number(e.target.value))}
+                  />
+                  <Input
+                    label="Cobertura objetivo (días)"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form?.inventory.target_cover_days ?? 30}
+                    onChange={(e) => updateField('inventory', 'target_cover_days', Number(e.target.value))}
+                  />
+                </div>
+
                 <Input
                   label="Email de Notificaciones"
                   type="email"
@@ -241,6 +347,78 @@ export function AdminSettings() {
                     ]}
                   />
                 </div>
+
+                {/* Facturación electrónica (emisor en UBL 2.1) */}
+                <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4">
+                  <div>
+                    <p className="text-black font-medium">Facturación electrónica DIAN</p>
+                    <p className="text-gray-600 text-sm">Datos del emisor en facturas y notas crédito</p>
+                  </div>
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <Input
+                      label="NIT"
+                      value={form?.invoicing.nit ?? ''}
+                      onChange={(e) => updateField('invoicing', 'nit', e.target.value.replace(/\D/g, ''))}
+                    />
+                    <Input
+                      label="Dígito de verificación"
+                      maxLength={1}
+                      value={form?.invoicing.check_digit ?? ''}
+                      onChange={(e) => updateField('invoicing', 'check_digit', e.target.value.replace(/\D/g, ''))}
+                    />
+                    <Input
+                      label="Email de facturación"
+                      type="email"
+                      value={form?.invoicing.email ?? ''}
+                      onChange={(e) => updateField('invoicing', 'email', e.target.value)}
+                    />
+                  </div>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <Input
+                      label="Razón social"
+                      value={form?.invoicing.legal_name ?? ''}
+                      onChange={(e) => updateField('invoicing', 'legal_name', e.target.value)}
+                    />
+                    <Input
+                      label="Nombre comercial"
+                      value={form?.invoicing.trade_name ?? ''}
+                      onChange={(e) => updateField('invoicing', 'trade_name', e.target.value)}
+                    />
+                    <Input
+                      label="Dirección"
+                      value={form?.invoicing.address ?? ''}
+                      onChange={(e) => updateField('invoicing', 'address', e.target.value)}
+                    />
+                    <Input
+                      label="Responsabilidades fiscales"
+                      value={form?.invoicing.tax_responsibilities.join(';') ?? ''}
+                      onChange={(e) =>
+                        updateField('invoicing', 'tax_responsibilities', e.target.value.split(';').map((code) => code.trim()).filter(Boolean))
+                      }
+                      hint="Códigos del RUT separados por punto y coma (p. ej. O-13;O-15)"
+                    />
+                  </div>
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    <Input
+                      label="Ciudad"
+                      value={form?.invoicing.city ?? ''}
+                      onChange={(e) => updateField('invoicing', 'city', e.target.value)}
+                    />
+                    <Input
+                      label="Código DANE municipio"
+                      maxLength={5}
+                      value={form?.invoicing.city_code ?? ''}
+                      onChange={(e) => updateField('invoicing', 'city_code', e.target.value)}
+                    />
+                    <Input
+                      label="ID del software DIAN"
+                      value={form?.invoicing.software_id ?? ''}
+                      onChange={(e) => updateField('invoicing', 'software_id', e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <NumberingReconciliationPanel />
               </div>
             )}
 
@@ -250,33 +428,26 @@ export function AdminSettings() {
                 <h2 className="text-xl font-semibold text-white mb-6">Shipping Settings</h2>
 
                 <div className="grid sm:grid-cols-2 gap-4">
-                  <Input label="Free Shipping Threshold ($)" type="number" defaultValue="100" />
-                  <Input label="Default Shipping Cost ($)" type="number" defaultValue="10" />
+                  <Input
+                    label="Free Shipping Threshold ($)"
+                    type="number"
+                    min={0}
+                    value={form?.shipping.free_shipping_threshold ?? 0}
+                    onChange={(e) => updateField('shipping', 'free_shipping_threshold', Number(e.target.value))}
+                  />
+                  <Input
+                    label="Default Item Weight (g)"
+                    type="number"
+                    min={1}
+                    value={form?.shipping.default_item_weight_g ?? 0}
+                    onChange={(e) => updateField('shipping', 'default_item_weight_g', Number(e.target.value))}
+                  />
                 </div>
+                <p className="text-gray-400 text-sm">
+                  Shipping is quoted by zone, package weight and carrier. Products without a weight count as the default item weight.
+                </p>
 
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium text-white">Shipping Methods</h3>
-
-                  {[
-                    { name: 'Standard Shipping', price: 10, days: '5-7 days' },
-                    { name: 'Express Shipping', price: 25, days: '2-3 days' },
-                    { name: 'Overnight Shipping', price: 50, days: '1 day' },
-                  ].map((method) => (
-                    <div key={method.name} className="flex items-center justify-between p-4 bg-primary-800 rounded-lg">
-                      <div>
-                        <p className="text-white font-medium">{method.name}</p>
-                        <p className="text-gray-400 text-sm">{method.days}</p>
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <span className="text-white font-medium">${method.price}</span>
-                        <label className="relative inline-flex items-center cursor-pointer">
-                          <input type="checkbox" defaultChecked className="sr-only peer" />
-                          <div className="w-11 h-6 bg-primary-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-green-500"></div>
-                        </label>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <ShippingServicesPanel />
               </div>
             )}
 
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Mail, ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuthStore } from '@/stores/authStore';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Correo electrónico inválido'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPasswordPage() {
+  const { resetPassword } = useAuthStore();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await resetPassword(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo enviar el enlace');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <Link to="/" className="block text-center mb-8">
+          <span className="text-3xl font-bold text-white tracking-wider">MELO SPORTT</span>
+        </Link>
+
+        {sentTo ? (
+          <div className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-white mb-2">Revisa tu correo</h1>
+            <p className="text-gray-400 mb-8">
+              Si existe una cuenta asociada a <span className="text-white">{sentTo}</span>, recibirás un enlace para
+              restablecer tu contraseña. El enlace vence en 60 minutos.
+            </p>
+            <Link to="/login" className="text-white hover:underline">
+              Volver a iniciar sesión
+            </Link>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-white mb-2">¿Olvidaste tu contraseña?</h1>
+            <p className="text-gray-400 mb-8">
+              Ingresa tu correo y te enviaremos un enlace para crear una nueva contraseña.
+            </p>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <Input
+                label="Correo Electrónico"
+                type="email"
+                placeholder="tu@correo.com"
+                leftIcon={<Mail className="h-5 w-5" />}
+                error={errors.email?.message}
+                {...register('email')}
+              />
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                isLoading={isSubmitting}
+                rightIcon={<ArrowRight className="h-5 w-5" />}
+              >
+                Enviar enlace
+              </Button>
+            </form>
+
+            <Link
+              to="/login"
+              className="flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-white transition-colors mt-8"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Volver a iniciar sesión
+            </Link>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
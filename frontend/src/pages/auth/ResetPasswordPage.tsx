@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Lock, Eye, EyeOff, ArrowRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { authService } from '@/lib/services';
+import { useAuthStore } from '@/stores/authStore';
+
+const resetPasswordSchema = z
+  .object({
+    password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Las contraseñas no coinciden',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [showPassword, setShowPassword] = useState(false);
+  const { signOut } = useAuthStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    try {
+      await authService.confirmPasswordReset(token, data.password);
+      // El backend cierra todas las sesiones anteriores
+      await signOut();
+      toast.success('Contraseña actualizada. Inicia sesión con tu nueva contraseña');
+      navigate('/login', { replace: true });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo restablecer la contraseña');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <Link to="/" className="block text-center mb-8">
+          <span className="text-3xl font-bold text-white tracking-wider">MELO SPORTT</span>
+        </Link>
+
+        {!token ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white mb-2">Enlace inválido</h1>
+            <p className="text-gray-400 mb-8">
+              El enlace para restablecer tu contraseña no es válido. Solicita uno nuevo.
+            </p>
+            <Link to="/forgot-password" className="text-white hover:underline">
+              Solicitar nuevo enlace
+            </Link>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-white mb-2">Nueva contraseña</h1>
+            <p className="text-gray-400 mb-8">
+              Elige una nueva contraseña. Se cerrarán las sesiones abiertas en otros dispositivos.
+            </p>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div className="relative">
+                <Input
+                  label="Nueva Contraseña"
+                  type={showPassword ? 'text' : 'password'}
+                  placeholder="Mínimo 8 caracteres"
+                  leftIcon={<Lock className="h-5 w-5" />}
+                  error={errors.password?.message}
+                  {...register('password')}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-4 top-[42px] text-gray-400 hover:text-white"
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </button>
+              </div>
+
+              <Input
+                label="Confirmar Contraseña"
+                type={showPassword ? 'text' : 'password'}
+                placeholder="Repite la contraseña"
+                leftIcon={<Lock className="h-5 w-5" />}
+                error={errors.confirmPassword?.message}
+                {...register('confirmPassword')}
+              />
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                isLoading={isSubmitting}
+                rightIcon={<ArrowRight className="h-5 w-5" />}
+              >
+                Guardar contraseña
+              </Button>
+            </form>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
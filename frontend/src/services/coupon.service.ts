@@ -1,18 +1,28 @@
 import { apiClient } from '@/lib/api';
+import type { ShippingDestination } from '@/types';
+
+export type CouponDiscountType = 'percentage' | 'fixed' | 'buy_x_get_y' | 'free_shipping';
+export type CouponApplicability = 'all' | 'specific' | 'categories';
 
 export interface Coupon {
   id: string;
   code: string;
-  discount_type: 'percentage' | 'fixed';
+  discount_type: CouponDiscountType;
   discount_value: number;
   min_purchase?: number;
   max_discount?: number;
   usage_limit?: number;
   used_count: number;
+  per_customer_limit?: number;
+  first_order_only: boolean;
+  min_items?: number;
+  buy_quantity?: number;
+  get_quantity?: number;
   expires_at?: string;
   starts_at?: string;
-  applicable_to: 'all' | 'specific';
+  applicable_to: CouponApplicability;
   product_ids?: string[];
+  category_ids?: string[];
   active: boolean;
   created_at: string;
   updated_at: string;
@@ -20,24 +30,50 @@ export interface Coupon {
 
 export interface CreateCouponData {
   code: string;
-  discount_type: 'percentage' | 'fixed';
+  discount_type: CouponDiscountType;
   discount_value: number;
   min_purchase?: number;
   max_discount?: number;
   usage_limit?: number;
+  per_customer_limit?: number;
+  first_order_only?: boolean;
+  min_items?: number;
+  buy_quantity?: number;
+  get_quantity?: number;
   expires_at?: string;
   starts_at?: string;
-  applicable_to?: 'all' | 'specific';
+  applicable_to?: CouponApplicability;
   product_ids?: string[];
+  category_ids?: string[];
   active?: boolean;
 }
 
-export interface UpdateCouponData extends Partial<CreateCouponData> {}
+// null limpia un campo opcional en el servidor
+export type UpdateCouponData = { [K in keyof CreateCouponData]?: CreateCouponData[K] | null };
 
 export interface ValidateCouponData {
   code: string;
-  cartItems: any[];
-  subtotal: number;
+  cartItems: Array<{
+    product_id: string;
+    variant_id?: string;
+    quantity: number;
+    selected_accessories?: string[];
+  }>;
+  shipping_method?: string;
+  destination?: ShippingDestination;
+}
+
+// Descuento del cupón en cada línea del carrito
+export interface CouponLineDiscount {
+  product_id: string;
+  variant_id?: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  eligible: boolean;
+  discounted_units: number;
+  discount: number;
 }
 
 export interface ValidateCouponResponse {
@@ -46,10 +82,16 @@ export interface ValidateCouponResponse {
     coupon: {
       id: string;
       code: string;
-      discount_type: string;
+      discount_type: CouponDiscountType;
       discount_value: number;
     };
     discount_amount: number;
+    shipping_discount: number;
+    lines: CouponLineDiscount[];
+    subtotal: number;
+    // null mientras no se envíe un destino para cotizar el envío
+    shipping_cost: number | null;
+    total: number | null;
   };
   message: string;
 }
@@ -68,8 +110,41 @@ interface GetCouponsResponse {
   };
 }
 
+// Reglas compartidas por todos los códigos de una campaña
+export type CouponCampaignRules = Omit<CreateCouponData, 'code' | 'usage_limit' | 'active'>;
+
+export interface CouponCampaignStats {
+  issued: number;
+  redeemed: number;
+  available: number;
+  orders: number;
+  revenue: number;
+  discount_given: number;
+}
+
+export interface CouponCampaign {
+  id: string;
+  name: string;
+  description?: string;
+  code_prefix: string;
+  rules: CouponCampaignRules;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  stats: CouponCampaignStats;
+}
+
+export interface CreateCouponCampaignData {
+  name: string;
+  description?: string;
+  code_prefix: string;
+  quantity: number;
+  rules: CouponCampaignRules;
+}
+
 class CouponService {
   private baseUrl = '/coupons';
+  private campaignsUrl = '/coupon-campaigns';
 
   async getAll(params?: { page?: number; limit?: number; status?: string }): Promise<GetCouponsResponse> {
     const queryParams: Record<string, string> = {};
@@ -138,12 +213,33 @@ class CouponService {
     return response.data as ValidateCouponResponse;
   }
 
-  async incrementUsage(couponId: string) {
-    const response = await apiClient.post(`${this.baseUrl}/increment-usage`, {
-      couponId,
-    });
+  async getCampaigns(): Promise<CouponCampaign[]> {
+    const response = await apiClient.get<CouponCampaign[]>(this.campaignsUrl);
+    return response.data || [];
+  }
+
+  async createCampaign(data: CreateCouponCampaignData) {
+    const response = await apiClient.post<CouponCampaign>(this.campaignsUrl, data);
     return response.data;
   }
+
+  async addCampaignCodes(id: string, quantity: number) {
+    const response = await apiClient.post<CouponCampaign>(`${this.campaignsUrl}/${id}/codes`, { quantity });
+    return response.data;
+  }
+
+  async updateCampaign(id: string, data: { name?: string; description?: string; active?: boolean }) {
+    const response = await apiClient.patch<CouponCampaign>(`${this.campaignsUrl}/${id}`, data);
+    return response.data;
+  }
+
+  async deleteCampaign(id: string) {
+    await apiClient.delete(`${this.campaignsUrl}/${id}`);
+  }
+
+  async exportCampaignCodes(campaign: CouponCampaign) {
+    await apiClient.download(`${this.campaignsUrl}/${campaign.id}/export`, `cupones-${campaign.code_prefix}.csv`);
+  }
 }
 
 export const couponService = new CouponService();
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { track } from '@/lib/tracking';
 import type { Product, ProductVariant, CartItem } from '@/types';
 
 interface CartState {
@@ -28,6 +29,8 @@ export const useCartStore = create<CartState>()(
       isOpen: false,
 
       addItem: (product, quantity = 1, variant, selectedAccessories = []) => {
+        track('add_to_cart', { product_id: product.id });
+
         set((state) => {
           // Para conjuntos con accesorios, considerar los accesorios al buscar items existentes
           const accessoriesKey = selectedAccessories.sort().join(',');
@@ -109,8 +109,93 @@ export interface CommissionSummary {
   orders_count: number;
 }
 
+// Seller / reseller program
+export type SellerStatus = 'pending' | 'active' | 'suspended' | 'rejected';
+
+export interface Seller {
+  id: string;
+  user_id: string;
+  user?: Pick<User, 'id' | 'email' | 'full_name'>;
+  team_member_id?: string | null;
+  referral_code: string;
+  status: SellerStatus;
+  display_name?: string;
+  phone?: string;
+  document_number?: string;
+  payout_method?: string;
+  payout_details?: string;
+  notes?: string;
+  commission_percentage: number;
+  approved_at?: string;
+  created_at: string;
+  updated_at: string;
+  // Solo en el listado de admin
+  orders_count?: number;
+  total_sales?: number;
+}
+
+export interface SellerRegistration {
+  display_name?: string;
+  phone?: string;
+  document_number?: string;
+  payout_method?: string;
+  payout_details?: string;
+}
+
+export interface SellerUpdate {
+  status?: SellerStatus;
+  commission_percentage?: number;
+  referral_code?: string;
+  notes?: string;
+}
+
+export interface SellerDashboard {
+  seller: Seller;
+  referral_link: string;
+  stats: {
+    orders_count: number;
+    delivered_orders: number;
+    total_sales: number;
+    customers_count: number;
+  };
+  commissions: CommissionSummary;
+  recent_orders: Array<Pick<Order, 'id' | 'order_number' | 'total' | 'status' | 'payment_status' | 'created_at'> & {
+    commission_amount: number | null;
+  }>;
+}
+
+// WhatsApp bot flows (the admin edits the definition as JSON)
+export interface BotFlowDefinition {
+  initial_state: string;
+  states: Record<string, Record<string, unknown>>;
+}
+
+export interface BotFlow {
+  id: string;
+  name: string;
+  description?: string | null;
+  definition: BotFlowDefinition;
+  is_active: boolean;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BotFlowValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface BotFlowInput {
+  name?: string;
+  description?: string | null;
+  definition?: BotFlowDefinition;
+  version?: number;
+}
+
 // User notifications
-export type NotificationType = 'order' | 'commission' | 'promotion' | 'system';
+export type NotificationType = 'order' | 'commission' | 'promotion' | 'system' | 'inventory';
 
 export interface UserNotification {
   id: string;
@@ -146,6 +231,7 @@ export interface Product {
   quantity: number;
   track_quantity: boolean;
   continue_selling_when_out_of_stock: boolean;
+  low_stock_threshold?: number | null; // null: umbral por defecto de la tienda
   category_id?: string;
   category?: Category;
   brand?: string;
@@ -166,6 +252,10 @@ export interface Product {
   // Campos para conjuntos con accesorios
   is_set?: boolean; // Indica si es un conjunto
   accessories?: ProductAccessory[]; // Array de accesorios opcionales
+  // Calificación agregada (solo reseñas aprobadas)
+  average_rating?: number;
+  review_count?: number;
+  rating_distribution?: RatingDistribution;
   created_at: string;
   updated_at: string;
 }
@@ -187,6 +277,7 @@ export interface ProductVariant {
   price: number;
   compare_at_price?: number;
   quantity: number;
+  low_stock_threshold?: number | null; // null: umbral del producto
   options: VariantOption[];
   image_url?: string;
   is_active: boolean;
@@ -253,6 +344,8 @@ export type PaymentStatus =
   | 'refunded'
   | 'partially_refunded';
 
+export type OrderChannel = 'web' | 'whatsapp';
+
 export interface Order {
   id: string;
   order_number: string;
@@ -275,6 +368,11 @@ export interface Order {
   tracking_url?: string;
   notes?: string;
   coupon_code?: string;
+  seller_id?: string | null;
+  referral_code?: string | null;
+  channel?: OrderChannel;
+  shipping_service_id?: string | null;
+  shipping_weight_g?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -317,20 +415,31 @@ export interface Coupon {
 }
 
 // Review Types
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
 export interface Review {
   id: string;
   product_id: string;
   user_id: string;
-  user?: User;
+  user?: Pick<User, 'id' | 'full_name' | 'avatar_url'>;
   rating: number;
   title: string;
   content: string;
   images?: string[];
   is_verified_purchase: boolean;
   helpful_count: number;
+  status?: ReviewStatus;
   created_at: string;
 }
 
+export interface RatingSummary {
+  average_rating: number;
+  review_count: number;
+  rating_distribution: RatingDistribution;
+}
+
 // Wishlist Types
 export interface WishlistItem {
   id: string;
@@ -491,29 +600,172 @@ export interface Notification {
   created_at: string;
 }
 
-// Settings Types
-export interface StoreSettings {
+// Settings Types (store_settings, una clave por sección)
+export interface GeneralSettings {
   store_name: string;
   store_description: string;
-  logo_url: string;
-  favicon_url: string;
-  primary_color: string;
-  secondary_color: string;
-  contact_email: string;
-  contact_phone: string;
-  whatsapp_number: string;
-  address: string;
-  social_links: {
-    facebook?: string;
-    instagram?: string;
-    twitter?: string;
-    tiktok?: string;
-  };
   currency: string;
   timezone: string;
-  tax_rate: number;
-  free_shipping_threshold?: number;
-  default_shipping_cost: number;
+}
+
+export interface ContactSettings {
+  email: string;
+  phone: string;
+  whatsapp: string;
+  address: string;
+}
+
+export interface SocialSettings {
+  facebook: string;
+  instagram: string;
+  twitter: string;
+  tiktok: string;
+}
+
+export interface ShippingSettings {
+  free_shipping_threshold: number;
+  default_item_weight_g: number;
+}
+
+export interface InventorySettings {
+  low_stock_threshold: number;
+  sales_window_days: number;
+  target_cover_days: number;
+}
+
+export interface InvoicingSettings {
+  nit: string;
+  check_digit: string;
+  legal_name: string;
+  trade_name: string;
+  tax_responsibilities: string[];
+  address: string;
+  city: string;
+  city_code: string;
+  department: string;
+  department_code: string;
+  email: string;
+  software_id: string;
+}
+
+export interface StoreSettings {
+  general: GeneralSettings;
+  contact: ContactSettings;
+  social: SocialSettings;
+  shipping: ShippingSettings;
+  inventory: InventorySettings;
+  invoicing: InvoicingSettings;
+}
+
+export type StoreSettingsKey = keyof StoreSettings;
+
+// Consecutivos de facturación (conciliación de huecos)
+export interface NumberingSequenceReport {
+  prefix: string;
+  document_type: 'invoice' | 'credit_note';
+  first_number: number;
+  last_number: number;
+  issued: number;
+  voided: number;
+  expected: number;
+  missing_count: number;
+  missing: number[];
+  outside_counter: string[];
+  out_of_range: string[];
+  ok: boolean;
+}
+
+export interface NumberingReconciliation {
+  generated_at: string;
+  ok: boolean;
+  unnumbered: number;
+  sequences: NumberingSequenceReport[];
+}
+
+export interface SettingsAuditEntry {
+  id: string;
+  key: StoreSettingsKey;
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: string | null;
+  changed_by_name?: string | null;
+  changed_at: string;
+}
+
+// Inventory Types
+export type InventoryMovementType =
+  | 'sale'
+  | 'return'
+  | 'adjustment'
+  | 'restock'
+  | 'damage'
+  | 'reservation'
+  | 'release';
+
+export type InventoryAdjustmentType = Extract<InventoryMovementType, 'adjustment' | 'restock' | 'damage'>;
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  type: InventoryMovementType;
+  quantity_change: number;
+  quantity_before: number | null;
+  quantity_after: number | null;
+  variant_quantity_after: number | null;
+  reason: string | null;
+  order_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  product_name?: string;
+  variant_name?: string | null;
+  order_number?: string | null;
+  created_by_name?: string | null;
+}
+
+export interface InventoryAdjustment {
+  product_id: string;
+  variant_id?: string;
+  type: InventoryAdjustmentType;
+  quantity_change?: number;
+  counted_quantity?: number;
+  reason: string;
+}
+
+export interface ProductInventoryHistory {
+  product: Pick<Product, 'id' | 'name' | 'sku' | 'quantity' | 'track_quantity'> & {
+    variants: Pick<ProductVariant, 'id' | 'name' | 'sku' | 'quantity'>[];
+  };
+  movements: InventoryMovement[];
+  count: number;
+}
+
+export type StockStatus = 'ok' | 'low' | 'out_of_stock';
+
+export interface InventoryReportItem {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  threshold: number;
+  units_sold: number;
+  daily_velocity: number;
+  days_of_cover: number | null;
+  suggested_reorder: number;
+  status: StockStatus;
+}
+
+export interface InventoryReport {
+  window_days: number;
+  target_cover_days: number;
+  items: InventoryReportItem[];
+  summary: {
+    out_of_stock: number;
+    low: number;
+    below_target: number;
+  };
 }
 
 // API Response Types
@@ -566,3 +818,87 @@ export interface SEOData {
   keywords?: string[];
   structured_data?: Record<string, unknown>;
 }
+
+// Shipping Types (cotización por zona, peso y transportadora)
+export interface ShippingDestination {
+  department?: string;
+  city?: string;
+}
+
+export interface ShippingOption {
+  service_id: string;
+  code: string;
+  name: string;
+  carrier_code: string;
+  carrier_name: string;
+  delivery_days_min: number;
+  delivery_days_max: number;
+  cash_on_delivery: boolean;
+  price: number;
+  cost: number;
+  free: boolean;
+}
+
+export interface ShippingQuote {
+  zone: { id: string; code: string; name: string };
+  weight_g: number;
+  free_shipping_threshold: number;
+  options: ShippingOption[];
+  selected: string;
+  subtotal: number;
+  discount: number;
+  shipping_cost: number;
+  tax: number;
+  total: number;
+}
+
+export interface ShippingCarrier {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+  sort_order: number;
+}
+
+export interface ShippingServiceConfig {
+  id: string;
+  carrier_id: string;
+  carrier_code: string;
+  carrier_name: string;
+  code: string;
+  name: string;
+  delivery_days_min: number;
+  delivery_days_max: number;
+  cash_on_delivery: boolean;
+  free_shipping_eligible: boolean;
+  active: boolean;
+  sort_order: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  code: string;
+  name: string;
+  is_default: boolean;
+  free_shipping_eligible: boolean;
+  active: boolean;
+  locations: Array<{ department: string; city: string | null }>;
+}
+
+export interface ShippingRate {
+  id: string;
+  service_id: string;
+  zone_id: string;
+  min_weight_g: number;
+  max_weight_g: number | null;
+  price: number;
+  extra_kg_price: number;
+  declared_value_percent: number;
+}
+
+export interface ShippingConfig {
+  carriers: ShippingCarrier[];
+  services: ShippingServiceConfig[];
+  zones: ShippingZone[];
+  rates: ShippingRate[];
+}
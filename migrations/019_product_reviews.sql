@@ -0,0 +1,50 @@
+-- Migration: Product reviews moderation and helpful votes
+-- Description: Extends the reviews table from 000_initial_schema with moderation
+-- status and adds one-vote-per-user tracking for "helpful" votes
+
+-- ===========================================
+-- REVIEWS: MODERATION FIELDS
+-- ===========================================
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'approved';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderation_note TEXT;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_status_check;
+ALTER TABLE reviews ADD CONSTRAINT reviews_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected'));
+
+-- Un usuario solo puede dejar una reseña por producto: antes del índice se
+-- eliminan los duplicados, conservando la reseña más reciente
+DELETE FROM reviews r
+USING reviews newer
+WHERE r.product_id = newer.product_id
+  AND r.user_id = newer.user_id
+  AND (COALESCE(r.created_at, '-infinity'), r.id) < (COALESCE(newer.created_at, '-infinity'), newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_product_user ON reviews(product_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON reviews(status);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_reviews_updated_at') THEN
+        CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON reviews FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    END IF;
+END$$;
+
+-- ===========================================
+-- REVIEW HELPFUL VOTES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS review_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_review ON review_votes(review_id);
+
+COMMENT ON COLUMN reviews.status IS 'Estado de moderación: pending (en revisión), approved (publicada), rejected (oculta)';
+COMMENT ON TABLE review_votes IS 'Votos "útil" de reseñas (uno por usuario)';
@@ -0,0 +1,41 @@
+-- Migration: Store settings audit
+-- Description: Tracks who changed each store_settings key and keeps the
+-- previous/new value of every change. Aligns the seeded shipping settings with
+-- the prices the checkout was actually charging.
+
+ALTER TABLE store_settings ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- ===========================================
+-- STORE SETTINGS AUDIT
+-- ===========================================
+CREATE TABLE IF NOT EXISTS store_settings_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key VARCHAR(100) NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_settings_audit_key ON store_settings_audit(key, changed_at DESC);
+
+-- ===========================================
+-- SHIPPING: MÉTODOS DE ENVÍO
+-- ===========================================
+-- Solo se reemplaza el valor sembrado por 000_initial_schema (nunca editado);
+-- si un admin ya lo cambió se respeta.
+UPDATE store_settings
+SET value = '{
+  "free_shipping_threshold": 200000,
+  "default_shipping_cost": 15000,
+  "methods": {
+    "standard": { "name": "Envío Estándar", "days": "5-7 días hábiles", "price": 15000, "enabled": true },
+    "express": { "name": "Envío Express", "days": "2-3 días hábiles", "price": 35000, "enabled": true },
+    "overnight": { "name": "Envío Prioritario", "days": "1 día hábil", "price": 60000, "enabled": true }
+  }
+}'::jsonb,
+updated_at = NOW()
+WHERE key = 'shipping'
+  AND value = '{"free_shipping_threshold": 150000, "default_shipping_cost": 10000}'::jsonb;
+
+COMMENT ON TABLE store_settings_audit IS 'Historial de cambios en store_settings (quién cambió qué y cuándo)';
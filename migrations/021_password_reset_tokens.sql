@@ -0,0 +1,28 @@
+-- Migration: Password reset tokens
+-- Description: Single-use password reset tokens (only the HMAC of the token is
+-- stored) and a per-user session revocation timestamp checked by the auth middleware
+
+-- ===========================================
+-- USERS: REVOCACIÓN DE SESIONES
+-- ===========================================
+-- Los JWT emitidos antes de esta fecha dejan de ser válidos
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMP WITH TIME ZONE;
+
+-- ===========================================
+-- PASSWORD RESET TOKENS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  requested_ip VARCHAR(64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires ON password_reset_tokens(expires_at);
+
+COMMENT ON TABLE password_reset_tokens IS 'Tokens de un solo uso para restablecer contraseña (se guarda solo el hash)';
+COMMENT ON COLUMN users.sessions_revoked_at IS 'Tokens JWT emitidos antes de esta fecha son rechazados';
@@ -0,0 +1,44 @@
+-- Migration: Order refunds ledger
+-- Description: Records every Wompi void/refund linked to its order so refunds are
+-- processed through the API, reconciled with webhook events and never restocked twice
+
+-- ===========================================
+-- ORDER REFUNDS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  transaction_id VARCHAR(255) NOT NULL,           -- Transacción original de Wompi
+  type VARCHAR(20) NOT NULL CHECK (type IN ('void', 'refund')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  amount_in_cents BIGINT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'error')),
+  reason TEXT,
+  items JSONB DEFAULT '[]',                        -- [{ order_item_id, quantity }] a reponer en inventario
+  external_id VARCHAR(255),                        -- ID de la anulación/reembolso en Wompi
+  error_message TEXT,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  applied_at TIMESTAMP WITH TIME ZONE,             -- Inventario y comisiones ya ajustados
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order ON order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_transaction ON order_refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_status ON order_refunds(status);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_order_refunds_updated_at') THEN
+        CREATE TRIGGER update_order_refunds_updated_at BEFORE UPDATE ON order_refunds FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    END IF;
+END$$;
+
+-- Unidades ya devueltas al inventario por reembolsos (evita reponer dos veces)
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+-- Monto total reembolsado de la orden
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON TABLE order_refunds IS 'Anulaciones y reembolsos de Wompi (totales o parciales) por orden';
+COMMENT ON COLUMN order_refunds.applied_at IS 'Momento en que se repuso inventario y se revirtieron comisiones';
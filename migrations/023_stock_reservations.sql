@@ -0,0 +1,47 @@
+-- Migration: Stock reservations
+-- Description: Holds stock for pending Wompi checkouts (with expiry) and cash on delivery
+-- orders, so unpaid or cancelled orders give their units back
+
+-- ===========================================
+-- STOCK RESERVATIONS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released')),
+  expires_at TIMESTAMP WITH TIME ZONE,             -- NULL: sin vencimiento (contra entrega)
+  release_reason VARCHAR(30),                      -- declined, voided, error, expired, cancelled
+  committed_at TIMESTAMP WITH TIME ZONE,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product ON stock_reservations(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_expiry ON stock_reservations(expires_at) WHERE status = 'active';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_stock_reservations_updated_at') THEN
+        CREATE TRIGGER update_stock_reservations_updated_at BEFORE UPDATE ON stock_reservations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    END IF;
+END$$;
+
+-- Los pedidos contra entrega abiertos ya descontaron stock al crearse:
+-- se registran como reservas activas para que su cancelación devuelva las unidades
+INSERT INTO stock_reservations (order_id, order_item_id, product_id, variant_id, quantity, status)
+SELECT oi.order_id, oi.id, oi.product_id, oi.variant_id, oi.quantity, 'active'
+FROM order_items oi
+JOIN orders o ON o.id = oi.order_id
+WHERE o.payment_method = 'cash_on_delivery'
+  AND o.status IN ('pending', 'confirmed', 'processing', 'shipped')
+  AND oi.quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_reservations sr WHERE sr.order_item_id = oi.id);
+
+COMMENT ON TABLE stock_reservations IS 'Unidades apartadas por pedidos aún no pagados (Wompi pendiente o contra entrega)';
+COMMENT ON COLUMN stock_reservations.status IS 'active: stock apartado; committed: venta confirmada; released: stock devuelto';
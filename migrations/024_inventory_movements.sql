@@ -0,0 +1,29 @@
+-- Migration: Inventory movements ledger
+-- Description: Every stock change (sales, reservations, returns, manual adjustments,
+-- restocks, damage) is recorded so physical counts can be reconciled against the system
+
+-- ===========================================
+-- INVENTORY MOVEMENTS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('sale', 'return', 'adjustment', 'restock', 'damage', 'reservation', 'release')),
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),  -- Negativo: sale; positivo: entra
+  quantity_before INTEGER,                         -- Stock del producto antes del movimiento
+  quantity_after INTEGER,                          -- Stock del producto después del movimiento
+  variant_quantity_after INTEGER,                  -- Stock de la variante después (si aplica)
+  reason TEXT,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant ON inventory_movements(variant_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order ON inventory_movements(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_type ON inventory_movements(type);
+
+COMMENT ON TABLE inventory_movements IS 'Ledger de movimientos de inventario (cada cambio de stock)';
+COMMENT ON COLUMN inventory_movements.type IS 'sale, return, adjustment, restock, damage, reservation (checkout pendiente), release (reserva devuelta)';
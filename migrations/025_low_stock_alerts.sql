@@ -0,0 +1,36 @@
+-- Migration: Low-stock thresholds and alerts
+-- Description: Per-product and per-variant thresholds; alerts opened by the background
+-- stock check so admins are notified once per crossing (not on every check)
+
+-- NULL: usa el umbral por defecto de store_settings.inventory (variante -> producto -> tienda)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0);
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0);
+
+-- ===========================================
+-- LOW STOCK ALERTS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS low_stock_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  level VARCHAR(20) NOT NULL CHECK (level IN ('low', 'out_of_stock')),
+  quantity INTEGER NOT NULL,                       -- Stock al momento de la última alerta
+  threshold INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  notified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Una sola alerta abierta por producto/variante
+CREATE UNIQUE INDEX IF NOT EXISTS idx_low_stock_alerts_open
+  ON low_stock_alerts(product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_low_stock_alerts_status ON low_stock_alerts(status);
+
+-- Umbral por defecto y parámetros del reporte de cobertura
+INSERT INTO store_settings (key, value)
+VALUES ('inventory', '{"low_stock_threshold": 5, "sales_window_days": 30, "target_cover_days": 30}')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE low_stock_alerts IS 'Alertas de stock bajo/agotado enviadas a los administradores';
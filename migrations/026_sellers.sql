@@ -0,0 +1,88 @@
+-- Migration: Seller / reseller program
+-- Description: Resellers register, get a referral code and earn a commission on the
+-- orders attributed to them. Each active seller is backed by a team_members row
+-- (position 'seller') so its commissions flow through the existing commissions table.
+
+-- ===========================================
+-- SELLERS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS sellers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  team_member_id UUID REFERENCES team_members(id) ON DELETE SET NULL,
+  referral_code VARCHAR(30) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended', 'rejected')),
+  display_name VARCHAR(255),
+  phone VARCHAR(30),
+  document_number VARCHAR(50),
+  payout_method VARCHAR(50),                       -- nequi, daviplata, bank_transfer...
+  payout_details TEXT,                             -- Número de cuenta / celular para pagos
+  notes TEXT,
+  approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sellers_status ON sellers(status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_sellers_updated_at') THEN
+    CREATE TRIGGER update_sellers_updated_at
+      BEFORE UPDATE ON sellers
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ===========================================
+-- ORDER ATTRIBUTION
+-- ===========================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS seller_id UUID REFERENCES sellers(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS referral_code VARCHAR(30);
+
+CREATE INDEX IF NOT EXISTS idx_orders_seller ON orders(seller_id) WHERE seller_id IS NOT NULL;
+
+-- ===========================================
+-- COMMISSIONS ON DELIVERY
+-- ===========================================
+-- El equipo interno sigue cobrando sobre todas las órdenes; los vendedores
+-- solo sobre las órdenes atribuidas a ellos.
+CREATE OR REPLACE FUNCTION create_commission_on_delivery()
+RETURNS TRIGGER AS $$
+DECLARE
+  team_member_record team_members%ROWTYPE;
+  commission_amount DECIMAL(10, 2);
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status != 'delivered' THEN
+    FOR team_member_record IN
+      SELECT * FROM team_members
+      WHERE commission_percentage > 0 AND position != 'seller'
+    LOOP
+      commission_amount := NEW.total * (team_member_record.commission_percentage / 100);
+
+      INSERT INTO commissions (team_member_id, order_id, order_total, commission_percentage, commission_amount, status)
+      VALUES (team_member_record.id, NEW.id, NEW.total, team_member_record.commission_percentage, commission_amount, 'pending');
+    END LOOP;
+
+    IF NEW.seller_id IS NOT NULL THEN
+      SELECT tm.* INTO team_member_record
+      FROM sellers s
+      JOIN team_members tm ON tm.id = s.team_member_id
+      WHERE s.id = NEW.seller_id AND s.status = 'active' AND tm.commission_percentage > 0;
+
+      IF FOUND THEN
+        commission_amount := NEW.total * (team_member_record.commission_percentage / 100);
+
+        INSERT INTO commissions (team_member_id, order_id, order_total, commission_percentage, commission_amount, status, notes)
+        VALUES (team_member_record.id, NEW.id, NEW.total, team_member_record.commission_percentage, commission_amount, 'pending', 'Venta referida');
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+COMMENT ON TABLE sellers IS 'Programa de revendedores: código de referido y comisión por venta atribuida';
+COMMENT ON COLUMN orders.seller_id IS 'Vendedor al que se atribuye la orden (código de referido en el checkout)';
@@ -0,0 +1,105 @@
+-- Migration: Transactional email notifications
+-- Description: Editable email templates for the order lifecycle and an outbox
+-- queue that is delivered in the background with retries
+
+-- ===========================================
+-- EMAIL TEMPLATES
+-- ===========================================
+-- Variables: {{nombre}}; secciones condicionales: {{#var}}...{{/var}}
+CREATE TABLE IF NOT EXISTS email_templates (
+  key VARCHAR(50) PRIMARY KEY,
+  description TEXT,
+  subject VARCHAR(255) NOT NULL,
+  body_text TEXT NOT NULL,
+  body_html TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_email_templates_updated_at') THEN
+    CREATE TRIGGER update_email_templates_updated_at
+      BEFORE UPDATE ON email_templates
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+INSERT INTO email_templates (key, description, subject, body_text) VALUES
+(
+  'order_placed',
+  'Pedido recibido (contra entrega o pagado al crearse)',
+  'Recibimos tu pedido {{order_number}}',
+  E'Hola {{customer_name}},\n\nGracias por comprar en {{store_name}}. Recibimos tu pedido {{order_number}} por {{total}}.\n\n{{items}}\n\n{{#cash_on_delivery}}Pagarás en efectivo cuando recibas tu pedido.\n\n{{/cash_on_delivery}}Puedes ver el estado de tu pedido aquí: {{order_url}}\n\n{{store_name}}'
+),
+(
+  'payment_approved',
+  'Pago aprobado',
+  'Pago aprobado - pedido {{order_number}}',
+  E'Hola {{customer_name}},\n\nTu pago de {{total}} para el pedido {{order_number}} fue aprobado. Ya estamos preparando tu pedido.\n\n{{items}}\n\nSigue tu pedido aquí: {{order_url}}\n\n{{store_name}}'
+),
+(
+  'payment_declined',
+  'Pago rechazado o fallido',
+  'No pudimos procesar el pago del pedido {{order_number}}',
+  E'Hola {{customer_name}},\n\nEl pago de tu pedido {{order_number}} por {{total}} no fue aprobado, así que no se realizó ningún cobro.\n\nPuedes intentarlo de nuevo desde la tienda: {{store_url}}\n\nSi necesitas ayuda escríbenos y con gusto te atendemos.\n\n{{store_name}}'
+),
+(
+  'order_shipped',
+  'Pedido enviado (con número de guía si existe)',
+  'Tu pedido {{order_number}} va en camino',
+  E'Hola {{customer_name}},\n\nTu pedido {{order_number}} ya fue enviado.\n\n{{#tracking_number}}Número de guía: {{tracking_number}}\n{{/tracking_number}}{{#tracking_url}}Rastrea tu envío: {{tracking_url}}\n{{/tracking_url}}\nDetalle del pedido: {{order_url}}\n\n{{store_name}}'
+),
+(
+  'order_delivered',
+  'Pedido entregado',
+  'Tu pedido {{order_number}} fue entregado',
+  E'Hola {{customer_name}},\n\nTu pedido {{order_number}} fue entregado. ¡Esperamos que lo disfrutes!\n\nSi te gustó, nos ayudaría mucho que dejaras una reseña de tus productos.\n\n{{store_name}}'
+),
+(
+  'order_refunded',
+  'Reembolso aplicado (total o parcial)',
+  'Reembolso del pedido {{order_number}}',
+  E'Hola {{customer_name}},\n\nAplicamos un reembolso de {{refund_amount}} a tu pedido {{order_number}}. Dependiendo de tu banco, el dinero puede tardar algunos días hábiles en verse reflejado.\n\n{{#reason}}Motivo: {{reason}}\n\n{{/reason}}{{store_name}}'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ===========================================
+-- EMAIL QUEUE (OUTBOX)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key VARCHAR(50) REFERENCES email_templates(key) ON DELETE SET NULL,
+  to_email VARCHAR(255) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  body_text TEXT NOT NULL,
+  body_html TEXT,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  dedupe_key VARCHAR(255) UNIQUE,                  -- Evita duplicados por webhooks repetidos
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_pending ON email_queue(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_queue_order ON email_queue(order_id);
+CREATE INDEX IF NOT EXISTS idx_email_queue_status ON email_queue(status, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_email_queue_updated_at') THEN
+    CREATE TRIGGER update_email_queue_updated_at
+      BEFORE UPDATE ON email_queue
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+COMMENT ON TABLE email_templates IS 'Plantillas de correo transaccional editables por el admin';
+COMMENT ON TABLE email_queue IS 'Cola de correos salientes; se reintenta con backoff hasta max_attempts';
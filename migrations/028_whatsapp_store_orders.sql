@@ -0,0 +1,35 @@
+-- Migration: WhatsApp bot orders as store orders
+-- Description: Links each bot order to a real order in `orders` (stock, admin,
+-- analytics and commissions) and records the channel the order came from
+
+-- ===========================================
+-- ORDER CHANNEL
+-- ===========================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS channel VARCHAR(20) NOT NULL DEFAULT 'web';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'orders_channel_check') THEN
+    ALTER TABLE orders ADD CONSTRAINT orders_channel_check CHECK (channel IN ('web', 'whatsapp'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_channel ON orders(channel);
+
+-- ===========================================
+-- BOT ORDER -> STORE ORDER
+-- ===========================================
+ALTER TABLE whatsapp_orders ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id) ON DELETE SET NULL;
+ALTER TABLE whatsapp_orders ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE whatsapp_orders ADD COLUMN IF NOT EXISTS payment_method VARCHAR(30);
+ALTER TABLE whatsapp_orders ADD COLUMN IF NOT EXISTS payment_link TEXT;
+ALTER TABLE whatsapp_orders ADD COLUMN IF NOT EXISTS shipping_address TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_orders_order ON whatsapp_orders(order_id) WHERE order_id IS NOT NULL;
+
+-- Búsqueda de clientes por los últimos 10 dígitos del celular
+CREATE INDEX IF NOT EXISTS idx_users_phone_digits ON users (RIGHT(regexp_replace(phone, '\D', '', 'g'), 10));
+
+COMMENT ON COLUMN orders.channel IS 'Canal de venta: web (tienda) o whatsapp (bot)';
+COMMENT ON COLUMN whatsapp_orders.order_id IS 'Orden real de la tienda creada a partir del pedido del bot';
+COMMENT ON COLUMN whatsapp_orders.payment_link IS 'Link de pago de Wompi enviado al cliente (si eligió pago en línea)';
@@ -0,0 +1,49 @@
+-- Migration: Persistent WhatsApp bot state
+-- Description: The bot state machine lives in whatsapp_conversations (with an
+-- optimistic-lock version) instead of process memory, and Meta message IDs are
+-- recorded so retried webhook deliveries are processed only once
+
+-- ===========================================
+-- CONVERSATION STATE
+-- ===========================================
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS state VARCHAR(50) NOT NULL DEFAULT 'greeting';
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS cart JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS shipping_address TEXT;
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS followup_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Conversaciones guardadas antes de esta migración con el estado del bot en `status`:
+-- las que iban a mitad de flujo siguen activas; solo 'escalate' pasa a escalada
+UPDATE whatsapp_conversations
+SET state = status,
+    status = CASE status WHEN 'escalate' THEN 'escalated' ELSE 'active' END
+WHERE status NOT IN ('active', 'escalated', 'closed');
+
+-- Reabre las que una versión anterior de este backfill cerró por error. El bot
+-- siempre guarda closed_at al cerrar; 'greeting' no se distingue de un cierre
+-- antiguo (valor por defecto de state) y se deja cerrada
+UPDATE whatsapp_conversations
+SET status = CASE state WHEN 'escalate' THEN 'escalated' ELSE 'active' END
+WHERE status = 'closed'
+  AND closed_at IS NULL
+  AND state NOT IN ('greeting', 'closed');
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_conversations_idle
+  ON whatsapp_conversations(last_activity_at)
+  WHERE status = 'active' AND followup_sent_at IS NULL;
+
+-- ===========================================
+-- PROCESSED WEBHOOK MESSAGES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS whatsapp_processed_messages (
+  message_id VARCHAR(255) PRIMARY KEY,            -- wamid.* de Meta
+  phone VARCHAR(20) NOT NULL,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_processed_messages_date ON whatsapp_processed_messages(processed_at);
+
+COMMENT ON COLUMN whatsapp_conversations.state IS 'Paso actual del flujo del bot (ask_name, ask_products, ...)';
+COMMENT ON COLUMN whatsapp_conversations.version IS 'Bloqueo optimista: cada guardado exige la versión leída y la incrementa';
+COMMENT ON TABLE whatsapp_processed_messages IS 'IDs de mensajes de WhatsApp ya procesados; evita avanzar el flujo dos veces por reintentos de Meta';
@@ -0,0 +1,42 @@
+-- Migration: Configurable WhatsApp bot flows
+-- Description: The bot script (states, messages, buttons/lists and transitions)
+-- is a JSON definition edited from the admin panel instead of hard-coded
+-- handlers. Only one flow is active at a time.
+
+-- ===========================================
+-- BOT FLOWS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS bot_flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  definition JSONB NOT NULL,                      -- { initial_state, states: { id: {...} } }
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  version INTEGER NOT NULL DEFAULT 1,             -- Se incrementa en cada edición
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A lo sumo un flujo activo
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bot_flows_single_active ON bot_flows(is_active) WHERE is_active;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_bot_flows_updated_at') THEN
+    CREATE TRIGGER update_bot_flows_updated_at
+      BEFORE UPDATE ON bot_flows
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ===========================================
+-- CONVERSATION CONTEXT
+-- ===========================================
+-- Datos del flujo que no tienen columna propia (producto elegido, método de pago...)
+ALTER TABLE whatsapp_conversations ADD COLUMN IF NOT EXISTS context JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON TABLE bot_flows IS 'Guiones del bot de WhatsApp; el flujo por defecto se crea desde el código la primera vez';
+COMMENT ON COLUMN bot_flows.definition IS 'Estados con mensaje, botones/listas, captura de datos, acciones y transiciones';
+COMMENT ON COLUMN whatsapp_conversations.context IS 'Variables del flujo del bot (selected_product_id, payment_method, last_added)';
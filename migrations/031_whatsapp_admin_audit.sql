@@ -0,0 +1,26 @@
+-- Migration: WhatsApp admin audit log
+-- Description: Records every manual send from the store's WhatsApp number and
+-- every admin change to bot orders. The send rows also back the per-admin and
+-- per-recipient rate limits, so the limits hold across instances.
+
+-- ===========================================
+-- WHATSAPP ADMIN AUDIT
+-- ===========================================
+CREATE TABLE IF NOT EXISTS whatsapp_admin_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(50) NOT NULL,                    -- send_message, update_order_status
+  phone VARCHAR(20),                              -- Destinatario o cliente del pedido
+  order_number VARCHAR(50),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'failed', 'rate_limited')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address VARCHAR(64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_admin_audit_date ON whatsapp_admin_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_admin_audit_user ON whatsapp_admin_audit(user_id, action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_admin_audit_phone ON whatsapp_admin_audit(phone, action, created_at DESC);
+
+COMMENT ON TABLE whatsapp_admin_audit IS 'Envíos manuales por WhatsApp y cambios de pedidos del bot hechos por admins';
+COMMENT ON COLUMN whatsapp_admin_audit.status IS 'rate_limited: el envío se rechazó por superar el límite por hora';
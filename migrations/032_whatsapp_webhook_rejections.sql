@@ -0,0 +1,25 @@
+-- Migration: WhatsApp webhook rejections
+-- Description: Deliveries to /api/whatsapp/webhook that were not processed
+-- (bad X-Hub-Signature-256, stale or duplicate message IDs), kept for diagnostics.
+
+-- ===========================================
+-- WEBHOOK REJECTIONS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS whatsapp_webhook_rejections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reason VARCHAR(30) NOT NULL CHECK (reason IN (
+    'missing_signature', 'invalid_signature', 'secret_not_configured', 'stale_message', 'duplicate_message'
+  )),
+  message_id VARCHAR(255),                        -- wamid.* cuando el rechazo es por mensaje
+  phone VARCHAR(20),
+  signature VARCHAR(100),                         -- Cabecera X-Hub-Signature-256 recibida
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  payload JSONB,                                  -- Cuerpo recibido (solo si es pequeño)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_webhook_rejections_date ON whatsapp_webhook_rejections(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_webhook_rejections_reason ON whatsapp_webhook_rejections(reason, created_at DESC);
+
+COMMENT ON TABLE whatsapp_webhook_rejections IS 'Entregas del webhook de WhatsApp rechazadas (firma inválida, mensajes repetidos o vencidos); se purgan a los 30 días';
@@ -0,0 +1,57 @@
+-- Migration: Advanced coupon rules
+-- Description: Category eligibility, per-customer limits, first-order-only,
+-- minimum item count, buy-X-get-Y and free-shipping coupons. Redemptions are
+-- tracked per customer in coupon_redemptions.
+
+-- ===========================================
+-- COUPON RULE COLUMNS
+-- ===========================================
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS category_ids JSONB;
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS per_customer_limit INTEGER CHECK (per_customer_limit IS NULL OR per_customer_limit > 0);
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS first_order_only BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS min_items INTEGER CHECK (min_items IS NULL OR min_items > 0);
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS buy_quantity INTEGER CHECK (buy_quantity IS NULL OR buy_quantity > 0);
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS get_quantity INTEGER CHECK (get_quantity IS NULL OR get_quantity > 0);
+
+-- Nuevos tipos de descuento y aplicabilidad por categoría
+DO $$
+BEGIN
+  ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_discount_type_check;
+  ALTER TABLE coupons ADD CONSTRAINT coupons_discount_type_check
+    CHECK (discount_type IN ('percentage', 'fixed', 'buy_x_get_y', 'free_shipping'));
+
+  -- free_shipping no usa discount_value; buy_x_get_y lo usa como % de descuento en las unidades gratis
+  ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_discount_value_check;
+  ALTER TABLE coupons ADD CONSTRAINT coupons_discount_value_check CHECK (discount_value >= 0);
+
+  ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_applicable_to_check;
+  ALTER TABLE coupons ADD CONSTRAINT coupons_applicable_to_check
+    CHECK (applicable_to IN ('all', 'specific', 'categories'));
+
+  ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_buy_x_get_y_check;
+  ALTER TABLE coupons ADD CONSTRAINT coupons_buy_x_get_y_check
+    CHECK (discount_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL));
+END $$;
+
+-- ===========================================
+-- COUPON REDEMPTIONS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order ON coupon_redemptions(order_id);
+
+COMMENT ON COLUMN coupons.discount_type IS 'percentage, fixed, buy_x_get_y (lleva buy_quantity y recibe get_quantity con discount_value % de descuento) o free_shipping';
+COMMENT ON COLUMN coupons.applicable_to IS 'Aplicabilidad: all, specific (product_ids) o categories (category_ids)';
+COMMENT ON COLUMN coupons.category_ids IS 'IDs de categorías aplicables (JSON array) cuando applicable_to = categories';
+COMMENT ON COLUMN coupons.per_customer_limit IS 'Usos máximos por cliente según coupon_redemptions (NULL = sin límite)';
+COMMENT ON COLUMN coupons.first_order_only IS 'Solo para clientes sin pedidos previos';
+COMMENT ON COLUMN coupons.min_items IS 'Unidades mínimas de productos aplicables en el carrito';
+COMMENT ON TABLE coupon_redemptions IS 'Cada uso de un cupón por un cliente; base de los límites por cliente';
@@ -0,0 +1,16 @@
+-- Migration: Coupon redemptions tied to orders
+-- Description: Redemptions are written inside the order transaction and released
+-- when the order is cancelled or refunded, so usage_limit and per-customer limits
+-- only count live orders.
+
+ALTER TABLE coupon_redemptions ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE coupon_redemptions ADD COLUMN IF NOT EXISTS release_reason VARCHAR(30);
+
+-- Una redención vigente por orden
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupon_redemptions_active_order
+  ON coupon_redemptions(order_id)
+  WHERE released_at IS NULL AND order_id IS NOT NULL;
+
+COMMENT ON COLUMN coupon_redemptions.released_at IS 'Fecha en que se liberó el uso (orden cancelada o reembolsada); NULL = uso vigente';
+COMMENT ON COLUMN coupon_redemptions.release_reason IS 'cancelled, refunded o expired';
+COMMENT ON COLUMN coupons.used_count IS 'Usos vigentes: sube al crear la orden y baja al liberar la redención';
@@ -0,0 +1,37 @@
+-- Migration: Coupon campaigns
+-- Description: Batches of unique single-use codes (influencers, WhatsApp) that
+-- share the rules of their parent campaign. Each code is a regular coupon row
+-- with usage_limit = 1, so checkout and redemption work unchanged.
+
+-- ===========================================
+-- COUPON CAMPAIGNS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS coupon_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  code_prefix VARCHAR(20) NOT NULL,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,       -- Reglas compartidas copiadas a cada código
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES coupon_campaigns(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_coupons_campaign ON coupons(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_orders_coupon_code ON orders(UPPER(coupon_code)) WHERE coupon_code IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_coupon_campaigns_updated_at') THEN
+    CREATE TRIGGER update_coupon_campaigns_updated_at
+      BEFORE UPDATE ON coupon_campaigns
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+COMMENT ON TABLE coupon_campaigns IS 'Campañas de códigos únicos de un solo uso (influencers, WhatsApp)';
+COMMENT ON COLUMN coupon_campaigns.rules IS 'Tipo, valor y reglas del descuento que comparten todos los códigos de la campaña';
+COMMENT ON COLUMN coupons.campaign_id IS 'Campaña a la que pertenece el código (NULL = cupón individual)';
@@ -0,0 +1,75 @@
+-- Migration: Commission rules engine
+-- Description: Commissions are now calculated by commission.service when an order
+-- is delivered. Each team member chooses the base (order total or net sales) and
+-- rates can be overridden per category, per channel or by monthly volume tier.
+-- Refunds claw back paid commissions with negative rows. Replaces the
+-- create_commission_on_delivery() trigger, the 10% wompi_commissions path and
+-- the bot's flat intermediary percentage.
+
+-- ===========================================
+-- COMMISSION BASE PER TEAM MEMBER
+-- ===========================================
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS commission_base VARCHAR(20) NOT NULL DEFAULT 'order_total';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'team_members_commission_base_check') THEN
+    ALTER TABLE team_members ADD CONSTRAINT team_members_commission_base_check
+      CHECK (commission_base IN ('order_total', 'net_sales'));
+  END IF;
+END $$;
+
+-- ===========================================
+-- COMMISSION RULES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_member_id UUID REFERENCES team_members(id) ON DELETE CASCADE,   -- NULL = todo el equipo
+  rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('category', 'channel', 'tier')),
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  channel VARCHAR(20) CHECK (channel IS NULL OR channel IN ('web', 'whatsapp')),
+  min_monthly_volume DECIMAL(12, 2) CHECK (min_monthly_volume IS NULL OR min_monthly_volume >= 0),
+  rate DECIMAL(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT commission_rules_target_check CHECK (
+    (rule_type = 'category' AND category_id IS NOT NULL) OR
+    (rule_type = 'channel' AND channel IS NOT NULL) OR
+    (rule_type = 'tier' AND min_monthly_volume IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_rules_member ON commission_rules(team_member_id) WHERE active;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_commission_rules_updated_at') THEN
+    CREATE TRIGGER update_commission_rules_updated_at
+      BEFORE UPDATE ON commission_rules
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ===========================================
+-- COMMISSION DETAIL AND CLAWBACKS
+-- ===========================================
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS commission_base VARCHAR(20);
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS breakdown JSONB;
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS clawback_of UUID REFERENCES commissions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_commissions_clawback ON commissions(clawback_of) WHERE clawback_of IS NOT NULL;
+
+-- ===========================================
+-- REMOVE THE DELIVERY TRIGGER
+-- ===========================================
+DROP TRIGGER IF EXISTS create_commission_on_order_delivery ON orders;
+DROP FUNCTION IF EXISTS create_commission_on_delivery();
+
+COMMENT ON COLUMN team_members.commission_base IS 'Base de la comisión: order_total (total de la orden) o net_sales (productos menos descuento, sin envío ni impuestos)';
+COMMENT ON TABLE commission_rules IS 'Tasas por categoría, canal o tramo de volumen mensual; las del miembro prevalecen sobre las globales';
+COMMENT ON COLUMN commission_rules.min_monthly_volume IS 'Tramo: la tasa aplica cuando la base acumulada del mes alcanza este valor';
+COMMENT ON COLUMN commissions.order_total IS 'Base sobre la que se calculó la comisión';
+COMMENT ON COLUMN commissions.breakdown IS 'Base y tasa aplicada a cada línea de la orden';
+COMMENT ON COLUMN commissions.clawback_of IS 'Comisión pagada que este registro (monto negativo) recupera por un reembolso';
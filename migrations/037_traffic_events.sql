@@ -0,0 +1,83 @@
+-- Migration: First-party traffic and funnel tracking
+-- Description: The storefront sends page_view, product_view, add_to_cart,
+-- begin_checkout and purchase events with a session ID and the landing
+-- UTM/referrer. A daily rollup fills website_traffic, conversion_tracking and
+-- traffic_sources from these events instead of estimating them from orders.
+
+-- ===========================================
+-- RAW EVENTS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('page_view', 'product_view', 'add_to_cart', 'begin_checkout', 'purchase')),
+  session_id VARCHAR(64) NOT NULL,
+  visitor_id VARCHAR(64) NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  path VARCHAR(500),
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  source_type VARCHAR(20) NOT NULL DEFAULT 'direct' CHECK (source_type IN ('direct', 'organic', 'referral', 'social', 'paid')),
+  referrer VARCHAR(500),
+  utm_source VARCHAR(100),
+  utm_medium VARCHAR(100),
+  utm_campaign VARCHAR(100),
+  utm_term VARCHAR(100),
+  utm_content VARCHAR(100),
+  user_agent VARCHAR(500),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_occurred ON analytics_events(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_session ON analytics_events(session_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_product ON analytics_events(product_id) WHERE product_id IS NOT NULL;
+
+-- ===========================================
+-- ONE ROLLUP ROW PER DAY (AND SOURCE)
+-- ===========================================
+-- The old simulated job could leave duplicates; keep the latest row
+DELETE FROM website_traffic a USING website_traffic b
+  WHERE a.date = b.date AND a.ctid < b.ctid;
+DELETE FROM conversion_tracking a USING conversion_tracking b
+  WHERE a.date = b.date AND a.ctid < b.ctid;
+DELETE FROM traffic_sources a USING traffic_sources b
+  WHERE a.date = b.date AND a.source_type = b.source_type AND a.ctid < b.ctid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_website_traffic_date ON website_traffic(date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_conversion_tracking_date ON conversion_tracking(date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_traffic_sources_date_type ON traffic_sources(date, source_type);
+
+-- ===========================================
+-- FUNNEL COLUMNS
+-- ===========================================
+-- conversion_rate is stored as a percentage, so DECIMAL(5,4) overflowed above 10%
+ALTER TABLE conversion_tracking ALTER COLUMN conversion_rate TYPE DECIMAL(7,4);
+
+ALTER TABLE conversion_tracking ADD COLUMN IF NOT EXISTS product_view_sessions INTEGER DEFAULT 0;
+ALTER TABLE conversion_tracking ADD COLUMN IF NOT EXISTS add_to_cart_sessions INTEGER DEFAULT 0;
+ALTER TABLE conversion_tracking ADD COLUMN IF NOT EXISTS checkout_sessions INTEGER DEFAULT 0;
+ALTER TABLE conversion_tracking ADD COLUMN IF NOT EXISTS purchase_sessions INTEGER DEFAULT 0;
+ALTER TABLE conversion_tracking ADD COLUMN IF NOT EXISTS revenue DECIMAL(12,2) DEFAULT 0;
+
+-- The rollup computes revenue_per_visitor; the trigger only derives the rate
+CREATE OR REPLACE FUNCTION update_conversion_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.total_visits > 0 THEN
+        NEW.conversion_rate = (NEW.total_orders::DECIMAL / NEW.total_visits) * 100;
+    ELSE
+        NEW.conversion_rate = 0;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Simulated rows are not comparable with measured traffic
+DELETE FROM website_traffic WHERE date < (SELECT COALESCE(MIN(occurred_at)::date, CURRENT_DATE) FROM analytics_events);
+DELETE FROM conversion_tracking WHERE date < (SELECT COALESCE(MIN(occurred_at)::date, CURRENT_DATE) FROM analytics_events);
+DELETE FROM traffic_sources WHERE date < (SELECT COALESCE(MIN(occurred_at)::date, CURRENT_DATE) FROM analytics_events);
+
+COMMENT ON TABLE analytics_events IS 'Eventos de navegación enviados por la tienda (fuente de website_traffic, conversion_tracking y traffic_sources)';
+COMMENT ON COLUMN analytics_events.source_type IS 'Origen derivado de UTM y referrer al llegar al sitio';
+COMMENT ON COLUMN conversion_tracking.checkout_sessions IS 'Sesiones que iniciaron el checkout';
@@ -0,0 +1,136 @@
+-- Migration: Colombian electronic invoicing (DIAN UBL 2.1)
+-- Description: Invoices are numbered consecutively inside an authorized DIAN
+-- resolution (prefix + range), carry their UBL 2.1 XML, CUFE and QR payload,
+-- and keep the IVA of each line. Refunds issue credit notes linked to the
+-- invoice. The provider submission status is stored on each document.
+
+-- ===========================================
+-- INVOICES (table previously only created by backend/migrations/012)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  invoice_number VARCHAR(50) UNIQUE NOT NULL,
+  issue_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  due_date TIMESTAMP WITH TIME ZONE,
+  subtotal DECIMAL(10, 2) NOT NULL,
+  tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  shipping_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'cancelled')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_order_id ON invoices(order_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+CREATE INDEX IF NOT EXISTS idx_invoices_issue_date ON invoices(issue_date);
+
+-- ===========================================
+-- DIAN NUMBERING RESOLUTIONS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS dian_resolutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  resolution_number VARCHAR(50),                 -- NULL para notas crédito (numeración propia)
+  prefix VARCHAR(4) NOT NULL,
+  range_from BIGINT NOT NULL CHECK (range_from > 0),
+  range_to BIGINT NOT NULL,
+  next_number BIGINT NOT NULL,
+  valid_from DATE NOT NULL,
+  valid_to DATE NOT NULL,
+  technical_key VARCHAR(100),                    -- Clave técnica del rango (CUFE)
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT dian_resolutions_range_check CHECK (range_to >= range_from),
+  CONSTRAINT dian_resolutions_next_check CHECK (next_number BETWEEN range_from AND range_to + 1),
+  CONSTRAINT dian_resolutions_validity_check CHECK (valid_to >= valid_from),
+  CONSTRAINT dian_resolutions_invoice_check CHECK (
+    document_type = 'credit_note' OR (resolution_number IS NOT NULL AND technical_key IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_dian_resolutions_prefix_range ON dian_resolutions(prefix, range_from);
+CREATE INDEX IF NOT EXISTS idx_dian_resolutions_active ON dian_resolutions(document_type) WHERE active;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_dian_resolutions_updated_at') THEN
+    CREATE TRIGGER update_dian_resolutions_updated_at
+      BEFORE UPDATE ON dian_resolutions
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- No se siembra ninguna resolución de facturación: sin una registrada en
+-- Ajustes (o el set de pruebas en habilitación) no se emiten facturas.
+-- Numeración de notas crédito, solo si la tienda aún no configuró la suya
+INSERT INTO dian_resolutions (document_type, prefix, range_from, range_to, next_number, valid_from, valid_to)
+SELECT 'credit_note', 'NC', 1, 99999999, 1, CURRENT_DATE, '2099-12-31'
+WHERE NOT EXISTS (SELECT 1 FROM dian_resolutions WHERE document_type = 'credit_note');
+
+-- ===========================================
+-- ELECTRONIC DOCUMENT FIELDS
+-- ===========================================
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS document_type VARCHAR(20) NOT NULL DEFAULT 'invoice';
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS resolution_id UUID REFERENCES dian_resolutions(id) ON DELETE SET NULL;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS prefix VARCHAR(4);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS sequence_number BIGINT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cufe VARCHAR(96);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS qr_payload TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS ubl_xml TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS buyer_document VARCHAR(20);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS buyer_document_type VARCHAR(2);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credited_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES order_refunds(id) ON DELETE SET NULL;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS dian_status VARCHAR(20) NOT NULL DEFAULT 'not_sent';
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS dian_response JSONB;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'invoices_document_type_check') THEN
+    ALTER TABLE invoices ADD CONSTRAINT invoices_document_type_check
+      CHECK (document_type IN ('invoice', 'credit_note'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'invoices_dian_status_check') THEN
+    ALTER TABLE invoices ADD CONSTRAINT invoices_dian_status_check
+      CHECK (dian_status IN ('not_sent', 'pending', 'accepted', 'rejected'));
+  END IF;
+END $$;
+
+-- Una factura por orden; las notas crédito comparten la orden de su factura
+CREATE UNIQUE INDEX IF NOT EXISTS uq_invoices_order_invoice ON invoices(order_id) WHERE document_type = 'invoice';
+CREATE UNIQUE INDEX IF NOT EXISTS uq_invoices_prefix_sequence ON invoices(prefix, sequence_number) WHERE sequence_number IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_invoices_refund ON invoices(refund_id) WHERE refund_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoices_credited ON invoices(credited_invoice_id) WHERE credited_invoice_id IS NOT NULL;
+
+-- ===========================================
+-- INVOICE LINES (IVA POR LÍNEA)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  sku VARCHAR(100),
+  description VARCHAR(500) NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  line_extension DECIMAL(12, 2) NOT NULL,       -- Base gravable de la línea
+  tax_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  UNIQUE (invoice_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id);
+
+COMMENT ON TABLE dian_resolutions IS 'Rangos de numeración autorizados por la DIAN (facturas) y numeración propia de notas crédito';
+COMMENT ON COLUMN dian_resolutions.next_number IS 'Siguiente consecutivo; se asigna dentro de la transacción de la factura';
+COMMENT ON COLUMN invoices.cufe IS 'CUFE (factura) o CUDE (nota crédito): SHA-384 en hexadecimal';
+COMMENT ON COLUMN invoices.credited_invoice_id IS 'Factura que corrige esta nota crédito';
+COMMENT ON COLUMN invoices.dian_status IS 'Estado del envío al proveedor tecnológico';
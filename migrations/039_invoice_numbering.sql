@@ -0,0 +1,102 @@
+-- Migration: Gap-free document numbering
+-- Description: Each numbering prefix (SETP, NC, ...) gets one counter row that
+-- is locked and advanced inside the transaction that inserts the invoice or
+-- credit note, so a failed insert never consumes a number. The counter moves
+-- from dian_resolutions.next_number to the prefix so a renewed resolution
+-- keeps counting where the previous one stopped. Issued documents are voided
+-- with a linked credit note ('voided') and can no longer be deleted.
+
+-- ===========================================
+-- PER-PREFIX COUNTERS
+-- ===========================================
+CREATE TABLE IF NOT EXISTS numbering_sequences (
+  prefix VARCHAR(4) PRIMARY KEY,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  first_number BIGINT NOT NULL CHECK (first_number > 0),  -- Primer número emitido por la tienda
+  last_number BIGINT NOT NULL,                           -- Último número asignado
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT numbering_sequences_last_check CHECK (last_number >= first_number - 1),
+  UNIQUE (prefix, document_type)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_numbering_sequences_updated_at') THEN
+    CREATE TRIGGER update_numbering_sequences_updated_at
+      BEFORE UPDATE ON numbering_sequences
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Counters start from what was already issued under each prefix (or from the
+-- resolution's next_number when nothing was issued yet). next_number stays
+-- for migrations that run again but is no longer read or written.
+DO $$
+BEGIN
+  INSERT INTO numbering_sequences (prefix, document_type, first_number, last_number)
+  SELECT r.prefix,
+    MIN(r.document_type),
+    COALESCE((SELECT MIN(i.sequence_number) FROM invoices i WHERE i.prefix = r.prefix), MIN(COALESCE(r.next_number, r.range_from))),
+    GREATEST(
+      COALESCE((SELECT MAX(i.sequence_number) FROM invoices i WHERE i.prefix = r.prefix), 0),
+      MAX(COALESCE(r.next_number, r.range_from)) - 1
+    )
+  FROM dian_resolutions r
+  GROUP BY r.prefix
+  ON CONFLICT (prefix) DO NOTHING;
+
+  ALTER TABLE dian_resolutions DROP CONSTRAINT IF EXISTS dian_resolutions_next_check;
+  ALTER TABLE dian_resolutions ALTER COLUMN next_number DROP NOT NULL;
+
+  -- A resolution always numbers through the counter of its prefix, and a
+  -- prefix never mixes invoices with credit notes
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dian_resolutions_sequence_fkey') THEN
+    ALTER TABLE dian_resolutions ADD CONSTRAINT dian_resolutions_sequence_fkey
+      FOREIGN KEY (prefix, document_type) REFERENCES numbering_sequences(prefix, document_type);
+  END IF;
+END $$;
+
+-- ===========================================
+-- VOIDED STATUS
+-- ===========================================
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('draft', 'sent', 'paid', 'cancelled', 'voided'));
+
+-- Invoices already fully credited by refunds are voided
+UPDATE invoices i
+SET status = 'voided', updated_at = NOW()
+WHERE i.document_type = 'invoice' AND i.status <> 'voided'
+  AND i.total <= (
+    SELECT SUM(c.total) + 0.01
+    FROM invoices c
+    WHERE c.credited_invoice_id = i.id AND c.document_type = 'credit_note'
+  );
+
+-- A deleted document would leave a hole in the sequence (also blocks the
+-- ON DELETE CASCADE from orders)
+CREATE OR REPLACE FUNCTION prevent_numbered_invoice_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.sequence_number IS NOT NULL THEN
+        RAISE EXCEPTION 'El documento % tiene número fiscal y no se puede eliminar', OLD.invoice_number;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'prevent_numbered_invoice_delete') THEN
+    CREATE TRIGGER prevent_numbered_invoice_delete
+      BEFORE DELETE ON invoices
+      FOR EACH ROW EXECUTE FUNCTION prevent_numbered_invoice_delete();
+  END IF;
+END $$;
+
+COMMENT ON TABLE numbering_sequences IS 'Consecutivo por prefijo; se bloquea y avanza dentro de la transacción del documento';
+COMMENT ON COLUMN numbering_sequences.first_number IS 'Números anteriores se emitieron fuera de la tienda y no cuentan en la conciliación';
+COMMENT ON COLUMN dian_resolutions.next_number IS 'Obsoleto: el consecutivo vive en numbering_sequences';
+COMMENT ON COLUMN invoices.status IS 'voided: anulada con una nota crédito vinculada (credited_invoice_id)';
@@ -0,0 +1,227 @@
+-- Migration: Shipping carriers, zones and rates
+-- Description: Shipping cost is now quoted by shipping.service from the
+-- destination zone (department/city), the package weight (products.weight,
+-- in grams) and the declared value, for each carrier service that delivers there.
+-- Replaces the fixed standard/express/overnight prices in
+-- store_settings.shipping. Orders keep the service and weight they were
+-- quoted with.
+
+-- ===========================================
+-- CARRIERS AND SERVICES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS shipping_carriers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS shipping_services (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  carrier_id UUID NOT NULL REFERENCES shipping_carriers(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  delivery_days_min INTEGER NOT NULL CHECK (delivery_days_min >= 0),
+  delivery_days_max INTEGER NOT NULL,
+  cash_on_delivery BOOLEAN NOT NULL DEFAULT false,
+  free_shipping_eligible BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT shipping_services_days_check CHECK (delivery_days_max >= delivery_days_min)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_services_carrier ON shipping_services(carrier_id);
+
+-- ===========================================
+-- ZONES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  free_shipping_eligible BOOLEAN NOT NULL DEFAULT true,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one zone catches destinations that match no location
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_zones_default ON shipping_zones(is_default) WHERE is_default;
+
+-- Names are stored normalized (lowercase, no accents or punctuation) and a
+-- location belongs to a single zone
+CREATE TABLE IF NOT EXISTS shipping_zone_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  department VARCHAR(100) NOT NULL,
+  city VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_zone_locations_place
+  ON shipping_zone_locations(department, COALESCE(city, ''));
+CREATE INDEX IF NOT EXISTS idx_shipping_zone_locations_city
+  ON shipping_zone_locations(city) WHERE city IS NOT NULL;
+
+-- ===========================================
+-- RATES
+-- ===========================================
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id UUID NOT NULL REFERENCES shipping_services(id) ON DELETE CASCADE,
+  zone_id UUID NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  min_weight_g INTEGER NOT NULL DEFAULT 0 CHECK (min_weight_g >= 0),
+  max_weight_g INTEGER,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  extra_kg_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (extra_kg_price >= 0),
+  declared_value_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (declared_value_percent >= 0 AND declared_value_percent <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT shipping_rates_weight_check CHECK (max_weight_g IS NULL OR max_weight_g > min_weight_g),
+  UNIQUE (service_id, zone_id, min_weight_g)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone ON shipping_rates(zone_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_carriers_updated_at') THEN
+    CREATE TRIGGER update_shipping_carriers_updated_at
+      BEFORE UPDATE ON shipping_carriers
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_services_updated_at') THEN
+    CREATE TRIGGER update_shipping_services_updated_at
+      BEFORE UPDATE ON shipping_services
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_zones_updated_at') THEN
+    CREATE TRIGGER update_shipping_zones_updated_at
+      BEFORE UPDATE ON shipping_zones
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_rates_updated_at') THEN
+    CREATE TRIGGER update_shipping_rates_updated_at
+      BEFORE UPDATE ON shipping_rates
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ===========================================
+-- SEED DATA
+-- ===========================================
+INSERT INTO shipping_carriers (code, name, sort_order) VALUES
+  ('local', 'Mensajería Cartagena', 1),
+  ('servientrega', 'Servientrega', 2),
+  ('coordinadora', 'Coordinadora', 3),
+  ('interrapidisimo', 'Interrapidísimo', 4)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_services (carrier_id, code, name, delivery_days_min, delivery_days_max, cash_on_delivery, free_shipping_eligible, sort_order)
+SELECT c.id, v.code, v.name, v.days_min, v.days_max, v.cod, v.free, v.sort_order
+FROM (VALUES
+  ('local', 'local-same-day', 'Mensajería local (mismo día)', 0, 1, true, true, 1),
+  ('servientrega', 'servientrega-ground', 'Servientrega terrestre', 2, 5, true, true, 2),
+  ('coordinadora', 'coordinadora-ground', 'Coordinadora mercancía', 2, 4, true, false, 3),
+  ('interrapidisimo', 'interrapidisimo-express', 'Interrapidísimo express', 1, 2, false, false, 4)
+) AS v(carrier, code, name, days_min, days_max, cod, free, sort_order)
+JOIN shipping_carriers c ON c.code = v.carrier
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zones (code, name, is_default, free_shipping_eligible) VALUES
+  ('cartagena', 'Cartagena', false, true),
+  ('bolivar', 'Bolívar', false, true),
+  ('caribe', 'Costa Caribe', false, true),
+  ('nacional', 'Resto del país', true, true),
+  ('especial', 'Trayectos especiales', false, false)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zone_locations (zone_id, department, city)
+SELECT z.id, v.department, v.city
+FROM (VALUES
+  ('cartagena', 'bolivar', 'cartagena'),
+  ('cartagena', 'bolivar', 'cartagena de indias'),
+  ('bolivar', 'bolivar', NULL),
+  ('caribe', 'atlantico', NULL),
+  ('caribe', 'magdalena', NULL),
+  ('caribe', 'cesar', NULL),
+  ('caribe', 'la guajira', NULL),
+  ('caribe', 'guajira', NULL),
+  ('caribe', 'cordoba', NULL),
+  ('caribe', 'sucre', NULL),
+  ('especial', 'san andres y providencia', NULL),
+  ('especial', 'archipielago de san andres providencia y santa catalina', NULL),
+  ('especial', 'amazonas', NULL),
+  ('especial', 'guainia', NULL),
+  ('especial', 'guaviare', NULL),
+  ('especial', 'vaupes', NULL),
+  ('especial', 'vichada', NULL)
+) AS v(zone, department, city)
+JOIN shipping_zones z ON z.code = v.zone
+ON CONFLICT DO NOTHING;
+
+-- National services share weight bands; each zone scales the band price
+INSERT INTO shipping_rates (service_id, zone_id, min_weight_g, max_weight_g, price, extra_kg_price, declared_value_percent)
+SELECT s.id, z.id, b.min_weight_g, b.max_weight_g, ROUND(b.price * f.factor, -2), ROUND(b.extra_kg_price * f.factor, -2), b.declared_value_percent
+FROM (VALUES
+  ('servientrega-ground', 0, 1000, 9500, 0, 1.0),
+  ('servientrega-ground', 1000, 3000, 13500, 0, 1.0),
+  ('servientrega-ground', 3000, NULL, 13500, 3500, 1.0),
+  ('coordinadora-ground', 0, 1000, 10500, 0, 1.0),
+  ('coordinadora-ground', 1000, 3000, 14500, 0, 1.0),
+  ('coordinadora-ground', 3000, NULL, 14500, 3800, 1.0),
+  ('interrapidisimo-express', 0, 1000, 14000, 0, 1.0),
+  ('interrapidisimo-express', 1000, 3000, 19000, 0, 1.0),
+  ('interrapidisimo-express', 3000, NULL, 19000, 5000, 1.0)
+) AS b(service, min_weight_g, max_weight_g, price, extra_kg_price, declared_value_percent)
+CROSS JOIN (VALUES
+  ('cartagena', 0.7),
+  ('bolivar', 0.85),
+  ('caribe', 1.0),
+  ('nacional', 1.25),
+  ('especial', 2.2)
+) AS f(zone, factor)
+JOIN shipping_services s ON s.code = b.service
+JOIN shipping_zones z ON z.code = f.zone
+ON CONFLICT (service_id, zone_id, min_weight_g) DO NOTHING;
+
+-- The local courier only delivers in Cartagena
+INSERT INTO shipping_rates (service_id, zone_id, min_weight_g, max_weight_g, price, extra_kg_price)
+SELECT s.id, z.id, v.min_weight_g, v.max_weight_g, v.price, v.extra_kg_price
+FROM (VALUES
+  (0, 3000, 8000, 0),
+  (3000, NULL, 8000, 2000)
+) AS v(min_weight_g, max_weight_g, price, extra_kg_price)
+JOIN shipping_services s ON s.code = 'local-same-day'
+JOIN shipping_zones z ON z.code = 'cartagena'
+ON CONFLICT (service_id, zone_id, min_weight_g) DO NOTHING;
+
+-- ===========================================
+-- ORDERS
+-- ===========================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_service_id UUID REFERENCES shipping_services(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_weight_g INTEGER;
+
+-- Fixed method prices are no longer read
+UPDATE store_settings
+SET value = value - 'methods' - 'default_shipping_cost'
+WHERE key = 'shipping' AND (value ? 'methods' OR value ? 'default_shipping_cost');
+
+COMMENT ON TABLE shipping_zones IS 'Zonas de envío por departamento/ciudad; is_default recibe los destinos sin ubicación';
+COMMENT ON COLUMN shipping_zones.free_shipping_eligible IS 'Si la zona admite envío gratis por monto mínimo (store_settings.shipping)';
+COMMENT ON TABLE shipping_zone_locations IS 'Departamento y ciudad normalizados (minúsculas, sin tildes); city NULL = todo el departamento';
+COMMENT ON COLUMN shipping_rates.max_weight_g IS 'Peso máximo del rango en gramos; NULL = sin límite (cobra extra_kg_price por kilo adicional)';
+COMMENT ON COLUMN shipping_rates.extra_kg_price IS 'Valor por cada kilo (o fracción) sobre min_weight_g';
+COMMENT ON COLUMN shipping_rates.declared_value_percent IS 'Seguro / costo de manejo sobre el valor declarado (subtotal de productos)';
+COMMENT ON COLUMN shipping_services.free_shipping_eligible IS 'El servicio queda gratis cuando el pedido supera el umbral de envío gratis';
+COMMENT ON COLUMN orders.shipping_service_id IS 'Servicio de envío cotizado al crear la orden';
+COMMENT ON COLUMN orders.shipping_weight_g IS 'Peso del paquete en gramos usado para la cotización';
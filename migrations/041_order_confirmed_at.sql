@@ -0,0 +1,42 @@
+-- Migration: Order confirmation time
+-- Description: orders.confirmed_at records when an order entered 'confirmed'
+-- (set by a trigger on every path that changes the status), so the daily
+-- packing slips pick orders by confirmation day instead of updated_at, which
+-- moves with any later edit.
+
+-- ===========================================
+-- CONFIRMED AT
+-- ===========================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- Órdenes confirmadas antes de esta migración: la mejor aproximación es updated_at
+UPDATE orders
+SET confirmed_at = updated_at
+WHERE confirmed_at IS NULL
+  AND status IN ('confirmed', 'processing', 'shipped', 'delivered');
+
+CREATE OR REPLACE FUNCTION set_order_confirmed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- También si la orden salta directo a un estado posterior
+    IF NEW.status IN ('confirmed', 'processing', 'shipped', 'delivered')
+       AND NEW.confirmed_at IS NULL THEN
+        NEW.confirmed_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_order_confirmed_at') THEN
+    CREATE TRIGGER set_order_confirmed_at
+      BEFORE INSERT OR UPDATE OF status ON orders
+      FOR EACH ROW EXECUTE FUNCTION set_order_confirmed_at();
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_confirmed_at ON orders(confirmed_at) WHERE confirmed_at IS NOT NULL;
+
+COMMENT ON COLUMN orders.confirmed_at IS 'Primera vez que la orden pasó a confirmed; define el día de empaque';
@@ -0,0 +1,20 @@
+-- Migration: Commission rules by earner type
+-- Description: Global commission rules (team_member_id NULL) now say whether
+-- they apply to the internal team or to referral sellers. Existing global
+-- rules were written for the team, so they stay team-only and no longer
+-- change the rate of seller commissions.
+
+-- ===========================================
+-- EARNER TYPE
+-- ===========================================
+ALTER TABLE commission_rules ADD COLUMN IF NOT EXISTS earner_type VARCHAR(20) NOT NULL DEFAULT 'team';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'commission_rules_earner_type_check') THEN
+    ALTER TABLE commission_rules ADD CONSTRAINT commission_rules_earner_type_check
+      CHECK (earner_type IN ('team', 'seller'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN commission_rules.earner_type IS 'Reglas globales: team (equipo interno) o seller (vendedores referidos); las del miembro aplican solo a él';